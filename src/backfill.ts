@@ -0,0 +1,210 @@
+import { promises as fs } from "node:fs";
+import { dirname } from "node:path";
+import { parseArgs } from "node:util";
+import { ConfigError, getConfig } from "./config";
+import { fetchEventsBetween } from "./opensea";
+import type { OpenSeaAssetEvent } from "./types";
+import { runWithCollection } from "./utils/collection-store";
+import { MS_PER_SECOND, SECONDS_PER_MINUTE } from "./utils/constants";
+import { effectiveEventTypeFor } from "./utils/event-types";
+import { acquireInstanceLocks, type InstanceLock } from "./utils/instance-lock";
+import { prefixedLogger } from "./utils/logger";
+import { formatReadableDate, unixTimestamp } from "./utils/utils";
+
+const log = prefixedLogger("Backfill");
+
+const DEFAULT_RATE_PER_MINUTE = 10;
+// Grace period after the last settle window for grouped posts to go out
+const DRAIN_MARGIN_MS = 5000;
+const DRAIN_TICK_MS = 1000;
+const UNIX_SECONDS = /^\d+$/;
+
+export type BackfillOptions = {
+  from: number;
+  to: number;
+  // Writes events to this JSON file instead of posting them
+  out?: string;
+  post: boolean;
+  // Logs what would be posted without posting
+  dryRun: boolean;
+  ratePerMinute: number;
+};
+
+// Hands events to every platform, as the live poll loop does
+type Dispatch = (events: OpenSeaAssetEvent[]) => void;
+
+// Unix seconds or an ISO 8601 date, as unix seconds
+export const timestampArg = (
+  issues: string[],
+  name: string,
+  value: string | undefined
+): number | undefined => {
+  if (value === undefined) {
+    return;
+  }
+  if (UNIX_SECONDS.test(value)) {
+    return Number(value);
+  }
+  const ms = Date.parse(value);
+  if (Number.isNaN(ms)) {
+    issues.push(
+      `--${name}: expected unix seconds or an ISO 8601 date (got "${value}")`
+    );
+    return;
+  }
+  return Math.floor(ms / MS_PER_SECOND);
+};
+
+const parseBackfillValues = (args: string[]) =>
+  parseArgs({
+    args,
+    options: {
+      from: { type: "string" },
+      to: { type: "string" },
+      out: { type: "string" },
+      post: { type: "boolean" },
+      "dry-run": { type: "boolean" },
+      rate: { type: "string" },
+    },
+  }).values;
+
+/**
+ * Parses `backfill` arguments, throwing a ConfigError that lists every
+ * problem.
+ */
+export const parseBackfillArgs = (args: string[]): BackfillOptions => {
+  let values: ReturnType<typeof parseBackfillValues>;
+  try {
+    values = parseBackfillValues(args);
+  } catch (error) {
+    throw new ConfigError([(error as Error).message]);
+  }
+  const issues: string[] = [];
+  const from = timestampArg(issues, "from", values.from);
+  const to = timestampArg(issues, "to", values.to) ?? unixTimestamp(new Date());
+  if (values.from === undefined) {
+    issues.push("--from: required");
+  }
+  if (from !== undefined && from >= to) {
+    issues.push("--from: must be before --to");
+  }
+  if (Boolean(values.out) === Boolean(values.post)) {
+    issues.push("choose one of --out <file> or --post");
+  }
+  if (values["dry-run"] && !values.post) {
+    issues.push("--dry-run: only applies with --post");
+  }
+  const ratePerMinute = Number(values.rate ?? DEFAULT_RATE_PER_MINUTE);
+  if (!(Number.isFinite(ratePerMinute) && ratePerMinute > 0)) {
+    issues.push(`--rate: expected a positive number (got "${values.rate}")`);
+  }
+  if (issues.length > 0) {
+    throw new ConfigError(issues);
+  }
+  return {
+    from: from ?? 0,
+    to,
+    out: values.out,
+    post: values.post ?? false,
+    dryRun: values["dry-run"] ?? false,
+    ratePerMinute,
+  };
+};
+
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// Longest a grouped post can wait before it is sent
+const drainMs = (): number => {
+  const { twitter, discord, telegram, webhook } = getConfig();
+  return (
+    Math.max(
+      twitter.group.settleMs,
+      discord.group.settleMs,
+      telegram.group.settleMs,
+      webhook.group.settleMs
+    ) + DRAIN_MARGIN_MS
+  );
+};
+
+const describeEvent = (event: OpenSeaAssetEvent): string => {
+  const nft = event.nft ?? event.asset;
+  const token = nft?.identifier ? ` #${nft.identifier}` : "";
+  return `${effectiveEventTypeFor(event)}${token} at ${formatReadableDate(event.event_timestamp)}`;
+};
+
+const postEvents = async (
+  events: OpenSeaAssetEvent[],
+  options: BackfillOptions,
+  dispatch: Dispatch
+): Promise<void> => {
+  const intervalMs =
+    (SECONDS_PER_MINUTE * MS_PER_SECOND) / options.ratePerMinute;
+  for (const [index, event] of events.entries()) {
+    if (options.dryRun) {
+      log.info(`[Dry run] Would post ${describeEvent(event)}`);
+      continue;
+    }
+    log.info(`Posting ${index + 1}/${events.length}: ${describeEvent(event)}`);
+    dispatch([event]);
+    await sleep(intervalMs);
+  }
+  if (options.dryRun || events.length === 0) {
+    return;
+  }
+  // Platforms send grouped posts once they settle, on a later call
+  const deadline = Date.now() + drainMs();
+  while (Date.now() < deadline) {
+    dispatch([]);
+    await sleep(DRAIN_TICK_MS);
+  }
+};
+
+/**
+ * Takes the instance locks before a backfill posts, as it shares the
+ * outboxes and state directory with the live bot. Never waits for a
+ * running bot: returns undefined when one holds a lock.
+ */
+export const lockForBackfill = (): Promise<InstanceLock[] | undefined> => {
+  const { collections, state, lock } = getConfig();
+  if (lock.mode === "off") {
+    return Promise.resolve([]);
+  }
+  return acquireInstanceLocks(collections, state.dir, {
+    ...lock,
+    mode: "exit",
+  });
+};
+
+/**
+ * Fetches each collection's events in the time range and either writes
+ * them to a file or posts them through `dispatch` at the rate cap. The live
+ * poll cursor and dedupe state are never touched.
+ */
+export const runBackfill = async (
+  options: BackfillOptions,
+  dispatch: Dispatch
+): Promise<number> => {
+  const exported: OpenSeaAssetEvent[] = [];
+  let total = 0;
+  for (const collection of getConfig().collections) {
+    await runWithCollection(collection, async () => {
+      const events = await fetchEventsBetween(options.from, options.to);
+      log.info(
+        `Found ${events.length} events between ${formatReadableDate(options.from)} and ${formatReadableDate(options.to)}`
+      );
+      total += events.length;
+      if (options.out) {
+        exported.push(...events);
+      } else {
+        await postEvents(events, options, dispatch);
+      }
+    });
+  }
+  if (options.out) {
+    await fs.mkdir(dirname(options.out), { recursive: true });
+    await fs.writeFile(options.out, JSON.stringify(exported, null, 2), "utf8");
+    log.info(`Wrote ${exported.length} events to ${options.out}`);
+  }
+  return total;
+};
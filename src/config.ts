@@ -0,0 +1,1653 @@
+import { readFileSync } from "node:fs";
+import { extname } from "node:path";
+import { parse as parseYaml } from "yaml";
+import { allBotEvents, type BotEvent } from "./types";
+import {
+  DEFAULT_SETTLE_MS,
+  MIN_GROUP_SIZE,
+  SECONDS_PER_MINUTE,
+} from "./utils/constants";
+import {
+  type Level,
+  type LogFormat,
+  setLogFormat,
+  setLogLevel,
+} from "./utils/logger";
+
+/**
+ * Bot configuration.
+ *
+ * Settings come from an optional JSON or YAML file (CONFIG_FILE) with
+ * environment variables layered on top, then validated as a whole so every
+ * problem is reported at startup instead of surfacing mid-poll.
+ * Secrets (API keys and tokens) are read from the environment only.
+ */
+
+export type LogLevel = Level;
+
+// Discord channels also accept the specific offer kinds
+export type DiscordEventType = BotEvent | "trait_offer" | "collection_offer";
+
+// Inclusive token id range
+export type TokenIdRange = { min: bigint; max: bigint };
+
+export type TraitRule = { type: string; value: string };
+
+/**
+ * Extra conditions an event must meet to be posted to a target.
+ * Every rule that is set must match; token id ranges and traits match when
+ * any one of the listed entries does. Floor rules compare the price as a
+ * percentage of the collection floor (90 = 10% below floor).
+ */
+export type FilterRules = {
+  minPriceETH?: number;
+  maxPriceETH?: number;
+  minFloorPercent?: number;
+  maxFloorPercent?: number;
+  tokenIds?: TokenIdRange[];
+  traits?: TraitRule[];
+};
+
+export type DiscordChannelConfig = {
+  channelId: string;
+  events: DiscordEventType[];
+  filters?: FilterRules;
+};
+
+// Telegram chats accept the same event types and filters as Discord channels
+export type TelegramChatConfig = {
+  chatId: string;
+  events: DiscordEventType[];
+  filters?: FilterRules;
+};
+
+// Webhook endpoints accept the same event types and filters as well
+export type WebhookConfig = {
+  url: string;
+  events: DiscordEventType[];
+  filters?: FilterRules;
+};
+
+export type CollectionConfig = {
+  tokenAddress: string;
+  chain: string;
+  minOfferETH: string;
+  discordChannels: DiscordChannelConfig[];
+  telegramChats: TelegramChatConfig[];
+  webhooks: WebhookConfig[];
+  twitterEvents: BotEvent[];
+  twitterFilters?: FilterRules;
+};
+
+export type GroupingConfig = {
+  settleMs: number;
+  minGroupSize: number;
+};
+
+export type PriceSourceName = "http" | "static";
+
+export type FiatConfig = {
+  // ISO 4217 code; fiat values are only shown when set
+  currency?: string;
+  source: PriceSourceName;
+  // HTTP source: URL template with {symbol}, {address} and {currency}, and
+  // the dot path of the rate in its JSON response
+  url: string;
+  path: string;
+  // Static source: rate per token symbol or token address
+  rates: Record<string, number>;
+  cacheSeconds: number;
+  // HTTP source: request timeout; a slow lookup falls back to no fiat value
+  timeoutMs: number;
+};
+
+export type RarityConfig = {
+  // Event types whose posts show rarity rank and notable traits
+  events: DiscordEventType[];
+  // How many of the rarest traits to show
+  traitCount: number;
+  // Whether tweets include rarity as well as Discord embeds
+  tweets: boolean;
+};
+
+export type FloorConfig = {
+  // Event types whose posts show the price relative to the floor
+  events: DiscordEventType[];
+  // How long fetched collection stats are reused
+  refreshSeconds: number;
+};
+
+export type LastSaleConfig = {
+  // Where sale posts show the token's previous sale and flip profit
+  discord: boolean;
+  tweets: boolean;
+};
+
+export type RpcConfig = {
+  // JSON-RPC endpoint to read Transfer logs from; unset disables on-chain
+  // ingestion
+  url?: string;
+  // Most blocks read per getLogs request
+  blockRange: number;
+  // Blocks to stay behind the chain head so reorged logs are not posted
+  confirmations: number;
+  // First block to read when the state file has no progress yet
+  startBlock?: number;
+};
+
+export type DryRunConfig = {
+  // Render Discord embeds and tweets without sending anything
+  enabled: boolean;
+  // JSONL file the rendered posts are appended to; stdout when unset
+  file?: string;
+};
+
+export type HealthConfig = {
+  // Port serving /healthz, /readyz and /metrics; unset disables the server
+  port?: number;
+  // How long polling may go without a successful fetch before the bot
+  // reports itself unhealthy
+  maxFailingSeconds: number;
+};
+
+export type StateBackendName = "json" | "sqlite";
+
+export type SummaryPeriod = "daily" | "weekly";
+
+export type SummaryConfig = {
+  // Digests to post; none disables summaries
+  periods: SummaryPeriod[];
+  // Hour of the day (0-23) in `timeZone` a period ends and is posted
+  hour: number;
+  timeZone: string;
+  // Day of the week weekly summaries are posted (0 = Sunday)
+  weekday: number;
+  discordChannelId?: string;
+  tweet: boolean;
+};
+
+export type LeaderboardRanking = "count" | "volume";
+
+export type LeaderboardConfig = {
+  // Rolling windows ranked, as durations such as "24h" or "7d"
+  windows: string[];
+  // Wallets listed per ranking
+  size: number;
+  rankBy: LeaderboardRanking;
+  // Channel the leaderboard is posted to every `intervalHours`; unset
+  // disables posting
+  discordChannelId?: string;
+  intervalHours: number;
+};
+
+export type LockMode = "exit" | "standby" | "off";
+
+export type LockConfig = {
+  // What to do when another instance holds a collection's lock
+  mode: LockMode;
+  heartbeatSeconds: number;
+  // A lock whose heartbeat is older than this can be taken over
+  staleSeconds: number;
+};
+
+export type BotConfig = {
+  // Path of the config file these settings were loaded from, if any
+  file?: string;
+  pollIntervalSeconds: number;
+  logLevel: LogLevel;
+  logFormat: LogFormat;
+  opensea: {
+    maxPages: number;
+    eventLagWindowSeconds: number;
+    lastEventTimestamp?: number;
+    // Receive events over OpenSea Stream, with polling kept to reconcile
+    stream: boolean;
+    streamUrl: string;
+    streamReconnectMs: number;
+  };
+  state: {
+    dir: string;
+    // Where event state is kept in `dir`: a JSON file per collection or
+    // one SQLite database
+    backend: StateBackendName;
+    dedupeWindowMinutes: number;
+    // Keep every processed event in a queryable history database
+    history: boolean;
+  };
+  twitter: {
+    prependTweet?: string;
+    appendTweet?: string;
+    queueDelayMs: number;
+    backoffBaseMs: number;
+    backoffMaxMs: number;
+    processingTimeoutMs: number;
+    group: GroupingConfig;
+  };
+  discord: {
+    group: GroupingConfig;
+    // Register slash commands in the servers of the configured channels
+    commands: boolean;
+  };
+  telegram: {
+    apiUrl: string;
+    queueDelayMs: number;
+    group: GroupingConfig;
+  };
+  webhook: {
+    timeoutMs: number;
+    queueDelayMs: number;
+    group: GroupingConfig;
+  };
+  fiat: FiatConfig;
+  rarity: RarityConfig;
+  floor: FloorConfig;
+  lastSale: LastSaleConfig;
+  rpc: RpcConfig;
+  dryRun: DryRunConfig;
+  health: HealthConfig;
+  lock: LockConfig;
+  summary: SummaryConfig;
+  leaderboard: LeaderboardConfig;
+  collections: CollectionConfig[];
+};
+
+export class ConfigError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(
+      `Invalid configuration:\n${issues.map((issue) => `  - ${issue}`).join("\n")}`
+    );
+    this.name = "ConfigError";
+    this.issues = issues;
+  }
+}
+
+const DEFAULT_POLL_INTERVAL_SECONDS = 60;
+const DEFAULT_MAX_PAGES = 100;
+const DEFAULT_EVENT_LAG_WINDOW_SECONDS = 120;
+const DEFAULT_STREAM_URL = "wss://stream.openseabeta.com/socket/websocket";
+const DEFAULT_STREAM_RECONNECT_MS = 5000;
+const DEFAULT_STATE_DIR = ".state";
+const DEFAULT_DEDUPE_WINDOW_MINUTES = 60;
+const DEFAULT_TWEET_DELAY_MS = 3000;
+const DEFAULT_BACKOFF_BASE_MS = 15_000;
+const DEFAULT_BACKOFF_MAX_MS = 15 * 60 * 1000;
+const DEFAULT_PROCESSING_TIMEOUT_MS = 2 * 60 * 1000;
+export const DEFAULT_CHAIN = "ethereum";
+const DEFAULT_TELEGRAM_API_URL = "https://api.telegram.org";
+// Telegram allows about one message per second to the same chat
+const DEFAULT_TELEGRAM_DELAY_MS = 1000;
+const DEFAULT_WEBHOOK_TIMEOUT_MS = 10_000;
+const DEFAULT_WEBHOOK_DELAY_MS = 0;
+const DEFAULT_PRICE_URL =
+  "https://api.coinbase.com/v2/prices/{symbol}-{currency}/spot";
+const DEFAULT_PRICE_PATH = "data.amount";
+const DEFAULT_PRICE_CACHE_SECONDS = 300;
+const DEFAULT_PRICE_TIMEOUT_MS = 5000;
+const DEFAULT_RARITY_TRAIT_COUNT = 3;
+const DEFAULT_FLOOR_REFRESH_SECONDS = 300;
+const DEFAULT_RPC_BLOCK_RANGE = 500;
+const DEFAULT_RPC_CONFIRMATIONS = 2;
+const DEFAULT_HEALTH_MAX_FAILING_SECONDS = 600;
+const DEFAULT_LOCK_HEARTBEAT_SECONDS = 10;
+const DEFAULT_LOCK_STALE_SECONDS = 60;
+const DEFAULT_LEADERBOARD_WINDOWS = ["24h", "7d", "30d"];
+const DEFAULT_LEADERBOARD_SIZE = 5;
+const DEFAULT_LEADERBOARD_INTERVAL_HOURS = 24;
+// A lock must survive a missed heartbeat before it goes stale
+const LOCK_STALE_MIN_HEARTBEATS = 2;
+const MAX_PORT = 65_535;
+
+const LOG_LEVELS: readonly LogLevel[] = ["debug", "info", "warn", "error"];
+const LOG_FORMATS: readonly LogFormat[] = ["text", "json"];
+const LOCK_MODES: readonly LockMode[] = ["exit", "standby", "off"];
+const STATE_BACKENDS: readonly StateBackendName[] = ["json", "sqlite"];
+const SUMMARY_PERIODS: readonly SummaryPeriod[] = ["daily", "weekly"];
+const WEEKDAYS = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+];
+const LAST_HOUR = 23;
+const LEADERBOARD_RANKINGS: readonly LeaderboardRanking[] = ["count", "volume"];
+// "30m", "24h", "7d" or "2w"
+const DURATION = /^(\d+)([mhdw])$/;
+const SECONDS_PER_UNIT: Record<string, number> = {
+  m: SECONDS_PER_MINUTE,
+  h: 60 * SECONDS_PER_MINUTE,
+  d: 24 * 60 * SECONDS_PER_MINUTE,
+  w: 7 * 24 * 60 * SECONDS_PER_MINUTE,
+};
+const DISCORD_EVENT_TYPES: readonly DiscordEventType[] = [
+  ...allBotEvents,
+  "trait_offer",
+  "collection_offer",
+];
+const DISCORD_SNOWFLAKE = /^\d{17,20}$/;
+// Numeric chat id (negative for groups and channels) or @channelusername
+const TELEGRAM_CHAT_ID = /^(-?\d+|@[A-Za-z][A-Za-z0-9_]{4,31})$/;
+const PRICE_SOURCES: readonly PriceSourceName[] = ["http", "static"];
+const CURRENCY_CODE = /^[A-Z]{3}$/;
+const HTTP_URL = /^https?:\/\/\S+$/;
+const DECIMAL = /^\d+(\.\d+)?$/;
+
+// Env vars and the config path each one overrides
+const ENV_OVERRIDES: readonly [env: string, path: string][] = [
+  ["OPENSEA_BOT_INTERVAL", "pollIntervalSeconds"],
+  ["LOG_LEVEL", "logLevel"],
+  ["LOG_FORMAT", "logFormat"],
+  ["OPENSEA_MAX_PAGES", "opensea.maxPages"],
+  ["OPENSEA_EVENT_LAG_WINDOW", "opensea.eventLagWindowSeconds"],
+  ["LAST_EVENT_TIMESTAMP", "opensea.lastEventTimestamp"],
+  ["OPENSEA_STREAM", "opensea.stream"],
+  ["OPENSEA_STREAM_URL", "opensea.streamUrl"],
+  ["OPENSEA_STREAM_RECONNECT_MS", "opensea.streamReconnectMs"],
+  ["EVENT_STATE_DIR", "state.dir"],
+  ["EVENT_STATE_BACKEND", "state.backend"],
+  ["EVENT_DEDUPE_WINDOW_MINUTES", "state.dedupeWindowMinutes"],
+  ["EVENT_HISTORY", "state.history"],
+  ["TWITTER_PREPEND_TWEET", "twitter.prependTweet"],
+  ["TWITTER_APPEND_TWEET", "twitter.appendTweet"],
+  ["TWITTER_QUEUE_DELAY_MS", "twitter.queueDelayMs"],
+  ["TWITTER_BACKOFF_BASE_MS", "twitter.backoffBaseMs"],
+  ["TWITTER_BACKOFF_MAX_MS", "twitter.backoffMaxMs"],
+  ["TWITTER_PROCESSING_TIMEOUT_MS", "twitter.processingTimeoutMs"],
+  ["TWITTER_EVENT_GROUP_MIN_GROUP_SIZE", "twitter.group.minGroupSize"],
+  ["TWITTER_EVENT_GROUP_SETTLE_MS", "twitter.group.settleMs"],
+  ["DISCORD_EVENT_GROUP_MIN_GROUP_SIZE", "discord.group.minGroupSize"],
+  ["DISCORD_EVENT_GROUP_SETTLE_MS", "discord.group.settleMs"],
+  ["DISCORD_COMMANDS", "discord.commands"],
+  ["TELEGRAM_API_URL", "telegram.apiUrl"],
+  ["TELEGRAM_QUEUE_DELAY_MS", "telegram.queueDelayMs"],
+  ["TELEGRAM_EVENT_GROUP_MIN_GROUP_SIZE", "telegram.group.minGroupSize"],
+  ["TELEGRAM_EVENT_GROUP_SETTLE_MS", "telegram.group.settleMs"],
+  ["WEBHOOK_TIMEOUT_MS", "webhook.timeoutMs"],
+  ["WEBHOOK_QUEUE_DELAY_MS", "webhook.queueDelayMs"],
+  ["WEBHOOK_EVENT_GROUP_MIN_GROUP_SIZE", "webhook.group.minGroupSize"],
+  ["WEBHOOK_EVENT_GROUP_SETTLE_MS", "webhook.group.settleMs"],
+  ["FIAT_CURRENCY", "fiat.currency"],
+  ["FIAT_PRICE_SOURCE", "fiat.source"],
+  ["FIAT_PRICE_URL", "fiat.url"],
+  ["FIAT_PRICE_PATH", "fiat.path"],
+  ["FIAT_STATIC_RATES", "fiat.rates"],
+  ["FIAT_CACHE_SECONDS", "fiat.cacheSeconds"],
+  ["FIAT_TIMEOUT_MS", "fiat.timeoutMs"],
+  ["RARITY_EVENTS", "rarity.events"],
+  ["RARITY_TRAIT_COUNT", "rarity.traitCount"],
+  ["RARITY_IN_TWEETS", "rarity.tweets"],
+  ["FLOOR_EVENTS", "floor.events"],
+  ["FLOOR_REFRESH_SECONDS", "floor.refreshSeconds"],
+  ["LAST_SALE_IN_DISCORD", "lastSale.discord"],
+  ["LAST_SALE_IN_TWEETS", "lastSale.tweets"],
+  ["RPC_URL", "rpc.url"],
+  ["RPC_BLOCK_RANGE", "rpc.blockRange"],
+  ["RPC_CONFIRMATIONS", "rpc.confirmations"],
+  ["RPC_START_BLOCK", "rpc.startBlock"],
+  ["DRY_RUN", "dryRun.enabled"],
+  ["DRY_RUN_FILE", "dryRun.file"],
+  ["HEALTH_PORT", "health.port"],
+  ["HEALTH_MAX_FAILING_SECONDS", "health.maxFailingSeconds"],
+  ["LOCK_MODE", "lock.mode"],
+  ["LOCK_HEARTBEAT_SECONDS", "lock.heartbeatSeconds"],
+  ["LOCK_STALE_SECONDS", "lock.staleSeconds"],
+  ["SUMMARY_PERIODS", "summary.periods"],
+  ["SUMMARY_HOUR", "summary.hour"],
+  ["SUMMARY_TIME_ZONE", "summary.timeZone"],
+  ["SUMMARY_WEEKDAY", "summary.weekday"],
+  ["SUMMARY_DISCORD_CHANNEL", "summary.discordChannelId"],
+  ["SUMMARY_TWEET", "summary.tweet"],
+  ["LEADERBOARD_WINDOWS", "leaderboard.windows"],
+  ["LEADERBOARD_SIZE", "leaderboard.size"],
+  ["LEADERBOARD_RANK_BY", "leaderboard.rankBy"],
+  ["LEADERBOARD_DISCORD_CHANNEL", "leaderboard.discordChannelId"],
+  ["LEADERBOARD_INTERVAL_HOURS", "leaderboard.intervalHours"],
+  ["TOKEN_ADDRESS", "tokenAddress"],
+  ["CHAIN", "chain"],
+  ["MIN_OFFER_ETH", "minOfferETH"],
+  ["DISCORD_EVENTS", "discordEvents"],
+  ["TWITTER_EVENTS", "twitterEvents"],
+  ["TELEGRAM_EVENTS", "telegramEvents"],
+  ["WEBHOOKS", "webhooks"],
+  ["COLLECTIONS", "collections"],
+];
+
+type RawConfig = Record<string, unknown>;
+
+type Context = {
+  issues: string[];
+  // Config paths that were set from an env var, for error messages
+  origins: Map<string, string>;
+};
+
+const label = (ctx: Context, path: string): string => {
+  const env = ctx.origins.get(path);
+  return env ? `${path} (${env})` : path;
+};
+
+const isRecord = (value: unknown): value is RawConfig =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const getPath = (raw: RawConfig, path: string): unknown => {
+  let value: unknown = raw;
+  for (const part of path.split(".")) {
+    if (!isRecord(value)) {
+      return;
+    }
+    value = value[part];
+  }
+  return value;
+};
+
+const setPath = (raw: RawConfig, path: string, value: unknown): void => {
+  const parts = path.split(".");
+  let target = raw;
+  for (const part of parts.slice(0, -1)) {
+    if (!isRecord(target[part])) {
+      target[part] = {};
+    }
+    target = target[part] as RawConfig;
+  }
+  target[parts.at(-1) as string] = value;
+};
+
+type NumberOptions = { fallback: number; min: number; integer?: boolean };
+
+const readNumber = (
+  ctx: Context,
+  raw: RawConfig,
+  path: string,
+  options: NumberOptions
+): number => numberAt(ctx, getPath(raw, path), path, options);
+
+const numberAt = (
+  ctx: Context,
+  value: unknown,
+  path: string,
+  options: NumberOptions
+): number => {
+  if (value === undefined || value === "") {
+    return options.fallback;
+  }
+  const parsed = typeof value === "string" ? Number(value) : value;
+  if (typeof parsed !== "number" || Number.isNaN(parsed)) {
+    ctx.issues.push(
+      `${label(ctx, path)}: expected a number (got ${JSON.stringify(value)})`
+    );
+    return options.fallback;
+  }
+  if (options.integer && !Number.isInteger(parsed)) {
+    ctx.issues.push(`${label(ctx, path)}: must be a whole number`);
+    return options.fallback;
+  }
+  if (parsed < options.min) {
+    const bound = options.min === 0 ? "negative" : `less than ${options.min}`;
+    ctx.issues.push(
+      `${label(ctx, path)}: must not be ${bound} (got ${parsed})`
+    );
+    return options.fallback;
+  }
+  return parsed;
+};
+
+const readString = (
+  ctx: Context,
+  raw: RawConfig,
+  path: string
+): string | undefined => {
+  const value = getPath(raw, path);
+  if (value === undefined) {
+    return;
+  }
+  if (typeof value !== "string") {
+    ctx.issues.push(`${label(ctx, path)}: expected a string`);
+    return;
+  }
+  return value;
+};
+
+const readLogLevel = (ctx: Context, raw: RawConfig): LogLevel => {
+  const value = readString(ctx, raw, "logLevel");
+  if (value === undefined || value === "") {
+    return "info";
+  }
+  if (!(LOG_LEVELS as readonly string[]).includes(value)) {
+    ctx.issues.push(
+      `${label(ctx, "logLevel")}: unknown level "${value}" (allowed: ${LOG_LEVELS.join(", ")})`
+    );
+    return "info";
+  }
+  return value as LogLevel;
+};
+
+const readLogFormat = (ctx: Context, raw: RawConfig): LogFormat => {
+  const value = readString(ctx, raw, "logFormat");
+  if (value === undefined || value === "") {
+    return "text";
+  }
+  if (!(LOG_FORMATS as readonly string[]).includes(value)) {
+    ctx.issues.push(
+      `${label(ctx, "logFormat")}: unknown format "${value}" (allowed: ${LOG_FORMATS.join(", ")})`
+    );
+    return "text";
+  }
+  return value as LogFormat;
+};
+
+const readBoolean = (
+  ctx: Context,
+  raw: RawConfig,
+  path: string,
+  fallback: boolean
+): boolean => {
+  const value = getPath(raw, path);
+  if (value === undefined || value === "") {
+    return fallback;
+  }
+  if (typeof value === "boolean") {
+    return value;
+  }
+  if (value === "true" || value === "1") {
+    return true;
+  }
+  if (value === "false" || value === "0") {
+    return false;
+  }
+  ctx.issues.push(
+    `${label(ctx, path)}: expected true or false (got ${JSON.stringify(value)})`
+  );
+  return fallback;
+};
+
+const splitList = (value: string): string[] =>
+  value
+    .split(",")
+    .map((s) => s.trim())
+    .filter((s) => s.length > 0);
+
+const readEventList = <T extends string>(
+  ctx: Context,
+  value: unknown,
+  path: string,
+  allowed: readonly T[]
+): T[] => {
+  let items: unknown[];
+  if (typeof value === "string") {
+    items = splitList(value);
+  } else if (Array.isArray(value)) {
+    items = value;
+  } else {
+    ctx.issues.push(
+      `${label(ctx, path)}: expected a list of event types or a comma-separated string`
+    );
+    return [];
+  }
+  const events: T[] = [];
+  for (const item of items) {
+    if (
+      typeof item !== "string" ||
+      !(allowed as readonly string[]).includes(item)
+    ) {
+      ctx.issues.push(
+        `${label(ctx, path)}: unknown event type ${JSON.stringify(item)} (allowed: ${allowed.join(", ")})`
+      );
+      continue;
+    }
+    events.push(item as T);
+  }
+  return events;
+};
+
+const FILTER_KEYS = [
+  "minPriceETH",
+  "maxPriceETH",
+  "minFloorPercent",
+  "maxFloorPercent",
+  "tokenIds",
+  "traits",
+];
+const TOKEN_ID_RANGE = /^(\d+)(?:\s*-\s*(\d+))?$/;
+
+const readTokenIds = (
+  ctx: Context,
+  value: unknown,
+  path: string
+): TokenIdRange[] => {
+  let items: unknown[];
+  if (typeof value === "string") {
+    items = splitList(value);
+  } else if (Array.isArray(value)) {
+    items = value;
+  } else {
+    ctx.issues.push(
+      `${path}: expected a list of ids or ranges (e.g. "0-999,1500")`
+    );
+    return [];
+  }
+  const ranges: TokenIdRange[] = [];
+  for (const item of items) {
+    const match = TOKEN_ID_RANGE.exec(String(item).trim());
+    if (!match || typeof item === "object") {
+      ctx.issues.push(
+        `${path}: invalid token id or range ${JSON.stringify(item)}`
+      );
+      continue;
+    }
+    const min = BigInt(match[1]);
+    const max = match[2] === undefined ? min : BigInt(match[2]);
+    if (max < min) {
+      ctx.issues.push(`${path}: range "${item}" ends before it starts`);
+      continue;
+    }
+    ranges.push({ min, max });
+  }
+  return ranges;
+};
+
+const traitFromEntry = (
+  ctx: Context,
+  path: string,
+  type: string,
+  value: unknown
+): TraitRule | undefined => {
+  if (typeof value !== "string" && typeof value !== "number") {
+    ctx.issues.push(`${path}.${type}: expected a trait value`);
+    return;
+  }
+  return { type, value: String(value) };
+};
+
+const traitFromString = (
+  ctx: Context,
+  path: string,
+  item: unknown
+): TraitRule | undefined => {
+  const [type, value] = typeof item === "string" ? item.split("=") : [];
+  if (!(type?.trim() && value?.trim())) {
+    ctx.issues.push(
+      `${path}: invalid trait ${JSON.stringify(item)} (expected "Type=Value")`
+    );
+    return;
+  }
+  return { type: type.trim(), value: value.trim() };
+};
+
+/**
+ * Accepts a list of "Type=Value" strings or a map of trait type to one or
+ * more values.
+ */
+const readTraits = (
+  ctx: Context,
+  value: unknown,
+  path: string
+): TraitRule[] => {
+  let traits: (TraitRule | undefined)[] = [];
+  if (Array.isArray(value)) {
+    traits = value.map((item) => traitFromString(ctx, path, item));
+  } else if (isRecord(value)) {
+    traits = Object.entries(value).flatMap(([type, values]) =>
+      (Array.isArray(values) ? values : [values]).map((traitValue) =>
+        traitFromEntry(ctx, path, type, traitValue)
+      )
+    );
+  } else {
+    ctx.issues.push(`${path}: expected a list or map of traits`);
+  }
+  return traits.filter((trait): trait is TraitRule => trait !== undefined);
+};
+
+const readFilters = (
+  ctx: Context,
+  value: unknown,
+  path: string
+): FilterRules | undefined => {
+  if (value === undefined) {
+    return;
+  }
+  if (!isRecord(value)) {
+    ctx.issues.push(`${path}: expected an object`);
+    return;
+  }
+  for (const key of Object.keys(value)) {
+    if (!FILTER_KEYS.includes(key)) {
+      ctx.issues.push(
+        `${path}: unknown filter "${key}" (allowed: ${FILTER_KEYS.join(", ")})`
+      );
+    }
+  }
+  const bound = (key: string) =>
+    value[key] === undefined
+      ? undefined
+      : numberAt(ctx, value[key], `${path}.${key}`, {
+          fallback: 0,
+          min: 0,
+        });
+  const filters: FilterRules = {
+    minPriceETH: bound("minPriceETH"),
+    maxPriceETH: bound("maxPriceETH"),
+    minFloorPercent: bound("minFloorPercent"),
+    maxFloorPercent: bound("maxFloorPercent"),
+    tokenIds:
+      value.tokenIds === undefined
+        ? undefined
+        : readTokenIds(ctx, value.tokenIds, `${path}.tokenIds`),
+    traits:
+      value.traits === undefined
+        ? undefined
+        : readTraits(ctx, value.traits, `${path}.traits`),
+  };
+  if (
+    filters.minPriceETH !== undefined &&
+    filters.maxPriceETH !== undefined &&
+    filters.maxPriceETH < filters.minPriceETH
+  ) {
+    ctx.issues.push(`${path}: maxPriceETH is less than minPriceETH`);
+  }
+  if (
+    filters.minFloorPercent !== undefined &&
+    filters.maxFloorPercent !== undefined &&
+    filters.maxFloorPercent < filters.minFloorPercent
+  ) {
+    ctx.issues.push(`${path}: maxFloorPercent is less than minFloorPercent`);
+  }
+  return filters;
+};
+
+// Routing targets (Discord channels, Telegram chats, webhooks) share one
+// format and differ only in how ids are named and validated
+type RouteTarget = {
+  idField: "channelId" | "chatId" | "url";
+  idPattern: RegExp;
+  idDescription: string;
+  idExpected: string;
+  entryExample: string;
+};
+
+type Route = { id: string; events: DiscordEventType[]; filters?: FilterRules };
+
+const DISCORD_TARGET: RouteTarget = {
+  idField: "channelId",
+  idPattern: DISCORD_SNOWFLAKE,
+  idDescription: "channel id",
+  idExpected: "a 17-20 digit Discord snowflake",
+  entryExample: "CHANNEL_ID=event1,event2",
+};
+
+const TELEGRAM_TARGET: RouteTarget = {
+  idField: "chatId",
+  idPattern: TELEGRAM_CHAT_ID,
+  idDescription: "chat id",
+  idExpected: "a numeric Telegram chat id or @channelusername",
+  entryExample: "CHAT_ID=event1,event2",
+};
+
+const WEBHOOK_TARGET: RouteTarget = {
+  idField: "url",
+  idPattern: HTTP_URL,
+  idDescription: "url",
+  idExpected: "an http(s) URL",
+  entryExample: "a JSON list or map of webhooks",
+};
+
+const readRoute = (
+  ctx: Context,
+  path: string,
+  target: RouteTarget,
+  [id, entry]: [id: string, entry: unknown]
+): Route => {
+  if (!target.idPattern.test(id)) {
+    ctx.issues.push(
+      `${label(ctx, path)}: invalid ${target.idDescription} "${id}" (expected ${target.idExpected})`
+    );
+  }
+  const routePath = `${path}.${id}`;
+  // Entries are either a bare event list or { events, filters }
+  const events = isRecord(entry) ? entry.events : entry;
+  const route: Route = {
+    id,
+    events: readEventList(ctx, events, routePath, DISCORD_EVENT_TYPES),
+  };
+  const filters = isRecord(entry)
+    ? readFilters(ctx, entry.filters, `${routePath}.filters`)
+    : undefined;
+  if (filters) {
+    route.filters = filters;
+  }
+  return route;
+};
+
+/**
+ * Accepts the string form ("id=sale,listing&id2=mint"), a map of id to
+ * events (or { events, filters }), or a list of { <id field>, events,
+ * filters }.
+ */
+const readRoutes = (
+  ctx: Context,
+  value: unknown,
+  path: string,
+  target: RouteTarget
+): Route[] => {
+  if (value === undefined || value === "") {
+    return [];
+  }
+  if (typeof value === "string") {
+    const routes: Route[] = [];
+    for (const entry of value.split("&")) {
+      const [id, events] = entry.split("=");
+      if (!(id && events)) {
+        ctx.issues.push(
+          `${label(ctx, path)}: malformed entry "${entry}" (expected ${target.entryExample})`
+        );
+        continue;
+      }
+      routes.push(readRoute(ctx, path, target, [id.trim(), events]));
+    }
+    return routes;
+  }
+  if (Array.isArray(value)) {
+    return value.map((entry, index) => {
+      const id = isRecord(entry) ? entry[target.idField] : undefined;
+      if (typeof id !== "string") {
+        ctx.issues.push(
+          `${label(ctx, path)}[${index}].${target.idField}: expected a string`
+        );
+        return { id: String(id), events: [] };
+      }
+      return readRoute(ctx, path, target, [id, entry]);
+    });
+  }
+  if (isRecord(value)) {
+    return Object.entries(value).map((entry) =>
+      readRoute(ctx, path, target, entry)
+    );
+  }
+  ctx.issues.push(`${label(ctx, path)}: expected a string, map or list`);
+  return [];
+};
+
+const readDiscordChannels = (
+  ctx: Context,
+  value: unknown,
+  path: string
+): DiscordChannelConfig[] =>
+  readRoutes(ctx, value, path, DISCORD_TARGET).map(({ id, ...route }) => ({
+    channelId: id,
+    ...route,
+  }));
+
+const readTelegramChats = (
+  ctx: Context,
+  value: unknown,
+  path: string
+): TelegramChatConfig[] =>
+  readRoutes(ctx, value, path, TELEGRAM_TARGET).map(({ id, ...route }) => ({
+    chatId: id,
+    ...route,
+  }));
+
+// URLs may contain "&" and "=", so the string form of webhooks is JSON
+const readWebhooks = (
+  ctx: Context,
+  value: unknown,
+  path: string
+): WebhookConfig[] => {
+  let parsed = value;
+  if (typeof value === "string" && value !== "") {
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      ctx.issues.push(`${label(ctx, path)}: is not valid JSON`);
+      return [];
+    }
+  }
+  return readRoutes(ctx, parsed, path, WEBHOOK_TARGET).map(
+    ({ id, ...route }) => ({ url: id, ...route })
+  );
+};
+
+const readMinOffer = (
+  ctx: Context,
+  value: unknown,
+  path: string,
+  fallback: string
+): string => {
+  if (value === undefined || value === "") {
+    return fallback;
+  }
+  const str = String(value);
+  if (!DECIMAL.test(str)) {
+    ctx.issues.push(
+      `${label(ctx, path)}: must be a non-negative number (got ${JSON.stringify(value)})`
+    );
+    return fallback;
+  }
+  return str;
+};
+
+type CollectionDefaults = Omit<CollectionConfig, "tokenAddress"> & {
+  tokenAddress?: string;
+};
+
+const readCollection = (
+  ctx: Context,
+  raw: RawConfig,
+  path: string,
+  defaults: CollectionDefaults
+): CollectionConfig => {
+  const at = (key: string) => (path ? `${path}.${key}` : key);
+  const tokenAddress =
+    typeof raw.tokenAddress === "string" ? raw.tokenAddress : "";
+  if (!tokenAddress) {
+    ctx.issues.push(`${label(ctx, at("tokenAddress"))}: is required`);
+  }
+  const chain = typeof raw.chain === "string" ? raw.chain : defaults.chain;
+  const collection: CollectionConfig = {
+    tokenAddress,
+    chain: chain || DEFAULT_CHAIN,
+    minOfferETH: readMinOffer(
+      ctx,
+      raw.minOfferETH,
+      at("minOfferETH"),
+      defaults.minOfferETH
+    ),
+    discordChannels:
+      raw.discordEvents === undefined
+        ? defaults.discordChannels
+        : readDiscordChannels(ctx, raw.discordEvents, at("discordEvents")),
+    telegramChats:
+      raw.telegramEvents === undefined
+        ? defaults.telegramChats
+        : readTelegramChats(ctx, raw.telegramEvents, at("telegramEvents")),
+    webhooks:
+      raw.webhooks === undefined
+        ? defaults.webhooks
+        : readWebhooks(ctx, raw.webhooks, at("webhooks")),
+    twitterEvents:
+      raw.twitterEvents === undefined || raw.twitterEvents === ""
+        ? defaults.twitterEvents
+        : readEventList(ctx, raw.twitterEvents, at("twitterEvents"), [
+            ...allBotEvents,
+          ]),
+  };
+  const twitterFilters =
+    raw.twitterFilters === undefined
+      ? defaults.twitterFilters
+      : readFilters(ctx, raw.twitterFilters, at("twitterFilters"));
+  if (twitterFilters) {
+    collection.twitterFilters = twitterFilters;
+  }
+  if (
+    collection.discordChannels.length === 0 &&
+    collection.twitterEvents.length === 0 &&
+    collection.telegramChats.length === 0 &&
+    collection.webhooks.length === 0
+  ) {
+    ctx.issues.push(
+      `${path || "config"}: no events enabled (set discordEvents, twitterEvents, telegramEvents or webhooks)`
+    );
+  }
+  return collection;
+};
+
+const readCollections = (ctx: Context, raw: RawConfig): CollectionConfig[] => {
+  // Top-level collection fields act as defaults for every collection
+  const defaults: CollectionDefaults = {
+    chain: readString(ctx, raw, "chain") || DEFAULT_CHAIN,
+    minOfferETH: readMinOffer(ctx, raw.minOfferETH, "minOfferETH", "0"),
+    discordChannels: readDiscordChannels(
+      ctx,
+      raw.discordEvents,
+      "discordEvents"
+    ),
+    telegramChats: readTelegramChats(ctx, raw.telegramEvents, "telegramEvents"),
+    webhooks: readWebhooks(ctx, raw.webhooks, "webhooks"),
+    twitterEvents:
+      raw.twitterEvents === undefined || raw.twitterEvents === ""
+        ? []
+        : readEventList(ctx, raw.twitterEvents, "twitterEvents", [
+            ...allBotEvents,
+          ]),
+    twitterFilters: readFilters(ctx, raw.twitterFilters, "twitterFilters"),
+  };
+
+  let list = raw.collections;
+  if (typeof list === "string") {
+    try {
+      list = JSON.parse(list);
+    } catch {
+      ctx.issues.push(`${label(ctx, "collections")}: is not valid JSON`);
+      return [];
+    }
+  }
+  if (list === undefined) {
+    // Single collection configured entirely by the top-level fields
+    return [
+      readCollection(ctx, { tokenAddress: raw.tokenAddress }, "", defaults),
+    ];
+  }
+  if (!Array.isArray(list) || list.length === 0) {
+    ctx.issues.push(`${label(ctx, "collections")}: must be a non-empty list`);
+    return [];
+  }
+  return list.map((entry, index) => {
+    const path = `collections[${index}]`;
+    if (!isRecord(entry)) {
+      ctx.issues.push(`${path}: expected an object`);
+      return readCollection(ctx, {}, path, defaults);
+    }
+    return readCollection(ctx, entry, path, defaults);
+  });
+};
+
+const readGrouping = (
+  ctx: Context,
+  raw: RawConfig,
+  path: string
+): GroupingConfig => ({
+  settleMs: readNumber(ctx, raw, `${path}.settleMs`, {
+    fallback: DEFAULT_SETTLE_MS,
+    min: 0,
+  }),
+  minGroupSize: readNumber(ctx, raw, `${path}.minGroupSize`, {
+    fallback: MIN_GROUP_SIZE,
+    min: 1,
+    integer: true,
+  }),
+});
+
+// Accepts "ETH=3500,USDC=1" or a map of symbol (or token address) to rate
+const readRates = (
+  ctx: Context,
+  value: unknown,
+  path: string
+): Record<string, number> => {
+  if (value === undefined || value === "") {
+    return {};
+  }
+  let entries: [string, unknown][];
+  if (typeof value === "string") {
+    entries = splitList(value).map((entry) => {
+      const [key, rate] = entry.split("=");
+      return [key?.trim() ?? "", rate?.trim()];
+    });
+  } else if (isRecord(value)) {
+    entries = Object.entries(value);
+  } else {
+    ctx.issues.push(
+      `${label(ctx, path)}: expected a map or "SYMBOL=rate,..." string`
+    );
+    return {};
+  }
+  const rates: Record<string, number> = {};
+  for (const [key, rate] of entries) {
+    if (!key || rate === undefined) {
+      ctx.issues.push(
+        `${label(ctx, path)}: malformed entry "${key}" (expected SYMBOL=rate)`
+      );
+      continue;
+    }
+    const parsed = numberAt(ctx, rate, `${path}.${key}`, {
+      fallback: Number.NaN,
+      min: 0,
+    });
+    if (Number.isNaN(parsed)) {
+      continue;
+    }
+    // Addresses are matched lowercased and symbols uppercased
+    rates[key.startsWith("0x") ? key.toLowerCase() : key.toUpperCase()] =
+      parsed;
+  }
+  return rates;
+};
+
+const readFiat = (ctx: Context, raw: RawConfig): FiatConfig => {
+  const currency = readString(ctx, raw, "fiat.currency")?.toUpperCase();
+  if (currency && !CURRENCY_CODE.test(currency)) {
+    ctx.issues.push(
+      `${label(ctx, "fiat.currency")}: expected a 3-letter currency code (got "${currency}")`
+    );
+  }
+  const source = readString(ctx, raw, "fiat.source") || "http";
+  if (!(PRICE_SOURCES as readonly string[]).includes(source)) {
+    ctx.issues.push(
+      `${label(ctx, "fiat.source")}: unknown price source "${source}" (allowed: ${PRICE_SOURCES.join(", ")})`
+    );
+  }
+  const rates = readRates(ctx, getPath(raw, "fiat.rates"), "fiat.rates");
+  if (currency && source === "static" && Object.keys(rates).length === 0) {
+    ctx.issues.push(
+      `${label(ctx, "fiat.rates")}: is required for the static price source`
+    );
+  }
+  return {
+    currency: currency && CURRENCY_CODE.test(currency) ? currency : undefined,
+    source: source === "static" ? "static" : "http",
+    url: readString(ctx, raw, "fiat.url") || DEFAULT_PRICE_URL,
+    path: readString(ctx, raw, "fiat.path") || DEFAULT_PRICE_PATH,
+    rates,
+    cacheSeconds: readNumber(ctx, raw, "fiat.cacheSeconds", {
+      fallback: DEFAULT_PRICE_CACHE_SECONDS,
+      min: 0,
+    }),
+    timeoutMs: readNumber(ctx, raw, "fiat.timeoutMs", {
+      fallback: DEFAULT_PRICE_TIMEOUT_MS,
+      min: 1,
+    }),
+  };
+};
+
+const readRarity = (ctx: Context, raw: RawConfig): RarityConfig => {
+  const events = getPath(raw, "rarity.events");
+  return {
+    events:
+      events === undefined || events === ""
+        ? []
+        : readEventList(ctx, events, "rarity.events", DISCORD_EVENT_TYPES),
+    traitCount: readNumber(ctx, raw, "rarity.traitCount", {
+      fallback: DEFAULT_RARITY_TRAIT_COUNT,
+      min: 0,
+      integer: true,
+    }),
+    tweets: readBoolean(ctx, raw, "rarity.tweets", false),
+  };
+};
+
+const readFloor = (ctx: Context, raw: RawConfig): FloorConfig => {
+  const events = getPath(raw, "floor.events");
+  return {
+    events:
+      events === undefined || events === ""
+        ? []
+        : readEventList(ctx, events, "floor.events", DISCORD_EVENT_TYPES),
+    refreshSeconds: readNumber(ctx, raw, "floor.refreshSeconds", {
+      fallback: DEFAULT_FLOOR_REFRESH_SECONDS,
+      min: 1,
+    }),
+  };
+};
+
+const readRpc = (ctx: Context, raw: RawConfig): RpcConfig => {
+  let url = readString(ctx, raw, "rpc.url") || undefined;
+  if (url && !HTTP_URL.test(url)) {
+    ctx.issues.push(`${label(ctx, "rpc.url")}: expected an http(s) URL`);
+    url = undefined;
+  }
+  const startBlock = getPath(raw, "rpc.startBlock");
+  return {
+    url,
+    blockRange: readNumber(ctx, raw, "rpc.blockRange", {
+      fallback: DEFAULT_RPC_BLOCK_RANGE,
+      min: 1,
+      integer: true,
+    }),
+    confirmations: readNumber(ctx, raw, "rpc.confirmations", {
+      fallback: DEFAULT_RPC_CONFIRMATIONS,
+      min: 0,
+      integer: true,
+    }),
+    startBlock:
+      startBlock === undefined || startBlock === ""
+        ? undefined
+        : readNumber(ctx, raw, "rpc.startBlock", {
+            fallback: 0,
+            min: 0,
+            integer: true,
+          }),
+  };
+};
+
+const readHealth = (
+  ctx: Context,
+  raw: RawConfig,
+  pollIntervalSeconds: number
+): HealthConfig => {
+  const rawPort = getPath(raw, "health.port");
+  const port =
+    rawPort === undefined || rawPort === ""
+      ? undefined
+      : readNumber(ctx, raw, "health.port", {
+          fallback: 0,
+          min: 1,
+          integer: true,
+        });
+  if (port !== undefined && port > MAX_PORT) {
+    ctx.issues.push(
+      `${label(ctx, "health.port")}: must not be more than ${MAX_PORT} (got ${port})`
+    );
+  }
+  const maxFailingSeconds = readNumber(ctx, raw, "health.maxFailingSeconds", {
+    fallback: DEFAULT_HEALTH_MAX_FAILING_SECONDS,
+    min: 1,
+  });
+  // A shorter window would report every healthy wait between polls
+  if (maxFailingSeconds < pollIntervalSeconds) {
+    ctx.issues.push(
+      `${label(ctx, "health.maxFailingSeconds")}: must not be less than the poll interval (${pollIntervalSeconds}s)`
+    );
+  }
+  return { port, maxFailingSeconds };
+};
+
+const readStateBackend = (ctx: Context, raw: RawConfig): StateBackendName => {
+  const value = readString(ctx, raw, "state.backend");
+  if (value === undefined || value === "") {
+    return "json";
+  }
+  if (!(STATE_BACKENDS as readonly string[]).includes(value)) {
+    ctx.issues.push(
+      `${label(ctx, "state.backend")}: unknown backend "${value}" (allowed: ${STATE_BACKENDS.join(", ")})`
+    );
+    return "json";
+  }
+  return value as StateBackendName;
+};
+
+const readLock = (ctx: Context, raw: RawConfig): LockConfig => {
+  let mode: LockMode = "exit";
+  const rawMode = readString(ctx, raw, "lock.mode");
+  if (rawMode && (LOCK_MODES as readonly string[]).includes(rawMode)) {
+    mode = rawMode as LockMode;
+  } else if (rawMode) {
+    ctx.issues.push(
+      `${label(ctx, "lock.mode")}: unknown mode "${rawMode}" (allowed: ${LOCK_MODES.join(", ")})`
+    );
+  }
+  const heartbeatSeconds = readNumber(ctx, raw, "lock.heartbeatSeconds", {
+    fallback: DEFAULT_LOCK_HEARTBEAT_SECONDS,
+    min: 1,
+  });
+  const staleSeconds = readNumber(ctx, raw, "lock.staleSeconds", {
+    fallback: DEFAULT_LOCK_STALE_SECONDS,
+    min: 1,
+  });
+  if (staleSeconds < heartbeatSeconds * LOCK_STALE_MIN_HEARTBEATS) {
+    ctx.issues.push(
+      `${label(ctx, "lock.staleSeconds")}: must be at least ${LOCK_STALE_MIN_HEARTBEATS} heartbeats (${heartbeatSeconds * LOCK_STALE_MIN_HEARTBEATS}s)`
+    );
+  }
+  return { mode, heartbeatSeconds, staleSeconds };
+};
+
+const readSummaryPeriods = (ctx: Context, raw: RawConfig): SummaryPeriod[] => {
+  const value = getPath(raw, "summary.periods");
+  if (value === undefined || value === "") {
+    return [];
+  }
+  let items: unknown[];
+  if (typeof value === "string") {
+    items = splitList(value);
+  } else if (Array.isArray(value)) {
+    items = value;
+  } else {
+    ctx.issues.push(
+      `${label(ctx, "summary.periods")}: expected a list of periods or a comma-separated string`
+    );
+    return [];
+  }
+  const periods: SummaryPeriod[] = [];
+  for (const item of items) {
+    if (
+      typeof item === "string" &&
+      (SUMMARY_PERIODS as readonly string[]).includes(item)
+    ) {
+      periods.push(item as SummaryPeriod);
+    } else {
+      ctx.issues.push(
+        `${label(ctx, "summary.periods")}: unknown period ${JSON.stringify(item)} (allowed: ${SUMMARY_PERIODS.join(", ")})`
+      );
+    }
+  }
+  return periods;
+};
+
+const isTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const readSummary = (ctx: Context, raw: RawConfig): SummaryConfig => {
+  const periods = readSummaryPeriods(ctx, raw);
+  let timeZone = readString(ctx, raw, "summary.timeZone") || "UTC";
+  if (!isTimeZone(timeZone)) {
+    ctx.issues.push(
+      `${label(ctx, "summary.timeZone")}: unknown time zone "${timeZone}" (e.g. UTC, America/New_York)`
+    );
+    timeZone = "UTC";
+  }
+  const rawWeekday = readString(ctx, raw, "summary.weekday")?.toLowerCase();
+  let weekday = 1;
+  if (rawWeekday && WEEKDAYS.includes(rawWeekday)) {
+    weekday = WEEKDAYS.indexOf(rawWeekday);
+  } else if (rawWeekday) {
+    ctx.issues.push(
+      `${label(ctx, "summary.weekday")}: unknown day "${rawWeekday}" (allowed: ${WEEKDAYS.join(", ")})`
+    );
+  }
+  let discordChannelId =
+    readString(ctx, raw, "summary.discordChannelId") || undefined;
+  if (discordChannelId && !DISCORD_SNOWFLAKE.test(discordChannelId)) {
+    ctx.issues.push(
+      `${label(ctx, "summary.discordChannelId")}: expected ${DISCORD_TARGET.idExpected}`
+    );
+    discordChannelId = undefined;
+  }
+  const tweet = readBoolean(ctx, raw, "summary.tweet", false);
+  if (periods.length > 0 && !(discordChannelId || tweet)) {
+    ctx.issues.push(
+      `${label(ctx, "summary.periods")}: set summary.discordChannelId (SUMMARY_DISCORD_CHANNEL) or summary.tweet (SUMMARY_TWEET) to post summaries`
+    );
+  }
+  let hour = readNumber(ctx, raw, "summary.hour", {
+    fallback: 0,
+    min: 0,
+    integer: true,
+  });
+  if (hour > LAST_HOUR) {
+    ctx.issues.push(
+      `${label(ctx, "summary.hour")}: must not be more than ${LAST_HOUR} (got ${hour})`
+    );
+    hour = 0;
+  }
+  return {
+    periods,
+    hour,
+    timeZone,
+    weekday,
+    discordChannelId,
+    tweet,
+  };
+};
+
+/**
+ * Seconds in a duration such as "30m", "24h", "7d" or "2w", or undefined
+ * when it is not one.
+ */
+export const durationSeconds = (value: string): number | undefined => {
+  const match = value.match(DURATION);
+  return match ? Number(match[1]) * SECONDS_PER_UNIT[match[2]] : undefined;
+};
+
+const readLeaderboardWindows = (ctx: Context, raw: RawConfig): string[] => {
+  const value = getPath(raw, "leaderboard.windows");
+  if (value === undefined || value === "") {
+    return DEFAULT_LEADERBOARD_WINDOWS;
+  }
+  let items: unknown[];
+  if (typeof value === "string") {
+    items = splitList(value);
+  } else if (Array.isArray(value)) {
+    items = value;
+  } else {
+    ctx.issues.push(
+      `${label(ctx, "leaderboard.windows")}: expected a list of durations or a comma-separated string`
+    );
+    return DEFAULT_LEADERBOARD_WINDOWS;
+  }
+  const windows: string[] = [];
+  for (const item of items) {
+    if (typeof item === "string" && durationSeconds(item)) {
+      windows.push(item);
+    } else {
+      ctx.issues.push(
+        `${label(ctx, "leaderboard.windows")}: invalid duration ${JSON.stringify(item)} (e.g. 24h, 7d, 2w)`
+      );
+    }
+  }
+  return windows.length > 0 ? windows : DEFAULT_LEADERBOARD_WINDOWS;
+};
+
+const readLeaderboard = (
+  ctx: Context,
+  raw: RawConfig,
+  history: boolean
+): LeaderboardConfig => {
+  let rankBy: LeaderboardRanking = "volume";
+  const rawRankBy = readString(ctx, raw, "leaderboard.rankBy");
+  if (
+    rawRankBy &&
+    (LEADERBOARD_RANKINGS as readonly string[]).includes(rawRankBy)
+  ) {
+    rankBy = rawRankBy as LeaderboardRanking;
+  } else if (rawRankBy) {
+    ctx.issues.push(
+      `${label(ctx, "leaderboard.rankBy")}: unknown ranking "${rawRankBy}" (allowed: ${LEADERBOARD_RANKINGS.join(", ")})`
+    );
+  }
+  let discordChannelId =
+    readString(ctx, raw, "leaderboard.discordChannelId") || undefined;
+  if (discordChannelId && !DISCORD_SNOWFLAKE.test(discordChannelId)) {
+    ctx.issues.push(
+      `${label(ctx, "leaderboard.discordChannelId")}: expected ${DISCORD_TARGET.idExpected}`
+    );
+    discordChannelId = undefined;
+  }
+  if (discordChannelId && !history) {
+    ctx.issues.push(
+      `${label(ctx, "leaderboard.discordChannelId")}: the leaderboard is built from the event history, which is turned off by ${label(ctx, "state.history")}`
+    );
+  }
+  return {
+    windows: readLeaderboardWindows(ctx, raw),
+    size: readNumber(ctx, raw, "leaderboard.size", {
+      fallback: DEFAULT_LEADERBOARD_SIZE,
+      min: 1,
+      integer: true,
+    }),
+    rankBy,
+    discordChannelId,
+    intervalHours: readNumber(ctx, raw, "leaderboard.intervalHours", {
+      fallback: DEFAULT_LEADERBOARD_INTERVAL_HOURS,
+      min: 1,
+    }),
+  };
+};
+
+/**
+ * Converts a raw (file + env) config object into a BotConfig, collecting a
+ * message for every invalid value. Invalid values fall back to defaults so
+ * callers that choose to ignore issues still get a usable config.
+ */
+export const resolveConfig = (
+  raw: RawConfig,
+  origins: Map<string, string> = new Map()
+): { config: BotConfig; issues: string[] } => {
+  const ctx: Context = { issues: [], origins };
+  const lastEventTimestamp = getPath(raw, "opensea.lastEventTimestamp");
+  const pollIntervalSeconds = readNumber(ctx, raw, "pollIntervalSeconds", {
+    fallback: DEFAULT_POLL_INTERVAL_SECONDS,
+    min: 1,
+  });
+  const history = readBoolean(ctx, raw, "state.history", true);
+  const config: BotConfig = {
+    pollIntervalSeconds,
+    logLevel: readLogLevel(ctx, raw),
+    logFormat: readLogFormat(ctx, raw),
+    opensea: {
+      maxPages: readNumber(ctx, raw, "opensea.maxPages", {
+        fallback: DEFAULT_MAX_PAGES,
+        min: 0,
+        integer: true,
+      }),
+      eventLagWindowSeconds: readNumber(
+        ctx,
+        raw,
+        "opensea.eventLagWindowSeconds",
+        { fallback: DEFAULT_EVENT_LAG_WINDOW_SECONDS, min: 0 }
+      ),
+      lastEventTimestamp:
+        lastEventTimestamp === undefined || lastEventTimestamp === ""
+          ? undefined
+          : readNumber(ctx, raw, "opensea.lastEventTimestamp", {
+              fallback: 0,
+              min: 0,
+              integer: true,
+            }),
+      stream: readBoolean(ctx, raw, "opensea.stream", false),
+      streamUrl:
+        readString(ctx, raw, "opensea.streamUrl") || DEFAULT_STREAM_URL,
+      streamReconnectMs: readNumber(ctx, raw, "opensea.streamReconnectMs", {
+        fallback: DEFAULT_STREAM_RECONNECT_MS,
+        min: 0,
+      }),
+    },
+    state: {
+      dir: readString(ctx, raw, "state.dir") || DEFAULT_STATE_DIR,
+      backend: readStateBackend(ctx, raw),
+      dedupeWindowMinutes: readNumber(ctx, raw, "state.dedupeWindowMinutes", {
+        fallback: DEFAULT_DEDUPE_WINDOW_MINUTES,
+        min: 1,
+      }),
+      history,
+    },
+    twitter: {
+      prependTweet: readString(ctx, raw, "twitter.prependTweet") || undefined,
+      appendTweet: readString(ctx, raw, "twitter.appendTweet") || undefined,
+      queueDelayMs: readNumber(ctx, raw, "twitter.queueDelayMs", {
+        fallback: DEFAULT_TWEET_DELAY_MS,
+        min: 0,
+      }),
+      backoffBaseMs: readNumber(ctx, raw, "twitter.backoffBaseMs", {
+        fallback: DEFAULT_BACKOFF_BASE_MS,
+        min: 0,
+      }),
+      backoffMaxMs: readNumber(ctx, raw, "twitter.backoffMaxMs", {
+        fallback: DEFAULT_BACKOFF_MAX_MS,
+        min: 0,
+      }),
+      processingTimeoutMs: readNumber(ctx, raw, "twitter.processingTimeoutMs", {
+        fallback: DEFAULT_PROCESSING_TIMEOUT_MS,
+        min: 1,
+      }),
+      group: readGrouping(ctx, raw, "twitter.group"),
+    },
+    discord: {
+      group: readGrouping(ctx, raw, "discord.group"),
+      commands: readBoolean(ctx, raw, "discord.commands", false),
+    },
+    telegram: {
+      apiUrl:
+        readString(ctx, raw, "telegram.apiUrl") || DEFAULT_TELEGRAM_API_URL,
+      queueDelayMs: readNumber(ctx, raw, "telegram.queueDelayMs", {
+        fallback: DEFAULT_TELEGRAM_DELAY_MS,
+        min: 0,
+      }),
+      group: readGrouping(ctx, raw, "telegram.group"),
+    },
+    webhook: {
+      timeoutMs: readNumber(ctx, raw, "webhook.timeoutMs", {
+        fallback: DEFAULT_WEBHOOK_TIMEOUT_MS,
+        min: 1,
+      }),
+      queueDelayMs: readNumber(ctx, raw, "webhook.queueDelayMs", {
+        fallback: DEFAULT_WEBHOOK_DELAY_MS,
+        min: 0,
+      }),
+      group: readGrouping(ctx, raw, "webhook.group"),
+    },
+    fiat: readFiat(ctx, raw),
+    rarity: readRarity(ctx, raw),
+    floor: readFloor(ctx, raw),
+    lastSale: {
+      discord: readBoolean(ctx, raw, "lastSale.discord", false),
+      tweets: readBoolean(ctx, raw, "lastSale.tweets", false),
+    },
+    rpc: readRpc(ctx, raw),
+    dryRun: {
+      enabled: readBoolean(ctx, raw, "dryRun.enabled", false),
+      file: readString(ctx, raw, "dryRun.file") || undefined,
+    },
+    health: readHealth(ctx, raw, pollIntervalSeconds),
+    lock: readLock(ctx, raw),
+    summary: readSummary(ctx, raw),
+    leaderboard: readLeaderboard(ctx, raw, history),
+    collections: readCollections(ctx, raw),
+  };
+  return { config, issues: ctx.issues };
+};
+
+/**
+ * Reads a JSON or YAML config file. YAML is used for any extension other
+ * than .json (YAML is a superset of JSON).
+ */
+export const readConfigFile = (path: string): RawConfig => {
+  let parsed: unknown;
+  try {
+    const content = readFileSync(path, "utf8");
+    parsed =
+      extname(path).toLowerCase() === ".json"
+        ? JSON.parse(content)
+        : parseYaml(content);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new ConfigError([`${path}: could not be read (${message})`]);
+  }
+  if (!isRecord(parsed)) {
+    throw new ConfigError([`${path}: top level must be an object`]);
+  }
+  return parsed;
+};
+
+const overlayEnv = (
+  raw: RawConfig,
+  env: NodeJS.ProcessEnv
+): { raw: RawConfig; origins: Map<string, string> } => {
+  const merged = structuredClone(raw);
+  const origins = new Map<string, string>();
+  for (const [name, path] of ENV_OVERRIDES) {
+    const value = env[name];
+    if (value === undefined) {
+      continue;
+    }
+    setPath(merged, path, value);
+    origins.set(path, name);
+  }
+  return { raw: merged, origins };
+};
+
+/**
+ * Loads CONFIG_FILE (if set), applies env var overrides and validates.
+ * Throws a ConfigError listing every problem found.
+ */
+export const loadConfig = (env: NodeJS.ProcessEnv = process.env): BotConfig => {
+  const file = env.CONFIG_FILE;
+  const fromFile = file ? readConfigFile(file) : {};
+  const { raw, origins } = overlayEnv(fromFile, env);
+  const { config, issues } = resolveConfig(raw, origins);
+  if (issues.length > 0) {
+    throw new ConfigError(issues);
+  }
+  return file ? { ...config, file } : config;
+};
+
+let activeConfig: BotConfig | undefined;
+
+/**
+ * Makes `config` the config returned by getConfig() for the rest of the
+ * process lifetime.
+ */
+export const applyConfig = (config: BotConfig): void => {
+  activeConfig = config;
+  setLogLevel(config.logLevel);
+  setLogFormat(config.logFormat);
+};
+
+/**
+ * Returns the applied config. Before applyConfig() is called (e.g. in
+ * tests) settings are resolved from the current env on every call, with
+ * invalid values falling back to defaults.
+ */
+export const getConfig = (): BotConfig => {
+  if (activeConfig) {
+    return activeConfig;
+  }
+  const { raw, origins } = overlayEnv({}, process.env);
+  return resolveConfig(raw, origins).config;
+};
@@ -0,0 +1,240 @@
+import { promises as fs } from "node:fs";
+import { basename, dirname, extname, join } from "node:path";
+import { parseArgs } from "node:util";
+import type { APIEmbed } from "discord.js";
+import { ConfigError } from "./config";
+import type { PreviewLine } from "./utils/dry-run";
+import { prefixedLogger } from "./utils/logger";
+
+const log = prefixedLogger("Gallery");
+
+const DEFAULT_OUT = "gallery.html";
+const PREVIEWS_EXTENSION = ".jsonl";
+const ATTACHMENT_PREFIX = "attachment://";
+// Discord's embed border when no color is set
+const DEFAULT_EMBED_COLOR = "#1e1f22";
+const HEX_RADIX = 16;
+const HEX_COLOR_LENGTH = 6;
+
+// Hoisted regex for performance
+const HTML_SPECIAL = /[&<>"']/g;
+const MARKDOWN_LINK = /\[([^\]]+)\]\(([^)\s]+)\)/g;
+const MARKDOWN_BOLD = /\*\*([^*]+)\*\*/g;
+const BARE_URL = /(https?:\/\/[^\s<]+)/g;
+const NEWLINE = /\n/g;
+
+const HTML_ENTITIES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+export type GalleryOptions = {
+  // Dry-run output (.jsonl), or events files to replay
+  path: string;
+  // The HTML page to write
+  out: string;
+};
+
+// Renders events files into dry-run output at `previewsFile`
+type Replay = (previewsFile: string) => Promise<unknown>;
+
+/**
+ * Parses `gallery` arguments, throwing a ConfigError that lists every
+ * problem.
+ */
+export const parseGalleryArgs = (args: string[]): GalleryOptions => {
+  let parsed: { values: { out?: string }; positionals: string[] };
+  try {
+    parsed = parseArgs({
+      args,
+      options: { out: { type: "string" } },
+      allowPositionals: true,
+    });
+  } catch (error) {
+    throw new ConfigError([(error as Error).message]);
+  }
+  const { values, positionals } = parsed;
+  if (positionals.length !== 1) {
+    throw new ConfigError([
+      "expected one dry-run output file or events file or directory",
+    ]);
+  }
+  return { path: positionals[0], out: values.out ?? DEFAULT_OUT };
+};
+
+const escapeHtml = (text: string): string =>
+  text.replace(HTML_SPECIAL, (char) => HTML_ENTITIES[char] ?? char);
+
+// Approximates the markdown Discord renders in embeds: links, bold and
+// line breaks
+const discordMarkdown = (text: string): string =>
+  escapeHtml(text)
+    .replace(MARKDOWN_LINK, '<a href="$2">$1</a>')
+    .replace(MARKDOWN_BOLD, "<strong>$1</strong>")
+    .replace(NEWLINE, "<br>");
+
+const tweetText = (text: string): string =>
+  escapeHtml(text)
+    .replace(BARE_URL, '<a href="$1">$1</a>')
+    .replace(NEWLINE, "<br>");
+
+const hexColor = (color: number | undefined): string =>
+  color === undefined
+    ? DEFAULT_EMBED_COLOR
+    : `#${color.toString(HEX_RADIX).padStart(HEX_COLOR_LENGTH, "0")}`;
+
+// Uploaded attachments are not kept in dry-run output, so they are labelled
+// by name instead
+const imageHtml = (url: string | undefined, className: string): string => {
+  if (!url) {
+    return "";
+  }
+  if (url.startsWith(ATTACHMENT_PREFIX)) {
+    const name = url.slice(ATTACHMENT_PREFIX.length);
+    return `<div class="${className} attachment">📎 ${escapeHtml(name)}</div>`;
+  }
+  return `<img class="${className}" src="${escapeHtml(url)}" alt="" loading="lazy">`;
+};
+
+const embedHtml = (embed: APIEmbed): string => {
+  const title = embed.title ? discordMarkdown(embed.title) : "";
+  const heading = embed.url
+    ? `<a class="title" href="${escapeHtml(embed.url)}">${title}</a>`
+    : `<div class="title">${title}</div>`;
+  const description = embed.description
+    ? `<div class="description">${discordMarkdown(embed.description)}</div>`
+    : "";
+  const fields = (embed.fields ?? [])
+    .map(
+      (field) =>
+        `<div class="field${field.inline ? " inline" : ""}"><div class="name">${discordMarkdown(field.name)}</div><div class="value">${discordMarkdown(field.value)}</div></div>`
+    )
+    .join("");
+  const footer = embed.footer?.text
+    ? `<div class="footer">${escapeHtml(embed.footer.text)}</div>`
+    : "";
+  return [
+    `<div class="embed" style="border-color: ${hexColor(embed.color)}">`,
+    '<div class="embed-top"><div class="embed-main">',
+    `${heading}${description}<div class="fields">${fields}</div>`,
+    `</div>${imageHtml(embed.thumbnail?.url, "thumbnail")}</div>`,
+    imageHtml(embed.image?.url, "image"),
+    footer,
+    "</div>",
+  ].join("");
+};
+
+const tweetHtml = (text: string, images: string[]): string =>
+  [
+    `<div class="tweet"><p>${tweetText(text)}</p>`,
+    `<div class="media media-${images.length}">`,
+    images.map((url) => imageHtml(url, "media-image")).join(""),
+    "</div></div>",
+  ].join("");
+
+const cardHtml = (preview: PreviewLine): string => {
+  const [label, body] =
+    preview.platform === "discord"
+      ? [
+          `Discord · ${preview.channelIds.map((id) => `#${id}`).join(", ")}`,
+          embedHtml(preview.embed),
+        ]
+      : ["Twitter", tweetHtml(preview.text, preview.images)];
+  return `<article class="card ${preview.platform}"><header>${escapeHtml(label)} · ${escapeHtml(preview.collection)}</header>${body}</article>`;
+};
+
+const STYLES = `
+body { margin: 0; padding: 24px; background: #f2f3f5; font: 15px/1.4 system-ui, sans-serif; color: #1d2129; }
+h1 { margin: 0 0 4px; font-size: 20px; }
+.summary { margin: 0 0 24px; color: #5c5e66; }
+main { display: grid; grid-template-columns: repeat(auto-fill, minmax(440px, 1fr)); gap: 16px; align-items: start; }
+.card header { margin-bottom: 6px; font-size: 12px; color: #5c5e66; }
+.embed { background: #2b2d31; color: #dbdee1; border-left: 4px solid; border-radius: 4px; padding: 12px 16px; }
+.embed a { color: #00a8fc; text-decoration: none; }
+.embed-top { display: flex; gap: 16px; }
+.embed-main { flex: 1; min-width: 0; }
+.embed .title { display: block; font-weight: 600; color: #f2f3f5; margin-bottom: 8px; }
+.embed a.title { color: #00a8fc; }
+.embed .description { margin-bottom: 8px; }
+.fields { display: flex; flex-wrap: wrap; gap: 8px 16px; }
+.field { flex: 1 1 100%; font-size: 14px; }
+.field.inline { flex: 1 1 28%; }
+.field .name { font-weight: 600; color: #f2f3f5; }
+.thumbnail { width: 80px; height: 80px; object-fit: cover; border-radius: 4px; }
+.image { display: block; max-width: 100%; margin-top: 16px; border-radius: 4px; }
+.footer { margin-top: 8px; font-size: 12px; }
+.attachment { display: flex; align-items: center; justify-content: center; min-height: 80px; padding: 8px; background: #1e1f22; border-radius: 4px; font-size: 12px; text-align: center; word-break: break-all; }
+.tweet { background: #fff; border: 1px solid #cfd9de; border-radius: 16px; padding: 12px 16px; }
+.tweet p { margin: 0 0 12px; white-space: normal; }
+.tweet a { color: #1d9bf0; text-decoration: none; word-break: break-all; }
+.media { display: grid; gap: 2px; border-radius: 16px; overflow: hidden; }
+.media-0 { display: none; }
+.media-2, .media-3, .media-4 { grid-template-columns: 1fr 1fr; }
+.media-image { width: 100%; height: 100%; max-height: 280px; object-fit: cover; }
+.media-3 .media-image:first-child { grid-row: span 2; }
+`;
+
+/**
+ * Renders dry-run previews as one HTML page approximating Discord embeds
+ * and tweet cards. The page carries no timestamps so runs can be diffed.
+ */
+export const renderGallery = (previews: PreviewLine[]): string => {
+  const embeds = previews.filter((p) => p.platform === "discord").length;
+  const tweets = previews.length - embeds;
+  return [
+    "<!doctype html>",
+    '<html lang="en"><head><meta charset="utf-8">',
+    "<title>Post previews</title>",
+    `<style>${STYLES}</style>`,
+    "</head><body>",
+    "<h1>Post previews</h1>",
+    `<p class="summary">${embeds} Discord embed${embeds === 1 ? "" : "s"}, ${tweets} tweet${tweets === 1 ? "" : "s"}</p>`,
+    `<main>${previews.map(cardHtml).join("\n")}</main>`,
+    "</body></html>",
+    "",
+  ].join("\n");
+};
+
+const readPreviews = async (file: string): Promise<PreviewLine[]> => {
+  const previews: PreviewLine[] = [];
+  const lines = (await fs.readFile(file, "utf8")).split("\n");
+  for (const [index, line] of lines.entries()) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      previews.push(JSON.parse(line) as PreviewLine);
+    } catch {
+      log.warn(`Skipping unreadable line ${index + 1} of ${file}`);
+    }
+  }
+  return previews;
+};
+
+// Replayed events are rendered next to the page, e.g. gallery.jsonl
+const previewsFileFor = (out: string): string =>
+  join(dirname(out), `${basename(out, extname(out))}${PREVIEWS_EXTENSION}`);
+
+/**
+ * Writes the preview gallery for dry-run output, or for events files after
+ * replaying them. Returns how many posts the page shows.
+ */
+export const runGallery = async (
+  options: GalleryOptions,
+  replay: Replay
+): Promise<number> => {
+  let previewsFile = options.path;
+  if (extname(options.path) !== PREVIEWS_EXTENSION) {
+    previewsFile = previewsFileFor(options.out);
+    await fs.mkdir(dirname(previewsFile), { recursive: true });
+    await fs.writeFile(previewsFile, "", "utf8");
+    await replay(previewsFile);
+  }
+  const previews = await readPreviews(previewsFile);
+  await fs.mkdir(dirname(options.out), { recursive: true });
+  await fs.writeFile(options.out, renderGallery(previews), "utf8");
+  return previews.length;
+};
@@ -0,0 +1,279 @@
+import {
+  createServer,
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+} from "node:http";
+import type { AddressInfo } from "node:net";
+import { type CollectionConfig, getConfig } from "./config";
+import type { FetchSummaryStatus } from "./opensea";
+import {
+  collectionKeyFor,
+  collectionStore,
+  currentCollection,
+  runWithCollection,
+} from "./utils/collection-store";
+import { MS_PER_SECOND } from "./utils/constants";
+import { prefixedLogger } from "./utils/logger";
+import { Gauge, renderMetrics } from "./utils/metrics";
+
+const log = prefixedLogger("Health");
+
+const HTTP_OK = 200;
+const HTTP_NOT_FOUND = 404;
+const HTTP_UNAVAILABLE = 503;
+
+const METRICS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+const SUCCESSFUL_FETCHES: ReadonlySet<FetchSummaryStatus> = new Set([
+  "events_processed",
+  "no_events_found",
+  "all_events_filtered",
+]);
+
+type PollRecord = {
+  status: FetchSummaryStatus;
+  attemptedAt: number;
+  succeededAt?: number;
+};
+
+// Latest poll per collection (keyed by collectionKeyFor)
+const polls = new Map<string, PollRecord>();
+const startedAt = Date.now();
+// Polling counts as failing from startup (or a standby's takeover) until
+// its first success
+let pollingSince = startedAt;
+// A hot standby waiting for the instance lock does not poll
+let standby = false;
+
+/**
+ * Marks the instance as standing by for the instance lock, or as having
+ * taken over. A standby stays healthy without polling; after a takeover
+ * the failing clock starts over.
+ */
+export const setStandby = (value: boolean): void => {
+  if (standby && !value) {
+    pollingSince = Date.now();
+  }
+  standby = value;
+};
+
+/**
+ * Records the outcome of the active collection's latest fetchEvents call.
+ */
+export const recordPoll = (status: FetchSummaryStatus): void => {
+  const now = Date.now();
+  const key = collectionKeyFor(currentCollection());
+  polls.set(key, {
+    status,
+    attemptedAt: now,
+    succeededAt: SUCCESSFUL_FETCHES.has(status)
+      ? now
+      : polls.get(key)?.succeededAt,
+  });
+};
+
+export type PlatformHealth = {
+  // Logged in (Discord) or holding the credentials needed to post
+  ready: boolean;
+  // Posts waiting to be sent
+  queued: number;
+  // Transactions whose events are held until their group settles
+  pendingGroups: number;
+};
+
+type CollectionHealth = {
+  collection: string;
+  lastStatus: FetchSummaryStatus | null;
+  lastAttemptAt: string | null;
+  lastSuccessAt: string | null;
+  // Seconds since the last successful poll, or since polling started
+  failingSeconds: number;
+};
+
+export type HealthReport = {
+  // Standing by for the instance lock, or every collection polled
+  // successfully within health.maxFailingSeconds
+  healthy: boolean;
+  // Not standing by, healthy, every collection polled successfully at
+  // least once and every platform ready
+  ready: boolean;
+  // Waiting as a hot standby; collections are not polled
+  standby: boolean;
+  uptimeSeconds: number;
+  collections: CollectionHealth[];
+  platforms: Record<string, PlatformHealth>;
+};
+
+const isoOrNull = (ms: number | undefined): string | null =>
+  ms === undefined ? null : new Date(ms).toISOString();
+
+const collectionHealth = (
+  collection: CollectionConfig,
+  now: number
+): CollectionHealth => {
+  const poll = polls.get(collectionKeyFor(collection));
+  return {
+    collection: runWithCollection(collection, collectionStore.getIdentifier),
+    lastStatus: poll?.status ?? null,
+    lastAttemptAt: isoOrNull(poll?.attemptedAt),
+    lastSuccessAt: isoOrNull(poll?.succeededAt),
+    failingSeconds: Math.floor(
+      (now - (poll?.succeededAt ?? pollingSince)) / MS_PER_SECOND
+    ),
+  };
+};
+
+/**
+ * Builds the health report from the latest polls and each platform's
+ * status.
+ */
+export const healthReport = (
+  platforms: Record<string, () => PlatformHealth>
+): HealthReport => {
+  const { collections, health } = getConfig();
+  const now = Date.now();
+  const collectionReports = collections.map((collection) =>
+    collectionHealth(collection, now)
+  );
+  const platformReports = Object.fromEntries(
+    Object.entries(platforms).map(([name, status]) => [name, status()])
+  );
+  const healthy =
+    standby ||
+    collectionReports.every(
+      (report) => report.failingSeconds <= health.maxFailingSeconds
+    );
+  const ready =
+    !standby &&
+    healthy &&
+    collectionReports.every((report) => report.lastSuccessAt !== null) &&
+    Object.values(platformReports).every((platform) => platform.ready);
+  return {
+    healthy,
+    ready,
+    standby,
+    uptimeSeconds: Math.floor((now - startedAt) / MS_PER_SECOND),
+    collections: collectionReports,
+    platforms: platformReports,
+  };
+};
+
+// Gauges are read from the health report on each scrape
+const healthyGauge = new Gauge(
+  "opensea_bot_healthy",
+  "1 while every collection polls successfully (see /healthz)"
+);
+const readyGauge = new Gauge(
+  "opensea_bot_ready",
+  "1 while the bot is ready to post (see /readyz)"
+);
+const failingSecondsGauge = new Gauge(
+  "opensea_bot_poll_failing_seconds",
+  "Seconds since the collection's last successful poll"
+);
+const platformReadyGauge = new Gauge(
+  "opensea_bot_platform_ready",
+  "1 while the platform is logged in or holds credentials"
+);
+const queuedPostsGauge = new Gauge(
+  "opensea_bot_queued_posts",
+  "Posts waiting to be sent"
+);
+const pendingGroupsGauge = new Gauge(
+  "opensea_bot_pending_groups",
+  "Transactions held until their group settles"
+);
+
+const setHealthGauges = (report: HealthReport): void => {
+  healthyGauge.set({}, Number(report.healthy));
+  readyGauge.set({}, Number(report.ready));
+  for (const collection of report.collections) {
+    failingSecondsGauge.set(
+      { collection: collection.collection },
+      collection.failingSeconds
+    );
+  }
+  for (const [platform, health] of Object.entries(report.platforms)) {
+    platformReadyGauge.set({ platform }, Number(health.ready));
+    queuedPostsGauge.set({ platform }, health.queued);
+    pendingGroupsGauge.set({ platform }, health.pendingGroups);
+  }
+};
+
+/**
+ * Renders every metric, with the health gauges read from a fresh report.
+ */
+export const metricsText = (
+  platforms: Record<string, () => PlatformHealth>
+): string => {
+  setHealthGauges(healthReport(platforms));
+  return renderMetrics();
+};
+
+export type HealthServerOptions = {
+  port: number;
+  // Status of each enabled platform, by name
+  platforms: Record<string, () => PlatformHealth>;
+};
+
+/**
+ * Serves `/healthz` (503 once polling has failed for longer than
+ * health.maxFailingSeconds, never while standing by) and `/readyz` (503
+ * until the bot is ready to post), both with the full health report as JSON, and `/metrics` for
+ * Prometheus.
+ */
+export class HealthServer {
+  private readonly options: HealthServerOptions;
+  private server: Server | undefined;
+
+  constructor(options: HealthServerOptions) {
+    this.options = options;
+  }
+
+  // Resolves with the port listened on
+  start(): Promise<number> {
+    const server = createServer((req, res) => this.handle(req, res));
+    this.server = server;
+    return new Promise((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(this.options.port, () => {
+        const { port } = server.address() as AddressInfo;
+        log.info(`Serving /healthz, /readyz and /metrics on port ${port}`);
+        resolve(port);
+      });
+    });
+  }
+
+  stop(): Promise<void> {
+    return new Promise((resolve) => {
+      if (!this.server) {
+        resolve();
+        return;
+      }
+      this.server.close(() => resolve());
+      this.server = undefined;
+    });
+  }
+
+  private handle(req: IncomingMessage, res: ServerResponse): void {
+    const path = req.url?.split("?")[0];
+    if (path === "/metrics") {
+      res
+        .writeHead(HTTP_OK, { "content-type": METRICS_CONTENT_TYPE })
+        .end(metricsText(this.options.platforms));
+      return;
+    }
+    if (path !== "/healthz" && path !== "/readyz") {
+      res.writeHead(HTTP_NOT_FOUND).end();
+      return;
+    }
+    const report = healthReport(this.options.platforms);
+    const ok = path === "/healthz" ? report.healthy : report.ready;
+    res
+      .writeHead(ok ? HTTP_OK : HTTP_UNAVAILABLE, {
+        "content-type": "application/json",
+      })
+      .end(JSON.stringify(report));
+  }
+}
@@ -0,0 +1,184 @@
+import { parseArgs } from "node:util";
+import { timestampArg } from "./backfill";
+import { ConfigError, durationSeconds } from "./config";
+import { EventType } from "./opensea";
+import { allBotEvents } from "./types";
+import {
+  getEventHistory,
+  type HistoryEvent,
+  type HistoryQuery,
+} from "./utils/event-history";
+import {
+  formatAmount,
+  formatReadableDate,
+  shortAddr,
+  unixTimestamp,
+} from "./utils/utils";
+
+const DEFAULT_LIMIT = 50;
+// Every effective event type an event can be stored as
+const EVENT_TYPES: readonly string[] = [
+  ...new Set<string>([...Object.values(EventType), ...allBotEvents]),
+];
+const POSITIVE_INTEGER = /^[1-9]\d*$/;
+const TYPE_WIDTH = 16;
+
+export type HistoryOptions = {
+  query: HistoryQuery;
+  // Prints one JSON object per line instead of a table
+  json: boolean;
+};
+
+const timeArg = (
+  issues: string[],
+  name: string,
+  value: string | undefined,
+  now: number
+): number | undefined => {
+  // "7d", "24h", "30m" or "2w" before now
+  const relative = value === undefined ? undefined : durationSeconds(value);
+  if (relative) {
+    return now - relative;
+  }
+  return timestampArg(issues, name, value);
+};
+
+const countArg = (
+  issues: string[],
+  name: string,
+  value: string | undefined
+): number | undefined => {
+  if (value === undefined) {
+    return;
+  }
+  if (!POSITIVE_INTEGER.test(value)) {
+    issues.push(`--${name}: expected a positive whole number (got "${value}")`);
+    return;
+  }
+  return Number(value);
+};
+
+const typesArg = (
+  issues: string[],
+  value: string | undefined
+): string[] | undefined => {
+  if (value === undefined) {
+    return;
+  }
+  const types = value
+    .split(",")
+    .map((type) => type.trim())
+    .filter(Boolean);
+  for (const type of types) {
+    if (!EVENT_TYPES.includes(type)) {
+      issues.push(
+        `--type: unknown event type "${type}" (allowed: ${EVENT_TYPES.join(", ")})`
+      );
+    }
+  }
+  return types;
+};
+
+const parseHistoryValues = (args: string[]) =>
+  parseArgs({
+    args,
+    options: {
+      type: { type: "string" },
+      token: { type: "string" },
+      account: { type: "string" },
+      collection: { type: "string" },
+      since: { type: "string" },
+      until: { type: "string" },
+      top: { type: "string" },
+      limit: { type: "string" },
+      json: { type: "boolean" },
+    },
+  }).values;
+
+/**
+ * Parses `history` arguments, throwing a ConfigError that lists every
+ * problem.
+ */
+export const parseHistoryArgs = (
+  args: string[],
+  now = unixTimestamp(new Date())
+): HistoryOptions => {
+  let values: ReturnType<typeof parseHistoryValues>;
+  try {
+    values = parseHistoryValues(args);
+  } catch (error) {
+    throw new ConfigError([(error as Error).message]);
+  }
+  const issues: string[] = [];
+  const since = timeArg(issues, "since", values.since, now);
+  const until = timeArg(issues, "until", values.until, now);
+  if (since !== undefined && until !== undefined && since >= until) {
+    issues.push("--since: must be before --until");
+  }
+  const top = countArg(issues, "top", values.top);
+  const limit = countArg(issues, "limit", values.limit);
+  if (top !== undefined && limit !== undefined) {
+    issues.push("choose one of --top <n> or --limit <n>");
+  }
+  const types = typesArg(issues, values.type);
+  if (issues.length > 0) {
+    throw new ConfigError(issues);
+  }
+  return {
+    query: {
+      types,
+      tokenId: values.token,
+      account: values.account,
+      collection: values.collection,
+      since,
+      until,
+      sort: top === undefined ? "time" : "price",
+      limit: top ?? limit ?? DEFAULT_LIMIT,
+    },
+    json: values.json ?? false,
+  };
+};
+
+// Who sold to whom, who moved it where, or who placed the order
+const partiesFor = (event: HistoryEvent): string => {
+  const { seller, buyer, from, to, maker } = event;
+  if (seller && buyer) {
+    return `${shortAddr(seller)} → ${shortAddr(buyer)}`;
+  }
+  if (from && to) {
+    return `${shortAddr(from)} → ${shortAddr(to)}`;
+  }
+  return maker ? shortAddr(maker) : "";
+};
+
+export const formatHistoryEvent = (event: HistoryEvent): string =>
+  [
+    formatReadableDate(event.timestamp),
+    event.type.padEnd(TYPE_WIDTH),
+    event.tokenId ? `#${event.tokenId}` : "",
+    event.price
+      ? formatAmount(
+          event.price.quantity,
+          event.price.decimals,
+          event.price.symbol
+        )
+      : "",
+    partiesFor(event),
+    event.transaction ?? "",
+  ]
+    .filter(Boolean)
+    .join("  ");
+
+/**
+ * Prints the history events matching the options to stdout and returns
+ * how many were found.
+ */
+export const runHistory = async (options: HistoryOptions): Promise<number> => {
+  const events = await getEventHistory().query(options.query);
+  for (const event of events) {
+    process.stdout.write(
+      `${options.json ? JSON.stringify(event) : formatHistoryEvent(event)}\n`
+    );
+  }
+  return events.length;
+};
@@ -1,42 +1,72 @@
 import "dotenv/config";
-import { Client, Events, type TextBasedChannel } from "discord.js";
+import type { TextBasedChannel } from "discord.js";
+import { lockForBackfill, parseBackfillArgs, runBackfill } from "./backfill";
+import { applyConfig, type BotConfig, ConfigError, loadConfig } from "./config";
+import { parseGalleryArgs, runGallery } from "./gallery";
+import { HealthServer, type PlatformHealth, setStandby } from "./health";
+import { parseHistoryArgs, runHistory } from "./history";
+import { leaderboardCommand, startLeaderboard } from "./leaderboard";
 import {
   type EventTimestampSource,
   fetchCollectionSlug,
   fetchEvents,
+  reloadEventState,
   resolveLastEventTimestamp,
 } from "./opensea";
-import { channelsWithEvents, messageEvents } from "./platforms/discord/discord";
-import { tweetEvents } from "./platforms/twitter/twitter";
+import { OpenSeaStream } from "./opensea-stream";
+import { startDiscordCommands } from "./platforms/discord/commands";
+import {
+  channelsWithEvents,
+  discordClient,
+  discordHealth,
+  messageEvents,
+  restoreDiscordOutbox,
+} from "./platforms/discord/discord";
+import { lookupCommands } from "./platforms/discord/lookups";
+import {
+  messageTelegram,
+  restoreTelegramOutbox,
+  telegramHealth,
+} from "./platforms/telegram/telegram";
+import { hasTelegramToken } from "./platforms/telegram/utils";
+import {
+  restoreTweetOutbox,
+  tweetEvents,
+  twitterHealth,
+} from "./platforms/twitter/twitter";
+import { webhookSecret } from "./platforms/webhook/utils";
+import {
+  restoreWebhookOutbox,
+  sendWebhooks,
+  webhookHealth,
+} from "./platforms/webhook/webhook";
+import { parseReplayArgs, runReplay } from "./replay";
+import { recordSummaryEvents, startSummaries } from "./summary";
+import { fetchTransferEvents } from "./transfer-logs";
 import type { OpenSeaAssetEvent } from "./types";
+import { currentCollection, runWithCollection } from "./utils/collection-store";
 import { MS_PER_SECOND } from "./utils/constants";
-import { getDefaultEventGroupConfig } from "./utils/event-grouping";
+import { isDryRun } from "./utils/dry-run";
+import { recordEventHistory } from "./utils/event-history";
+import { acquireInstanceLocks } from "./utils/instance-lock";
 import { logger } from "./utils/logger";
 import {
-  botInterval,
-  chain,
   formatReadableDate,
   formatTimeAgo,
-  fullTokenAddr,
-  minOfferETH,
+  minOfferETHFor,
 } from "./utils/utils";
 
 const fetchDiscordChannelNames = async (): Promise<Map<string, string>> => {
   const channelNames = new Map<string, string>();
+  const collection = currentCollection();
 
-  if (!(process.env.DISCORD_TOKEN && process.env.DISCORD_EVENTS)) {
+  if (!(process.env.DISCORD_TOKEN && collection.discordChannels.length > 0)) {
     return channelNames;
   }
 
-  const client = new Client({ intents: [] });
-
   try {
-    await new Promise<void>((resolve) => {
-      client.on(Events.ClientReady, () => resolve());
-      client.login(process.env.DISCORD_TOKEN);
-    });
-
-    const channelEvents = channelsWithEvents();
+    const client = await discordClient();
+    const channelEvents = channelsWithEvents(collection);
     for (const [channelId] of channelEvents) {
       try {
         const channel = await client.channels.fetch(channelId);
@@ -50,90 +80,126 @@ const fetchDiscordChannelNames = async (): Promise<Map<string, string>> => {
     }
   } catch {
     // Discord connection failed
-  } finally {
-    client.destroy();
   }
 
   return channelNames;
 };
 
-const logTwitterConfig = () => {
-  const twitterEvents = process.env.TWITTER_EVENTS?.replace(/,/g, ", ") ?? "";
-  logger.info(`│     ├─ Events: ${twitterEvents}`);
-  if (process.env.TWITTER_PREPEND_TWEET) {
-    logger.info(`│     ├─ Prepend: "${process.env.TWITTER_PREPEND_TWEET}"`);
+const logTwitterConfig = (config: BotConfig) => {
+  const { twitter } = config;
+  logger.info(
+    `│     ├─ Events: ${currentCollection().twitterEvents.join(", ")}`
+  );
+  if (twitter.prependTweet) {
+    logger.info(`│     ├─ Prepend: "${twitter.prependTweet}"`);
   }
-  if (process.env.TWITTER_APPEND_TWEET) {
-    logger.info(`│     ├─ Append: "${process.env.TWITTER_APPEND_TWEET}"`);
+  if (twitter.appendTweet) {
+    logger.info(`│     ├─ Append: "${twitter.appendTweet}"`);
   }
-  const config = getDefaultEventGroupConfig("TWITTER");
-  const hasPrependOrAppend =
-    process.env.TWITTER_PREPEND_TWEET || process.env.TWITTER_APPEND_TWEET;
+  const hasPrependOrAppend = twitter.prependTweet || twitter.appendTweet;
   logger.info(`│     ${hasPrependOrAppend ? "├─" : "└─"} Grouping`);
-  logger.info(`│        ├─ Min Group Size: ${config.minGroupSize} items`);
-  logger.info(`│        └─ Settle Time: ${config.settleMs / MS_PER_SECOND}s`);
+  logger.info(
+    `│        ├─ Min Group Size: ${twitter.group.minGroupSize} items`
+  );
+  logger.info(
+    `│        └─ Settle Time: ${twitter.group.settleMs / MS_PER_SECOND}s`
+  );
 };
 
-const logDiscordConfig = async () => {
+const logDiscordConfig = async (config: BotConfig) => {
   const channelNames = await fetchDiscordChannelNames();
-  const channelEvents = channelsWithEvents();
-  const config = getDefaultEventGroupConfig("DISCORD");
+  const { group } = config.discord;
 
-  for (const [channelId, events] of channelEvents) {
+  for (const { channelId, events } of currentCollection().discordChannels) {
     const channelName = channelNames.get(channelId);
     const channelDisplay = channelName ? `#${channelName}` : channelId;
     logger.info(`│     ├─ ${channelDisplay} = ${events.join(", ")}`);
   }
 
   logger.info("│     └─ Grouping");
-  logger.info(`│        ├─ Min Group Size: ${config.minGroupSize} items`);
-  logger.info(`│        └─ Settle Time: ${config.settleMs / MS_PER_SECOND}s`);
+  logger.info(`│        ├─ Min Group Size: ${group.minGroupSize} items`);
+  logger.info(`│        └─ Settle Time: ${group.settleMs / MS_PER_SECOND}s`);
+};
+
+const logTelegramConfig = (config: BotConfig) => {
+  const { group } = config.telegram;
+  for (const { chatId, events } of currentCollection().telegramChats) {
+    logger.info(`│     ├─ ${chatId} = ${events.join(", ")}`);
+  }
+  logger.info("│     └─ Grouping");
+  logger.info(`│        ├─ Min Group Size: ${group.minGroupSize} items`);
+  logger.info(`│        └─ Settle Time: ${group.settleMs / MS_PER_SECOND}s`);
+};
+
+const logWebhookConfig = (config: BotConfig) => {
+  const { group } = config.webhook;
+  for (const { url, events } of currentCollection().webhooks) {
+    logger.info(`│     ├─ ${url} = ${events.join(", ")}`);
+  }
+  logger.info(`│     ├─ Signed: ${webhookSecret() ? "yes" : "no"}`);
+  logger.info("│     └─ Grouping");
+  logger.info(`│        ├─ Min Group Size: ${group.minGroupSize} items`);
+  logger.info(`│        └─ Settle Time: ${group.settleMs / MS_PER_SECOND}s`);
+};
+
+type EnabledPlatforms = {
+  twitter: boolean;
+  discord: boolean;
+  telegram: boolean;
+  webhook: boolean;
 };
 
 const logPlatformConfig = async (
-  twitterEnabled: boolean,
-  discordEnabled: boolean
+  config: BotConfig,
+  enabled: EnabledPlatforms
 ) => {
   logger.info("├─ 🔌 PLATFORMS");
   logger.info("│");
   logger.info(
-    `│  🐦 Twitter: ${twitterEnabled ? "✅ ENABLED" : "⭕ DISABLED"}`
+    `│  🐦 Twitter: ${enabled.twitter ? "✅ ENABLED" : "⭕ DISABLED"}`
+  );
+  if (enabled.twitter) {
+    logTwitterConfig(config);
+  }
+  logger.info("│");
+  logger.info(
+    `│  💬 Discord: ${enabled.discord ? "✅ ENABLED" : "⭕ DISABLED"}`
+  );
+  if (enabled.discord) {
+    await logDiscordConfig(config);
+  }
+  logger.info("│");
+  logger.info(
+    `│  ✈️  Telegram: ${enabled.telegram ? "✅ ENABLED" : "⭕ DISABLED"}`
   );
-  if (twitterEnabled) {
-    logTwitterConfig();
+  if (enabled.telegram) {
+    logTelegramConfig(config);
   }
   logger.info("│");
   logger.info(
-    `│  💬 Discord: ${discordEnabled ? "✅ ENABLED" : "⭕ DISABLED"}`
+    `│  🪝 Webhooks: ${enabled.webhook ? "✅ ENABLED" : "⭕ DISABLED"}`
   );
-  if (discordEnabled) {
-    await logDiscordConfig();
+  if (enabled.webhook) {
+    logWebhookConfig(config);
   }
   logger.info("│");
 };
 
-const logStartupConfiguration = async () => {
-  const asciiArt = `
-╔═════════════════════════════════════════════════════════════════╗
-║                                                                 ║
-║    ██████╗ ██████╗ ███████╗███╗   ██╗███████╗███████╗ █████╗    ║
-║   ██╔═══██╗██╔══██╗██╔════╝████╗  ██║██╔════╝██╔════╝██╔══██╗   ║
-║   ██║   ██║██████╔╝█████╗  ██╔██╗ ██║███████╗█████╗  ███████║   ║
-║   ██║   ██║██╔═══╝ ██╔══╝  ██║╚██╗██║╚════██║██╔══╝  ██╔══██║   ║
-║   ╚██████╔╝██║     ███████╗██║ ╚████║███████║███████╗██║  ██║   ║
-║    ╚═════╝ ╚═╝     ╚══════╝╚═╝  ╚═══╝╚══════╝╚══════╝╚═╝  ╚═╝   ║
-║                                                                 ║
-║                Activity Bot - Real-time NFT Tracker             ║
-║                                                                 ║
-╚═════════════════════════════════════════════════════════════════╝
-`;
-
-  // Use logger.info without timestamp prefix for ASCII art
-  for (const line of asciiArt.split("\n")) {
-    if (line.trim()) {
-      logger.info(line);
-    }
+const formatTimestampSource = (source: EventTimestampSource): string => {
+  switch (source) {
+    case "env":
+      return "config (LAST_EVENT_TIMESTAMP)";
+    case "state_file":
+      return "state file";
+    case "new":
+      return "new (starting from current time)";
+    default:
+      return String(source);
   }
+};
+
+const logCollectionConfiguration = async (config: BotConfig) => {
+  const collection = currentCollection();
 
   // Fetch collection slug and event timestamp for display
   let collectionSlug: string | undefined;
@@ -141,36 +207,34 @@ const logStartupConfiguration = async () => {
     | { timestamp: number; source: EventTimestampSource }
     | undefined;
   try {
-    if (process.env.TOKEN_ADDRESS) {
-      collectionSlug = await fetchCollectionSlug(process.env.TOKEN_ADDRESS);
+    if (collection.tokenAddress) {
+      collectionSlug = await fetchCollectionSlug(collection.tokenAddress);
     }
     eventTimestampInfo = await resolveLastEventTimestamp();
   } catch (error) {
     logger.debug("Error fetching startup info:", error);
   }
 
-  const formatTimestampSource = (source: EventTimestampSource): string => {
-    switch (source) {
-      case "env":
-        return "environment variable";
-      case "state_file":
-        return "state file";
-      case "new":
-        return "new (starting from current time)";
-      default:
-        return String(source);
-    }
-  };
-
   logger.info("");
   logger.info("┌─ 📋 CONFIGURATION");
   logger.info("│");
-  logger.info(`│  📦  Contract: ${fullTokenAddr}`);
+  logger.info(`│  📦  Contract: ${collection.tokenAddress}`);
   if (collectionSlug) {
     logger.info(`│  🏷️   Slug: ${collectionSlug}`);
   }
-  logger.info(`│  ⛓️   Chain: ${chain}`);
-  logger.info(`│  ⏱️   Poll Interval: ${botInterval}s`);
+  logger.info(`│  ⛓️   Chain: ${collection.chain}`);
+  if (config.opensea.stream) {
+    logger.info(
+      `│  📡  Ingestion: OpenSea Stream (polling every ${config.pollIntervalSeconds}s to reconcile)`
+    );
+  } else {
+    logger.info(`│  ⏱️   Poll Interval: ${config.pollIntervalSeconds}s`);
+  }
+  if (config.rpc.url) {
+    logger.info(
+      `│  🧱  Transfer Logs: RPC (${config.rpc.confirmations} confirmations)`
+    );
+  }
   if (eventTimestampInfo) {
     const ts = eventTimestampInfo.timestamp;
     logger.info(
@@ -180,22 +244,231 @@ const logStartupConfiguration = async () => {
       `│      └─ Source: ${formatTimestampSource(eventTimestampInfo.source)}`
     );
   }
-  logger.info(`│  💰  Min Offer Filter: ${minOfferETH} ETH`);
-  logger.info(`│  📝  Log Level: ${process.env.LOG_LEVEL ?? "info"}`);
+  logger.info(`│  💰  Min Offer Filter: ${minOfferETHFor(collection)} ETH`);
+  logger.info(`│  📝  Log Level: ${config.logLevel}`);
+  if (config.file) {
+    logger.info(`│  🗂️   Config File: ${config.file}`);
+  }
   logger.info("│");
 
-  const twitterEnabled = Boolean(process.env.TWITTER_EVENTS);
-  const discordEnabled = Boolean(process.env.DISCORD_EVENTS);
-
-  await logPlatformConfig(twitterEnabled, discordEnabled);
+  await logPlatformConfig(config, {
+    twitter: collection.twitterEvents.length > 0,
+    discord: collection.discordChannels.length > 0,
+    telegram: collection.telegramChats.length > 0 && hasTelegramToken(),
+    webhook: collection.webhooks.length > 0,
+  });
 
   logger.info("└─");
   logger.info("");
 };
 
+const logStartupConfiguration = async (config: BotConfig) => {
+  const asciiArt = `
+╔═════════════════════════════════════════════════════════════════╗
+║                                                                 ║
+║    ██████╗ ██████╗ ███████╗███╗   ██╗███████╗███████╗ █████╗    ║
+║   ██╔═══██╗██╔══██╗██╔════╝████╗  ██║██╔════╝██╔════╝██╔══██╗   ║
+║   ██║   ██║██████╔╝█████╗  ██╔██╗ ██║███████╗█████╗  ███████║   ║
+║   ██║   ██║██╔═══╝ ██╔══╝  ██║╚██╗██║╚════██║██╔══╝  ██╔══██║   ║
+║   ╚██████╔╝██║     ███████╗██║ ╚████║███████║███████╗██║  ██║   ║
+║    ╚═════╝ ╚═╝     ╚══════╝╚═╝  ╚═══╝╚══════╝╚══════╝╚═╝  ╚═╝   ║
+║                                                                 ║
+║                Activity Bot - Real-time NFT Tracker             ║
+║                                                                 ║
+╚═════════════════════════════════════════════════════════════════╝
+`;
+
+  // Use logger.info without timestamp prefix for ASCII art
+  for (const line of asciiArt.split("\n")) {
+    if (line.trim()) {
+      logger.info(line);
+    }
+  }
+
+  for (const collection of config.collections) {
+    await runWithCollection(collection, () =>
+      logCollectionConfiguration(config)
+    );
+  }
+};
+
+// Runs a config or argument loader, exiting with every problem listed if
+// invalid
+const orExit = <T>(load: () => T): T => {
+  try {
+    return load();
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      logger.error("❌ Invalid configuration:");
+      for (const issue of error.issues) {
+        logger.error(`   - ${issue}`);
+      }
+      process.exit(1);
+    }
+    throw error;
+  }
+};
+
+// Picks up posts a previous run queued but never delivered
+const restoreOutboxes = async () => {
+  const tweets = await restoreTweetOutbox();
+  const posts = await restoreDiscordOutbox();
+  const messages = await restoreTelegramOutbox();
+  const deliveries = await restoreWebhookOutbox();
+  if (tweets + posts + messages + deliveries > 0) {
+    logger.info(
+      `📮 Restored pending posts: twitter=${tweets} discord=${posts} telegram=${messages} webhook=${deliveries}`
+    );
+  }
+};
+
+// Status of every platform some collection posts to, for the health server
+const platformHealth = ({
+  collections,
+}: BotConfig): Record<string, () => PlatformHealth> => {
+  const platforms: Record<string, () => PlatformHealth> = {};
+  if (collections.some((c) => c.discordChannels.length > 0)) {
+    platforms.discord = discordHealth;
+  }
+  if (collections.some((c) => c.twitterEvents.length > 0)) {
+    platforms.twitter = twitterHealth;
+  }
+  if (collections.some((c) => c.telegramChats.length > 0)) {
+    platforms.telegram = telegramHealth;
+  }
+  if (collections.some((c) => c.webhooks.length > 0)) {
+    platforms.webhook = webhookHealth;
+  }
+  return platforms;
+};
+
+// Records events of the active collection in the history and summaries and
+// hands them to every platform. A dry run only renders Discord embeds and
+// tweets, so Telegram and webhooks are skipped.
+const dispatchEvents = (events: OpenSeaAssetEvent[]) => {
+  recordEventHistory(events).catch((error: unknown) => {
+    logger.error("Failed to record event history:", error);
+  });
+  recordSummaryEvents(events).catch((error: unknown) => {
+    logger.error("Failed to record summary stats:", error);
+  });
+  messageEvents(events).catch((error: unknown) => {
+    logger.error("Discord failed:", error);
+  });
+  tweetEvents(events).catch((error: unknown) => {
+    logger.error("Twitter failed:", error);
+  });
+  if (isDryRun()) {
+    return;
+  }
+  messageTelegram(events).catch((error: unknown) => {
+    logger.error("Telegram failed:", error);
+  });
+  sendWebhooks(events).catch((error: unknown) => {
+    logger.error("Webhooks failed:", error);
+  });
+};
+
+// `backfill` mode: posts or exports past events, then exits
+const backfill = async (args: string[]) => {
+  const options = orExit(() => parseBackfillArgs(args));
+  const posting = options.post && !(options.dryRun || isDryRun());
+  const locks = posting ? await lockForBackfill() : [];
+  if (!locks) {
+    logger.error("❌ Stop the bot before posting a backfill, or use --out");
+    process.exit(1);
+  }
+  if (posting) {
+    await restoreOutboxes();
+  }
+  const total = await runBackfill(options, dispatchEvents);
+  logger.info(`✅ Backfill finished (${total} events)`);
+  await Promise.all(locks.map((lock) => lock.release()));
+  process.exit();
+};
+
+// Renders events of the active collection as Discord embeds and tweets,
+// for replays (which are always dry runs). Waits for both, so a failing
+// platform does not cut the other's previews short before the replay exits
+const renderEvents = async (events: OpenSeaAssetEvent[]) => {
+  const [discord, twitter] = await Promise.allSettled([
+    messageEvents(events),
+    tweetEvents(events),
+  ]);
+  if (discord.status === "rejected") {
+    logger.error("Discord failed:", discord.reason);
+  }
+  if (twitter.status === "rejected") {
+    logger.error("Twitter failed:", twitter.reason);
+  }
+};
+
+// `replay` mode: renders what recorded events would post, then exits
+const replay = async (config: BotConfig, args: string[]) => {
+  const options = orExit(() => parseReplayArgs(args));
+  // Replays never send anything
+  applyConfig({
+    ...config,
+    dryRun: { enabled: true, file: options.out ?? config.dryRun.file },
+  });
+  const summary = await runReplay(options.path, renderEvents);
+  logger.info(
+    `✅ Replay finished: ${summary.events} events in ${summary.pages} pages, ${summary.filtered} filtered, ${summary.duplicates} duplicates, ${summary.posts} posts rendered`
+  );
+  process.exit();
+};
+
+// `gallery` mode: writes an HTML page of rendered posts, then exits
+const gallery = async (config: BotConfig, args: string[]) => {
+  const options = orExit(() => parseGalleryArgs(args));
+  const count = await runGallery(options, (previewsFile) => {
+    applyConfig({ ...config, dryRun: { enabled: true, file: previewsFile } });
+    return runReplay(options.path, renderEvents);
+  });
+  logger.info(`✅ Wrote ${count} post previews to ${options.out}`);
+  process.exit();
+};
+
+// `history` mode: prints matching events from the local history, then exits
+const history = async (args: string[]) => {
+  const options = orExit(() => parseHistoryArgs(args));
+  const count = await runHistory(options);
+  if (count === 0 && !options.json) {
+    logger.info("No matching events in the history");
+  }
+  process.exit();
+};
+
 async function main() {
-  const run = async () => {
-    const events: OpenSeaAssetEvent[] = await fetchEvents();
+  const config = orExit(loadConfig);
+  applyConfig(config);
+  const { collections } = config;
+
+  const [mode, ...args] = process.argv.slice(2);
+  if (mode === "backfill") {
+    await backfill(args);
+    return;
+  }
+  if (mode === "replay") {
+    await replay(config, args);
+    return;
+  }
+  if (mode === "gallery") {
+    await gallery(config, args);
+    return;
+  }
+  if (mode === "history") {
+    await history(args);
+    return;
+  }
+
+  const poll = async () => {
+    // Transfer logs read over RPC_URL surface mints and burns before
+    // OpenSea indexes them; whichever copy arrives second is deduped
+    const events: OpenSeaAssetEvent[] = [
+      ...(await fetchEvents()),
+      ...(await fetchTransferEvents()),
+    ];
 
     if (events.length > 0) {
       logger.debug("OpenSea API Events:", events);
@@ -203,22 +476,111 @@ async function main() {
 
     // Always call platform handlers even with empty events
     // to flush any pending aggregated groups that have settled
-    messageEvents(events);
-    tweetEvents(events);
+    dispatchEvents(events);
   };
 
-  await logStartupConfiguration();
+  // Each collection polls inside its own context so state, routing and
+  // log tags stay separate while sharing the Discord client and tweet queue
+  const run = () => {
+    for (const collection of collections) {
+      runWithCollection(collection, poll).catch((error: unknown) => {
+        logger.error("Poll failed:", error);
+      });
+    }
+  };
+
+  await logStartupConfiguration(config);
+
+  // Served while standing by too, so a standby is not restarted as unhealthy
+  const health =
+    config.health.port === undefined
+      ? undefined
+      : new HealthServer({
+          port: config.health.port,
+          platforms: platformHealth(config),
+        });
+  health?.start().catch((error: unknown) => {
+    logger.error("Health server failed to start:", error);
+  });
+
+  let stoodBy = false;
+  const locks =
+    config.lock.mode === "off"
+      ? []
+      : await acquireInstanceLocks(
+          collections,
+          config.state.dir,
+          config.lock,
+          () => {
+            stoodBy = true;
+            setStandby(true);
+          }
+        );
+  if (!locks) {
+    process.exit(1);
+  }
+  if (stoodBy) {
+    // The state loaded at startup is as old as the wait for the lock
+    await reloadEventState(collections);
+  }
+  setStandby(false);
+  for (const lock of locks) {
+    lock.startHeartbeat(() => {
+      logger.error(
+        `❌ Another instance took over ${lock.filePath}, exiting to avoid duplicate posts`
+      );
+      process.exit(1);
+    });
+  }
+
+  if (config.dryRun.enabled) {
+    logger.info(
+      `🧪 Dry run: rendering posts to ${config.dryRun.file ?? "stdout"} instead of sending them`
+    );
+  } else {
+    await restoreOutboxes();
+  }
+  const summaries = await startSummaries(config);
+  const leaderboard = startLeaderboard(config);
+  if (config.discord.commands) {
+    startDiscordCommands([...lookupCommands, leaderboardCommand]).catch(
+      (error: unknown) => {
+        logger.error("Failed to start slash commands:", error);
+      }
+    );
+  }
   run();
 
-  const interval = setInterval(run.bind(this), botInterval * MS_PER_SECOND);
+  // Streamed events are posted as they arrive; polling keeps running to
+  // pick up anything the stream missed
+  const stream = config.opensea.stream
+    ? new OpenSeaStream({
+        url: config.opensea.streamUrl,
+        token: process.env.OPENSEA_API_TOKEN,
+        collections,
+        reconnectMs: config.opensea.streamReconnectMs,
+        onEvents: dispatchEvents,
+      })
+    : undefined;
+  stream?.start().catch((error: unknown) => {
+    logger.error("OpenSea Stream failed to start:", error);
+  });
+
+  const interval = setInterval(run, config.pollIntervalSeconds * MS_PER_SECOND);
 
   process.on("SIGINT", () => {
     logger.info("");
     logger.info("⚠️ Interrupt signal received (SIGINT)");
     logger.info("🛑 Shutting down gracefully...");
     clearInterval(interval);
-    logger.info("✅ Bot stopped successfully");
-    process.exit();
+    stream?.stop();
+    summaries?.stop();
+    leaderboard?.stop();
+    health?.stop();
+    Promise.all(locks.map((lock) => lock.release())).finally(() => {
+      logger.info("✅ Bot stopped successfully");
+      process.exit();
+    });
   });
 }
 
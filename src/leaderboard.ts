@@ -0,0 +1,217 @@
+import {
+  ApplicationCommandOptionType,
+  type ChatInputCommandInteraction,
+  EmbedBuilder,
+} from "discord.js";
+import {
+  type BotConfig,
+  durationSeconds,
+  getConfig,
+  type LeaderboardConfig,
+  type LeaderboardRanking,
+} from "./config";
+import { getCollectionSlug, opensea, username } from "./opensea";
+import type { SlashCommand } from "./platforms/discord/commands";
+import { sendDiscordEmbed } from "./platforms/discord/discord";
+import type { EmbedResult } from "./platforms/discord/utils";
+import {
+  collectionStore,
+  currentCollection,
+  runWithCollection,
+} from "./utils/collection-store";
+import { MS_PER_SECOND, SECONDS_PER_MINUTE } from "./utils/constants";
+import {
+  type EventHistory,
+  getEventHistory,
+  type LeaderboardEntry,
+  type LeaderboardRole,
+} from "./utils/event-history";
+import { prefixedLogger } from "./utils/logger";
+
+const log = prefixedLogger("Leaderboard");
+
+const MS_PER_HOUR = 60 * SECONDS_PER_MINUTE * MS_PER_SECOND;
+// How often the schedule is checked
+const TICK_MS = SECONDS_PER_MINUTE * MS_PER_SECOND;
+const VOLUME_DECIMALS = 4;
+const EMBED_COLOR = "#f5b642";
+
+const ROLE_TITLES: Record<LeaderboardRole, string> = {
+  buyer: "Top buyers",
+  seller: "Top sellers",
+  minter: "Top minters",
+};
+const ROLES = Object.keys(ROLE_TITLES) as LeaderboardRole[];
+
+type LeaderboardOptions = Pick<LeaderboardConfig, "size" | "rankBy"> & {
+  windows: string[];
+  history?: EventHistory;
+  // Unix seconds the windows end at
+  now?: number;
+};
+
+const entryLine = async (
+  entry: LeaderboardEntry,
+  index: number
+): Promise<string> => {
+  const items = `${entry.count} item${entry.count === 1 ? "" : "s"}`;
+  const volume =
+    entry.volume > 0
+      ? `, ${Number(entry.volume.toFixed(VOLUME_DECIMALS))} ETH`
+      : "";
+  return `${index + 1}. ${await username(entry.address)}: ${items}${volume}`;
+};
+
+/**
+ * The top wallets of the active collection in every role and window, as
+ * one field per role and window.
+ */
+export const leaderboardFields = async ({
+  windows,
+  size,
+  rankBy,
+  history = getEventHistory(),
+  now = Math.floor(Date.now() / MS_PER_SECOND),
+}: LeaderboardOptions): Promise<Array<{ name: string; value: string }>> => {
+  const fields: Array<{ name: string; value: string }> = [];
+  const { tokenAddress, chain } = currentCollection();
+  for (const window of windows) {
+    for (const role of ROLES) {
+      const entries = await history.leaderboard({
+        role,
+        collection: tokenAddress,
+        chain,
+        since: now - (durationSeconds(window) ?? 0),
+        rankBy,
+        limit: size,
+      });
+      const lines = await Promise.all(entries.map(entryLine));
+      fields.push({
+        name: `${ROLE_TITLES[role]} (${window})`,
+        value: lines.length > 0 ? lines.join("\n") : "No activity",
+      });
+    }
+  }
+  return fields;
+};
+
+export const leaderboardEmbed = async (
+  options: LeaderboardOptions
+): Promise<EmbedResult> => {
+  const embed = new EmbedBuilder()
+    .setColor(EMBED_COLOR)
+    .setTitle(
+      `🏆 Leaderboard: ${getCollectionSlug() ?? collectionStore.getIdentifier()}`
+    )
+    .setDescription(`Ranked by ${options.rankBy}`)
+    .setFields(
+      (await leaderboardFields(options)).map((field) => ({
+        ...field,
+        inline: true,
+      }))
+    );
+  if (getCollectionSlug()) {
+    embed.setURL(opensea.collectionURL());
+  }
+  return { embed, attachment: null };
+};
+
+/**
+ * `/leaderboard [window] [by]`: the top wallets over one of the configured
+ * windows, the first by default.
+ */
+export const leaderboardCommand: SlashCommand = {
+  definition: () => {
+    const { windows } = getConfig().leaderboard;
+    return {
+      name: "leaderboard",
+      description: "Top buyers, sellers and minters",
+      options: [
+        {
+          type: ApplicationCommandOptionType.String,
+          name: "window",
+          description: `Time window (defaults to ${windows[0]})`,
+          choices: windows.map((window) => ({ name: window, value: window })),
+        },
+        {
+          type: ApplicationCommandOptionType.String,
+          name: "by",
+          description: "Rank by items or volume",
+          choices: (["count", "volume"] as const).map((ranking) => ({
+            name: ranking,
+            value: ranking,
+          })),
+        },
+      ],
+    };
+  },
+  execute: (interaction: ChatInputCommandInteraction) => {
+    const { leaderboard } = getConfig();
+    return leaderboardEmbed({
+      windows: [
+        interaction.options.getString("window") ?? leaderboard.windows[0],
+      ],
+      size: leaderboard.size,
+      rankBy:
+        (interaction.options.getString("by") as LeaderboardRanking | null) ??
+        leaderboard.rankBy,
+    });
+  },
+};
+
+/**
+ * Unix ms of the latest scheduled post at or before `nowMs`. Posts fall on
+ * whole multiples of `intervalHours` since the unix epoch (midnight UTC for
+ * daily posts), so a restart does not move them.
+ */
+export const latestLeaderboardPost = (
+  intervalHours: number,
+  nowMs: number
+): number => {
+  const intervalMs = intervalHours * MS_PER_HOUR;
+  return Math.floor(nowMs / intervalMs) * intervalMs;
+};
+
+/**
+ * Posts every collection's leaderboard to LEADERBOARD_DISCORD_CHANNEL
+ * every `intervalHours` on a fixed schedule. Returns undefined when no
+ * channel is set.
+ */
+export const startLeaderboard = (
+  config: BotConfig
+): { stop: () => void } | undefined => {
+  const { leaderboard, collections } = config;
+  const channelId = leaderboard.discordChannelId;
+  if (!channelId) {
+    return;
+  }
+  const post = async () => {
+    for (const collection of collections) {
+      await runWithCollection(collection, async () => {
+        try {
+          await sendDiscordEmbed(
+            channelId,
+            await leaderboardEmbed(leaderboard)
+          );
+        } catch (error) {
+          log.error("Failed to post leaderboard:", error);
+        }
+      });
+    }
+  };
+  // The post due when the bot started is not made up for
+  let lastPost = latestLeaderboardPost(leaderboard.intervalHours, Date.now());
+  const timer = setInterval(() => {
+    const due = latestLeaderboardPost(leaderboard.intervalHours, Date.now());
+    if (due > lastPost) {
+      lastPost = due;
+      post();
+    }
+  }, TICK_MS);
+  timer.unref();
+  return {
+    stop: () => {
+      clearInterval(timer);
+    },
+  };
+};
@@ -0,0 +1,347 @@
+import WebSocket from "ws";
+import type { CollectionConfig } from "./config";
+import {
+  EventType,
+  enabledApiEventTypes,
+  fetchCollectionSlug,
+  processIngestedEvents,
+} from "./opensea";
+import {
+  type OpenSeaAssetEvent,
+  type OpenSeaNFT,
+  type OpenSeaPayment,
+  type OpenSeaStreamEvent,
+  OpenSeaStreamEventType,
+  type OpenSeaStreamItem,
+  type OpenSeaStreamPaymentToken,
+} from "./types";
+import { runWithCollection } from "./utils/collection-store";
+import { MS_PER_SECOND, NULL_ADDRESS } from "./utils/constants";
+import { effectiveEventTypeFor } from "./utils/event-types";
+import { prefixedLogger } from "./utils/logger";
+
+const log = prefixedLogger("Stream");
+
+// Phoenix closes sockets that go quiet for 60s
+const DEFAULT_HEARTBEAT_MS = 30_000;
+const PHOENIX_TOPIC = "phoenix";
+const PHOENIX_VERSION = "1.0.0";
+const TOPIC_PREFIX = "collection:";
+// Slug lookups that fail are retried with doubling delays up to this cap
+const MAX_SLUG_RETRY_MS = 5 * 60 * 1000;
+
+type PhoenixMessage = {
+  topic: string;
+  event: string;
+  payload: unknown;
+  ref: string | null;
+};
+
+const timestampFor = (iso: string | undefined): number | undefined =>
+  iso ? Math.floor(Date.parse(iso) / MS_PER_SECOND) : undefined;
+
+const nftFor = (item: OpenSeaStreamItem, slug: string): OpenSeaNFT => {
+  const [, contract = "", identifier = ""] = item.nft_id.split("/");
+  const { name, image_url, animation_url, metadata_url } = item.metadata;
+  return {
+    identifier,
+    collection: slug,
+    contract,
+    token_standard: "",
+    name: name ?? "",
+    description: "",
+    image_url: image_url ?? "",
+    display_image_url: image_url ?? "",
+    display_animation_url: animation_url,
+    metadata_url,
+    opensea_url: item.permalink,
+    updated_at: "",
+    is_disabled: false,
+    is_nsfw: false,
+  };
+};
+
+const paymentFor = (
+  token: OpenSeaStreamPaymentToken | undefined,
+  quantity: string | undefined
+): OpenSeaPayment | undefined =>
+  token && quantity
+    ? {
+        quantity,
+        token_address: token.address,
+        decimals: token.decimals,
+        symbol: token.symbol,
+      }
+    : undefined;
+
+/**
+ * Maps an OpenSea Stream message onto the REST event shape, so streamed
+ * and polled copies of an event share a canonical key. Returns undefined
+ * for event types the bot does not post and for payloads without an item.
+ */
+export const assetEventFor = (
+  message: OpenSeaStreamEvent
+): OpenSeaAssetEvent | undefined => {
+  const { payload } = message;
+  const item = payload?.item;
+  if (!item?.chain) {
+    return;
+  }
+  const base = {
+    event_timestamp: timestampFor(payload.event_timestamp) ?? 0,
+    chain: item.chain.name,
+    quantity: payload.quantity,
+    nft: nftFor(item, payload.collection.slug),
+  };
+  switch (message.event_type) {
+    case OpenSeaStreamEventType.item_sold:
+      // The stream names the order maker and taker; for listings (the
+      // common case) those are the seller and buyer
+      return {
+        ...base,
+        event_type: "sale",
+        transaction: payload.transaction?.hash,
+        order_hash: payload.order_hash,
+        payment: paymentFor(payload.payment_token, payload.sale_price),
+        seller: payload.maker?.address,
+        buyer: payload.taker?.address,
+      };
+    case OpenSeaStreamEventType.item_listed:
+      return {
+        ...base,
+        event_type: "order",
+        order_type: "listing",
+        order_hash: payload.order_hash,
+        payment: paymentFor(payload.payment_token, payload.base_price),
+        maker: payload.maker?.address,
+        expiration_date: timestampFor(payload.expiration_date),
+        is_private_listing: payload.is_private ?? false,
+      };
+    case OpenSeaStreamEventType.item_received_offer:
+      return {
+        ...base,
+        event_type: "order",
+        order_type: "item_offer",
+        order_hash: payload.order_hash,
+        payment: paymentFor(payload.payment_token, payload.base_price),
+        maker: payload.maker?.address,
+        expiration_date: timestampFor(payload.expiration_date),
+      };
+    case OpenSeaStreamEventType.item_transferred: {
+      const from = payload.from_account?.address;
+      return {
+        ...base,
+        event_type: from?.toLowerCase() === NULL_ADDRESS ? "mint" : "transfer",
+        transaction: payload.transaction?.hash,
+        from_address: from,
+        to_address: payload.to_account?.address,
+      };
+    }
+    default:
+      return;
+  }
+};
+
+// The event type a streamed event would be polled under
+const apiEventTypeFor = (event: OpenSeaAssetEvent): EventType => {
+  if (event.order_type === "listing") {
+    return EventType.listing;
+  }
+  if (event.order_type) {
+    return EventType.offer;
+  }
+  return event.event_type as EventType;
+};
+
+export type OpenSeaStreamOptions = {
+  url: string;
+  token?: string;
+  collections: CollectionConfig[];
+  reconnectMs: number;
+  heartbeatMs?: number;
+  // Receives new events that passed filters and dedupe, inside the
+  // collection's context
+  onEvents: (events: OpenSeaAssetEvent[]) => void;
+};
+
+/**
+ * Subscribes to each collection's OpenSea Stream channel (a Phoenix
+ * websocket) and feeds events into the same pipeline as polling.
+ * Reconnects and rejoins after the connection drops. Collections whose
+ * slug cannot be looked up yet are joined once a retry succeeds.
+ */
+export class OpenSeaStream {
+  private readonly options: OpenSeaStreamOptions;
+  private readonly collectionsByTopic = new Map<string, CollectionConfig>();
+  private socket: WebSocket | undefined;
+  private heartbeat: NodeJS.Timeout | undefined;
+  private reconnectTimer: NodeJS.Timeout | undefined;
+  private slugRetryTimer: NodeJS.Timeout | undefined;
+  private ref = 0;
+  private stopped = false;
+
+  constructor(options: OpenSeaStreamOptions) {
+    this.options = options;
+  }
+
+  async start(): Promise<void> {
+    this.stopped = false;
+    await this.subscribe(this.options.collections, this.options.reconnectMs);
+    this.connect();
+  }
+
+  stop(): void {
+    this.stopped = true;
+    clearTimeout(this.reconnectTimer);
+    clearTimeout(this.slugRetryTimer);
+    clearInterval(this.heartbeat);
+    this.socket?.close();
+    this.socket = undefined;
+  }
+
+  private connect(): void {
+    const url = new URL(this.options.url);
+    url.searchParams.set("vsn", PHOENIX_VERSION);
+    if (this.options.token) {
+      url.searchParams.set("token", this.options.token);
+    }
+    const socket = new WebSocket(url);
+    this.socket = socket;
+
+    socket.on("open", () => {
+      log.info(`Connected, joining ${this.collectionsByTopic.size} channel(s)`);
+      for (const topic of this.collectionsByTopic.keys()) {
+        this.send(topic, "phx_join");
+      }
+      this.heartbeat = setInterval(
+        () => this.send(PHOENIX_TOPIC, "heartbeat"),
+        this.options.heartbeatMs ?? DEFAULT_HEARTBEAT_MS
+      );
+      this.heartbeat.unref();
+    });
+    socket.on("message", (data) => {
+      this.handleMessage(String(data));
+    });
+    socket.on("error", (error) => {
+      log.warn(`Connection error: ${error.message}`);
+    });
+    socket.on("close", () => {
+      clearInterval(this.heartbeat);
+      if (this.socket === socket) {
+        this.socket = undefined;
+        this.scheduleReconnect();
+      }
+    });
+  }
+
+  /**
+   * Looks up each collection's slug and adds its channel, joining it right
+   * away when already connected. Failed lookups are retried after
+   * `retryMs`, doubling each time.
+   */
+  private async subscribe(
+    collections: CollectionConfig[],
+    retryMs: number
+  ): Promise<void> {
+    const failed: CollectionConfig[] = [];
+    for (const collection of collections) {
+      try {
+        const slug = await runWithCollection(collection, () =>
+          fetchCollectionSlug(collection.tokenAddress)
+        );
+        const topic = `${TOPIC_PREFIX}${slug}`;
+        this.collectionsByTopic.set(topic, collection);
+        if (this.socket?.readyState === WebSocket.OPEN) {
+          this.send(topic, "phx_join");
+        }
+      } catch (error) {
+        log.debug(`Slug lookup for ${collection.tokenAddress} failed:`, error);
+        failed.push(collection);
+      }
+    }
+    if (failed.length === 0 || this.stopped) {
+      return;
+    }
+    log.warn(
+      `Could not look up ${failed.length} collection slug(s), retrying in ${retryMs}ms`
+    );
+    this.slugRetryTimer = setTimeout(() => {
+      this.subscribe(failed, Math.min(retryMs * 2, MAX_SLUG_RETRY_MS)).catch(
+        (error: unknown) => {
+          log.error("Failed to subscribe to collections:", error);
+        }
+      );
+    }, retryMs);
+  }
+
+  private scheduleReconnect(): void {
+    if (this.stopped) {
+      return;
+    }
+    const { reconnectMs } = this.options;
+    log.warn(`Disconnected, reconnecting in ${reconnectMs}ms`);
+    this.reconnectTimer = setTimeout(() => this.connect(), reconnectMs);
+  }
+
+  private send(topic: string, event: string, payload: unknown = {}): void {
+    this.ref += 1;
+    const message: PhoenixMessage = {
+      topic,
+      event,
+      payload,
+      ref: String(this.ref),
+    };
+    this.socket?.send(JSON.stringify(message));
+  }
+
+  private handleMessage(data: string): void {
+    let message: PhoenixMessage;
+    try {
+      message = JSON.parse(data) as PhoenixMessage;
+    } catch {
+      log.debug("Ignoring malformed message:", data);
+      return;
+    }
+    // Runs inside the socket's message listener, where a throw would
+    // take the process down
+    try {
+      this.routeMessage(message);
+    } catch (error) {
+      log.error("Failed to handle message:", error);
+    }
+  }
+
+  private routeMessage(message: PhoenixMessage): void {
+    const collection = this.collectionsByTopic.get(message.topic);
+    if (!collection) {
+      return;
+    }
+    if (message.event === "phx_reply") {
+      const { status } = message.payload as { status?: string };
+      if (status !== "ok") {
+        log.warn(`Join of ${message.topic} failed: ${status}`);
+      }
+      return;
+    }
+    const event = assetEventFor(message.payload as OpenSeaStreamEvent);
+    if (!event) {
+      return;
+    }
+    runWithCollection(collection, () => this.ingest(event)).catch(
+      (error: unknown) => {
+        log.error("Failed to process streamed event:", error);
+      }
+    );
+  }
+
+  private async ingest(event: OpenSeaAssetEvent): Promise<void> {
+    if (!enabledApiEventTypes().has(apiEventTypeFor(event))) {
+      return;
+    }
+    const events = await processIngestedEvents([event]);
+    if (events.length > 0) {
+      log.debug(`Received ${effectiveEventTypeFor(event)} event`);
+      this.options.onEvents(events);
+    }
+  }
+}
@@ -1,50 +1,58 @@
 import { URLSearchParams } from "node:url";
 import { FixedNumber } from "ethers";
+import { type CollectionConfig, getConfig } from "./config";
+import { recordPoll } from "./health";
 import { channelsWithEvents } from "./platforms/discord/discord";
 import type {
   OpenSeaAccount,
   OpenSeaAssetEvent,
   OpenSeaCollection,
+  OpenSeaCollectionStats,
   OpenSeaContractResponse,
   OpenSeaEventsResponse,
   OpenSeaNFT,
   OpenSeaNFTResponse,
+  OpenSeaTraitCounts,
 } from "./types";
 import { canonicalEventKeyFor } from "./utils/canonical-events";
-import { collectionStore } from "./utils/collection-store";
+import { collectionStatsStore } from "./utils/collection-stats";
+import {
+  collectionKeyFor,
+  collectionStore,
+  currentCollection,
+  runWithCollection,
+} from "./utils/collection-store";
+import { MS_PER_SECOND } from "./utils/constants";
 import { getDefaultEventStateStore } from "./utils/event-state";
-import { parseEvents, wantsOpenSeaEventTypes } from "./utils/events";
-import { logger } from "./utils/logger";
+import { wantsOpenSeaEventTypes } from "./utils/events";
+import { collectionNeedsFloor, collectionNeedsTraits } from "./utils/filters";
+import { logFields } from "./utils/log-fields";
+import { isDebugEnabled, logger } from "./utils/logger";
 import { LRUCache } from "./utils/lru-cache";
-import { chain, minOfferETH, shortAddr, unixTimestamp } from "./utils/utils";
-
-const {
-  OPENSEA_API_TOKEN,
-  TOKEN_ADDRESS,
-  TWITTER_EVENTS,
-  LAST_EVENT_TIMESTAMP,
-  OPENSEA_EVENT_LAG_WINDOW,
-  OPENSEA_MAX_PAGES,
-} = process.env;
-
-const eventStateStore = getDefaultEventStateStore();
-let lastEventTimestamp: number | undefined;
-let lastEventTimestampSource: EventTimestampSource | undefined;
+import {
+  fetchDurationSeconds,
+  fetchedEventsTotal,
+  fetchedPagesTotal,
+  fetchesTotal,
+  filteredEventsTotal,
+  processedEventsTotal,
+} from "./utils/metrics";
+import { minOfferETHFor, shortAddr, unixTimestamp } from "./utils/utils";
+
+const { OPENSEA_API_TOKEN } = process.env;
+
+// Resume timestamps are tracked per collection (keyed by collectionKeyFor)
+const lastEventTimestamps = new Map<
+  string,
+  { timestamp: number; source: EventTimestampSource }
+>();
+const currentCollectionKey = () => collectionKeyFor(currentCollection());
 
 // Pagination and safety window constants
 const SUBSTRING_LENGTH_FOR_CURSOR_LOG = 20;
-const DEFAULT_MAX_PAGINATION_PAGES = 100;
 const OPENSEA_MAX_LIMIT = 200;
-const MAX_PAGINATION_PAGES = Number(
-  OPENSEA_MAX_PAGES ?? DEFAULT_MAX_PAGINATION_PAGES
-);
-
-const DEFAULT_EVENT_LAG_SAFETY_WINDOW_SECONDS = 120;
-const EVENT_LAG_SAFETY_WINDOW_SECONDS = Number(
-  OPENSEA_EVENT_LAG_WINDOW ?? DEFAULT_EVENT_LAG_SAFETY_WINDOW_SECONDS
-);
 
-type FetchSummaryStatus =
+export type FetchSummaryStatus =
   | "events_processed"
   | "no_events_found"
   | "all_events_filtered"
@@ -68,61 +76,73 @@ type FetchSummary = {
   error?: string;
 };
 
+const recordFetchMetrics = (summary: FetchSummary, durationMs: number) => {
+  const collection = collectionStore.getIdentifier();
+  fetchesTotal.inc({ collection, status: summary.status });
+  fetchedEventsTotal.inc({ collection }, summary.fetched);
+  processedEventsTotal.inc({ collection }, summary.processed);
+  filteredEventsTotal.inc({ collection, reason: "duplicate" }, summary.deduped);
+  filteredEventsTotal.inc(
+    { collection, reason: "private_listing" },
+    summary.filteredPrivate
+  );
+  filteredEventsTotal.inc(
+    { collection, reason: "low_offer" },
+    summary.filteredLowOffers
+  );
+  fetchedPagesTotal.inc({ collection }, summary.pages);
+  fetchDurationSeconds.observe({ collection }, durationMs / MS_PER_SECOND);
+};
+
 const logFetchSummary = (summary: FetchSummary, durationMs: number) => {
-  if (process.env.LOG_LEVEL === "debug") {
-    const debugParts = [
+  if (isDebugEnabled()) {
+    logger.debug(
       "[FetchSummaryDebug]",
-      `status=${summary.status}`,
-      `after=${summary.after}`,
-      `lag=${EVENT_LAG_SAFETY_WINDOW_SECONDS}s`,
-      `limit=${summary.limit}`,
-      `types=${summary.eventTypes.join("|")}`,
-      `pages=${summary.pages}`,
-      `fetched=${summary.fetched}`,
-      `processed=${summary.processed}`,
-      `deduped=${summary.deduped}`,
-      `filteredPrivate=${summary.filteredPrivate}`,
-      `filteredLow=${summary.filteredLowOffers}`,
-      `durationMs=${durationMs}`,
-    ];
-    if (summary.oldestTimestamp !== undefined) {
-      debugParts.push(`oldestTs=${summary.oldestTimestamp}`);
-    }
-    if (summary.newestTimestamp !== undefined) {
-      debugParts.push(`newestTs=${summary.newestTimestamp}`);
-    }
-    if (summary.nextCursor) {
-      const preview = summary.nextCursor.slice(
-        0,
-        SUBSTRING_LENGTH_FOR_CURSOR_LOG
-      );
-      debugParts.push(`nextCursor=${preview}…`);
-    }
-    if (summary.error) {
-      debugParts.push(`error=${summary.error}`);
-    }
-    logger.debug(debugParts.join(" "));
+      logFields({
+        status: summary.status,
+        after: summary.after,
+        lag: `${getConfig().opensea.eventLagWindowSeconds}s`,
+        limit: summary.limit,
+        types: summary.eventTypes.join("|"),
+        pages: summary.pages,
+        fetched: summary.fetched,
+        processed: summary.processed,
+        deduped: summary.deduped,
+        filteredPrivate: summary.filteredPrivate,
+        filteredLow: summary.filteredLowOffers,
+        durationMs,
+        oldestTs: summary.oldestTimestamp,
+        newestTs: summary.newestTimestamp,
+        nextCursor: summary.nextCursor
+          ? `${summary.nextCursor.slice(0, SUBSTRING_LENGTH_FOR_CURSOR_LOG)}…`
+          : undefined,
+        error: summary.error,
+      })
+    );
     return;
   }
 
-  const parts = [
-    "[FetchSummary]",
-    `status=${summary.status}`,
-    `fetched=${summary.fetched}`,
-    `processed=${summary.processed}`,
-  ];
+  let filtered: number | undefined;
+  let deduped: number | undefined;
   if (summary.status === "all_events_filtered") {
-    const totalFiltered =
+    filtered =
       summary.filteredPrivate + summary.filteredLowOffers + summary.deduped;
-    parts.push(`filtered=${totalFiltered}`);
   } else if (summary.status === "events_processed") {
-    parts.push(`deduped=${summary.deduped}`);
+    deduped = summary.deduped;
   }
-  if (summary.error) {
-    parts.push(`error=${summary.error}`);
-  }
-  parts.push(`pages=${summary.pages}`, `durationMs=${durationMs}`);
-  logger.info(parts.join(" "));
+  logger.info(
+    "[FetchSummary]",
+    logFields({
+      status: summary.status,
+      fetched: summary.fetched,
+      processed: summary.processed,
+      filtered,
+      deduped,
+      error: summary.error,
+      pages: summary.pages,
+      durationMs,
+    })
+  );
 };
 
 export const opensea = {
@@ -131,11 +151,20 @@ export const opensea = {
     `https://opensea.io/collection/${collectionStore.getSlug()}`,
   getEvents: () =>
     `${opensea.api}events/collection/${collectionStore.getSlug()}`,
-  getContract: () => `${opensea.api}chain/${chain}/contract/${TOKEN_ADDRESS}`,
+  getContract: () => {
+    const { chain, tokenAddress } = currentCollection();
+    return `${opensea.api}chain/${chain}/contract/${tokenAddress}`;
+  },
   getAccount: (address: string) => `${opensea.api}accounts/${address}`,
-  getNFT: (tokenId: number) =>
-    `${opensea.api}chain/${chain}/contract/${TOKEN_ADDRESS}/nfts/${tokenId}`,
+  getNFT: (tokenId: number) => `${opensea.getContract()}/nfts/${tokenId}`,
+  getEventsByNFT: (identifier: string) => {
+    const { chain, tokenAddress } = currentCollection();
+    return `${opensea.api}events/chain/${chain}/contract/${tokenAddress}/nfts/${identifier}`;
+  },
   getCollection: (slug: string) => `${opensea.api}collections/${slug}`,
+  getTraits: (slug: string) => `${opensea.api}traits/${slug}`,
+  getCollectionStats: (slug: string) =>
+    `${opensea.api}collections/${slug}/stats`,
   GET_OPTS: {
     method: "GET",
     headers: {
@@ -156,7 +185,7 @@ export const openseaGet = async <T = unknown>(
     if (!response.ok) {
       logger.error(
         `Fetch Error for ${url} - ${response.status}: ${response.statusText}`,
-        process.env.LOG_LEVEL === "debug" ? await response.text() : undefined
+        isDebugEnabled() ? await response.text() : undefined
       );
       return;
     }
@@ -212,6 +241,29 @@ export const fetchNFT = async (
   return result?.nft;
 };
 
+/**
+ * Fills in traits for events whose NFT payload lacks them, fetching each
+ * token once. Only needed when trait filter rules are configured.
+ */
+const attachTraits = async (events: OpenSeaAssetEvent[]): Promise<void> => {
+  const nftsByToken = new Map<string, OpenSeaNFT[]>();
+  for (const event of events) {
+    const nft = event.nft ?? event.asset;
+    if (!nft?.identifier || nft.traits) {
+      continue;
+    }
+    const nfts = nftsByToken.get(nft.identifier) ?? [];
+    nfts.push(nft);
+    nftsByToken.set(nft.identifier, nfts);
+  }
+  for (const [identifier, nfts] of nftsByToken) {
+    const fresh = await fetchNFT(identifier);
+    for (const nft of nfts) {
+      nft.traits = fresh?.traits ?? [];
+    }
+  }
+};
+
 export const EventType = {
   listing: "listing",
   offer: "offer",
@@ -231,12 +283,30 @@ const addDiscordDeclaredEventTypes = (set: Set<string>) => {
   }
 };
 
+const addTelegramDeclaredEventTypes = (set: Set<string>) => {
+  for (const { events } of currentCollection().telegramChats) {
+    for (const eventType of events) {
+      set.add(eventType);
+    }
+  }
+};
+
+const addWebhookDeclaredEventTypes = (set: Set<string>) => {
+  for (const { events } of currentCollection().webhooks) {
+    for (const eventType of events) {
+      set.add(eventType);
+    }
+  }
+};
+
 const enabledEventTypes = (): string[] => {
   const eventTypes = new Set<string>();
   addDiscordDeclaredEventTypes(eventTypes);
+  addTelegramDeclaredEventTypes(eventTypes);
+  addWebhookDeclaredEventTypes(eventTypes);
 
   // Parse TWITTER_EVENTS and map to OpenSea event_type(s)
-  const tw = parseEvents(TWITTER_EVENTS);
+  const tw = new Set(currentCollection().twitterEvents);
   const wantedFromTwitter = wantsOpenSeaEventTypes(tw);
   for (const t of wantedFromTwitter) {
     eventTypes.add(t);
@@ -244,7 +314,7 @@ const enabledEventTypes = (): string[] => {
 
   if (eventTypes.size === 0) {
     throw new Error(
-      "No events enabled. Please specify DISCORD_EVENTS or TWITTER_EVENTS"
+      "No events enabled. Please specify DISCORD_EVENTS, TWITTER_EVENTS, TELEGRAM_EVENTS or WEBHOOKS"
     );
   }
   return [...eventTypes];
@@ -255,6 +325,7 @@ export const fetchCollectionSlug = async (address: string): Promise<string> => {
   if (existing) {
     return existing;
   }
+  const { chain } = currentCollection();
   logger.info(`🔍 Fetching collection metadata for ${address} on ${chain}...`);
   const url = opensea.getContract();
   const result = await openseaGet<OpenSeaContractResponse>(url);
@@ -274,7 +345,7 @@ export const getCollectionSlug = (): string | undefined =>
  * Fetches collection data from OpenSea API by slug.
  * Uses LRU cache to avoid repeated API calls.
  */
-const COLLECTION_CACHE_CAPACITY = 1;
+const COLLECTION_CACHE_CAPACITY = 25;
 const collectionCache = new LRUCache<string, OpenSeaCollection>(
   COLLECTION_CACHE_CAPACITY
 );
@@ -295,6 +366,108 @@ export const fetchCollection = async (
   return result;
 };
 
+const traitCountsCache = new LRUCache<string, OpenSeaTraitCounts>(
+  COLLECTION_CACHE_CAPACITY
+);
+
+/**
+ * Fetches how many NFTs in a collection have each trait value.
+ */
+export const fetchTraitCounts = async (
+  slug: string
+): Promise<OpenSeaTraitCounts | undefined> => {
+  const cached = traitCountsCache.get(slug);
+  if (cached) {
+    return cached;
+  }
+
+  const result = await openseaGet<OpenSeaTraitCounts>(opensea.getTraits(slug));
+  if (result) {
+    traitCountsCache.put(slug, result);
+  }
+  return result;
+};
+
+// Previous sale per sale event; null records that there was none
+const PREVIOUS_SALE_CACHE_CAPACITY = 100;
+const previousSaleCache = new LRUCache<string, OpenSeaAssetEvent | null>(
+  PREVIOUS_SALE_CACHE_CAPACITY
+);
+
+/**
+ * Finds the sale of the same token before `sale`, if there was one.
+ */
+export const fetchPreviousSale = async (
+  sale: OpenSeaAssetEvent
+): Promise<OpenSeaAssetEvent | undefined> => {
+  const identifier = (sale.nft ?? sale.asset)?.identifier;
+  if (!identifier) {
+    return;
+  }
+  const key = `${currentCollectionKey()}:${identifier}:${sale.transaction ?? sale.event_timestamp}`;
+  const cached = previousSaleCache.get(key);
+  if (cached !== undefined) {
+    return cached ?? undefined;
+  }
+
+  const params = new URLSearchParams({
+    event_type: EventType.sale,
+    before: String(sale.event_timestamp + 1),
+  });
+  const result = await openseaGet<OpenSeaEventsResponse>(
+    `${opensea.getEventsByNFT(identifier)}?${params}`
+  );
+  if (!result) {
+    return;
+  }
+  // Newest first; the sale being posted may itself be included
+  const previous = result.asset_events.find(
+    (event) =>
+      event.event_type === EventType.sale &&
+      event.event_timestamp <= sale.event_timestamp &&
+      event.transaction !== sale.transaction
+  );
+  previousSaleCache.put(key, previous ?? null);
+  return previous;
+};
+
+/**
+ * The latest sale of a token of the active collection, if it ever sold.
+ */
+export const fetchLastSale = async (
+  identifier: string
+): Promise<OpenSeaAssetEvent | undefined> => {
+  const params = new URLSearchParams({ event_type: EventType.sale });
+  const result = await openseaGet<OpenSeaEventsResponse>(
+    `${opensea.getEventsByNFT(identifier)}?${params}`
+  );
+  // Newest first
+  return result?.asset_events.find(
+    (event) => event.event_type === EventType.sale
+  );
+};
+
+/**
+ * Stats (floor price, volume) of the active collection. Fetched at most once
+ * per `floor.refreshSeconds`; the last known stats are kept when a refresh
+ * fails.
+ */
+export const fetchCollectionStats = async (): Promise<
+  OpenSeaCollectionStats | undefined
+> => {
+  const slug = collectionStore.getSlug();
+  if (!slug || collectionStatsStore.isFresh()) {
+    return collectionStatsStore.get();
+  }
+  const result = await openseaGet<OpenSeaCollectionStats>(
+    opensea.getCollectionStats(slug)
+  );
+  if (result) {
+    collectionStatsStore.set(result);
+  }
+  return collectionStatsStore.get();
+};
+
 const filterPrivateListings = (
   events: OpenSeaAssetEvent[]
 ): { filtered: OpenSeaAssetEvent[]; count: number } => {
@@ -314,6 +487,7 @@ const filterLowValueOffers = (
   count: number;
 } => {
   const preFilter = events.length;
+  const minOfferETH = minOfferETHFor(currentCollection());
   const filtered = events.filter((event) => {
     if (
       event.order_type?.includes("offer") &&
@@ -335,16 +509,17 @@ const updateLastEventTimestamp = (events: OpenSeaAssetEvent[]): void => {
     return;
   }
   const lastEvent = events.at(-1);
-  if (!lastEvent) {
+  const current = lastEventTimestamps.get(currentCollectionKey());
+  if (!(lastEvent && current)) {
     return;
   }
-  lastEventTimestamp = lastEvent.event_timestamp + 1;
+  current.timestamp = lastEvent.event_timestamp + 1;
   // When updating from events, source is still from the original resolution
   // (env, state_file, or new), so we don't change lastEventTimestampSource
 };
 
 const timestampFromCursor = (): number | undefined => {
-  const cursor = eventStateStore.getCursor();
+  const cursor = getDefaultEventStateStore().getCursor();
   if (cursor?.lastTimestamp === null) {
     return;
   }
@@ -354,16 +529,8 @@ const timestampFromCursor = (): number | undefined => {
   return cursor.lastTimestamp;
 };
 
-const timestampFromEnv = (): number | undefined => {
-  if (LAST_EVENT_TIMESTAMP === undefined) {
-    return;
-  }
-  const parsed = Number.parseInt(LAST_EVENT_TIMESTAMP, 10);
-  if (Number.isNaN(parsed)) {
-    return;
-  }
-  return parsed;
-};
+const timestampFromConfig = (): number | undefined =>
+  getConfig().opensea.lastEventTimestamp;
 
 export type EventTimestampSource = "env" | "state_file" | "new";
 
@@ -375,34 +542,31 @@ export type EventTimestampInfo = {
 export const resolveLastEventTimestamp =
   async (): Promise<EventTimestampInfo> => {
     // Ensure event state store is loaded before checking cursor
-    await eventStateStore.load();
+    await getDefaultEventStateStore().load();
 
-    if (
-      lastEventTimestamp !== undefined &&
-      lastEventTimestampSource !== undefined
-    ) {
-      return {
-        timestamp: lastEventTimestamp,
-        source: lastEventTimestampSource,
-      };
+    const key = currentCollectionKey();
+    const existing = lastEventTimestamps.get(key);
+    if (existing) {
+      return { ...existing };
     }
-    // Check env var first - allows overriding persisted cursor
-    const fromEnv = timestampFromEnv();
-    if (fromEnv !== undefined) {
+    // Check config first - allows overriding persisted cursor
+    const fromConfig = timestampFromConfig();
+    if (fromConfig !== undefined) {
       logger.info(
-        `[EventTimestamp] Using LAST_EVENT_TIMESTAMP from environment: ${fromEnv}`
+        `[EventTimestamp] Using LAST_EVENT_TIMESTAMP from config: ${fromConfig}`
       );
-      lastEventTimestamp = fromEnv;
-      lastEventTimestampSource = "env";
-      return { timestamp: fromEnv, source: "env" };
+      lastEventTimestamps.set(key, { timestamp: fromConfig, source: "env" });
+      return { timestamp: fromConfig, source: "env" };
     }
     const fromCursor = timestampFromCursor();
     if (fromCursor !== undefined) {
       logger.debug(
         `[EventTimestamp] Using timestamp from persisted cursor: ${fromCursor}`
       );
-      lastEventTimestamp = fromCursor;
-      lastEventTimestampSource = "state_file";
+      lastEventTimestamps.set(key, {
+        timestamp: fromCursor,
+        source: "state_file",
+      });
       return { timestamp: fromCursor, source: "state_file" };
     }
     // No timestamp available - start from current time
@@ -410,11 +574,26 @@ export const resolveLastEventTimestamp =
     logger.info(
       `[EventTimestamp] No timestamp found, starting from current time: ${now}`
     );
-    lastEventTimestamp = now;
-    lastEventTimestampSource = "new";
+    lastEventTimestamps.set(key, { timestamp: now, source: "new" });
     return { timestamp: now, source: "new" };
   };
 
+/**
+ * Reads each collection's event state again and forgets the resolved last
+ * event timestamps. A standby loads state at startup, so after taking over
+ * it must pick up what the primary wrote while it waited.
+ */
+export const reloadEventState = async (
+  collections: CollectionConfig[]
+): Promise<void> => {
+  lastEventTimestamps.clear();
+  for (const collection of collections) {
+    await runWithCollection(collection, () =>
+      getDefaultEventStateStore().reload()
+    );
+  }
+};
+
 const mapToApiEventTypes = (eventTypes: string[]): Set<EventType> => {
   const apiEventTypes = new Set<EventType>();
   for (const eventType of eventTypes) {
@@ -427,6 +606,12 @@ const mapToApiEventTypes = (eventTypes: string[]): Set<EventType> => {
   return apiEventTypes;
 };
 
+/**
+ * OpenSea event types the configured targets need.
+ */
+export const enabledApiEventTypes = (): Set<EventType> =>
+  mapToApiEventTypes(enabledEventTypes());
+
 const buildEventsRequest = async (): Promise<{
   url: string;
   params: { after: number; limit: number; eventTypes: EventType[] };
@@ -440,7 +625,7 @@ const buildEventsRequest = async (): Promise<{
   // in-memory cache to prevent reprocessing duplicates.
   const afterCursorBase = Math.max(
     0,
-    effectiveLastTimestamp - EVENT_LAG_SAFETY_WINDOW_SECONDS
+    effectiveLastTimestamp - getConfig().opensea.eventLagWindowSeconds
   );
   const limit = OPENSEA_MAX_LIMIT;
   const params: Record<string, string> = {
@@ -468,11 +653,17 @@ type FilterStats = {
   deduped: number;
 };
 
+// Keys of ingested events that are not marked processed yet, so a copy
+// arriving from another source meanwhile is still skipped
+const ingestingKeys = new Set<string>();
+
 const processEventFilters = (
-  events: OpenSeaAssetEvent[]
+  events: OpenSeaAssetEvent[],
+  { markProcessed = true }: { markProcessed?: boolean } = {}
 ): {
   events: OpenSeaAssetEvent[];
   stats: FilterStats;
+  keys: string[];
 } => {
   let processed = events;
   const stats: FilterStats = {
@@ -491,13 +682,14 @@ const processEventFilters = (
   processed = afterOfferFilter;
   stats.lowValueFiltered = lowValueCount;
 
+  const eventStateStore = getDefaultEventStateStore();
   const preDedup = processed.length;
   const deduped: OpenSeaAssetEvent[] = [];
   const newKeys: string[] = [];
 
   for (const event of processed) {
     const key = canonicalEventKeyFor(event);
-    if (eventStateStore.hasKey(key)) {
+    if (eventStateStore.hasKey(key) || ingestingKeys.has(key)) {
       logger.debug(
         `[Dedupe] Skipping already-seen event: ${event.event_type} token=${event.nft?.identifier ?? "?"} key=${key}`
       );
@@ -511,11 +703,130 @@ const processEventFilters = (
     logger.debug(`[Dedupe] All ${preDedup} events were filtered as duplicates`);
   }
 
-  eventStateStore.markProcessed(newKeys);
+  if (markProcessed) {
+    eventStateStore.markProcessed(newKeys);
+  }
   processed = deduped;
   stats.deduped = preDedup - deduped.length;
 
-  return { events: processed, stats };
+  return { events: processed, stats, keys: newKeys };
+};
+
+// Loads what filters and posts need beyond the event payloads
+const enrichEvents = async (events: OpenSeaAssetEvent[]): Promise<void> => {
+  if (events.length === 0) {
+    return;
+  }
+  if (collectionNeedsTraits(currentCollection())) {
+    await attachTraits(events);
+  }
+  if (collectionNeedsFloor(currentCollection())) {
+    await fetchCollectionStats();
+  }
+};
+
+/**
+ * Runs events received outside of polling (OpenSea Stream, on-chain logs)
+ * through the same filters and dedupe as polled events. The poll cursor is left alone so the
+ * next poll still reconciles anything the stream missed.
+ *
+ * `prepare` runs on the new events before they are marked processed, so
+ * the events of a failed batch are not deduped when it is retried. State
+ * it changes is saved together with their keys.
+ */
+export const processIngestedEvents = async (
+  events: OpenSeaAssetEvent[],
+  prepare?: (newEvents: OpenSeaAssetEvent[]) => Promise<void>
+): Promise<OpenSeaAssetEvent[]> => {
+  const eventStateStore = getDefaultEventStateStore();
+  await eventStateStore.load();
+  const { events: filteredEvents, keys } = processEventFilters(events, {
+    markProcessed: false,
+  });
+  for (const key of keys) {
+    ingestingKeys.add(key);
+  }
+  try {
+    await enrichEvents(filteredEvents);
+    await prepare?.(filteredEvents);
+    eventStateStore.markProcessed(keys);
+  } finally {
+    for (const key of keys) {
+      ingestingKeys.delete(key);
+    }
+  }
+  await eventStateStore.flush();
+  return filteredEvents;
+};
+
+/**
+ * Runs recorded events through the same filters and dedupe as polled
+ * events for a replay. The state file is neither loaded nor saved, so a
+ * replay starts with empty dedupe state and leaves the live bot's alone.
+ */
+export const processReplayedEvents = async (
+  events: OpenSeaAssetEvent[]
+): Promise<{ events: OpenSeaAssetEvent[]; stats: FilterStats }> => {
+  const filtered = processEventFilters(events);
+  await enrichEvents(filtered.events);
+  return filtered;
+};
+
+/**
+ * Fetches every enabled event between two timestamps, oldest first, for a
+ * backfill. Filters private listings and low offers like polling does, but
+ * leaves the poll cursor, dedupe state and last event timestamp untouched.
+ */
+export const fetchEventsBetween = async (
+  after: number,
+  before: number
+): Promise<OpenSeaAssetEvent[]> => {
+  await fetchCollectionSlug(currentCollection().tokenAddress);
+  const urlParams = new URLSearchParams({
+    limit: OPENSEA_MAX_LIMIT.toString(),
+    after: after.toString(),
+    before: before.toString(),
+  });
+  for (const apiType of enabledApiEventTypes()) {
+    urlParams.append("event_type", apiType);
+  }
+
+  const events: OpenSeaAssetEvent[] = [];
+  let cursor: string | undefined;
+  do {
+    if (cursor) {
+      urlParams.set("next", cursor);
+    }
+    const url = `${opensea.getEvents()}?${urlParams}`;
+    logger.debug(`Backfill Events URL: ${url}`);
+    const result = await openseaGet<OpenSeaEventsResponse>(url);
+    if (!result) {
+      throw new Error(`Failed to fetch events after ${events.length} events`);
+    }
+    if (isEmptyEventsResponse(result)) {
+      break;
+    }
+    events.push(...result.asset_events);
+    // A repeated cursor means the API has nothing further
+    cursor = result.next === cursor ? undefined : result.next;
+  } while (cursor);
+
+  const { filtered: withoutPrivateListings } = filterPrivateListings(
+    events.reverse()
+  );
+  const { filtered } = filterLowValueOffers(withoutPrivateListings);
+  // Pages can overlap when events land while paginating
+  const seen = new Set<string>();
+  const unique = filtered.filter((event) => {
+    const key = canonicalEventKeyFor(event);
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+  await enrichEvents(unique);
+  return unique;
 };
 
 const isEmptyEventsResponse = (result?: OpenSeaEventsResponse): boolean =>
@@ -542,7 +853,7 @@ const collectPaginatedEvents = async (
 
   while (
     currentResult?.next &&
-    pagesFollowed < MAX_PAGINATION_PAGES &&
+    pagesFollowed < getConfig().opensea.maxPages &&
     allEvents.length > 0 &&
     lastBatchCount >= OPENSEA_MAX_LIMIT
   ) {
@@ -603,9 +914,10 @@ const collectPaginatedEvents = async (
 };
 
 export const fetchEvents = async (): Promise<OpenSeaAssetEvent[]> => {
+  const eventStateStore = getDefaultEventStateStore();
   await eventStateStore.load();
   await resolveLastEventTimestamp();
-  await fetchCollectionSlug(TOKEN_ADDRESS ?? "");
+  await fetchCollectionSlug(currentCollection().tokenAddress);
 
   const request = await buildEventsRequest();
   logger.debug(`Events URL: ${request.url}`);
@@ -653,6 +965,7 @@ export const fetchEvents = async (): Promise<OpenSeaAssetEvent[]> => {
     updateLastEventTimestamp(events);
 
     const { events: filteredEvents, stats } = processEventFilters(events);
+    await enrichEvents(filteredEvents);
     summary.filteredPrivate = stats.privateFiltered;
     summary.filteredLowOffers = stats.lowValueFiltered;
     summary.deduped = stats.deduped;
@@ -668,6 +981,9 @@ export const fetchEvents = async (): Promise<OpenSeaAssetEvent[]> => {
     }
     finalEvents = filteredEvents;
 
+    const lastEventTimestamp = lastEventTimestamps.get(
+      currentCollectionKey()
+    )?.timestamp;
     if (lastEventTimestamp !== undefined) {
       eventStateStore.setCursor({
         source: "opensea-v2",
@@ -678,8 +994,15 @@ export const fetchEvents = async (): Promise<OpenSeaAssetEvent[]> => {
     }
 
     return filteredEvents;
+  } catch (error) {
+    summary.status = "request_failed";
+    summary.error = error instanceof Error ? error.message : String(error);
+    throw error;
   } finally {
-    logFetchSummary(summary, Date.now() - startMs);
+    const durationMs = Date.now() - startMs;
+    logFetchSummary(summary, durationMs);
+    recordFetchMetrics(summary, durationMs);
+    recordPoll(summary.status);
     await eventStateStore.flush();
   }
 };
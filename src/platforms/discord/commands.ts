@@ -0,0 +1,181 @@
+import {
+  ApplicationCommandOptionType,
+  type ChatInputCommandInteraction,
+  type Client,
+  Events,
+  type Interaction,
+  type RESTPostAPIChatInputApplicationCommandsJSONBody,
+} from "discord.js";
+import { type BotConfig, type CollectionConfig, getConfig } from "../../config";
+import {
+  collectionKeyFor,
+  collectionStore,
+  runWithCollection,
+} from "../../utils/collection-store";
+import { isDryRun } from "../../utils/dry-run";
+import { prefixedLogger } from "../../utils/logger";
+import { discordClient } from "./discord";
+import type { EmbedResult } from "./utils";
+
+const log = prefixedLogger("Discord");
+
+// Discord lists at most 25 choices for an option
+const MAX_CHOICES = 25;
+const FAILED_REPLY = "Something went wrong, please try again later.";
+
+/**
+ * A slash command: its definition, registered with Discord, and the
+ * handler building the reply. Handlers run with the chosen collection
+ * active.
+ */
+export type SlashCommand = {
+  definition: () => RESTPostAPIChatInputApplicationCommandsJSONBody;
+  execute: (interaction: ChatInputCommandInteraction) => Promise<EmbedResult>;
+};
+
+/**
+ * A problem with the request (an unknown token, no data yet) shown to the
+ * member instead of the generic failure reply.
+ */
+export class CommandError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CommandError";
+  }
+}
+
+// With more than one collection every command asks which one is meant
+const withCollectionOption = (
+  definition: RESTPostAPIChatInputApplicationCommandsJSONBody,
+  collections: CollectionConfig[]
+): RESTPostAPIChatInputApplicationCommandsJSONBody => {
+  if (collections.length < 2) {
+    return definition;
+  }
+  const choices = collections.slice(0, MAX_CHOICES).map((collection) => ({
+    name: runWithCollection(collection, collectionStore.getIdentifier),
+    value: collectionKeyFor(collection),
+  }));
+  return {
+    ...definition,
+    options: [
+      ...(definition.options ?? []),
+      {
+        type: ApplicationCommandOptionType.String,
+        name: "collection",
+        description: "Collection to look up (defaults to the first)",
+        choices,
+      },
+    ],
+  };
+};
+
+const collectionFor = (
+  interaction: ChatInputCommandInteraction
+): CollectionConfig => {
+  const { collections } = getConfig();
+  const key = interaction.options.getString("collection");
+  return (
+    collections.find((collection) => collectionKeyFor(collection) === key) ??
+    collections[0]
+  );
+};
+
+// Servers of every channel the bot posts to
+const guildIdsFor = async (
+  client: Client,
+  config: BotConfig
+): Promise<string[]> => {
+  const channelIds = new Set([
+    ...config.collections.flatMap((collection) =>
+      collection.discordChannels.map(({ channelId }) => channelId)
+    ),
+    ...[
+      config.summary.discordChannelId,
+      config.leaderboard.discordChannelId,
+    ].filter((id): id is string => id !== undefined),
+  ]);
+  const guildIds = new Set<string>();
+  for (const channelId of channelIds) {
+    try {
+      const channel = await client.channels.fetch(channelId);
+      if (channel && "guildId" in channel && channel.guildId) {
+        guildIds.add(channel.guildId);
+      }
+    } catch (error) {
+      log.warn(`Failed to look up the server of channel ${channelId}:`, error);
+    }
+  }
+  return [...guildIds];
+};
+
+const answer = async (
+  command: SlashCommand,
+  interaction: ChatInputCommandInteraction
+): Promise<void> => {
+  // Lookups can take longer than the 3 seconds Discord waits for a reply
+  await interaction.deferReply();
+  try {
+    const { embed, attachment } = await runWithCollection(
+      collectionFor(interaction),
+      () => command.execute(interaction)
+    );
+    await interaction.editReply({
+      embeds: [embed],
+      files: attachment ? [attachment] : [],
+    });
+  } catch (error) {
+    if (!(error instanceof CommandError)) {
+      log.error(`/${interaction.commandName} failed:`, error);
+    }
+    await interaction.editReply({
+      content: error instanceof CommandError ? error.message : FAILED_REPLY,
+    });
+  }
+};
+
+/**
+ * Registers the commands in the servers of the configured channels and
+ * answers them. Skipped in a dry run, which must not reply to anyone.
+ */
+export const startDiscordCommands = async (
+  commands: SlashCommand[]
+): Promise<void> => {
+  if (isDryRun()) {
+    log.info("Dry run: not registering slash commands");
+    return;
+  }
+  const config = getConfig();
+  const client = await discordClient();
+  const definitions = commands.map((command) =>
+    withCollectionOption(command.definition(), config.collections)
+  );
+  const byName = new Map(
+    commands.map((command, index) => [definitions[index].name, command])
+  );
+  client.on(Events.InteractionCreate, (interaction: Interaction) => {
+    if (!interaction.isChatInputCommand()) {
+      return;
+    }
+    const command = byName.get(interaction.commandName);
+    if (!command) {
+      return;
+    }
+    answer(command, interaction).catch((error: unknown) => {
+      log.error(`Failed to answer /${interaction.commandName}:`, error);
+    });
+  });
+  for (const guildId of await guildIdsFor(client, config)) {
+    try {
+      await client.application?.commands.set(definitions, guildId);
+      log.info(
+        `Registered ${definitions.map(({ name }) => `/${name}`).join(", ")} in server ${guildId}`
+      );
+    } catch (error) {
+      log.error(
+        `Failed to register slash commands in server ${guildId}:`,
+        error
+      );
+    }
+  }
+};
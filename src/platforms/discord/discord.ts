@@ -4,86 +4,135 @@ import {
   type MessageCreateOptions,
   type TextBasedChannel,
 } from "discord.js";
+import {
+  type CollectionConfig,
+  type FilterRules,
+  getConfig,
+} from "../../config";
+import type { PlatformHealth } from "../../health";
 import type { EventType } from "../../opensea";
 import type { BotEvent, OpenSeaAssetEvent } from "../../types";
 import type { AggregatorEvent } from "../../utils/aggregator";
+import {
+  collectionKeyFor,
+  currentCollection,
+} from "../../utils/collection-store";
+import { isDryRun, writePreview } from "../../utils/dry-run";
 import {
   EventGroupManager,
   type GroupedEvent,
   getDefaultEventGroupConfig,
+  pendingGroupCount,
+  postKeyFor,
   processEventsWithAggregator,
 } from "../../utils/event-grouping";
 import { effectiveEventTypeFor } from "../../utils/event-types";
+import { matchesFilters } from "../../utils/filters";
 import { prefixedLogger } from "../../utils/logger";
 import { refetchMintMetadata } from "../../utils/metadata";
+import {
+  postRetriesTotal,
+  postsDroppedTotal,
+  postsSentTotal,
+  rateLimitPausesTotal,
+  recordGroupFlushes,
+} from "../../utils/metrics";
+import {
+  getOutbox,
+  type OutboxEntry,
+  restoreHeldEvents,
+} from "../../utils/outbox";
 import { timeout } from "../../utils/utils";
-import { buildEmbed, buildGroupEmbed } from "./utils";
+import { buildEmbed, buildGroupEmbed, type EmbedResult } from "./utils";
 
 const log = prefixedLogger("Discord");
 
-// Initialize event group manager for Discord
-const groupConfig = getDefaultEventGroupConfig("DISCORD");
-const groupManager = new EventGroupManager(groupConfig);
+// Event group managers for Discord, one per monitored collection
+const groupManagers = new Map<string, EventGroupManager>();
+const groupManagerFor = (collection: CollectionConfig): EventGroupManager => {
+  const key = collectionKeyFor(collection);
+  let manager = groupManagers.get(key);
+  if (!manager) {
+    manager = new EventGroupManager(getDefaultEventGroupConfig("DISCORD"));
+    groupManagers.set(key, manager);
+  }
+  return manager;
+};
 
 type ChannelEvents = [
   channelId: string,
   eventTypes: (EventType | BotEvent)[],
+  filters?: FilterRules,
 ][];
 
-export const channelsWithEvents = (): ChannelEvents => {
-  const DISCORD_EVENTS = process.env.DISCORD_EVENTS;
-  if (!DISCORD_EVENTS) {
-    return [];
-  }
-
-  const list: ChannelEvents = [];
-  for (const channel of DISCORD_EVENTS.split("&")) {
-    const channelWithEvents = channel.split("=");
-    const channelId = channelWithEvents[0];
-    const eventTypes = channelWithEvents[1].split(",") as (
-      | EventType
-      | BotEvent
-    )[];
-    list.push([channelId, eventTypes]);
-  }
-
-  return list;
-};
+export const channelsWithEvents = (
+  collection: CollectionConfig = currentCollection()
+): ChannelEvents =>
+  collection.discordChannels.map(({ channelId, events, filters }) => [
+    channelId,
+    events,
+    filters,
+  ]);
 
 // Use shared effective event type util
 const effectiveTypeForEvent = effectiveEventTypeFor;
 
-const channelsForEventType = (
+// Whether an event should be posted to a channel: its type is enabled
+// there and it passes the channel's filter rules
+const routesTo = (
   event: OpenSeaAssetEvent,
-  channelEvents: ChannelEvents,
-  discordChannels: Record<string, TextBasedChannel>
-) => {
-  const effectiveType = effectiveTypeForEvent(event);
-  const channels: TextBasedChannel[] = [];
-  for (const [channelId, eventTypes] of channelEvents) {
-    if (eventTypes.includes(effectiveType)) {
-      const channel = discordChannels[channelId];
-      channels.push(channel);
+  [, eventTypes, filters]: ChannelEvents[number]
+): boolean =>
+  eventTypes.includes(effectiveTypeForEvent(event)) &&
+  matchesFilters(event, filters);
+
+const channelIdsForEvent = (
+  event: OpenSeaAssetEvent,
+  channelEvents: ChannelEvents
+): string[] =>
+  channelEvents
+    .filter((entry) => routesTo(event, entry))
+    .map(([channelId]) => channelId);
+
+// Groups go to every channel (they are notable events) whose filters
+// accept at least one event in the group
+const channelIdsForGroup = (
+  events: OpenSeaAssetEvent[],
+  channelEvents: ChannelEvents
+): string[] => {
+  const channelIds = new Set<string>();
+  for (const [channelId, , filters] of channelEvents) {
+    if (events.some((event) => matchesFilters(event, filters))) {
+      channelIds.add(channelId);
     }
   }
-  return channels;
+  return [...channelIds];
 };
 
-const messagesForEvents = async (
-  events: AggregatorEvent[]
-): Promise<MessageCreateOptions[]> => {
-  const messages: MessageCreateOptions[] = [];
-  for (const event of events) {
-    const { embed: builtEmbed, attachment } = await buildEmbed(event);
-    const message: MessageCreateOptions = {
-      embeds: [builtEmbed],
-      files: attachment ? [attachment] : [],
-    };
-    messages.push(message);
-  }
-  return messages;
+// A post waiting in the Discord outbox. Channels already posted to are
+// recorded so a retry never posts to the same channel twice.
+type DiscordPost = {
+  collectionKey: string;
+  events: OpenSeaAssetEvent[];
+  groupTxHash?: string;
+  channelIds: string[];
+  sentChannelIds: string[];
 };
 
+const discordOutbox = () => getOutbox<DiscordPost>("discord");
+
+// Failed posts are retried on following polls, then given up on
+const MAX_DELIVERY_ATTEMPTS = 5;
+const INTER_MESSAGE_DELAY_MS = 3000;
+
+// Outbox keys currently being delivered, so overlapping polls never send
+// the same post twice
+const inFlight = new Set<string>();
+
+// A single Discord client is shared by every monitored collection
+let sharedClient: Promise<Client> | undefined;
+let loggedInClient: Client | undefined;
+
 const login = (client: Client): Promise<void> =>
   new Promise<void>((resolve) => {
     client.on(Events.ClientReady, () => {
@@ -92,6 +141,32 @@ const login = (client: Client): Promise<void> =>
     client.login(process.env.DISCORD_TOKEN);
   });
 
+/**
+ * Returns the shared, logged-in Discord client, logging in on first use.
+ * A failed login is not cached so the next poll can retry.
+ */
+export const discordClient = (): Promise<Client> => {
+  if (!sharedClient) {
+    const client = new Client({ intents: [] });
+    // discord.js waits out rate limits itself; count them for metrics
+    client.rest.on("rateLimited", () => {
+      rateLimitPausesTotal.inc({ platform: "discord" });
+    });
+    sharedClient = login(client).then(
+      () => {
+        loggedInClient = client;
+        return client;
+      },
+      (error: unknown) => {
+        sharedClient = undefined;
+        client.destroy();
+        throw error;
+      }
+    );
+  }
+  return sharedClient;
+};
+
 // Helper to get channel name using proper type guards
 const getChannelName = (channel: TextBasedChannel): string => {
   // Guild channels have names, DMs don't
@@ -122,10 +197,47 @@ const getChannels = async (
   return channels;
 };
 
-const processGroupMessages = async (
+const embedForPost = (post: DiscordPost): Promise<EmbedResult> =>
+  post.groupTxHash
+    ? buildGroupEmbed({
+        kind: "group",
+        txHash: post.groupTxHash,
+        events: post.events,
+      })
+    : buildEmbed(post.events[0]);
+
+const messageForPost = async (
+  post: DiscordPost
+): Promise<MessageCreateOptions> => {
+  const { embed, attachment } = await embedForPost(post);
+  return { embeds: [embed], files: attachment ? [attachment] : [] };
+};
+
+// Adds a post to the outbox, or in a dry run renders it without sending
+const queuePost = async (key: string, post: DiscordPost) => {
+  if (!isDryRun()) {
+    discordOutbox().add(key, post);
+    return;
+  }
+  const { embed, attachment } = await embedForPost(post);
+  await writePreview({
+    platform: "discord",
+    channelIds: post.channelIds,
+    embed: embed.toJSON(),
+    attachments: attachment?.name ? [attachment.name] : [],
+  });
+  log.info(
+    `[Dry run] Rendered ${post.groupTxHash ? "group" : "event"} post for ${post.channelIds.length} channel(s)`
+  );
+};
+
+const queueGroupPosts = async (
+  collection: CollectionConfig,
+  groupManager: EventGroupManager,
   readyGroups: Array<{ tx: string; events: OpenSeaAssetEvent[] }>,
-  discordChannels: Record<string, TextBasedChannel>
+  channelEvents: ChannelEvents
 ) => {
+  const collectionKey = collectionKeyFor(collection);
   for (const readyGroup of readyGroups) {
     // Refetch metadata for any mint events before processing
     const refetchCount = await refetchMintMetadata(readyGroup.events);
@@ -140,36 +252,24 @@ const processGroupMessages = async (
       txHash: readyGroup.tx,
       events: readyGroup.events,
     };
-    const { embed: groupEmbed, attachment } = await buildGroupEmbed(group);
-    const message: MessageCreateOptions = {
-      embeds: [groupEmbed],
-      files: attachment ? [attachment] : [],
-    };
-
-    // Send group to all configured channels (groups are notable events)
-    const allChannels = Object.values(discordChannels);
-
-    for (const channel of allChannels) {
-      if (!channel.isSendable()) {
-        continue;
-      }
-      await channel.send(message);
-      log.info(`🧹 Sent group notification: ${group.events.length} items`);
-    }
+    await queuePost(`${collectionKey}|${postKeyFor(group)}`, {
+      collectionKey,
+      events: group.events,
+      groupTxHash: group.txHash,
+      channelIds: channelIdsForGroup(group.events, channelEvents),
+      sentChannelIds: [],
+    });
 
-    // Mark group as processed
+    // The outbox owns delivery from here on
     groupManager.markGroupProcessed(group);
-
-    // Wait between group messages
-    const INTER_MESSAGE_DELAY_MS = 3000;
-    await timeout(INTER_MESSAGE_DELAY_MS);
   }
 };
 
-const processIndividualMessages = async (
+const queueEventPosts = async (
+  collection: CollectionConfig,
+  groupManager: EventGroupManager,
   processableEvents: OpenSeaAssetEvent[],
-  channelEvents: ChannelEvents,
-  discordChannels: Record<string, TextBasedChannel>
+  channelEvents: ChannelEvents
 ) => {
   // Refetch metadata for any mint events before creating messages
   const refetchCount = await refetchMintMetadata(processableEvents);
@@ -179,56 +279,191 @@ const processIndividualMessages = async (
     );
   }
 
-  const messages = await messagesForEvents(processableEvents);
-
-  for (const [index, message] of messages.entries()) {
-    const event = processableEvents[index];
-    const channels = channelsForEventType(
-      event,
-      channelEvents,
-      discordChannels
-    );
-    if (channels.length === 0) {
+  const collectionKey = collectionKeyFor(collection);
+  for (const event of processableEvents) {
+    const channelIds = channelIdsForEvent(event, channelEvents);
+    if (channelIds.length === 0) {
       continue;
     }
+    await queuePost(`${collectionKey}|${postKeyFor(event)}`, {
+      collectionKey,
+      events: [event],
+      channelIds,
+      sentChannelIds: [],
+    });
+    groupManager.markProcessed(event);
+  }
+};
 
-    log.info("💬 Sending event notification");
+const recordFailedDelivery = (
+  entry: OutboxEntry<DiscordPost>,
+  sentChannelIds: string[],
+  error: unknown
+) => {
+  const attempts = entry.attempts + 1;
+  if (attempts >= MAX_DELIVERY_ATTEMPTS) {
+    log.error(`Giving up on post after ${attempts} attempts:`, error);
+    postsDroppedTotal.inc({ platform: "discord", reason: "max_attempts" });
+    discordOutbox().drop(entry.key);
+    return;
+  }
+  postRetriesTotal.inc({ platform: "discord" });
+  log.warn(
+    `Failed to deliver post (attempt ${attempts}), will retry next poll:`,
+    error
+  );
+  discordOutbox().update(entry.key, {
+    attempts,
+    item: { ...entry.item, sentChannelIds },
+  });
+};
 
-    for (const channel of channels) {
-      if (!channel.isSendable()) {
+const deliverPost = async (
+  entry: OutboxEntry<DiscordPost>,
+  discordChannels: Record<string, TextBasedChannel>
+) => {
+  const post = entry.item;
+  const sent = [...post.sentChannelIds];
+  if (!post.groupTxHash) {
+    log.info("💬 Sending event notification");
+  }
+  try {
+    const message = await messageForPost(post);
+    for (const channelId of post.channelIds) {
+      if (sent.includes(channelId)) {
         continue;
       }
-      await channel.send(message);
+      const channel = discordChannels[channelId];
+      if (channel?.isSendable()) {
+        await channel.send(message);
+        postsSentTotal.inc({ platform: "discord" });
+        if (post.groupTxHash) {
+          log.info(`🧹 Sent group notification: ${post.events.length} items`);
+        }
+      }
+      sent.push(channelId);
+      discordOutbox().update(entry.key, {
+        item: { ...post, sentChannelIds: [...sent] },
+      });
     }
+  } catch (error) {
+    recordFailedDelivery(entry, sent, error);
+    return;
+  }
+  discordOutbox().complete(entry.key);
+};
 
-    // Mark individual event as processed
-    groupManager.markProcessed(event);
+const pendingPostsFor = (
+  collection: CollectionConfig
+): OutboxEntry<DiscordPost>[] => {
+  const collectionKey = collectionKeyFor(collection);
+  return discordOutbox()
+    .entries()
+    .filter(
+      (entry) =>
+        entry.item.collectionKey === collectionKey && !inFlight.has(entry.key)
+    );
+};
+
+const deliverPendingPosts = async (
+  pending: OutboxEntry<DiscordPost>[],
+  discordChannels: Record<string, TextBasedChannel>
+) => {
+  for (const entry of pending) {
+    inFlight.add(entry.key);
+  }
+  try {
+    for (const [index, entry] of pending.entries()) {
+      await deliverPost(entry, discordChannels);
+      inFlight.delete(entry.key);
+      // Wait between messages
+      if (pending[index + 1]) {
+        await timeout(INTER_MESSAGE_DELAY_MS);
+      }
+    }
+  } finally {
+    for (const entry of pending) {
+      inFlight.delete(entry.key);
+    }
+    await discordOutbox().flush();
+  }
+};
 
-    // Wait between messages
-    if (messages[index + 1]) {
-      const INTER_MESSAGE_DELAY_MS = 3000;
-      await timeout(INTER_MESSAGE_DELAY_MS);
+/**
+ * Loads posts left in the outbox by a previous run so they are delivered
+ * on the next poll of their collection. Posts for collections that are no
+ * longer configured are dropped.
+ */
+export const restoreDiscordOutbox = async (): Promise<number> => {
+  const configured = new Set(getConfig().collections.map(collectionKeyFor));
+  const entries = await discordOutbox().load();
+  restoreHeldEvents(discordOutbox(), groupManagerFor);
+  let restored = 0;
+  for (const entry of entries) {
+    if (configured.has(entry.item.collectionKey)) {
+      restored += 1;
+      continue;
     }
+    log.warn(
+      `Dropping pending post for unconfigured collection ${entry.item.collectionKey}`
+    );
+    discordOutbox().drop(entry.key);
   }
+  return restored;
 };
 
+/**
+ * Sends an embed to one channel right away, outside the outbox, for
+ * scheduled posts such as summaries. A dry run renders it instead.
+ */
+export const sendDiscordEmbed = async (
+  channelId: string,
+  { embed, attachment }: EmbedResult
+): Promise<void> => {
+  if (isDryRun()) {
+    await writePreview({
+      platform: "discord",
+      channelIds: [channelId],
+      embed: embed.toJSON(),
+      attachments: attachment?.name ? [attachment.name] : [],
+    });
+    return;
+  }
+  const client = await discordClient();
+  const channel = await client.channels.fetch(channelId);
+  if (!channel?.isSendable()) {
+    throw new Error(`Channel ${channelId} is not a text channel`);
+  }
+  await channel.send({
+    embeds: [embed],
+    files: attachment ? [attachment] : [],
+  });
+  postsSentTotal.inc({ platform: "discord" });
+};
+
+// Ready once the shared client has logged in and while it stays connected
+export const discordHealth = (): PlatformHealth => ({
+  ready: loggedInClient?.isReady() ?? false,
+  queued: discordOutbox().entries().length,
+  pendingGroups: pendingGroupCount(groupManagers.values()),
+});
+
 export async function messageEvents(events: AggregatorEvent[]) {
-  if (!process.env.DISCORD_EVENTS) {
+  const collection = currentCollection();
+  if (collection.discordChannels.length === 0) {
     return;
   }
 
-  const client = new Client({ intents: [] });
-  const channelEvents = channelsWithEvents();
+  const channelEvents = channelsWithEvents(collection);
+  const groupManager = groupManagerFor(collection);
 
   // Convert to OpenSeaAssetEvent for better typing
   const openSeaEvents = events as OpenSeaAssetEvent[];
 
-  // Only handle event types specified by DISCORD_EVENTS, using effective type mapping
-  const wantedTypes = new Set(
-    [...channelEvents.map((c) => c[1])].flat() as (EventType | BotEvent)[]
-  );
+  // Only handle events that at least one channel wants, using effective
+  // type mapping and each channel's filter rules
   const filteredEvents = openSeaEvents.filter((event) =>
-    wantedTypes.has(effectiveTypeForEvent(event))
+    channelEvents.some((entry) => routesTo(event, entry))
   );
 
   if (filteredEvents.length > 0) {
@@ -240,33 +475,39 @@ export async function messageEvents(events: AggregatorEvent[]) {
   // Use shared aggregator processing logic
   const { readyGroups, processableEvents, skippedDupes, skippedPending } =
     processEventsWithAggregator(groupManager, filteredEvents);
+  recordGroupFlushes("discord", readyGroups);
 
   log.debug(
     `Processing: groups=${readyGroups.length} singles=${processableEvents.length} ` +
       `skippedDupes=${skippedDupes} skippedPending=${skippedPending}`
   );
 
-  // Return early if there's nothing to process
-  if (readyGroups.length === 0 && processableEvents.length === 0) {
+  await queueGroupPosts(collection, groupManager, readyGroups, channelEvents);
+  await queueEventPosts(
+    collection,
+    groupManager,
+    processableEvents,
+    channelEvents
+  );
+  if (!isDryRun()) {
+    discordOutbox().hold(
+      collectionKeyFor(collection),
+      groupManager.heldEvents()
+    );
+  }
+
+  // Return early if there's nothing to deliver (including posts restored
+  // from a previous run or left over from failed attempts)
+  const pending = pendingPostsFor(collection);
+  if (pending.length === 0 || isDryRun()) {
     return;
   }
 
   try {
-    await login(client);
+    const client = await discordClient();
     const discordChannels = await getChannels(client, channelEvents);
-
-    // Process all group messages
-    await processGroupMessages(readyGroups, discordChannels);
-
-    // Process all individual events
-    await processIndividualMessages(
-      processableEvents,
-      channelEvents,
-      discordChannels
-    );
+    await deliverPendingPosts(pending, discordChannels);
   } catch (error) {
     log.error(error);
   }
-
-  client.destroy();
 }
@@ -0,0 +1,369 @@
+import {
+  ApplicationCommandOptionType,
+  type ChatInputCommandInteraction,
+  type ColorResolvable,
+  EmbedBuilder,
+} from "discord.js";
+import { getConfig } from "../../config";
+import {
+  EventType,
+  fetchCollectionStats,
+  fetchLastSale,
+  fetchNFT,
+  getCollectionSlug,
+  opensea,
+  username,
+} from "../../opensea";
+import type {
+  OpenSeaAssetEvent,
+  OpenSeaCollectionStats,
+  OpenSeaNFT,
+} from "../../types";
+import {
+  collectionStore,
+  currentCollection,
+} from "../../utils/collection-store";
+import { type EventHistory, getEventHistory } from "../../utils/event-history";
+import { colorForEvent } from "../../utils/event-types";
+import { formatPrice } from "../../utils/prices";
+import { formatRank, formatTrait, rarityInfoForNFT } from "../../utils/rarity";
+import { formatAmount, formatTimeAgo } from "../../utils/utils";
+import { CommandError, type SlashCommand } from "./commands";
+import {
+  type EmbedResult,
+  escapeMarkdown,
+  type Field,
+  setEmbedImage,
+} from "./utils";
+
+const EMBED_COLOR = "#2081e2";
+const TOKEN_ID = /^\d+$/;
+const LEADING_HASH = /^#/;
+const ADDRESS = /^0x[0-9a-fA-F]{40}$/;
+const MAX_TRAITS = 10;
+const ACTIVITY_LIMIT = 10;
+const AMOUNT_DECIMALS = 4;
+const INTERVAL_LABELS = {
+  one_day: "24h",
+  seven_day: "7d",
+  thirty_day: "30d",
+} as const;
+
+const collectionName = (): string =>
+  getCollectionSlug() ?? collectionStore.getIdentifier();
+
+const tokenIdOption = {
+  type: ApplicationCommandOptionType.String,
+  name: "id",
+  description: "Token id",
+  required: true,
+} as const;
+
+const tokenIdFor = (interaction: ChatInputCommandInteraction): string => {
+  const id = interaction.options
+    .getString("id", true)
+    .trim()
+    .replace(LEADING_HASH, "");
+  if (!TOKEN_ID.test(id)) {
+    throw new CommandError(`"${id}" is not a token id`);
+  }
+  return id;
+};
+
+// ---- /nft ----
+
+const ownerText = async (nft: OpenSeaNFT): Promise<string | undefined> => {
+  const [owner, ...others] = nft.owners ?? [];
+  if (!owner) {
+    return;
+  }
+  const name = escapeMarkdown(await username(owner.address));
+  return others.length > 0 ? `${name} and ${others.length} more` : name;
+};
+
+/**
+ * Image, owner, rarity rank and traits of a token, rarest traits first
+ * when the collection's trait counts are known.
+ */
+export const nftEmbed = async (nft: OpenSeaNFT): Promise<EmbedResult> => {
+  const embed = new EmbedBuilder()
+    .setColor(EMBED_COLOR)
+    .setTitle(nft.name || `#${nft.identifier}`)
+    .setURL(nft.opensea_url || null);
+  const fields: Field[] = [];
+  const owner = await ownerText(nft);
+  if (owner) {
+    fields.push({ name: "Owner", value: owner, inline: true });
+  }
+  const rarity = await rarityInfoForNFT(nft, MAX_TRAITS);
+  const rank = rarity && formatRank(rarity);
+  if (rank) {
+    fields.push({ name: "Rarity", value: rank, inline: true });
+  }
+  const traits =
+    rarity && rarity.traits.length > 0
+      ? rarity.traits.map(formatTrait)
+      : (nft.traits ?? [])
+          .slice(0, MAX_TRAITS)
+          .map((trait) => `${trait.trait_type}: ${trait.value}`);
+  if (traits.length > 0) {
+    fields.push({
+      name: "Traits",
+      value: traits.map(escapeMarkdown).join("\n"),
+    });
+  }
+  embed.setFields(fields);
+  const attachment = await setEmbedImage(embed, nft);
+  return { embed, attachment };
+};
+
+const nftCommand: SlashCommand = {
+  definition: () => ({
+    name: "nft",
+    description: "Image, owner, rarity and traits of a token",
+    options: [tokenIdOption],
+  }),
+  execute: async (interaction) => {
+    const id = tokenIdFor(interaction);
+    const nft = await fetchNFT(id);
+    if (!nft) {
+      throw new CommandError(`Token #${id} was not found`);
+    }
+    return nftEmbed(nft);
+  },
+};
+
+// ---- /lastsale ----
+
+/**
+ * Price, parties and time of a sale, with the token's image.
+ */
+export const lastSaleEmbed = async (
+  sale: OpenSeaAssetEvent
+): Promise<EmbedResult> => {
+  const nft = sale.nft ?? sale.asset ?? undefined;
+  const embed = new EmbedBuilder()
+    .setColor(colorForEvent(EventType.sale, undefined) as ColorResolvable)
+    .setTitle(`Last sale: ${nft?.name || `#${nft?.identifier ?? "?"}`}`)
+    .setURL(nft?.opensea_url || null);
+  const fields: Field[] = [];
+  if (sale.payment) {
+    fields.push({ name: "Price", value: await formatPrice(sale.payment) });
+  }
+  fields.push({
+    name: "Sold",
+    value: formatTimeAgo(sale.event_timestamp),
+    inline: true,
+  });
+  if (sale.seller) {
+    fields.push({
+      name: "Seller",
+      value: escapeMarkdown(await username(sale.seller)),
+      inline: true,
+    });
+  }
+  if (sale.buyer) {
+    fields.push({
+      name: "Buyer",
+      value: escapeMarkdown(await username(sale.buyer)),
+      inline: true,
+    });
+  }
+  embed.setFields(fields);
+  const attachment = nft ? await setEmbedImage(embed, nft) : null;
+  return { embed, attachment };
+};
+
+const lastSaleCommand: SlashCommand = {
+  definition: () => ({
+    name: "lastsale",
+    description: "The latest sale of a token",
+    options: [tokenIdOption],
+  }),
+  execute: async (interaction) => {
+    const id = tokenIdFor(interaction);
+    const sale = await fetchLastSale(id);
+    if (!sale) {
+      throw new CommandError(`Token #${id} has not sold yet`);
+    }
+    return lastSaleEmbed(sale);
+  },
+};
+
+// ---- /floor and /stats ----
+
+const statsFor = async (): Promise<OpenSeaCollectionStats> => {
+  const stats = await fetchCollectionStats();
+  if (!stats) {
+    throw new CommandError(
+      "Collection stats are not available yet, try again later"
+    );
+  }
+  return stats;
+};
+
+const amountText = (value: number, symbol: string): string =>
+  `${value.toLocaleString("en-US", { maximumFractionDigits: AMOUNT_DECIMALS })} ${symbol}`;
+
+const statsEmbedFor = (title: string, fields: Field[]): EmbedResult => {
+  const embed = new EmbedBuilder()
+    .setColor(EMBED_COLOR)
+    .setTitle(title)
+    .setFields(fields);
+  if (getCollectionSlug()) {
+    embed.setURL(opensea.collectionURL());
+  }
+  return { embed, attachment: null };
+};
+
+export const floorEmbed = (stats: OpenSeaCollectionStats): EmbedResult => {
+  const { floor_price, floor_price_symbol } = stats.total;
+  const symbol = floor_price_symbol || "ETH";
+  const day = stats.intervals.find(({ interval }) => interval === "one_day");
+  const fields: Field[] = [
+    { name: "Floor", value: amountText(floor_price, symbol), inline: true },
+  ];
+  if (day?.sales) {
+    fields.push({
+      name: "24h average sale",
+      value: amountText(day.average_price, symbol),
+      inline: true,
+    });
+  }
+  return statsEmbedFor(`Floor: ${collectionName()}`, fields);
+};
+
+/**
+ * Floor, owners, all-time sales and volume, and the volume and sales of
+ * the last day, week and month.
+ */
+export const statsEmbed = (stats: OpenSeaCollectionStats): EmbedResult => {
+  const { total } = stats;
+  const symbol = total.floor_price_symbol || "ETH";
+  const fields: Field[] = [
+    {
+      name: "Floor",
+      value: amountText(total.floor_price, symbol),
+      inline: true,
+    },
+    {
+      name: "Owners",
+      value: total.num_owners.toLocaleString("en-US"),
+      inline: true,
+    },
+    {
+      name: "Sales",
+      value: total.sales.toLocaleString("en-US"),
+      inline: true,
+    },
+    { name: "Volume", value: amountText(total.volume, symbol), inline: true },
+    {
+      name: "Average sale",
+      value: amountText(total.average_price, symbol),
+      inline: true,
+    },
+  ];
+  for (const interval of stats.intervals) {
+    fields.push({
+      name: `${INTERVAL_LABELS[interval.interval]} volume`,
+      value: `${amountText(interval.volume, symbol)} (${interval.sales.toLocaleString("en-US")} sales)`,
+      inline: true,
+    });
+  }
+  return statsEmbedFor(`Stats: ${collectionName()}`, fields);
+};
+
+const floorCommand: SlashCommand = {
+  definition: () => ({
+    name: "floor",
+    description: "The collection's floor price",
+  }),
+  execute: async () => floorEmbed(await statsFor()),
+};
+
+const statsCommand: SlashCommand = {
+  definition: () => ({
+    name: "stats",
+    description: "Floor, owners, sales and volume of the collection",
+  }),
+  execute: async () => statsEmbed(await statsFor()),
+};
+
+// ---- /activity ----
+
+/**
+ * A wallet's latest events in the active collection, from the event
+ * history.
+ */
+export const activityEmbed = async (
+  address: string,
+  history: EventHistory = getEventHistory()
+): Promise<EmbedResult> => {
+  const events = await history.query({
+    account: address,
+    collection: currentCollection().tokenAddress,
+    sort: "time",
+    limit: ACTIVITY_LIMIT,
+  });
+  const lines = events.map((event) =>
+    [
+      event.type,
+      event.tokenId ? `#${event.tokenId}` : undefined,
+      event.price
+        ? formatAmount(
+            event.price.quantity,
+            event.price.decimals,
+            event.price.symbol
+          )
+        : undefined,
+      formatTimeAgo(event.timestamp),
+    ]
+      .filter(Boolean)
+      .join(" · ")
+  );
+  const embed = new EmbedBuilder()
+    .setColor(EMBED_COLOR)
+    .setTitle(
+      `Activity: ${escapeMarkdown(await username(address))} in ${collectionName()}`
+    )
+    .setDescription(
+      lines.length > 0 ? lines.join("\n") : "No activity recorded yet"
+    );
+  return { embed, attachment: null };
+};
+
+const activityCommand: SlashCommand = {
+  definition: () => ({
+    name: "activity",
+    description: "A wallet's latest activity in the collection",
+    options: [
+      {
+        type: ApplicationCommandOptionType.String,
+        name: "wallet",
+        description: "Wallet address",
+        required: true,
+      },
+    ],
+  }),
+  execute: async (interaction) => {
+    const wallet = interaction.options.getString("wallet", true).trim();
+    if (!ADDRESS.test(wallet)) {
+      throw new CommandError(`"${wallet}" is not a wallet address`);
+    }
+    if (!getConfig().state.history) {
+      throw new CommandError("Activity needs the event history, which is off");
+    }
+    return await activityEmbed(wallet);
+  },
+};
+
+/**
+ * On-demand lookups answered from OpenSea and the event history.
+ */
+export const lookupCommands: SlashCommand[] = [
+  nftCommand,
+  floorCommand,
+  lastSaleCommand,
+  statsCommand,
+  activityCommand,
+];
@@ -4,6 +4,7 @@ import {
   EmbedBuilder,
 } from "discord.js";
 import { format } from "timeago.js";
+import { getConfig } from "../../config";
 import {
   EventType,
   fetchCollection,
@@ -16,6 +17,7 @@ import {
   type OpenSeaAssetEvent,
   type OpenSeaEventType,
   type OpenSeaOrderType,
+  type OpenSeaPayment,
 } from "../../types";
 import type { AggregatorEvent } from "../../utils/aggregator";
 import { MS_PER_SECOND } from "../../utils/constants";
@@ -28,17 +30,28 @@ import {
   primaryActorAddressForGroup,
 } from "../../utils/event-grouping";
 import { colorForEvent, effectiveEventTypeFor } from "../../utils/event-types";
+import { floorContextFor } from "../../utils/floor";
+import { formatProfit, lastSaleFor } from "../../utils/last-sale";
 import {
   openseaCollectionActivityUrl,
   openseaProfileActivityUrl,
   openseaProfileCollectionUrl,
 } from "../../utils/links";
 import { prefixedLogger } from "../../utils/logger";
+import { imageFetchFailuresTotal } from "../../utils/metrics";
+import { formatPrice } from "../../utils/prices";
+import {
+  formatRank,
+  formatTrait,
+  rarityInfoFor,
+  showsRarityFor,
+} from "../../utils/rarity";
 import {
   classifyTransfer,
   fetchImageBuffer,
   formatAmount,
   formatEditionsText,
+  formatTimeAgo,
   imageForNFT,
 } from "../../utils/utils";
 
@@ -64,7 +77,7 @@ export const buildOrderEmbed = async (
   event: AggregatorEvent
 ): Promise<{ title: string; fields: Field[] }> => {
   const { payment, order_type, expiration_date, maker, criteria } = event as {
-    payment: { quantity: string; decimals: number; symbol: string };
+    payment: OpenSeaPayment;
     order_type: OpenSeaOrderType | string;
     expiration_date: number;
     maker: string;
@@ -75,7 +88,7 @@ export const buildOrderEmbed = async (
   };
   const fields: Field[] = [];
   let title = "";
-  const { quantity, decimals, symbol } = payment ?? {
+  const orderPayment = payment ?? {
     quantity: "0",
     decimals: 18,
     symbol: "ETH",
@@ -89,7 +102,7 @@ export const buildOrderEmbed = async (
     const traitType = traitInfo?.type ?? "Unknown";
     const traitValue = traitInfo?.value ?? "Unknown";
     title += `Trait offer: ${traitType} -> ${traitValue}`;
-    const price = formatAmount(quantity, decimals, symbol);
+    const price = await formatPrice(orderPayment);
     fields.push({ name: "Price", value: price });
     fields.push({ name: "Expires", value: inTime });
   } else if (
@@ -98,18 +111,18 @@ export const buildOrderEmbed = async (
     order_type === "criteria_offer"
   ) {
     title += "Item offer:";
-    const price = formatAmount(quantity, decimals, symbol);
+    const price = await formatPrice(orderPayment);
     fields.push({ name: "Price", value: price });
     fields.push({ name: "Expires", value: inTime });
   } else if (order_type === ("collection_offer" satisfies OpenSeaOrderType)) {
     title += "Collection offer";
-    const price = formatAmount(quantity, decimals, symbol);
+    const price = await formatPrice(orderPayment);
     fields.push({ name: "Price", value: price });
     fields.push({ name: "Expires", value: inTime });
   } else {
     // Default to listing
     title += "Listed for sale:";
-    const price = formatAmount(quantity, decimals, symbol);
+    const price = await formatPrice(orderPayment);
     fields.push({ name: "Price", value: price });
     fields.push({ name: "Expires", value: inTime });
   }
@@ -119,18 +132,45 @@ export const buildOrderEmbed = async (
   return { title, fields };
 };
 
+// Previous sale of the token and the profit or loss since
+export const buildLastSaleFields = async (
+  event: OpenSeaAssetEvent
+): Promise<Field[]> => {
+  const sale = await lastSaleFor(event);
+  if (!sale) {
+    return [];
+  }
+  const { quantity, decimals, symbol } = sale.payment;
+  const fields: Field[] = [
+    {
+      name: "Last Sale",
+      value: `${formatAmount(quantity, decimals, symbol)}, ${formatTimeAgo(sale.timestamp)}`,
+    },
+  ];
+  const profit = formatProfit(sale);
+  if (profit && sale.change) {
+    fields.push({
+      name: sale.change.quantity < 0n ? "Loss" : "Profit",
+      value: profit,
+    });
+  }
+  return fields;
+};
+
 export const buildSaleEmbed = async (
   event: AggregatorEvent
 ): Promise<{ title: string; fields: Field[] }> => {
   const { payment, buyer } = event as {
-    payment: { quantity: string; decimals: number; symbol: string };
+    payment: OpenSeaPayment;
     buyer: string;
   };
   const fields: Field[] = [];
-  const { quantity, decimals, symbol } = payment;
-  const price = formatAmount(quantity, decimals, symbol);
+  const price = await formatPrice(payment);
   fields.push({ name: "Price", value: price });
   fields.push({ name: "By", value: escapeMarkdown(await username(buyer)) });
+  if (getConfig().lastSale.discord) {
+    fields.push(...(await buildLastSaleFields(event as OpenSeaAssetEvent)));
+  }
   return { title: "Purchased:", fields };
 };
 
@@ -232,10 +272,44 @@ export const fetchDiscordAttachment = async (
     return new AttachmentBuilder(buffer, { name: attachmentName });
   } catch (error) {
     log.debug(`Failed to fetch image for Discord: ${imageUrl}`, error);
+    imageFetchFailuresTotal.inc({ platform: "discord" });
     return null;
   }
 };
 
+// Rank and rarest traits, for event types configured to show rarity
+export const buildRarityFields = async (
+  event: OpenSeaAssetEvent
+): Promise<Field[]> => {
+  if (!showsRarityFor(event)) {
+    return [];
+  }
+  const info = await rarityInfoFor(event);
+  if (!info) {
+    return [];
+  }
+  const fields: Field[] = [];
+  const rank = formatRank(info);
+  if (rank) {
+    fields.push({ name: "Rarity", value: rank });
+  }
+  if (info.traits.length > 0) {
+    fields.push({
+      name: "Rarest Traits",
+      value: info.traits.map((t) => escapeMarkdown(formatTrait(t))).join("\n"),
+    });
+  }
+  return fields;
+};
+
+// Price relative to the floor, for event types configured to show it
+export const buildFloorFields = (event: OpenSeaAssetEvent): Field[] => {
+  const context = floorContextFor(event);
+  return context
+    ? [{ name: "Floor", value: `${context.text} (${context.floorETH} ETH)` }]
+    : [];
+};
+
 // Helper to build title and fields based on event type
 export const buildTitleAndFields = async (
   event: AggregatorEvent,
@@ -357,6 +431,10 @@ export const buildEmbed = async (
     event_type,
     order_type
   );
+  fields.push(
+    ...buildFloorFields(event as OpenSeaAssetEvent),
+    ...(await buildRarityFields(event as OpenSeaAssetEvent))
+  );
   const nftName =
     nft?.name || (nft?.identifier !== undefined ? `#${nft.identifier}` : "");
   const title = nftName ? `${baseTitle} ${nftName}` : baseTitle;
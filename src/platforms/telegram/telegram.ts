@@ -0,0 +1,277 @@
+import { type CollectionConfig, getConfig } from "../../config";
+import type { PlatformHealth } from "../../health";
+import type { OpenSeaAssetEvent } from "../../types";
+import {
+  collectionKeyFor,
+  currentCollection,
+  runWithCollection,
+} from "../../utils/collection-store";
+import { MS_PER_SECOND } from "../../utils/constants";
+import {
+  EventGroupManager,
+  type GroupedEvent,
+  getDefaultEventGroupConfig,
+  isGroupedEvent,
+  pendingGroupCount,
+  postKeyFor,
+  processEventsWithAggregator,
+} from "../../utils/event-grouping";
+import { effectiveEventTypeFor } from "../../utils/event-types";
+import { matchesFilters } from "../../utils/filters";
+import { isDebugEnabled, prefixedLogger } from "../../utils/logger";
+import { refetchMintMetadata } from "../../utils/metadata";
+import { recordGroupFlushes } from "../../utils/metrics";
+import { getOutbox, restoreHeldEvents } from "../../utils/outbox";
+import { AsyncQueue, type QueueErrorClassification } from "../../utils/queue";
+import {
+  hasTelegramToken,
+  messageForEvent,
+  sendTelegramMessage,
+  TelegramApiError,
+} from "./utils";
+
+const log = prefixedLogger("Telegram");
+
+type TelegramEvent = OpenSeaAssetEvent | GroupedEvent;
+// One item per chat, so a failure in one chat never resends to the others
+type TelegramQueueItem = {
+  event: TelegramEvent;
+  chatId: string;
+  collection: CollectionConfig;
+};
+
+// Event group managers for Telegram, one per monitored collection
+const groupManagers = new Map<string, EventGroupManager>();
+const groupManagerFor = (collection: CollectionConfig): EventGroupManager => {
+  const key = collectionKeyFor(collection);
+  let manager = groupManagers.get(key);
+  if (!manager) {
+    manager = new EventGroupManager(getDefaultEventGroupConfig("TELEGRAM"));
+    groupManagers.set(key, manager);
+  }
+  return manager;
+};
+
+const keyForQueueItem = (item: TelegramQueueItem): string =>
+  `${collectionKeyFor(item.collection)}|${item.chatId}|${postKeyFor(item.event)}`;
+
+// Queued messages are persisted so a restart does not lose them
+type PendingMessage = {
+  event: TelegramEvent;
+  chatId: string;
+  collectionKey: string;
+};
+const telegramOutbox = () => getOutbox<PendingMessage>("telegram");
+
+const BACKOFF_BASE_MS = 5000;
+const BACKOFF_MAX_MS = 5 * 60 * 1000;
+const HTTP_TOO_MANY_REQUESTS = 429;
+const SERVER_ERROR_MIN = 500;
+
+export const classifyTelegramError = (
+  error: unknown
+): QueueErrorClassification => {
+  if (error instanceof TelegramApiError) {
+    if (error.errorCode === HTTP_TOO_MANY_REQUESTS) {
+      // Telegram says how long to wait; pause the whole queue until then
+      const waitSeconds = error.retryAfterSeconds ?? 1;
+      return {
+        type: "rate_limit",
+        pauseUntilMs: Date.now() + waitSeconds * MS_PER_SECOND,
+      };
+    }
+    return error.errorCode >= SERVER_ERROR_MIN
+      ? { type: "transient" }
+      : { type: "fatal" };
+  }
+  // Network failures never reached the API
+  return { type: "transient" };
+};
+
+const createTelegramQueue = () => {
+  const { telegram } = getConfig();
+  return new AsyncQueue<TelegramQueueItem>({
+    perItemDelayMs: telegram.queueDelayMs,
+    backoffBaseMs: BACKOFF_BASE_MS,
+    backoffMaxMs: BACKOFF_MAX_MS,
+    platform: "telegram",
+    debug: isDebugEnabled(),
+    keyFor: keyForQueueItem,
+    isAlreadyProcessed: (key) => telegramOutbox().wasDelivered(key),
+    onProcessed: (item) => {
+      telegramOutbox().complete(keyForQueueItem(item));
+    },
+    onAttempt: (item, attempts) => {
+      telegramOutbox().update(keyForQueueItem(item), { attempts });
+    },
+    onDropped: (item, reason) => {
+      if (reason === "fatal") {
+        telegramOutbox().drop(keyForQueueItem(item));
+      }
+    },
+    process: async (item) => {
+      await runWithCollection(item.collection, async () => {
+        const { text, imageUrl } = await messageForEvent(item.event);
+        await sendTelegramMessage(item.chatId, text, imageUrl);
+      });
+      log.info(
+        isGroupedEvent(item.event)
+          ? `🧹 Sent group to ${item.chatId}: ${item.event.events.length} items`
+          : `💬 Sent event to ${item.chatId}`
+      );
+    },
+    classifyError: classifyTelegramError,
+  });
+};
+
+let telegramQueueInstance: AsyncQueue<TelegramQueueItem> | undefined;
+const telegramQueue = (): AsyncQueue<TelegramQueueItem> => {
+  telegramQueueInstance ??= createTelegramQueue();
+  return telegramQueueInstance;
+};
+
+const enqueueMessage = (item: TelegramQueueItem): void => {
+  const added = telegramOutbox().add(keyForQueueItem(item), {
+    event: item.event,
+    chatId: item.chatId,
+    collectionKey: collectionKeyFor(item.collection),
+  });
+  if (added) {
+    telegramQueue().enqueue(item);
+  }
+};
+
+// Whether an event should be sent to a chat: its type is enabled there and
+// it passes the chat's filter rules
+const routesTo = (
+  event: OpenSeaAssetEvent,
+  chat: CollectionConfig["telegramChats"][number]
+): boolean =>
+  (chat.events as string[]).includes(effectiveEventTypeFor(event)) &&
+  matchesFilters(event, chat.filters);
+
+// Groups go to every chat whose filters accept at least one event in it
+const chatIdsForGroup = (
+  collection: CollectionConfig,
+  events: OpenSeaAssetEvent[]
+): string[] =>
+  collection.telegramChats
+    .filter((chat) =>
+      events.some((event) => matchesFilters(event, chat.filters))
+    )
+    .map((chat) => chat.chatId);
+
+export const telegramHealth = (): PlatformHealth => ({
+  ready: hasTelegramToken(),
+  queued: telegramQueue().size(),
+  pendingGroups: pendingGroupCount(groupManagers.values()),
+});
+
+/**
+ * Re-queues messages left in the outbox by a previous run. Messages for
+ * collections that are no longer configured are dropped.
+ */
+export const restoreTelegramOutbox = async (): Promise<number> => {
+  if (!hasTelegramToken()) {
+    return 0;
+  }
+  const entries = await telegramOutbox().load();
+  restoreHeldEvents(telegramOutbox(), groupManagerFor);
+  const collections = new Map(
+    getConfig().collections.map((c) => [collectionKeyFor(c), c])
+  );
+  let restored = 0;
+  for (const { key, item, attempts } of entries) {
+    const collection = collections.get(item.collectionKey);
+    if (!collection) {
+      log.warn(
+        `Dropping pending message for unconfigured collection ${item.collectionKey}`
+      );
+      telegramOutbox().drop(key);
+      continue;
+    }
+    telegramQueue().enqueue(
+      { event: item.event, chatId: item.chatId, collection },
+      attempts
+    );
+    restored += 1;
+  }
+  return restored;
+};
+
+const queueGroups = (
+  collection: CollectionConfig,
+  groupManager: EventGroupManager,
+  readyGroups: Array<{ tx: string; events: OpenSeaAssetEvent[] }>
+): void => {
+  for (const { tx, events: groupEvents } of readyGroups) {
+    const group: GroupedEvent = {
+      kind: "group",
+      txHash: tx,
+      events: groupEvents,
+    };
+    for (const chatId of chatIdsForGroup(collection, groupEvents)) {
+      enqueueMessage({ event: group, chatId, collection });
+    }
+    // The queue and outbox own delivery from here on
+    groupManager.markGroupProcessed(group);
+  }
+};
+
+const queueEvents = (
+  collection: CollectionConfig,
+  groupManager: EventGroupManager,
+  processableEvents: OpenSeaAssetEvent[]
+): void => {
+  for (const event of processableEvents) {
+    for (const chat of collection.telegramChats) {
+      if (routesTo(event, chat)) {
+        enqueueMessage({ event, chatId: chat.chatId, collection });
+      }
+    }
+    groupManager.markProcessed(event);
+  }
+};
+
+export async function messageTelegram(events: OpenSeaAssetEvent[]) {
+  const collection = currentCollection();
+  if (!(collection.telegramChats.length > 0 && hasTelegramToken())) {
+    return;
+  }
+
+  const groupManager = groupManagerFor(collection);
+  const filteredEvents = events.filter((event) =>
+    collection.telegramChats.some((chat) => routesTo(event, chat))
+  );
+  if (filteredEvents.length > 0) {
+    log.info(
+      `📊 Found ${filteredEvents.length} relevant event${filteredEvents.length === 1 ? "" : "s"} for Telegram`
+    );
+  }
+
+  const { readyGroups, processableEvents, skippedDupes, skippedPending } =
+    processEventsWithAggregator(groupManager, filteredEvents);
+  recordGroupFlushes("telegram", readyGroups);
+  log.debug(
+    `Processing: groups=${readyGroups.length} singles=${processableEvents.length} ` +
+      `skippedDupes=${skippedDupes} skippedPending=${skippedPending}`
+  );
+
+  // Refetch metadata for any mint events before queueing
+  const refetchCount = await refetchMintMetadata([
+    ...readyGroups.flatMap((group) => group.events),
+    ...processableEvents,
+  ]);
+  if (refetchCount > 0) {
+    log.info(
+      `Refetched metadata for ${refetchCount} mint event${refetchCount === 1 ? "" : "s"}`
+    );
+  }
+
+  queueGroups(collection, groupManager, readyGroups);
+  queueEvents(collection, groupManager, processableEvents);
+  telegramOutbox().hold(
+    collectionKeyFor(collection),
+    groupManager.heldEvents()
+  );
+}
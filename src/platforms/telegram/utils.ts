@@ -0,0 +1,153 @@
+import { getConfig } from "../../config";
+import { getCollectionSlug, opensea } from "../../opensea";
+import type { OpenSeaAssetEvent } from "../../types";
+import {
+  calculateTotalSpent,
+  formatGroupText,
+  type GroupedEvent,
+  groupKindForEvents,
+  isGroupedEvent,
+  sortEventsByPrice,
+} from "../../utils/event-grouping";
+import { prefixedLogger } from "../../utils/logger";
+import { imageFetchFailuresTotal } from "../../utils/metrics";
+import { fetchImageBuffer, imageForNFT } from "../../utils/utils";
+import { textForEvent } from "../twitter/utils";
+
+const log = prefixedLogger("Telegram");
+
+// Bot API limits for photo captions and text messages
+const MAX_CAPTION_LENGTH = 1024;
+const MAX_MESSAGE_LENGTH = 4096;
+
+/**
+ * Error returned by the Telegram Bot API. `retryAfterSeconds` is set on
+ * 429 responses.
+ */
+export class TelegramApiError extends Error {
+  readonly errorCode: number;
+  readonly retryAfterSeconds?: number;
+
+  constructor(
+    method: string,
+    errorCode: number,
+    description: string,
+    retryAfterSeconds?: number
+  ) {
+    super(`Telegram ${method} failed (${errorCode}): ${description}`);
+    this.name = "TelegramApiError";
+    this.errorCode = errorCode;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+type TelegramResponse = {
+  ok: boolean;
+  error_code?: number;
+  description?: string;
+  parameters?: { retry_after?: number };
+};
+
+export const hasTelegramToken = (): boolean =>
+  Boolean(process.env.TELEGRAM_BOT_TOKEN);
+
+const callApi = async (
+  method: string,
+  body: FormData | Record<string, unknown>
+): Promise<void> => {
+  const { apiUrl } = getConfig().telegram;
+  const url = `${apiUrl}/bot${process.env.TELEGRAM_BOT_TOKEN}/${method}`;
+  const response = await fetch(
+    url,
+    body instanceof FormData
+      ? { method: "POST", body }
+      : {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(body),
+        }
+  );
+  const result = (await response
+    .json()
+    .catch(() => ({ ok: false }))) as TelegramResponse;
+  if (!(response.ok && result.ok)) {
+    throw new TelegramApiError(
+      method,
+      result.error_code ?? response.status,
+      result.description ?? response.statusText,
+      result.parameters?.retry_after
+    );
+  }
+};
+
+const truncate = (text: string, max: number): string =>
+  text.length > max ? `${text.slice(0, max - 1)}…` : text;
+
+const fetchPhoto = async (imageUrl: string): Promise<Blob | undefined> => {
+  try {
+    const { buffer, mimeType } = await fetchImageBuffer(imageUrl);
+    return new Blob([new Uint8Array(buffer)], { type: mimeType });
+  } catch (error) {
+    log.debug(`Failed to fetch image for Telegram: ${imageUrl}`, error);
+    imageFetchFailuresTotal.inc({ platform: "telegram" });
+    return;
+  }
+};
+
+/**
+ * Sends a photo with `text` as its caption, or a text message when there
+ * is no image or it cannot be fetched.
+ */
+export const sendTelegramMessage = async (
+  chatId: string,
+  text: string,
+  imageUrl?: string
+): Promise<void> => {
+  const photo = imageUrl ? await fetchPhoto(imageUrl) : undefined;
+  if (photo) {
+    const form = new FormData();
+    form.append("chat_id", chatId);
+    form.append("caption", truncate(text, MAX_CAPTION_LENGTH));
+    form.append("photo", photo, `photo.${photo.type.split("/")[1] ?? "jpg"}`);
+    await callApi("sendPhoto", form);
+    return;
+  }
+  await callApi("sendMessage", {
+    chat_id: chatId,
+    text: truncate(text, MAX_MESSAGE_LENGTH),
+  });
+};
+
+const nftFor = (event: OpenSeaAssetEvent) =>
+  event.nft ?? (event.asset === null ? undefined : event.asset);
+
+// Uses the same text as tweets, without the tweet prefix and suffix
+const captionForGroup = async (group: GroupedEvent): Promise<string> =>
+  await formatGroupText({
+    group: group.events,
+    count: group.events.length,
+    kind: groupKindForEvents(group.events),
+    collectionUrl: opensea.collectionURL(),
+    collectionSlug: getCollectionSlug(),
+    totalSpent: calculateTotalSpent(group.events),
+  });
+
+/**
+ * Caption and image for a post. Groups show the image of their most
+ * expensive item.
+ */
+export const messageForEvent = async (
+  event: OpenSeaAssetEvent | GroupedEvent
+): Promise<{ text: string; imageUrl?: string }> => {
+  if (isGroupedEvent(event)) {
+    const [top] = sortEventsByPrice(event.events);
+    return {
+      text: await captionForGroup(event),
+      imageUrl: top ? imageForNFT(nftFor(top)) : undefined,
+    };
+  }
+  return {
+    text: await textForEvent(event),
+    imageUrl: imageForNFT(nftFor(event)),
+  };
+};
@@ -1,8 +1,15 @@
 import { TwitterApi } from "twitter-api-v2";
+import { type CollectionConfig, getConfig } from "../../config";
+import type { PlatformHealth } from "../../health";
 import { getCollectionSlug, opensea } from "../../opensea";
 import type { BotEvent, OpenSeaAssetEvent } from "../../types";
-import { txHashFor } from "../../utils/aggregator";
-import { MS_PER_SECOND, SECONDS_PER_MINUTE } from "../../utils/constants";
+import {
+  collectionKeyFor,
+  currentCollection,
+  runWithCollection,
+} from "../../utils/collection-store";
+import { MS_PER_SECOND } from "../../utils/constants";
+import { isDryRun, writePreview } from "../../utils/dry-run";
 import {
   calculateTotalSpent,
   EventGroupManager,
@@ -12,16 +19,25 @@ import {
   getDefaultEventGroupConfig,
   groupKindForEvents,
   isGroupedEvent,
+  pendingGroupCount,
+  postKeyFor,
   processEventsWithAggregator,
   sortEventsByPrice,
 } from "../../utils/event-grouping";
 import { isEventWanted, parseEvents } from "../../utils/events";
-import { logger } from "../../utils/logger";
+import { matchesFilters } from "../../utils/filters";
+import { isDebugEnabled, logger } from "../../utils/logger";
 import { LRUCache } from "../../utils/lru-cache";
 import {
   refetchMintMetadata,
   refetchMintMetadataForEvent,
 } from "../../utils/metadata";
+import {
+  imageFetchFailuresTotal,
+  postsSentTotal,
+  recordGroupFlushes,
+} from "../../utils/metrics";
+import { getOutbox, restoreHeldEvents } from "../../utils/outbox";
 import { AsyncQueue } from "../../utils/queue";
 import { fetchImageBuffer, imageForNFT } from "../../utils/utils";
 import { getTransferKind, textForTweet, wrapTweetText } from "./utils";
@@ -34,28 +50,6 @@ const tweetedEventsCache = new LRUCache<string, boolean>(
   TWEETED_EVENTS_CACHE_CAPACITY
 );
 
-// Queue + backoff config
-const DEFAULT_TWEET_DELAY_MS = 3000;
-const DEFAULT_BACKOFF_BASE_MS = 15_000;
-const BACKOFF_MAX_MINUTES = 15;
-const DEFAULT_BACKOFF_MAX_MS =
-  BACKOFF_MAX_MINUTES * SECONDS_PER_MINUTE * MS_PER_SECOND;
-const DEFAULT_PROCESSING_TIMEOUT_MINUTES = 2;
-const DEFAULT_PROCESSING_TIMEOUT_MS =
-  DEFAULT_PROCESSING_TIMEOUT_MINUTES * SECONDS_PER_MINUTE * MS_PER_SECOND;
-const PER_TWEET_DELAY_MS = Number(
-  process.env.TWITTER_QUEUE_DELAY_MS ?? DEFAULT_TWEET_DELAY_MS
-);
-const BACKOFF_BASE_MS = Number(
-  process.env.TWITTER_BACKOFF_BASE_MS ?? DEFAULT_BACKOFF_BASE_MS
-);
-const BACKOFF_MAX_MS = Number(
-  process.env.TWITTER_BACKOFF_MAX_MS ?? DEFAULT_BACKOFF_MAX_MS
-);
-const PROCESSING_TIMEOUT_MS = Number(
-  process.env.TWITTER_PROCESSING_TIMEOUT_MS ?? DEFAULT_PROCESSING_TIMEOUT_MS
-);
-
 type MinimalTwitterClient = {
   v1: {
     uploadMedia: (
@@ -73,47 +67,32 @@ type MinimalTwitterClient = {
 
 let twitterClient: MinimalTwitterClient | undefined;
 type TweetEvent = OpenSeaAssetEvent | GroupedEvent;
-type TweetQueueItem = { event: TweetEvent };
-
-// Initialize event group manager for Twitter
-const groupConfig = getDefaultEventGroupConfig("TWITTER");
-const groupManager = new EventGroupManager(groupConfig);
-
-// Generic async queue for tweeting
-logger.debug(
-  `${logStart} Queue config: delay=${PER_TWEET_DELAY_MS}ms backoffBase=${BACKOFF_BASE_MS}ms backoffMax=${BACKOFF_MAX_MS}ms timeout=${PROCESSING_TIMEOUT_MS}ms`
-);
-
-const keyForQueueItem = (item: TweetQueueItem): string => {
-  const ev = item.event;
-  if (isGroupedEvent(ev)) {
-    // For transaction-based groups, we want a stable key per tx hash so that
-    // repeated polling doesn't enqueue duplicate work for the same on-chain tx.
-    const tx = ev.txHash ?? txHashFor(ev.events?.[0]) ?? "unknown";
-
-    if (typeof tx === "string" && tx.startsWith("actor:")) {
-      // Actor-based groups reuse a synthetic "actor:<kind>:<address>" tx hash.
-      // If we keyed only on this value, we'd permanently suppress future groups
-      // for the same actor after the first tweet.
-      //
-      // To allow multiple distinct actor groups over time while still deduping
-      // true duplicates, incorporate the time window of the grouped events
-      // into the queue key. This keeps keys stable for the same group across
-      // retries, but different once new events arrive.
-      const firstTs = ev.events[0]?.event_timestamp;
-      const lastTs = ev.events.at(-1)?.event_timestamp ?? firstTs;
-      const window =
-        firstTs !== undefined && lastTs !== undefined
-          ? `${firstTs}-${lastTs}`
-          : "unknown-window";
-      return `group:${tx}|${window}`;
-    }
-
-    return `group:${tx}`;
+// Items carry their collection so the shared queue can format and mark
+// each tweet against the collection it came from
+type TweetQueueItem = { event: TweetEvent; collection: CollectionConfig };
+
+// Event group managers for Twitter, one per monitored collection
+const groupManagers = new Map<string, EventGroupManager>();
+const groupManagerFor = (collection: CollectionConfig): EventGroupManager => {
+  const key = collectionKeyFor(collection);
+  let manager = groupManagers.get(key);
+  if (!manager) {
+    manager = new EventGroupManager(getDefaultEventGroupConfig("TWITTER"));
+    groupManagers.set(key, manager);
   }
-  return eventKeyFor(item.event as OpenSeaAssetEvent);
+  return manager;
 };
 
+// Prefix with the collection so identical token ids in different
+// collections never collide in the shared queue
+const keyForQueueItem = (item: TweetQueueItem): string =>
+  `${collectionKeyFor(item.collection)}|${postKeyFor(item.event)}`;
+
+// Queued tweets are persisted so a restart does not lose them. The
+// collection is stored by key and resolved against the config on restore.
+type PendingTweet = { event: TweetEvent; collectionKey: string };
+const tweetOutbox = () => getOutbox<PendingTweet>("twitter");
+
 const tweetEvent = async (client: MinimalTwitterClient, event: TweetEvent) => {
   if (isGroupedEvent(event)) {
     await tweetGroup(client, event.events);
@@ -122,97 +101,176 @@ const tweetEvent = async (client: MinimalTwitterClient, event: TweetEvent) => {
   await tweetSingle(client, event as OpenSeaAssetEvent);
 };
 
-const tweetQueue = new AsyncQueue<TweetQueueItem>({
-  perItemDelayMs: PER_TWEET_DELAY_MS,
-  backoffBaseMs: BACKOFF_BASE_MS,
-  backoffMaxMs: BACKOFF_MAX_MS,
-  processingTimeoutMs: PROCESSING_TIMEOUT_MS,
-  debug: process.env.LOG_LEVEL === "debug",
-  keyFor: (i) => keyForQueueItem(i),
-  isAlreadyProcessed: (key) => tweetedEventsCache.get(key) === true,
-  onProcessed: (item) => {
-    // Mark the queue key as processed to prevent reprocessing the same group/solo
-    const queueKey = keyForQueueItem(item);
-    tweetedEventsCache.put(queueKey, true);
-
-    const event = item?.event;
-    if (isGroupedEvent(event)) {
-      groupManager.markGroupProcessed(event);
-    } else if (event) {
-      groupManager.markProcessed(event as OpenSeaAssetEvent);
-    }
-  },
-  process: async (item) => {
-    if (!twitterClient) {
-      throw new Error("twitterClient not initialized");
-    }
-    try {
-      await tweetEvent(twitterClient, item.event);
-    } catch (error) {
-      const key = keyForQueueItem(item);
-      logger.warn(
-        `${logStart} Tweet failed for item (key: ${key}). Will classify for retry/drop:`,
-        error
-      );
-      throw error; // let queue classify and decide
-    }
-  },
-  classifyError: (error: unknown) => {
-    const err = error as {
-      code?: number;
-      rateLimit?: { day?: { remaining?: number; reset?: number } };
-    };
-    const errCode = err?.code;
-    const rateLimit = err?.rateLimit;
-    const HTTP_TOO_MANY_REQUESTS = 429;
-    if (errCode === HTTP_TOO_MANY_REQUESTS) {
-      const dayRemaining = rateLimit?.day?.remaining;
-      const dayReset = rateLimit?.day?.reset;
-      if (dayRemaining === 0 && typeof dayReset === "number") {
-        const classification = {
-          type: "rate_limit",
-          pauseUntilMs: (dayReset as number) * MS_PER_SECOND,
-        } as const;
+// Generic async queue for tweeting, created on first use so it picks up
+// the applied config
+const createTweetQueue = () => {
+  const { twitter } = getConfig();
+  logger.debug(
+    `${logStart} Queue config: delay=${twitter.queueDelayMs}ms backoffBase=${twitter.backoffBaseMs}ms backoffMax=${twitter.backoffMaxMs}ms timeout=${twitter.processingTimeoutMs}ms`
+  );
+  return new AsyncQueue<TweetQueueItem>({
+    perItemDelayMs: twitter.queueDelayMs,
+    backoffBaseMs: twitter.backoffBaseMs,
+    backoffMaxMs: twitter.backoffMaxMs,
+    platform: "twitter",
+    processingTimeoutMs: twitter.processingTimeoutMs,
+    debug: isDebugEnabled(),
+    keyFor: (i) => keyForQueueItem(i),
+    isAlreadyProcessed: (key) => tweetedEventsCache.get(key) === true,
+    onProcessed: (item) => {
+      // Mark the queue key as processed to prevent reprocessing the same group/solo
+      const queueKey = keyForQueueItem(item);
+      tweetedEventsCache.put(queueKey, true);
+      tweetOutbox().complete(queueKey);
+
+      const event = item?.event;
+      const groupManager = groupManagerFor(item.collection);
+      if (isGroupedEvent(event)) {
+        groupManager.markGroupProcessed(event);
+      } else if (event) {
+        groupManager.markProcessed(event as OpenSeaAssetEvent);
+      }
+    },
+    onAttempt: (item, attempts) => {
+      tweetOutbox().update(keyForQueueItem(item), { attempts });
+    },
+    onDropped: (item, reason) => {
+      const queueKey = keyForQueueItem(item);
+      if (reason === "already_processed") {
+        tweetOutbox().complete(queueKey);
+      } else {
+        tweetOutbox().drop(queueKey);
+      }
+    },
+    process: async (item) => {
+      if (!twitterClient) {
+        throw new Error("twitterClient not initialized");
+      }
+      const client = twitterClient;
+      try {
+        await runWithCollection(item.collection, () =>
+          tweetEvent(client, item.event)
+        );
+      } catch (error) {
+        const key = keyForQueueItem(item);
+        logger.warn(
+          `${logStart} Tweet failed for item (key: ${key}). Will classify for retry/drop:`,
+          error
+        );
+        throw error; // let queue classify and decide
+      }
+    },
+    classifyError: (error: unknown) => {
+      const err = error as {
+        code?: number;
+        rateLimit?: { day?: { remaining?: number; reset?: number } };
+      };
+      const errCode = err?.code;
+      const rateLimit = err?.rateLimit;
+      const HTTP_TOO_MANY_REQUESTS = 429;
+      if (errCode === HTTP_TOO_MANY_REQUESTS) {
+        const dayRemaining = rateLimit?.day?.remaining;
+        const dayReset = rateLimit?.day?.reset;
+        if (dayRemaining === 0 && typeof dayReset === "number") {
+          const classification = {
+            type: "rate_limit",
+            pauseUntilMs: (dayReset as number) * MS_PER_SECOND,
+          } as const;
+          logger.debug(
+            `${logStart} classifyError: code=${errCode} remaining=${dayRemaining} reset=${dayReset} type=${classification.type}`
+          );
+          return classification;
+        }
+        const classification = { type: "transient" } as const;
         logger.debug(
-          `${logStart} classifyError: code=${errCode} remaining=${dayRemaining} reset=${dayReset} type=${classification.type}`
+          `${logStart} classifyError: code=${errCode} remaining=${dayRemaining} type=${classification.type}`
         );
         return classification;
       }
-      const classification = { type: "transient" } as const;
-      logger.debug(
-        `${logStart} classifyError: code=${errCode} remaining=${dayRemaining} type=${classification.type}`
-      );
-      return classification;
-    }
-    const status =
-      (error as { data?: { status?: number }; status?: number })?.data
-        ?.status ?? (error as { status?: number })?.status;
-    const SERVER_ERROR_MIN = 500;
-    if (
-      (status as number) >= SERVER_ERROR_MIN ||
-      status === 0 ||
-      (error as { name?: string })?.name === "FetchError"
-    ) {
-      const classification = { type: "transient" } as const;
+      const status =
+        (error as { data?: { status?: number }; status?: number })?.data
+          ?.status ?? (error as { status?: number })?.status;
+      const SERVER_ERROR_MIN = 500;
+      if (
+        (status as number) >= SERVER_ERROR_MIN ||
+        status === 0 ||
+        (error as { name?: string })?.name === "FetchError"
+      ) {
+        const classification = { type: "transient" } as const;
+        logger.debug(
+          `${logStart} classifyError: status=${status ?? "unknown"} type=${classification.type}`
+        );
+        return classification;
+      }
+      const classification = { type: "fatal" } as const;
       logger.debug(
         `${logStart} classifyError: status=${status ?? "unknown"} type=${classification.type}`
       );
       return classification;
+    },
+  });
+};
+
+let tweetQueueInstance: AsyncQueue<TweetQueueItem> | undefined;
+const tweetQueue = (): AsyncQueue<TweetQueueItem> => {
+  tweetQueueInstance ??= createTweetQueue();
+  return tweetQueueInstance;
+};
+
+// Records the tweet in the outbox before queueing it. Tweets already
+// pending or recently delivered are not queued again.
+const enqueueTweet = (item: TweetQueueItem): void => {
+  const added = tweetOutbox().add(keyForQueueItem(item), {
+    event: item.event,
+    collectionKey: collectionKeyFor(item.collection),
+  });
+  if (added) {
+    tweetQueue().enqueue(item);
+  }
+};
+
+/**
+ * Re-queues tweets left in the outbox by a previous run, keeping their
+ * retry count. Tweets for collections that are no longer configured are
+ * dropped.
+ */
+export const restoreTweetOutbox = async (): Promise<number> => {
+  // Without credentials the tweets could not be sent, so they stay in the
+  // outbox for a run that has them
+  if (!hasTwitterCreds()) {
+    return 0;
+  }
+  const entries = await tweetOutbox().load();
+  restoreHeldEvents(tweetOutbox(), groupManagerFor);
+  if (entries.length === 0) {
+    return 0;
+  }
+  const collections = new Map(
+    getConfig().collections.map((c) => [collectionKeyFor(c), c])
+  );
+  ensureTwitterClient();
+  let restored = 0;
+  for (const { key, item, attempts } of entries) {
+    const collection = collections.get(item.collectionKey);
+    if (!collection) {
+      logger.warn(
+        `${logStart} Dropping pending tweet for unconfigured collection ${item.collectionKey}`
+      );
+      tweetOutbox().drop(key);
+      continue;
     }
-    const classification = { type: "fatal" } as const;
-    logger.debug(
-      `${logStart} classifyError: status=${status ?? "unknown"} type=${classification.type}`
-    );
-    return classification;
-  },
-});
+    tweetQueue().enqueue({ event: item.event, collection }, attempts);
+    restored += 1;
+  }
+  return restored;
+};
 
 const MAX_MEDIA_IMAGES = 4;
 
-const uploadImagesForGroup = async (
-  client: MinimalTwitterClient,
-  group: OpenSeaAssetEvent[]
-): Promise<string[]> => {
+// What a tweet says and the image URLs it attaches
+export type TweetContent = { text: string; images: string[] };
+
+const imagesForGroup = (group: OpenSeaAssetEvent[]): string[] => {
   // Sort events by purchase price in descending order before selecting images
   const sortedGroup = sortEventsByPrice(group);
 
@@ -228,6 +286,13 @@ const uploadImagesForGroup = async (
       break;
     }
   }
+  return images;
+};
+
+const uploadImagesForGroup = async (
+  client: MinimalTwitterClient,
+  images: string[]
+): Promise<string[]> => {
   const mediaIds: string[] = [];
   for (const imageUrl of images) {
     try {
@@ -239,15 +304,15 @@ const uploadImagesForGroup = async (
         `${logStart} Group media upload failed for URL ${imageUrl}, continuing without this image`
       );
       logger.debug(`${logStart} Upload error details:`, uploadError);
+      imageFetchFailuresTotal.inc({ platform: "twitter" });
     }
   }
   return mediaIds;
 };
 
-const tweetGroup = async (
-  client: MinimalTwitterClient,
+const groupTweetContent = async (
   group: OpenSeaAssetEvent[]
-) => {
+): Promise<TweetContent> => {
   // Refetch metadata for any mint events before processing
   const refetchCount = await refetchMintMetadata(group);
   if (refetchCount > 0) {
@@ -256,44 +321,58 @@ const tweetGroup = async (
     );
   }
 
-  const count = group.length;
-  const mediaIds = await uploadImagesForGroup(client, group);
-  const kind = groupKindForEvents(group);
-  const totalSpent = calculateTotalSpent(group);
-
   // Use shared utility to format group text
-  let text = await formatGroupText({
+  const text = await formatGroupText({
     group,
-    count,
-    kind,
+    count: group.length,
+    kind: groupKindForEvents(group),
     collectionUrl: opensea.collectionURL(),
     collectionSlug: getCollectionSlug(),
-    totalSpent,
+    totalSpent: calculateTotalSpent(group),
   });
+  return { text: wrapTweetText(text), images: imagesForGroup(group) };
+};
 
-  text = wrapTweetText(text);
+const tweetGroup = async (
+  client: MinimalTwitterClient,
+  group: OpenSeaAssetEvent[]
+) => {
+  const count = group.length;
+  const { text, images } = await groupTweetContent(group);
+  const mediaIds = await uploadImagesForGroup(client, images);
   const params: { text: string; media?: { media_ids: string[] } } =
     mediaIds.length > 0 ? { text, media: { media_ids: mediaIds } } : { text };
   await client.v2.tweet(params);
+  const collectionKey = collectionKeyFor(currentCollection());
   for (const e of group) {
-    const key = eventKeyFor(e);
-    tweetedEventsCache.put(key, true);
+    tweetedEventsCache.put(`${collectionKey}|${eventKeyFor(e)}`, true);
   }
   logger.info(`${logStart} 🧹 Tweeted group: ${count} items`);
 };
 
-const tweetSingle = async (
-  client: MinimalTwitterClient,
+const singleTweetContent = async (
   event: OpenSeaAssetEvent
-) => {
+): Promise<TweetContent> => {
   // Refetch metadata if this is a mint event
   await refetchMintMetadataForEvent(event);
 
-  let mediaId: string | undefined;
   // Handle null asset from trait/collection offers
   const nftForImage =
     event.nft ?? (event.asset === null ? undefined : event.asset);
   const image = imageForNFT(nftForImage);
+  return { text: await textForTweet(event), images: image ? [image] : [] };
+};
+
+const tweetSingle = async (
+  client: MinimalTwitterClient,
+  event: OpenSeaAssetEvent
+) => {
+  const {
+    text: status,
+    images: [image],
+  } = await singleTweetContent(event);
+
+  let mediaId: string | undefined;
   if (image) {
     try {
       const { buffer, mimeType } = await fetchImageBuffer(image);
@@ -303,13 +382,13 @@ const tweetSingle = async (
         `${logStart} Media upload failed for URL ${image}, continuing with text-only tweet (will use native link preview)`
       );
       logger.debug(`${logStart} Upload error details:`, uploadError);
+      imageFetchFailuresTotal.inc({ platform: "twitter" });
     }
   } else {
     logger.debug(
       `${logStart} No image URL available, will use native link preview`
     );
   }
-  const status = await textForTweet(event);
   const tweetParams: { text: string; media?: { media_ids: string[] } } = mediaId
     ? { text: status, media: { media_ids: [mediaId] } }
     : { text: status };
@@ -322,7 +401,10 @@ const tweetSingle = async (
     `${logStart} 🐦 Tweeted: ${truncatedStatus}${needsTruncation ? "..." : ""}`
   );
   logger.debug(`${logStart} Event key: ${key}`);
-  tweetedEventsCache.put(key, true);
+  tweetedEventsCache.put(
+    `${collectionKeyFor(currentCollection())}|${key}`,
+    true
+  );
 };
 
 const hasTwitterCreds = (): boolean =>
@@ -344,7 +426,35 @@ const ensureTwitterClient = () => {
   }
 };
 
+/**
+ * Tweets right away, outside the event queue, for scheduled posts such as
+ * summaries. A dry run renders the tweet instead.
+ */
+export const postTweet = async ({ text, images }: TweetContent) => {
+  if (isDryRun()) {
+    await writePreview({ platform: "twitter", text, images });
+    return;
+  }
+  if (!hasTwitterCreds()) {
+    throw new Error("Twitter credentials are not set");
+  }
+  ensureTwitterClient();
+  const client = twitterClient as MinimalTwitterClient;
+  const mediaIds = await uploadImagesForGroup(client, images);
+  await client.v2.tweet(
+    mediaIds.length > 0 ? { text, media: { media_ids: mediaIds } } : { text }
+  );
+  postsSentTotal.inc({ platform: "twitter" });
+};
+
 // ---- Selection helpers (top-level to keep tweetEvents complexity low) ----
+// Twitter has no session, so holding credentials is as ready as it gets
+export const twitterHealth = (): PlatformHealth => ({
+  ready: hasTwitterCreds(),
+  queued: tweetQueue().size(),
+  pendingGroups: pendingGroupCount(groupManagers.values()),
+});
+
 export const parseRequestedEvents = (raw: string | undefined): Set<BotEvent> =>
   parseEvents(raw);
 
@@ -371,11 +481,13 @@ const logEventBreakdown = (filteredEvents: OpenSeaAssetEvent[]): void => {
 };
 
 const enqueueGroups = (
+  collection: CollectionConfig,
   readyGroups: Array<{ tx: string; events: OpenSeaAssetEvent[] }>
 ): void => {
   for (const { tx, events: evts } of readyGroups) {
-    tweetQueue.enqueue({
+    enqueueTweet({
       event: { kind: "group", txHash: tx, events: evts },
+      collection,
     });
   }
 
@@ -385,16 +497,17 @@ const enqueueGroups = (
       `${logStart} Enqueued ${readyGroups.length} group(s) for tweeting [${readyGroups.map((r) => r.events.length).join(", ")} items]`
     );
     logger.debug(
-      `${logStart} Group sizes: ${counts}, queue=${tweetQueue.size()}`
+      `${logStart} Group sizes: ${counts}, queue=${tweetQueue().size()}`
     );
   }
 };
 
 const enqueueIndividualEvents = (
+  collection: CollectionConfig,
   processableEvents: OpenSeaAssetEvent[]
 ): void => {
   for (const event of processableEvents) {
-    tweetQueue.enqueue({ event });
+    enqueueTweet({ event, collection });
   }
 
   if (processableEvents.length > 0) {
@@ -405,7 +518,7 @@ const enqueueIndividualEvents = (
     logger.debug(
       `${logStart} Enqueued ${processableEvents.length} single event(s) for tweeting, sampleKeys=[${sampleKeys.join(
         ", "
-      )}] queue=${tweetQueue.size()}`
+      )}] queue=${tweetQueue().size()}`
     );
   }
 };
@@ -430,27 +543,66 @@ const logProcessingSummary = (
   }
 
   logger.debug(
-    `${logStart} Enqueue summary: singles=${processableEvents.length} skippedDupes=${skippedDupes} skippedPendingGroup=${skippedPending} queue=${tweetQueue.size()}`
+    `${logStart} Enqueue summary: singles=${processableEvents.length} skippedDupes=${skippedDupes} skippedPendingGroup=${skippedPending} queue=${tweetQueue().size()}`
   );
 };
 
-export const tweetEvents = (events: OpenSeaAssetEvent[]) => {
-  if (!process.env.TWITTER_EVENTS) {
+// Renders tweets in place of queueing them. Events are marked processed
+// up front so the next poll does not render them again.
+const previewTweets = async (
+  groupManager: EventGroupManager,
+  readyGroups: Array<{ tx: string; events: OpenSeaAssetEvent[] }>,
+  processableEvents: OpenSeaAssetEvent[]
+): Promise<void> => {
+  const groups = readyGroups.map(
+    ({ tx, events }): GroupedEvent => ({ kind: "group", txHash: tx, events })
+  );
+  for (const group of groups) {
+    groupManager.markGroupProcessed(group);
+  }
+  for (const event of processableEvents) {
+    groupManager.markProcessed(event);
+  }
+  for (const group of groups) {
+    const content = await groupTweetContent(group.events);
+    await writePreview({ platform: "twitter", ...content });
+  }
+  for (const event of processableEvents) {
+    const content = await singleTweetContent(event);
+    await writePreview({ platform: "twitter", ...content });
+  }
+  const count = groups.length + processableEvents.length;
+  if (count > 0) {
+    logger.info(`${logStart} [Dry run] Rendered ${count} tweet(s)`);
+  }
+};
+
+export const tweetEvents = async (
+  events: OpenSeaAssetEvent[]
+): Promise<void> => {
+  const collection = currentCollection();
+  if (collection.twitterEvents.length === 0) {
     return;
   }
-  if (!hasTwitterCreds()) {
+  const dryRun = isDryRun();
+  if (!(dryRun || hasTwitterCreds())) {
     return;
   }
-  ensureTwitterClient();
+  if (!dryRun) {
+    ensureTwitterClient();
+  }
 
-  const requestedSet = parseRequestedEvents(process.env.TWITTER_EVENTS);
+  const groupManager = groupManagerFor(collection);
+  const requestedSet = new Set(collection.twitterEvents);
 
   logger.debug(
     `${logStart} Twitter events configured: ${Array.from(requestedSet).join(", ")}`
   );
 
-  const filteredEvents = events.filter((event) =>
-    matchesSelection(event, requestedSet)
+  const filteredEvents = events.filter(
+    (event) =>
+      matchesSelection(event, requestedSet) &&
+      matchesFilters(event, collection.twitterFilters)
   );
 
   if (filteredEvents.length > 0) {
@@ -467,23 +619,35 @@ export const tweetEvents = (events: OpenSeaAssetEvent[]) => {
   // Use shared aggregator processing logic
   const { readyGroups, processableEvents, skippedDupes, skippedPending } =
     processEventsWithAggregator(groupManager, filteredEvents);
+  recordGroupFlushes("twitter", readyGroups);
+
+  if (dryRun) {
+    await previewTweets(groupManager, readyGroups, processableEvents).catch(
+      (error: unknown) => {
+        logger.error(`${logStart} Failed to render tweets:`, error);
+      }
+    );
+    return;
+  }
 
   // Flush any groups that have settled
   if (readyGroups.length > 0) {
     logger.info(
       `${logStart} 🧹 Flushing ${readyGroups.length} settled group(s)`
     );
-    enqueueGroups(readyGroups);
+    enqueueGroups(collection, readyGroups);
   }
 
   // Process individual events only if there are any
   if (processableEvents.length > 0 || skippedPending > 0 || skippedDupes > 0) {
-    enqueueIndividualEvents(processableEvents);
+    enqueueIndividualEvents(collection, processableEvents);
     logProcessingSummary(skippedPending, processableEvents, skippedDupes);
   }
 
+  tweetOutbox().hold(collectionKeyFor(collection), groupManager.heldEvents());
+
   // Fire and forget (start the queue if there's anything to process)
-  if (tweetQueue.size() > 0) {
-    tweetQueue.start();
+  if (tweetQueue().size() > 0) {
+    tweetQueue().start();
   }
 };
@@ -1,3 +1,4 @@
+import { getConfig } from "../../config";
 import { username } from "../../opensea";
 import type {
   OpenSeaAssetEvent,
@@ -5,21 +6,28 @@ import type {
   OpenSeaOrderType,
   OpenSeaPayment,
 } from "../../types";
+import { currentCollection } from "../../utils/collection-store";
+import { floorContextFor } from "../../utils/floor";
+import { formatLastSale, lastSaleFor } from "../../utils/last-sale";
+import { formatPrice } from "../../utils/prices";
 import {
-  classifyTransfer,
-  formatAmount,
-  formatEditionsText,
-} from "../../utils/utils";
+  formatRank,
+  formatTrait,
+  rarityInfoFor,
+  showsRarityFor,
+} from "../../utils/rarity";
+import { classifyTransfer, formatEditionsText } from "../../utils/utils";
 
 const GLYPHBOTS_CONTRACT_ADDRESS = "0xb6c2c2d2999c1b532e089a7ad4cb7f8c91cf5075";
 
 export const wrapTweetText = (text: string): string => {
+  const { prependTweet, appendTweet } = getConfig().twitter;
   let wrapped = text;
-  if (process.env.TWITTER_PREPEND_TWEET) {
-    wrapped = `${process.env.TWITTER_PREPEND_TWEET} ${wrapped}`;
+  if (prependTweet) {
+    wrapped = `${prependTweet} ${wrapped}`;
   }
-  if (process.env.TWITTER_APPEND_TWEET) {
-    wrapped = `${wrapped} ${process.env.TWITTER_APPEND_TWEET}`;
+  if (appendTweet) {
+    wrapped = `${wrapped} ${appendTweet}`;
   }
   return wrapped;
 };
@@ -31,7 +39,8 @@ export const formatNftName = (
     return "";
   }
   const specialContract =
-    process.env.TOKEN_ADDRESS?.toLowerCase() === GLYPHBOTS_CONTRACT_ADDRESS;
+    currentCollection().tokenAddress.toLowerCase() ===
+    GLYPHBOTS_CONTRACT_ADDRESS;
   if (specialContract && nft.name && nft.identifier !== undefined) {
     const nameParts = String(nft.name).split(" - ");
     const suffix = nameParts.length > 1 ? nameParts[1].trim() : undefined;
@@ -54,11 +63,7 @@ export const formatOrderText = async (
   order_type: OpenSeaOrderType | string
 ) => {
   const name = await username(maker);
-  const price = formatAmount(
-    payment.quantity,
-    payment.decimals,
-    payment.symbol
-  );
+  const price = await formatPrice(payment);
   if (order_type === ("listing" satisfies OpenSeaOrderType)) {
     return `listed on sale for ${price} by ${name}`;
   }
@@ -82,11 +87,7 @@ export const formatSaleText = async (
   payment: OpenSeaPayment,
   buyer: string
 ) => {
-  const amount = formatAmount(
-    payment.quantity,
-    payment.decimals,
-    payment.symbol
-  );
+  const amount = await formatPrice(payment);
   const name = await username(buyer);
   return `purchased for ${amount} by ${name}`;
 };
@@ -173,7 +174,40 @@ const ORDER_EVENT_TYPES = new Set<OpenSeaEventType | "order">([
 ]);
 const TRANSFER_EVENT_TYPES = new Set(["transfer", "mint"]);
 
-export const textForTweet = async (event: OpenSeaAssetEvent) => {
+// " · Rank #42 / 10,000 · Background: Gold (0.5%)" when rarity is shown
+const rarityTextFor = async (event: OpenSeaAssetEvent): Promise<string> => {
+  if (!showsRarityFor(event)) {
+    return "";
+  }
+  const info = await rarityInfoFor(event);
+  if (!info) {
+    return "";
+  }
+  const parts = [formatRank(info), ...info.traits.map(formatTrait)].filter(
+    Boolean
+  );
+  return parts.map((part) => ` · ${part}`).join("");
+};
+
+// " · 12% below floor" when floor context is shown
+const floorTextFor = (event: OpenSeaAssetEvent): string => {
+  const context = floorContextFor(event);
+  return context ? ` · ${context.text}` : "";
+};
+
+// " · Last sold for 2.1 ETH 14 days ago (+38%)" for resales
+const lastSaleTextFor = async (event: OpenSeaAssetEvent): Promise<string> => {
+  const sale = await lastSaleFor(event);
+  return sale ? ` · ${formatLastSale(sale)}` : "";
+};
+
+// Plain-text description of an event, shared by Twitter and Telegram.
+// `rarity` adds rank and rarest traits and `lastSale` the token's previous
+// sale before the link.
+export const textForEvent = async (
+  event: OpenSeaAssetEvent,
+  options: { rarity?: boolean; lastSale?: boolean } = {}
+) => {
   const ev = event;
   const { asset, event_type, payment, order_type, maker, buyer } = ev;
   // Handle null asset from trait/collection offers by converting to undefined
@@ -192,11 +226,28 @@ export const textForTweet = async (event: OpenSeaAssetEvent) => {
   } else if (isTransferOrMintEvent) {
     text += await textForTransfer(nft, ev);
   }
+  text += floorTextFor(ev);
+  if (options.rarity) {
+    text += await rarityTextFor(ev);
+  }
+  if (options.lastSale) {
+    text += await lastSaleTextFor(ev);
+  }
   if (nft?.identifier) {
     text += ` ${nft.opensea_url}`;
   }
 
-  return wrapTweetText(text);
+  return text;
+};
+
+export const textForTweet = async (event: OpenSeaAssetEvent) => {
+  const { rarity, lastSale } = getConfig();
+  return wrapTweetText(
+    await textForEvent(event, {
+      rarity: rarity.tweets,
+      lastSale: lastSale.tweets,
+    })
+  );
 };
 
 export const getTransferKind = (event: OpenSeaAssetEvent): string => {
@@ -0,0 +1,219 @@
+import { createHmac } from "node:crypto";
+import { getConfig } from "../../config";
+import { type EventType, getCollectionSlug, username } from "../../opensea";
+import type { BotEvent, OpenSeaAssetEvent, OpenSeaPayment } from "../../types";
+import { canonicalEventKeyFor } from "../../utils/canonical-events";
+import { currentCollection } from "../../utils/collection-store";
+import {
+  calculateTotalSpent,
+  type GroupedEvent,
+  isGroupedEvent,
+  postKeyFor,
+} from "../../utils/event-grouping";
+import { effectiveEventTypeFor } from "../../utils/event-types";
+import { fiatValueFor } from "../../utils/prices";
+import { formatAmount, imageForNFT } from "../../utils/utils";
+
+// Bump when a field is removed or changes meaning; adding fields is fine
+export const WEBHOOK_PAYLOAD_VERSION = 1;
+
+export const SIGNATURE_HEADER = "X-Signature-256";
+export const DELIVERY_HEADER = "X-Delivery-Key";
+const USER_AGENT = "opensea-activity-bot";
+
+export type WebhookAccount = { address: string; username: string };
+
+export type WebhookPrice = {
+  quantity: string;
+  decimals: number;
+  symbol: string;
+  formatted: string;
+  // Set when a fiat currency is configured and a rate is known
+  fiat?: { currency: string; value: number };
+};
+
+export type WebhookEvent = {
+  key: string;
+  type: EventType | BotEvent;
+  timestamp: number;
+  chain: string;
+  contract: string;
+  collection?: string;
+  transaction?: string;
+  quantity: number;
+  nft?: {
+    identifier: string;
+    name?: string;
+    imageUrl?: string;
+    openseaUrl?: string;
+  };
+  price?: WebhookPrice;
+  maker?: WebhookAccount;
+  buyer?: WebhookAccount;
+  seller?: WebhookAccount;
+  from?: WebhookAccount;
+  to?: WebhookAccount;
+};
+
+export type WebhookPayload =
+  | ({ version: number; kind: "event" } & WebhookEvent)
+  | {
+      version: number;
+      kind: "group";
+      key: string;
+      type: EventType | BotEvent;
+      count: number;
+      totalSpent?: string;
+      transaction?: string;
+      events: WebhookEvent[];
+    };
+
+/**
+ * Error for a non-2xx webhook response. `retryAfterSeconds` is set when
+ * the endpoint sent a Retry-After header.
+ */
+export class WebhookError extends Error {
+  readonly status: number;
+  readonly retryAfterSeconds?: number;
+
+  constructor(url: string, status: number, retryAfterSeconds?: number) {
+    super(`Webhook ${url} responded with ${status}`);
+    this.name = "WebhookError";
+    this.status = status;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+export const webhookSecret = (): string | undefined =>
+  process.env.WEBHOOK_SECRET || undefined;
+
+// GitHub-style signature of the raw request body
+export const signPayload = (body: string, secret: string): string =>
+  `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`;
+
+const accountFor = async (
+  address: string | undefined
+): Promise<WebhookAccount | undefined> =>
+  address ? { address, username: await username(address) } : undefined;
+
+const priceFor = async (
+  payment: OpenSeaPayment | undefined
+): Promise<WebhookPrice | undefined> => {
+  if (!payment) {
+    return;
+  }
+  const { currency } = getConfig().fiat;
+  const value = currency ? await fiatValueFor(payment) : undefined;
+  return {
+    quantity: payment.quantity,
+    decimals: payment.decimals,
+    symbol: payment.symbol,
+    formatted: formatAmount(payment.quantity, payment.decimals, payment.symbol),
+    fiat: currency && value !== undefined ? { currency, value } : undefined,
+  };
+};
+
+const accountsFor = async (event: OpenSeaAssetEvent) => {
+  const [maker, buyer, seller, from, to] = await Promise.all(
+    [
+      event.maker,
+      event.buyer,
+      event.seller,
+      event.from_address,
+      event.to_address,
+    ].map(accountFor)
+  );
+  return { maker, buyer, seller, from, to };
+};
+
+const eventPayloadFor = async (
+  event: OpenSeaAssetEvent
+): Promise<WebhookEvent> => {
+  const collection = currentCollection();
+  const nft = event.nft ?? event.asset ?? undefined;
+  // Unset fields are left out of the JSON body
+  return {
+    key: canonicalEventKeyFor(event),
+    type: effectiveEventTypeFor(event),
+    timestamp: event.event_timestamp,
+    chain: collection.chain,
+    contract: (nft?.contract ?? collection.tokenAddress).toLowerCase(),
+    collection: getCollectionSlug(),
+    transaction: event.transaction,
+    quantity: event.quantity,
+    nft: nft && {
+      identifier: nft.identifier,
+      name: nft.name || undefined,
+      imageUrl: imageForNFT(nft),
+      openseaUrl: nft.opensea_url || undefined,
+    },
+    price: await priceFor(event.payment),
+    ...(await accountsFor(event)),
+  };
+};
+
+/**
+ * Builds the versioned JSON document sent for an event or a group.
+ */
+export const payloadFor = async (
+  event: OpenSeaAssetEvent | GroupedEvent
+): Promise<WebhookPayload> => {
+  if (!isGroupedEvent(event)) {
+    return {
+      version: WEBHOOK_PAYLOAD_VERSION,
+      kind: "event",
+      ...(await eventPayloadFor(event)),
+    };
+  }
+  return {
+    version: WEBHOOK_PAYLOAD_VERSION,
+    kind: "group",
+    key: postKeyFor(event),
+    type: effectiveEventTypeFor(event.events[0]),
+    count: event.events.length,
+    totalSpent: calculateTotalSpent(event.events) ?? undefined,
+    // Actor groups span several transactions
+    transaction: event.txHash.startsWith("actor:") ? undefined : event.txHash,
+    events: await Promise.all(event.events.map(eventPayloadFor)),
+  };
+};
+
+const parseRetryAfter = (header: string | null): number | undefined => {
+  const seconds = Number(header);
+  return header && Number.isFinite(seconds) ? seconds : undefined;
+};
+
+/**
+ * POSTs a payload, signed with WEBHOOK_SECRET when it is set. Throws a
+ * WebhookError for non-2xx responses.
+ */
+export const sendWebhook = async (
+  url: string,
+  payload: WebhookPayload
+): Promise<void> => {
+  const body = JSON.stringify(payload);
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    "User-Agent": USER_AGENT,
+    [DELIVERY_HEADER]: payload.key,
+  };
+  const secret = webhookSecret();
+  if (secret) {
+    headers[SIGNATURE_HEADER] = signPayload(body, secret);
+  }
+  const response = await fetch(url, {
+    method: "POST",
+    headers,
+    body,
+    signal: AbortSignal.timeout(getConfig().webhook.timeoutMs),
+  });
+  // Drain the body so the connection can be reused
+  await response.text().catch(() => "");
+  if (!response.ok) {
+    throw new WebhookError(
+      url,
+      response.status,
+      parseRetryAfter(response.headers.get("Retry-After"))
+    );
+  }
+};
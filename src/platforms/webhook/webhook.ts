@@ -0,0 +1,266 @@
+import { type CollectionConfig, getConfig } from "../../config";
+import type { PlatformHealth } from "../../health";
+import type { OpenSeaAssetEvent } from "../../types";
+import {
+  collectionKeyFor,
+  currentCollection,
+  runWithCollection,
+} from "../../utils/collection-store";
+import { MS_PER_SECOND } from "../../utils/constants";
+import {
+  EventGroupManager,
+  type GroupedEvent,
+  getDefaultEventGroupConfig,
+  pendingGroupCount,
+  postKeyFor,
+  processEventsWithAggregator,
+} from "../../utils/event-grouping";
+import { effectiveEventTypeFor } from "../../utils/event-types";
+import { matchesFilters } from "../../utils/filters";
+import { isDebugEnabled, prefixedLogger } from "../../utils/logger";
+import { refetchMintMetadata } from "../../utils/metadata";
+import { recordGroupFlushes } from "../../utils/metrics";
+import { getOutbox, restoreHeldEvents } from "../../utils/outbox";
+import { AsyncQueue, type QueueErrorClassification } from "../../utils/queue";
+import { payloadFor, sendWebhook, WebhookError } from "./utils";
+
+const log = prefixedLogger("Webhook");
+
+type WebhookPost = OpenSeaAssetEvent | GroupedEvent;
+type WebhookQueueItem = {
+  event: WebhookPost;
+  url: string;
+  collection: CollectionConfig;
+};
+
+// Event group managers for webhooks, one per monitored collection
+const groupManagers = new Map<string, EventGroupManager>();
+const groupManagerFor = (collection: CollectionConfig): EventGroupManager => {
+  const key = collectionKeyFor(collection);
+  let manager = groupManagers.get(key);
+  if (!manager) {
+    manager = new EventGroupManager(getDefaultEventGroupConfig("WEBHOOK"));
+    groupManagers.set(key, manager);
+  }
+  return manager;
+};
+
+const keyForQueueItem = (item: WebhookQueueItem): string =>
+  `${collectionKeyFor(item.collection)}|${item.url}|${postKeyFor(item.event)}`;
+
+// Queued deliveries are persisted so a restart does not lose them
+type PendingDelivery = {
+  event: WebhookPost;
+  url: string;
+  collectionKey: string;
+};
+const webhookOutbox = () => getOutbox<PendingDelivery>("webhook");
+
+const BACKOFF_BASE_MS = 5000;
+const BACKOFF_MAX_MS = 5 * 60 * 1000;
+const HTTP_REQUEST_TIMEOUT = 408;
+const HTTP_TOO_MANY_REQUESTS = 429;
+const SERVER_ERROR_MIN = 500;
+
+export const classifyWebhookError = (
+  error: unknown
+): QueueErrorClassification => {
+  if (error instanceof WebhookError) {
+    if (error.status === HTTP_TOO_MANY_REQUESTS) {
+      return {
+        type: "rate_limit",
+        pauseUntilMs:
+          Date.now() + (error.retryAfterSeconds ?? 0) * MS_PER_SECOND,
+      };
+    }
+    return error.status === HTTP_REQUEST_TIMEOUT ||
+      error.status >= SERVER_ERROR_MIN
+      ? { type: "transient" }
+      : { type: "fatal" };
+  }
+  // Network failures and timeouts
+  return { type: "transient" };
+};
+
+const createWebhookQueue = () => {
+  const { webhook } = getConfig();
+  return new AsyncQueue<WebhookQueueItem>({
+    perItemDelayMs: webhook.queueDelayMs,
+    backoffBaseMs: BACKOFF_BASE_MS,
+    backoffMaxMs: BACKOFF_MAX_MS,
+    platform: "webhook",
+    debug: isDebugEnabled(),
+    keyFor: keyForQueueItem,
+    isAlreadyProcessed: (key) => webhookOutbox().wasDelivered(key),
+    onProcessed: (item) => {
+      webhookOutbox().complete(keyForQueueItem(item));
+    },
+    onAttempt: (item, attempts) => {
+      webhookOutbox().update(keyForQueueItem(item), { attempts });
+    },
+    onDropped: (item, reason) => {
+      if (reason === "fatal") {
+        webhookOutbox().drop(keyForQueueItem(item));
+      }
+    },
+    process: async (item) => {
+      await runWithCollection(item.collection, async () => {
+        await sendWebhook(item.url, await payloadFor(item.event));
+      });
+      log.debug(`Delivered ${postKeyFor(item.event)} to ${item.url}`);
+    },
+    classifyError: classifyWebhookError,
+  });
+};
+
+// One queue per endpoint, so a slow or failing endpoint never holds up
+// deliveries to the others
+const queues = new Map<string, AsyncQueue<WebhookQueueItem>>();
+const queueFor = (url: string): AsyncQueue<WebhookQueueItem> => {
+  let queue = queues.get(url);
+  if (!queue) {
+    queue = createWebhookQueue();
+    queues.set(url, queue);
+  }
+  return queue;
+};
+
+const enqueueDelivery = (item: WebhookQueueItem): void => {
+  const added = webhookOutbox().add(keyForQueueItem(item), {
+    event: item.event,
+    url: item.url,
+    collectionKey: collectionKeyFor(item.collection),
+  });
+  if (added) {
+    queueFor(item.url).enqueue(item);
+  }
+};
+
+const routesTo = (
+  event: OpenSeaAssetEvent,
+  webhook: CollectionConfig["webhooks"][number]
+): boolean =>
+  (webhook.events as string[]).includes(effectiveEventTypeFor(event)) &&
+  matchesFilters(event, webhook.filters);
+
+// Groups go to every endpoint whose filters accept at least one event in it
+const urlsForGroup = (
+  collection: CollectionConfig,
+  events: OpenSeaAssetEvent[]
+): string[] =>
+  collection.webhooks
+    .filter((webhook) =>
+      events.some((event) => matchesFilters(event, webhook.filters))
+    )
+    .map((webhook) => webhook.url);
+
+// Webhooks need no login; queued counts deliveries across every endpoint
+export const webhookHealth = (): PlatformHealth => {
+  let queued = 0;
+  for (const queue of queues.values()) {
+    queued += queue.size();
+  }
+  return {
+    ready: true,
+    queued,
+    pendingGroups: pendingGroupCount(groupManagers.values()),
+  };
+};
+
+/**
+ * Re-queues deliveries left in the outbox by a previous run. Deliveries for
+ * collections that are no longer configured are dropped.
+ */
+export const restoreWebhookOutbox = async (): Promise<number> => {
+  const collections = new Map(
+    getConfig().collections.map((c) => [collectionKeyFor(c), c])
+  );
+  if (![...collections.values()].some((c) => c.webhooks.length > 0)) {
+    return 0;
+  }
+  const entries = await webhookOutbox().load();
+  restoreHeldEvents(webhookOutbox(), groupManagerFor);
+  let restored = 0;
+  for (const { key, item, attempts } of entries) {
+    const collection = collections.get(item.collectionKey);
+    if (!collection) {
+      log.warn(
+        `Dropping pending delivery for unconfigured collection ${item.collectionKey}`
+      );
+      webhookOutbox().drop(key);
+      continue;
+    }
+    queueFor(item.url).enqueue(
+      { event: item.event, url: item.url, collection },
+      attempts
+    );
+    restored += 1;
+  }
+  return restored;
+};
+
+const queueGroups = (
+  collection: CollectionConfig,
+  groupManager: EventGroupManager,
+  readyGroups: Array<{ tx: string; events: OpenSeaAssetEvent[] }>
+): void => {
+  for (const { tx, events: groupEvents } of readyGroups) {
+    const group: GroupedEvent = {
+      kind: "group",
+      txHash: tx,
+      events: groupEvents,
+    };
+    for (const url of urlsForGroup(collection, groupEvents)) {
+      enqueueDelivery({ event: group, url, collection });
+    }
+    groupManager.markGroupProcessed(group);
+  }
+};
+
+const queueEvents = (
+  collection: CollectionConfig,
+  groupManager: EventGroupManager,
+  processableEvents: OpenSeaAssetEvent[]
+): void => {
+  for (const event of processableEvents) {
+    for (const webhook of collection.webhooks) {
+      if (routesTo(event, webhook)) {
+        enqueueDelivery({ event, url: webhook.url, collection });
+      }
+    }
+    groupManager.markProcessed(event);
+  }
+};
+
+export async function sendWebhooks(events: OpenSeaAssetEvent[]) {
+  const collection = currentCollection();
+  if (collection.webhooks.length === 0) {
+    return;
+  }
+
+  const groupManager = groupManagerFor(collection);
+  const filteredEvents = events.filter((event) =>
+    collection.webhooks.some((webhook) => routesTo(event, webhook))
+  );
+  if (filteredEvents.length > 0) {
+    log.info(
+      `📊 Found ${filteredEvents.length} relevant event${filteredEvents.length === 1 ? "" : "s"} for webhooks`
+    );
+  }
+
+  const { readyGroups, processableEvents } = processEventsWithAggregator(
+    groupManager,
+    filteredEvents
+  );
+  recordGroupFlushes("webhook", readyGroups);
+
+  // Refetch metadata for any mint events before queueing
+  await refetchMintMetadata([
+    ...readyGroups.flatMap((group) => group.events),
+    ...processableEvents,
+  ]);
+
+  queueGroups(collection, groupManager, readyGroups);
+  queueEvents(collection, groupManager, processableEvents);
+  webhookOutbox().hold(collectionKeyFor(collection), groupManager.heldEvents());
+}
@@ -0,0 +1,206 @@
+import { promises as fs } from "node:fs";
+import { basename, join } from "node:path";
+import { parseArgs } from "node:util";
+import { type CollectionConfig, ConfigError, getConfig } from "./config";
+import { processReplayedEvents } from "./opensea";
+import type { OpenSeaAssetEvent } from "./types";
+import { collectionStore, runWithCollection } from "./utils/collection-store";
+import { MS_PER_SECOND } from "./utils/constants";
+import { previewCount } from "./utils/dry-run";
+import { prefixedLogger } from "./utils/logger";
+
+const log = prefixedLogger("Replay");
+
+export type ReplayOptions = {
+  // An events JSON file or a directory of them
+  path: string;
+  // Appends rendered posts to this file instead of stdout
+  out?: string;
+};
+
+export type ReplaySummary = {
+  pages: number;
+  events: number;
+  filtered: number;
+  duplicates: number;
+  posts: number;
+};
+
+// Renders events of the active collection on every platform
+type Render = (events: OpenSeaAssetEvent[]) => Promise<unknown>;
+
+type Page = { file: string; events: OpenSeaAssetEvent[] };
+
+/**
+ * Parses `replay` arguments, throwing a ConfigError that lists every
+ * problem.
+ */
+export const parseReplayArgs = (args: string[]): ReplayOptions => {
+  let parsed: { values: { out?: string }; positionals: string[] };
+  try {
+    parsed = parseArgs({
+      args,
+      options: { out: { type: "string" } },
+      allowPositionals: true,
+    });
+  } catch (error) {
+    throw new ConfigError([(error as Error).message]);
+  }
+  const { values, positionals } = parsed;
+  if (positionals.length !== 1) {
+    throw new ConfigError([
+      "expected one events JSON file or directory to replay",
+    ]);
+  }
+  return { path: positionals[0], out: values.out };
+};
+
+// Accepts OpenSea events responses and the arrays `backfill --out` writes
+const eventsIn = (content: unknown): OpenSeaAssetEvent[] | undefined => {
+  if (Array.isArray(content)) {
+    return content as OpenSeaAssetEvent[];
+  }
+  const events = (content as { asset_events?: unknown } | null)?.asset_events;
+  return Array.isArray(events) ? (events as OpenSeaAssetEvent[]) : undefined;
+};
+
+const readPage = async (file: string): Promise<Page | undefined> => {
+  const events = eventsIn(JSON.parse(await fs.readFile(file, "utf8")));
+  if (!events) {
+    log.warn(`Skipping ${basename(file)}: no asset_events`);
+    return;
+  }
+  // Responses list newest first; the bot handles each page oldest first
+  const sorted = [...events].sort(
+    (a, b) => a.event_timestamp - b.event_timestamp
+  );
+  return { file: basename(file), events: sorted };
+};
+
+// Pages ordered by their oldest event, as a poll loop would have seen them
+const loadPages = async (path: string): Promise<Page[]> => {
+  const files = (await fs.stat(path)).isDirectory()
+    ? (await fs.readdir(path))
+        .filter((name) => name.endsWith(".json"))
+        .sort()
+        .map((name) => join(path, name))
+    : [path];
+  const pages: Page[] = [];
+  for (const file of files) {
+    const page = await readPage(file);
+    if (page && page.events.length > 0) {
+      pages.push(page);
+    }
+  }
+  return pages.sort(
+    (a, b) => a.events[0].event_timestamp - b.events[0].event_timestamp
+  );
+};
+
+// Events go to the collection whose contract they belong to, or the first
+const collectionFor = (
+  event: OpenSeaAssetEvent,
+  collections: CollectionConfig[]
+): CollectionConfig => {
+  const contract = (event.nft ?? event.asset)?.contract?.toLowerCase();
+  return (
+    collections.find(
+      (collection) => collection.tokenAddress.toLowerCase() === contract
+    ) ?? collections[0]
+  );
+};
+
+// Stands in for Date.now so settle windows follow the recorded timestamps
+class SimulatedClock {
+  private readonly realNow = Date.now;
+  private nowMs: number;
+
+  constructor(startMs: number) {
+    this.nowMs = startMs;
+  }
+
+  install(): void {
+    Date.now = () => this.nowMs;
+  }
+
+  restore(): void {
+    Date.now = this.realNow;
+  }
+
+  // Moves to `ms`, or by at least `minStepMs` when that is not later
+  advanceTo(ms: number, minStepMs: number): void {
+    this.nowMs = Math.max(ms, this.nowMs + minStepMs);
+  }
+}
+
+/**
+ * Feeds recorded event pages through the poll pipeline's filters and dedupe
+ * and on to `render`, one simulated poll per page. The clock follows the
+ * events' timestamps so grouped posts settle as they would have live, and
+ * every group still pending at the end is flushed.
+ */
+export const runReplay = async (
+  path: string,
+  render: Render
+): Promise<ReplaySummary> => {
+  const pages = await loadPages(path);
+  const summary: ReplaySummary = {
+    pages: pages.length,
+    events: 0,
+    filtered: 0,
+    duplicates: 0,
+    posts: 0,
+  };
+  if (pages.length === 0) {
+    log.warn(`No events found in ${path}`);
+    return summary;
+  }
+
+  const { collections, pollIntervalSeconds, twitter, discord } = getConfig();
+  const pollMs = pollIntervalSeconds * MS_PER_SECOND;
+  const postsBefore = previewCount();
+  const clock = new SimulatedClock(
+    pages[0].events[0].event_timestamp * MS_PER_SECOND - pollMs
+  );
+  clock.install();
+  try {
+    for (const [index, page] of pages.entries()) {
+      const newestMs =
+        (page.events.at(-1)?.event_timestamp ?? 0) * MS_PER_SECOND;
+      clock.advanceTo(newestMs, pollMs);
+      log.info(
+        `Page ${index + 1}/${pages.length} (${page.file}): ${page.events.length} events`
+      );
+      summary.events += page.events.length;
+      for (const collection of collections) {
+        const events = page.events.filter(
+          (event) => collectionFor(event, collections) === collection
+        );
+        await runWithCollection(collection, async () => {
+          if (!collectionStore.getSlug() && events[0]?.nft?.collection) {
+            collectionStore.setSlug(events[0].nft.collection);
+          }
+          const { events: newEvents, stats } =
+            await processReplayedEvents(events);
+          summary.filtered += stats.privateFiltered + stats.lowValueFiltered;
+          summary.duplicates += stats.deduped;
+          await render(newEvents);
+        });
+      }
+    }
+
+    // One more poll once every pending group has settled
+    clock.advanceTo(
+      0,
+      Math.max(twitter.group.settleMs, discord.group.settleMs) + pollMs
+    );
+    for (const collection of collections) {
+      await runWithCollection(collection, () => render([]));
+    }
+  } finally {
+    clock.restore();
+  }
+
+  summary.posts = previewCount() - postsBefore;
+  return summary;
+};
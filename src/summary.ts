@@ -0,0 +1,430 @@
+import { promises as fs } from "node:fs";
+import { dirname, join } from "node:path";
+import { EmbedBuilder } from "discord.js";
+import type {
+  BotConfig,
+  CollectionConfig,
+  SummaryConfig,
+  SummaryPeriod,
+} from "./config";
+import {
+  fetchCollectionStats,
+  getCollectionSlug,
+  opensea,
+  username,
+} from "./opensea";
+import { sendDiscordEmbed } from "./platforms/discord/discord";
+import { type EmbedResult, setEmbedImage } from "./platforms/discord/utils";
+import { postTweet, type TweetContent } from "./platforms/twitter/twitter";
+import { wrapTweetText } from "./platforms/twitter/utils";
+import type { OpenSeaAssetEvent } from "./types";
+import { floorPriceETH } from "./utils/collection-stats";
+import {
+  collectionKeyFor,
+  collectionStore,
+  currentCollection,
+  runWithCollection,
+} from "./utils/collection-store";
+import { MS_PER_SECOND, SECONDS_PER_MINUTE } from "./utils/constants";
+import { prefixedLogger } from "./utils/logger";
+import {
+  addSummaryEvents,
+  emptySummaryStats,
+  latestSummaryBoundary,
+  mostActiveWallets,
+  type Summary,
+  type SummaryStats,
+  salesCount,
+} from "./utils/summary-stats";
+import { formatAmount, imageForNFT } from "./utils/utils";
+
+const log = prefixedLogger("Summary");
+
+export const SUMMARY_STATE_FILE = "summaries.json";
+
+const TICK_MS = SECONDS_PER_MINUTE * MS_PER_SECOND;
+const ACTIVE_WALLET_COUNT = 3;
+const FLOOR_DECIMALS = 4;
+const PERCENT = 100;
+const EMBED_COLOR = "#62b778";
+
+// Posts a finished summary of the active collection
+type PostSummary = (summary: Summary) => Promise<void>;
+
+// ---- Rendering ----
+
+const PERIOD_TITLES = { daily: "Daily", weekly: "Weekly" } as const;
+
+const titleFor = (summary: Summary): string =>
+  `📊 ${PERIOD_TITLES[summary.period]} summary: ${getCollectionSlug() ?? collectionStore.getIdentifier()}`;
+
+const rangeFor = (summary: Summary, timeZone: string): string => {
+  const format = (seconds: number) =>
+    new Date(seconds * MS_PER_SECOND).toLocaleString("en-US", {
+      timeZone,
+      month: "short",
+      day: "numeric",
+      hour: "numeric",
+    });
+  return `${format(summary.start)} – ${format(summary.end)} (${timeZone})`;
+};
+
+const volumeText = (summary: Summary, average: boolean): string =>
+  Object.entries(summary.volume)
+    .map(([symbol, volume]) =>
+      formatAmount(
+        average
+          ? BigInt(volume.quantity) / BigInt(volume.count)
+          : volume.quantity,
+        volume.decimals,
+        symbol
+      )
+    )
+    .join(" + ");
+
+const floorText = (summary: Summary): string | undefined => {
+  const { floorStart, floorEnd } = summary;
+  if (floorEnd === undefined) {
+    return;
+  }
+  const end = `${Number(floorEnd.toFixed(FLOOR_DECIMALS))} ETH`;
+  if (!floorStart) {
+    return end;
+  }
+  const change = ((floorEnd - floorStart) / floorStart) * PERCENT;
+  const sign = change >= 0 ? "+" : "";
+  return `${Number(floorStart.toFixed(FLOOR_DECIMALS))} → ${end} (${sign}${change.toFixed(1)}%)`;
+};
+
+const activeWalletsText = async (summary: Summary): Promise<string> => {
+  const wallets = mostActiveWallets(summary, ACTIVE_WALLET_COUNT);
+  const names = await Promise.all(
+    wallets.map(
+      async ({ address, events }) => `${await username(address)} (${events})`
+    )
+  );
+  return names.join(", ");
+};
+
+/**
+ * The summary's figures as label/value pairs, shared by the embed and the
+ * tweet. Figures with nothing to report are left out.
+ */
+export const summaryFields = async (
+  summary: Summary
+): Promise<Array<{ name: string; value: string }>> => {
+  const sales = salesCount(summary);
+  const fields = [{ name: "Sales", value: String(sales) }];
+  if (sales > 0) {
+    fields.push(
+      { name: "Volume", value: volumeText(summary, false) },
+      { name: "Average sale", value: volumeText(summary, true) }
+    );
+  }
+  const { topSale } = summary;
+  if (topSale) {
+    const name = topSale.name ?? `#${topSale.tokenId ?? "?"}`;
+    const { quantity, decimals, symbol } = topSale.payment;
+    fields.push({
+      name: "Top sale",
+      value: `${name} for ${formatAmount(quantity, decimals, symbol)}`,
+    });
+  }
+  if (sales > 0) {
+    fields.push({
+      name: "Buyers / sellers",
+      value: `${summary.buyers.length} / ${summary.sellers.length}`,
+    });
+  }
+  if (summary.mints > 0 || summary.burns > 0) {
+    fields.push({
+      name: "Mints / burns",
+      value: `${summary.mints} / ${summary.burns}`,
+    });
+  }
+  const floor = floorText(summary);
+  if (floor) {
+    fields.push({ name: "Floor", value: floor });
+  }
+  const active = await activeWalletsText(summary);
+  if (active) {
+    fields.push({ name: "Most active", value: active });
+  }
+  return fields;
+};
+
+export const summaryEmbed = async (
+  summary: Summary,
+  timeZone: string
+): Promise<EmbedResult> => {
+  const embed = new EmbedBuilder()
+    .setColor(EMBED_COLOR)
+    .setTitle(titleFor(summary))
+    .setDescription(rangeFor(summary, timeZone))
+    .setFields(
+      (await summaryFields(summary)).map((field) => ({
+        ...field,
+        inline: true,
+      }))
+    );
+  if (getCollectionSlug()) {
+    embed.setURL(opensea.collectionURL());
+  }
+  const { topSale } = summary;
+  const attachment = topSale?.imageUrl
+    ? await setEmbedImage(embed, {
+        image_url: topSale.imageUrl,
+        identifier: topSale.tokenId,
+      })
+    : null;
+  return { embed, attachment };
+};
+
+export const summaryTweet = async (summary: Summary): Promise<TweetContent> => {
+  const lines = (await summaryFields(summary)).map(
+    ({ name, value }) => `${name}: ${value}`
+  );
+  const link = getCollectionSlug() ? `\n\n${opensea.collectionURL()}` : "";
+  const image = imageForNFT({ image_url: summary.topSale?.imageUrl });
+  return {
+    text: wrapTweetText(`${titleFor(summary)}\n\n${lines.join("\n")}${link}`),
+    images: image ? [image] : [],
+  };
+};
+
+// Sends to every configured target; a failed target does not stop the rest
+const postSummary = async (summary: Summary, config: SummaryConfig) => {
+  if (config.discordChannelId) {
+    try {
+      await sendDiscordEmbed(
+        config.discordChannelId,
+        await summaryEmbed(summary, config.timeZone)
+      );
+    } catch (error) {
+      log.error(`Failed to post ${summary.period} summary to Discord:`, error);
+    }
+  }
+  if (config.tweet) {
+    try {
+      await postTweet(await summaryTweet(summary));
+    } catch (error) {
+      log.error(`Failed to tweet ${summary.period} summary:`, error);
+    }
+  }
+};
+
+// Floor of the active collection in ETH, refreshed when stale
+const currentFloor = async (): Promise<number | undefined> => {
+  await fetchCollectionStats();
+  return floorPriceETH();
+};
+
+// ---- Scheduling ----
+
+/**
+ * Accumulates each collection's stats for every configured period and
+ * posts a summary once a period ends. Stats are kept in `filePath`, when
+ * set, so a restart does not lose the period so far.
+ */
+export class SummaryScheduler {
+  private readonly config: SummaryConfig;
+  private readonly collections: CollectionConfig[];
+  private readonly filePath?: string;
+  private readonly post: PostSummary;
+  private readonly floor: () => Promise<number | undefined>;
+  private readonly now: () => number;
+  // Keyed by collection key and period
+  private stats = new Map<string, SummaryStats>();
+  private timer: NodeJS.Timeout | undefined;
+  private ticking: Promise<void> | undefined;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(options: {
+    config: SummaryConfig;
+    collections: CollectionConfig[];
+    filePath?: string;
+    post: PostSummary;
+    floor?: () => Promise<number | undefined>;
+    now?: () => number;
+  }) {
+    this.config = options.config;
+    this.collections = options.collections;
+    this.filePath = options.filePath;
+    this.post = options.post;
+    this.floor = options.floor ?? currentFloor;
+    this.now = options.now ?? Date.now;
+  }
+
+  private keyFor(collection: CollectionConfig, period: string): string {
+    return `${collectionKeyFor(collection)}|${period}`;
+  }
+
+  async load(): Promise<void> {
+    if (!this.filePath) {
+      return;
+    }
+    try {
+      const content = await fs.readFile(this.filePath, "utf8");
+      this.stats = new Map(
+        Object.entries(JSON.parse(content) as Record<string, SummaryStats>)
+      );
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        log.warn("Failed to load summary stats, starting over:", error);
+      }
+    }
+  }
+
+  private save(): Promise<void> {
+    const { filePath } = this;
+    if (!filePath) {
+      return Promise.resolve();
+    }
+    const content = JSON.stringify(Object.fromEntries(this.stats));
+    this.writes = this.writes
+      .then(async () => {
+        const tmpPath = `${filePath}.tmp`;
+        await fs.mkdir(dirname(filePath), { recursive: true });
+        await fs.writeFile(tmpPath, content, "utf8");
+        await fs.rename(tmpPath, filePath);
+      })
+      .catch((error: unknown) => {
+        log.error("Failed to save summary stats:", error);
+      });
+    return this.writes;
+  }
+
+  // Stats of the period in progress, starting one if there is none
+  private statsFor(
+    collection: CollectionConfig,
+    period: SummaryPeriod
+  ): SummaryStats {
+    const key = this.keyFor(collection, period);
+    let stats = this.stats.get(key);
+    if (!stats) {
+      stats = emptySummaryStats(
+        period,
+        latestSummaryBoundary(period, this.config, this.now())
+      );
+      this.stats.set(key, stats);
+    }
+    return stats;
+  }
+
+  /**
+   * Adds processed events of the active collection to every period.
+   */
+  record(events: OpenSeaAssetEvent[]): Promise<void> {
+    if (events.length === 0) {
+      return Promise.resolve();
+    }
+    const collection = currentCollection();
+    for (const period of this.config.periods) {
+      addSummaryEvents(this.statsFor(collection, period), events);
+    }
+    return this.save();
+  }
+
+  private async tickCollection(collection: CollectionConfig): Promise<void> {
+    for (const period of this.config.periods) {
+      const stats = this.statsFor(collection, period);
+      const boundary = latestSummaryBoundary(period, this.config, this.now());
+      if (stats.start === boundary && stats.floorStart !== undefined) {
+        continue;
+      }
+      const floor = await this.floor();
+      if (stats.start === boundary) {
+        // Taken once the floor is known, which can be after the period began
+        stats.floorStart = floor;
+        continue;
+      }
+      this.stats.set(
+        this.keyFor(collection, period),
+        emptySummaryStats(period, boundary, floor)
+      );
+      // A period that ended before the last boundary was missed while the
+      // bot was down, and only partly counted
+      const previous = latestSummaryBoundary(
+        period,
+        this.config,
+        boundary * MS_PER_SECOND - 1
+      );
+      if (previous > stats.start) {
+        log.warn(`Skipping ${period} summary missed while stopped`);
+        continue;
+      }
+      log.info(`Posting ${period} summary`);
+      await this.post({ ...stats, end: boundary, floorEnd: floor });
+    }
+  }
+
+  /**
+   * Posts the summaries of periods that have ended and starts the next.
+   */
+  tick(): Promise<void> {
+    this.ticking ??= (async () => {
+      try {
+        for (const collection of this.collections) {
+          await runWithCollection(collection, () =>
+            this.tickCollection(collection)
+          );
+        }
+        await this.save();
+      } finally {
+        this.ticking = undefined;
+      }
+    })();
+    return this.ticking;
+  }
+
+  start(): void {
+    const run = () => {
+      this.tick().catch((error: unknown) => {
+        log.error("Summary tick failed:", error);
+      });
+    };
+    run();
+    this.timer = setInterval(run, TICK_MS);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+}
+
+let activeScheduler: SummaryScheduler | undefined;
+
+/**
+ * Starts posting summaries when SUMMARY_PERIODS is set. Stats are kept in
+ * the state directory.
+ */
+export const startSummaries = async (
+  config: BotConfig
+): Promise<SummaryScheduler | undefined> => {
+  const { summary, state, collections } = config;
+  if (summary.periods.length === 0) {
+    return;
+  }
+  const scheduler = new SummaryScheduler({
+    config: summary,
+    collections,
+    filePath:
+      process.env.NODE_ENV === "test"
+        ? undefined
+        : join(process.cwd(), state.dir, SUMMARY_STATE_FILE),
+    post: (finished) => postSummary(finished, summary),
+  });
+  await scheduler.load();
+  scheduler.start();
+  activeScheduler = scheduler;
+  return scheduler;
+};
+
+/**
+ * Counts processed events of the active collection towards its summaries.
+ */
+export const recordSummaryEvents = (
+  events: OpenSeaAssetEvent[]
+): Promise<void> => activeScheduler?.record(events) ?? Promise.resolve();
@@ -0,0 +1,219 @@
+import { Interface, JsonRpcProvider, type Log } from "ethers";
+import { getConfig } from "./config";
+import {
+  EventType,
+  enabledApiEventTypes,
+  fetchNFT,
+  getCollectionSlug,
+  processIngestedEvents,
+} from "./opensea";
+import type { OpenSeaAssetEvent, OpenSeaNFT } from "./types";
+import { currentCollection } from "./utils/collection-store";
+import { getDefaultEventStateStore } from "./utils/event-state";
+import { prefixedLogger } from "./utils/logger";
+
+const log = prefixedLogger("TransferLogs");
+
+// ERC-721 Transfer shares its signature with ERC-20 Transfer; only the
+// indexed token id (a fourth topic) tells them apart
+const TRANSFER_EVENTS = new Interface([
+  "event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)",
+  "event TransferSingle(address indexed operator, address indexed from, address indexed to, uint256 id, uint256 value)",
+  "event TransferBatch(address indexed operator, address indexed from, address indexed to, uint256[] ids, uint256[] values)",
+]);
+const ERC721_TRANSFER_TOPICS = 4;
+const TRANSFER_TOPICS = ["Transfer", "TransferSingle", "TransferBatch"].map(
+  (name) => TRANSFER_EVENTS.getEvent(name)?.topicHash ?? ""
+);
+
+type TokenTransfer = {
+  from: string;
+  to: string;
+  tokenId: string;
+  quantity: number;
+};
+
+const transfersInLog = (entry: Log): TokenTransfer[] => {
+  if (
+    entry.topics[0] === TRANSFER_TOPICS[0] &&
+    entry.topics.length !== ERC721_TRANSFER_TOPICS
+  ) {
+    return [];
+  }
+  const parsed = TRANSFER_EVENTS.parseLog(entry);
+  if (!parsed) {
+    return [];
+  }
+  // Lowercased like the addresses in OpenSea's events
+  const from = String(parsed.args.from).toLowerCase();
+  const to = String(parsed.args.to).toLowerCase();
+  switch (parsed.name) {
+    case "Transfer":
+      return [{ from, to, tokenId: String(parsed.args.tokenId), quantity: 1 }];
+    case "TransferSingle":
+      return [
+        {
+          from,
+          to,
+          tokenId: String(parsed.args.id),
+          quantity: Number(parsed.args.value),
+        },
+      ];
+    case "TransferBatch": {
+      // Read by position: Result.values is a method, not the argument
+      const [, , , ids, values] = parsed.args;
+      return (ids as bigint[]).map((id, index) => ({
+        from,
+        to,
+        tokenId: String(id),
+        quantity: Number(values[index]),
+      }));
+    }
+    default:
+      return [];
+  }
+};
+
+// Stands in until the NFT's metadata is fetched from OpenSea
+const placeholderNFT = (tokenId: string, contract: string): OpenSeaNFT => {
+  const { chain } = currentCollection();
+  return {
+    identifier: tokenId,
+    collection: getCollectionSlug() ?? "",
+    contract,
+    token_standard: "",
+    name: "",
+    description: "",
+    image_url: "",
+    display_image_url: "",
+    display_animation_url: null,
+    metadata_url: null,
+    opensea_url: `https://opensea.io/assets/${chain}/${contract}/${tokenId}`,
+    updated_at: "",
+    is_disabled: false,
+    is_nsfw: false,
+  };
+};
+
+/**
+ * Converts a Transfer, TransferSingle or TransferBatch log into transfer
+ * events shaped like OpenSea's, so classifyTransfer tells mints and burns
+ * apart and polled copies of the same transfer dedupe against them.
+ */
+export const transferEventsFromLog = (
+  entry: Log,
+  timestamp: number
+): OpenSeaAssetEvent[] =>
+  transfersInLog(entry).map(({ from, to, tokenId, quantity }) => ({
+    event_type: "transfer",
+    event_timestamp: timestamp,
+    transaction: entry.transactionHash,
+    chain: currentCollection().chain,
+    quantity,
+    from_address: from,
+    to_address: to,
+    nft: placeholderNFT(tokenId, entry.address.toLowerCase()),
+  }));
+
+const providers = new Map<string, JsonRpcProvider>();
+
+const providerFor = (url: string): JsonRpcProvider => {
+  let provider = providers.get(url);
+  if (!provider) {
+    provider = new JsonRpcProvider(url, undefined, { staticNetwork: true });
+    providers.set(url, provider);
+  }
+  return provider;
+};
+
+const blockTimestamps = async (
+  provider: JsonRpcProvider,
+  logs: Log[]
+): Promise<Map<number, number>> => {
+  const timestamps = new Map<number, number>();
+  for (const blockNumber of new Set(logs.map((entry) => entry.blockNumber))) {
+    const block = await provider.getBlock(blockNumber);
+    if (block) {
+      timestamps.set(blockNumber, block.timestamp);
+    }
+  }
+  return timestamps;
+};
+
+// Swaps placeholder NFTs for OpenSea's metadata, fetching each token once
+const attachNFTs = async (events: OpenSeaAssetEvent[]): Promise<void> => {
+  const fetched = new Map<string, OpenSeaNFT | undefined>();
+  for (const event of events) {
+    const identifier = event.nft?.identifier;
+    if (!identifier) {
+      continue;
+    }
+    if (!fetched.has(identifier)) {
+      fetched.set(identifier, await fetchNFT(identifier));
+    }
+    event.nft = fetched.get(identifier) ?? event.nft;
+  }
+};
+
+/**
+ * Reads the active collection's Transfer logs from RPC_URL, one block range
+ * per call, and returns new mint, burn and transfer events. The last block
+ * read is kept in the state file; a first run starts at the chain head
+ * unless RPC_START_BLOCK is set.
+ */
+export const fetchTransferEvents = async (): Promise<OpenSeaAssetEvent[]> => {
+  const { rpc } = getConfig();
+  if (!rpc.url) {
+    return [];
+  }
+  // Mint, burn and transfer selections all poll OpenSea's transfer events;
+  // platforms pick out the kinds they post
+  if (!enabledApiEventTypes().has(EventType.transfer)) {
+    return [];
+  }
+
+  const store = getDefaultEventStateStore();
+  await store.load();
+  try {
+    const provider = providerFor(rpc.url);
+    const head = (await provider.getBlockNumber()) - rpc.confirmations;
+    const lastBlock =
+      store.getLastBlock() ??
+      (rpc.startBlock === undefined ? undefined : rpc.startBlock - 1);
+    if (lastBlock === undefined) {
+      log.info(`Starting from block ${head}`);
+      store.setLastBlock(head);
+      await store.flush();
+      return [];
+    }
+    const fromBlock = lastBlock + 1;
+    if (fromBlock > head) {
+      return [];
+    }
+    const toBlock = Math.min(head, fromBlock + rpc.blockRange - 1);
+    const logs = await provider.getLogs({
+      address: currentCollection().tokenAddress,
+      fromBlock,
+      toBlock,
+      topics: [TRANSFER_TOPICS],
+    });
+    const timestamps = await blockTimestamps(provider, logs);
+    const events = logs.flatMap((entry) =>
+      transferEventsFromLog(entry, timestamps.get(entry.blockNumber) ?? 0)
+    );
+    log.debug(
+      `Read blocks ${fromBlock}-${toBlock}: ${logs.length} logs, ${events.length} events`
+    );
+
+    // Only move past the range, and mark its events processed, once their
+    // NFTs are attached; both are saved together
+    return await processIngestedEvents(events, async (newEvents) => {
+      await attachNFTs(newEvents);
+      store.setLastBlock(toBlock);
+    });
+  } catch (error) {
+    // The block range is retried on the next poll
+    log.warn("Failed to read Transfer logs:", error);
+    return [];
+  }
+};
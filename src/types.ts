@@ -205,6 +205,34 @@ export type OpenSeaCollection = {
   payment_tokens: unknown[];
 };
 
+// Number of NFTs with each trait value. Numeric traits report a range
+// instead of counts.
+export type OpenSeaTraitCounts = {
+  categories: Record<string, string>;
+  counts: Record<string, Record<string, number> | { min: number; max: number }>;
+};
+
+export type OpenSeaCollectionStats = {
+  total: {
+    volume: number;
+    sales: number;
+    num_owners: number;
+    market_cap: number;
+    floor_price: number;
+    floor_price_symbol: string;
+    average_price: number;
+  };
+  intervals: {
+    interval: "one_day" | "seven_day" | "thirty_day";
+    volume: number;
+    volume_diff: number;
+    volume_change: number;
+    sales: number;
+    sales_diff: number;
+    average_price: number;
+  }[];
+};
+
 export type OpenSeaNFTResponse = {
   nft: OpenSeaNFT;
 };
@@ -269,3 +297,65 @@ export type OpenSeaListingsResponse = {
   orders: OpenSeaListing[];
   next?: string;
 };
+
+// OpenSea Stream API (websocket) types
+
+export const OpenSeaStreamEventType = {
+  item_listed: "item_listed",
+  item_sold: "item_sold",
+  item_received_offer: "item_received_offer",
+  item_transferred: "item_transferred",
+} as const;
+
+export type OpenSeaStreamEventType =
+  (typeof OpenSeaStreamEventType)[keyof typeof OpenSeaStreamEventType];
+
+export type OpenSeaStreamAccount = { address: string };
+
+export type OpenSeaStreamPaymentToken = {
+  address: string;
+  decimals: number;
+  symbol: string;
+  name?: string;
+  eth_price?: string;
+  usd_price?: string;
+};
+
+export type OpenSeaStreamItem = {
+  // "<chain>/<contract>/<token id>"
+  nft_id: string;
+  permalink: string;
+  chain: { name: string };
+  metadata: {
+    name: string | null;
+    image_url: string | null;
+    animation_url: string | null;
+    metadata_url: string | null;
+  };
+};
+
+// Fields are present depending on the event type
+export type OpenSeaStreamPayload = {
+  // Missing for collection and trait offers, which name no single item
+  item?: OpenSeaStreamItem;
+  collection: { slug: string };
+  event_timestamp: string;
+  quantity: number;
+  order_hash?: string;
+  maker?: OpenSeaStreamAccount;
+  taker?: OpenSeaStreamAccount | null;
+  payment_token?: OpenSeaStreamPaymentToken;
+  base_price?: string;
+  sale_price?: string;
+  expiration_date?: string;
+  is_private?: boolean;
+  transaction?: { hash: string; timestamp: string };
+  from_account?: OpenSeaStreamAccount;
+  to_account?: OpenSeaStreamAccount;
+};
+
+export type OpenSeaStreamEvent = {
+  event_type: OpenSeaStreamEventType | string;
+  sent_at: string;
+  payload: OpenSeaStreamPayload;
+};
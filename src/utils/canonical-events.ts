@@ -1,7 +1,7 @@
 import type { OpenSeaAssetEvent } from "../types";
 import { txHashFor } from "./aggregator";
+import { currentCollection } from "./collection-store";
 import { effectiveEventTypeFor } from "./event-types";
-import { chain } from "./utils";
 
 export const canonicalEventKeyFor = (event: OpenSeaAssetEvent): string => {
   const nft = event.nft ?? event.asset;
@@ -15,15 +15,12 @@ export const canonicalEventKeyFor = (event: OpenSeaAssetEvent): string => {
       event.quantity ?? ""
     )}`;
 
-  const contract = (
-    nft?.contract ??
-    process.env.TOKEN_ADDRESS ??
-    ""
-  ).toLowerCase();
+  const collection = currentCollection();
+  const contract = (nft?.contract ?? collection.tokenAddress).toLowerCase();
   const timestamp = event.event_timestamp;
 
   return [
-    chain,
+    collection.chain,
     contract,
     tokenId,
     canonicalType,
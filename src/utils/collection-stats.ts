@@ -0,0 +1,58 @@
+import { getConfig } from "../config";
+import type { OpenSeaCollectionStats } from "../types";
+import { collectionKeyFor, currentCollection } from "./collection-store";
+import { ETH_SYMBOLS, MS_PER_SECOND } from "./constants";
+
+type CachedStats = { stats: OpenSeaCollectionStats; fetchedAt: number };
+
+const statsByCollection = new Map<string, CachedStats>();
+const currentKey = () => collectionKeyFor(currentCollection());
+
+const PERCENT = 100;
+
+/**
+ * Last fetched OpenSea stats of the active collection. Stats are refreshed
+ * every `floor.refreshSeconds` rather than per event.
+ */
+export const collectionStatsStore = {
+  get: (): OpenSeaCollectionStats | undefined =>
+    statsByCollection.get(currentKey())?.stats,
+  set: (stats: OpenSeaCollectionStats, fetchedAt = Date.now()): void => {
+    statsByCollection.set(currentKey(), { stats, fetchedAt });
+  },
+  isFresh: (): boolean => {
+    const cached = statsByCollection.get(currentKey());
+    return (
+      cached !== undefined &&
+      Date.now() - cached.fetchedAt <
+        getConfig().floor.refreshSeconds * MS_PER_SECOND
+    );
+  },
+  clear: (): void => {
+    statsByCollection.clear();
+  },
+};
+
+/**
+ * Floor price of the active collection in ETH, when known.
+ */
+export const floorPriceETH = (): number | undefined => {
+  const total = collectionStatsStore.get()?.total;
+  if (
+    !(
+      total?.floor_price &&
+      ETH_SYMBOLS.has(total.floor_price_symbol.toUpperCase())
+    )
+  ) {
+    return;
+  }
+  return total.floor_price;
+};
+
+/**
+ * An ETH price as a percentage of the floor (90 = 10% below floor).
+ */
+export const percentOfFloor = (priceETH: number): number | undefined => {
+  const floor = floorPriceETH();
+  return floor ? (priceETH / floor) * PERCENT : undefined;
+};
@@ -1,11 +1,47 @@
-import { shortTokenAddr } from "./utils";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { type CollectionConfig, getConfig } from "../config";
+import { shortAddr } from "./utils";
 
-let collectionSlug: string | undefined;
+const storage = new AsyncLocalStorage<CollectionConfig>();
+const slugs = new Map<string, string>();
+
+/**
+ * Stable identity for a collection, used to key per-collection state.
+ */
+export const collectionKeyFor = (collection: CollectionConfig): string =>
+  `${collection.chain}:${collection.tokenAddress.toLowerCase()}`;
+
+/**
+ * Runs `fn` with `collection` as the active collection. Everything awaited
+ * inside (fetching, formatting, logging) resolves against it.
+ */
+export const runWithCollection = <T>(
+  collection: CollectionConfig,
+  fn: () => T
+): T => storage.run(collection, fn);
+
+// Placeholder while no valid collection is configured (e.g. during startup
+// validation) so logging and formatting never throw
+const NO_COLLECTION: CollectionConfig = {
+  tokenAddress: "",
+  chain: "ethereum",
+  minOfferETH: "0",
+  discordChannels: [],
+  twitterEvents: [],
+  telegramChats: [],
+  webhooks: [],
+};
+
+// Outside runWithCollection the first configured collection is active
+export const currentCollection = (): CollectionConfig =>
+  storage.getStore() ?? getConfig().collections[0] ?? NO_COLLECTION;
 
 export const collectionStore = {
-  getSlug: (): string | undefined => collectionSlug,
+  getSlug: (): string | undefined =>
+    slugs.get(collectionKeyFor(currentCollection())),
   setSlug: (slug: string): void => {
-    collectionSlug = slug;
+    slugs.set(collectionKeyFor(currentCollection()), slug);
   },
-  getIdentifier: (): string => collectionSlug ?? shortTokenAddr,
+  getIdentifier: (): string =>
+    collectionStore.getSlug() ?? shortAddr(currentCollection().tokenAddress),
 };
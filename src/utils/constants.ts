@@ -7,6 +7,9 @@ export const NULL_ADDRESS = "0x0000000000000000000000000000000000000000";
 export const DEAD_ADDRESS = "0x000000000000000000000000000000000000dead";
 export const NULL_ONE_ADDRESS = "0x0000000000000000000000000000000000000001";
 
+// Payment symbols whose amounts count as ETH for price filters and floors
+export const ETH_SYMBOLS = new Set(["ETH", "WETH"]);
+
 // Event grouping aggregation defaults
 // Default settle time is 60s to allow OpenSea metadata to populate for mint events
 export const MIN_GROUP_SIZE = 2;
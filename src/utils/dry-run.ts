@@ -0,0 +1,57 @@
+import { promises as fs } from "node:fs";
+import { dirname } from "node:path";
+import type { APIEmbed } from "discord.js";
+import { getConfig } from "../config";
+import { collectionStore } from "./collection-store";
+import { logger } from "./logger";
+
+// A post rendered in a dry run instead of being sent
+export type Preview =
+  | {
+      platform: "discord";
+      channelIds: string[];
+      // The embed as Discord's API would receive it
+      embed: APIEmbed;
+      attachments: string[];
+    }
+  | { platform: "twitter"; text: string; images: string[] };
+
+// One line of dry-run output
+export type PreviewLine = Preview & { at: string; collection: string };
+
+export const isDryRun = (): boolean => getConfig().dryRun.enabled;
+
+// Appends are chained so lines from overlapping polls never interleave
+let writes: Promise<void> = Promise.resolve();
+let written = 0;
+
+// Posts rendered so far in this process
+export const previewCount = (): number => written;
+
+/**
+ * Writes a rendered post as one JSON line to DRY_RUN_FILE, or to stdout
+ * when no file is set. Lines are tagged with the active collection.
+ */
+export const writePreview = (preview: Preview): Promise<void> => {
+  const entry: PreviewLine = {
+    at: new Date().toISOString(),
+    collection: collectionStore.getIdentifier(),
+    ...preview,
+  };
+  const line = `${JSON.stringify(entry)}\n`;
+  written += 1;
+  const { file } = getConfig().dryRun;
+  if (!file) {
+    process.stdout.write(line);
+    return Promise.resolve();
+  }
+  writes = writes
+    .then(async () => {
+      await fs.mkdir(dirname(file), { recursive: true });
+      await fs.appendFile(file, line, "utf8");
+    })
+    .catch((error: unknown) => {
+      logger.error("[DryRun] Failed to write preview:", error);
+    });
+  return writes;
+};
@@ -1,5 +1,6 @@
+import { getConfig } from "../config";
 import type { OpenSeaAssetEvent, OpenSeaEventType } from "../types";
-import { DEFAULT_SETTLE_MS, MIN_GROUP_SIZE } from "./constants";
+import { txHashFor } from "./aggregator";
 import { logger } from "./logger";
 import { LRUCache } from "./lru-cache";
 import { classifyTransfer } from "./utils";
@@ -7,22 +8,24 @@ import { classifyTransfer } from "./utils";
 const PROCESSED_CACHE_CAPACITY = 2000;
 const ACTOR_GROUP_STALE_MULTIPLIER = 3;
 
-// Common event grouping configuration with environment variable support
+// Common event grouping configuration, read from the bot config
 export type EventGroupConfig = {
   settleMs: number;
   minGroupSize: number;
 };
 
 export const getDefaultEventGroupConfig = (
-  prefix: "TWITTER" | "DISCORD"
-): EventGroupConfig => ({
-  settleMs: Number(
-    process.env[`${prefix}_EVENT_GROUP_SETTLE_MS`] ?? DEFAULT_SETTLE_MS
-  ),
-  minGroupSize: Number(
-    process.env[`${prefix}_EVENT_GROUP_MIN_GROUP_SIZE`] ?? MIN_GROUP_SIZE
-  ),
-});
+  prefix: "TWITTER" | "DISCORD" | "TELEGRAM" | "WEBHOOK"
+): EventGroupConfig => {
+  const config = getConfig();
+  const groups = {
+    TWITTER: config.twitter.group,
+    DISCORD: config.discord.group,
+    TELEGRAM: config.telegram.group,
+    WEBHOOK: config.webhook.group,
+  };
+  return groups[prefix];
+};
 
 // Common event key generation
 export const eventKeyFor = (event: OpenSeaAssetEvent): string => {
@@ -54,6 +57,39 @@ export const isGroupedEvent = (
   );
 };
 
+/**
+ * Stable key for a single event or a group, used to dedupe posts across
+ * polls and restarts.
+ */
+export const postKeyFor = (ev: OpenSeaAssetEvent | GroupedEvent): string => {
+  if (isGroupedEvent(ev)) {
+    // For transaction-based groups, we want a stable key per tx hash so that
+    // repeated polling doesn't post duplicates for the same on-chain tx.
+    const tx = ev.txHash ?? txHashFor(ev.events?.[0]) ?? "unknown";
+
+    if (typeof tx === "string" && tx.startsWith("actor:")) {
+      // Actor-based groups reuse a synthetic "actor:<kind>:<address>" tx hash.
+      // If we keyed only on this value, we'd permanently suppress future groups
+      // for the same actor after the first post.
+      //
+      // To allow multiple distinct actor groups over time while still deduping
+      // true duplicates, incorporate the time window of the grouped events
+      // into the post key. This keeps keys stable for the same group across
+      // retries, but different once new events arrive.
+      const firstTs = ev.events[0]?.event_timestamp;
+      const lastTs = ev.events.at(-1)?.event_timestamp ?? firstTs;
+      const window =
+        firstTs !== undefined && lastTs !== undefined
+          ? `${firstTs}-${lastTs}`
+          : "unknown-window";
+      return `group:${tx}|${window}`;
+    }
+
+    return `group:${tx}`;
+  }
+  return eventKeyFor(ev as OpenSeaAssetEvent);
+};
+
 // Common event group aggregator management
 export class EventGroupManager {
   private readonly processedCache: LRUCache<string, boolean>;
@@ -293,6 +329,30 @@ export class EventGroupManager {
     }
   }
 
+  // Events in groups large enough to post as a group that have not been
+  // flushed yet, for persisting across restarts
+  heldEvents(): OpenSeaAssetEvent[] {
+    const held: OpenSeaAssetEvent[] = [];
+    for (const agg of this.actorAgg.values()) {
+      if (agg.rawCount >= this.minGroupSize) {
+        held.push(...agg.events.filter((e) => !this.isProcessed(e)));
+      }
+    }
+    return held;
+  }
+
+  // Puts held events back after a restart. Their groups settle again and
+  // flush as a group, or release events one by one if too few are left.
+  restoreHeldEvents(events: OpenSeaAssetEvent[]): void {
+    this.addEvents(events);
+    for (const ev of events) {
+      const agg = this.actorAgg.get(this.actorKeyForEvent(ev) ?? "");
+      if (agg) {
+        agg.rawCount = Math.max(agg.rawCount, this.minGroupSize);
+      }
+    }
+  }
+
   // Get pending transaction hashes (actor pseudo-tx keys)
   getPendingTxHashes(): Set<string> {
     const set = new Set<string>();
@@ -362,6 +422,17 @@ export class EventGroupManager {
 
 // ---- Generic group helpers ----
 
+// Groups still settling across a platform's per-collection managers
+export const pendingGroupCount = (
+  managers: Iterable<EventGroupManager>
+): number => {
+  let count = 0;
+  for (const manager of managers) {
+    count += manager.getPendingTxHashes().size;
+  }
+  return count;
+};
+
 export type GroupKind = "purchase" | "burn" | "mint" | "offer" | "listing";
 
 export const groupKindForEvents = (events: OpenSeaAssetEvent[]): GroupKind => {
@@ -0,0 +1,361 @@
+import { join } from "node:path";
+import { formatUnits } from "ethers";
+import { getConfig, type LeaderboardRanking } from "../config";
+import { getCollectionSlug } from "../opensea";
+import { BotEvent, type OpenSeaAssetEvent } from "../types";
+import { canonicalEventKeyFor } from "./canonical-events";
+import { currentCollection } from "./collection-store";
+import { effectiveEventTypeFor } from "./event-types";
+import { sqliteOpener } from "./sqlite";
+
+export const HISTORY_FILE = "history.sqlite";
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS events (
+  key TEXT PRIMARY KEY,
+  chain TEXT NOT NULL,
+  contract TEXT NOT NULL,
+  collection TEXT,
+  type TEXT NOT NULL,
+  token_id TEXT,
+  quantity INTEGER NOT NULL,
+  price_quantity TEXT,
+  price_decimals INTEGER,
+  price_symbol TEXT,
+  price_value REAL,
+  maker TEXT,
+  buyer TEXT,
+  seller TEXT,
+  from_address TEXT,
+  to_address TEXT,
+  tx_hash TEXT,
+  timestamp INTEGER NOT NULL
+);
+CREATE INDEX IF NOT EXISTS events_by_timestamp ON events (timestamp);
+CREATE INDEX IF NOT EXISTS events_by_token
+  ON events (contract, token_id, timestamp);
+`;
+
+const openHistoryDatabase = sqliteOpener(SCHEMA);
+
+export type HistoryPrice = {
+  quantity: string;
+  decimals: number;
+  symbol: string;
+};
+
+/**
+ * One processed event as stored in the history: the effective event type
+ * and everything needed to answer questions without the OpenSea API.
+ * Addresses are lowercased.
+ */
+export type HistoryEvent = {
+  key: string;
+  chain: string;
+  contract: string;
+  collection?: string;
+  type: string;
+  tokenId?: string;
+  quantity: number;
+  price?: HistoryPrice;
+  maker?: string;
+  buyer?: string;
+  seller?: string;
+  from?: string;
+  to?: string;
+  transaction?: string;
+  timestamp: number;
+};
+
+export type HistoryQuery = {
+  types?: string[];
+  tokenId?: string;
+  // Any of the event's maker, buyer, seller, sender or recipient
+  account?: string;
+  // Collection slug or contract address
+  collection?: string;
+  chain?: string;
+  since?: number;
+  until?: number;
+  // "price" lists the most expensive first, otherwise the newest first
+  sort: "time" | "price";
+  limit: number;
+};
+
+export type LeaderboardRole = "buyer" | "seller" | "minter";
+
+export type LeaderboardQuery = {
+  role: LeaderboardRole;
+  // Collection slug or contract address
+  collection?: string;
+  chain?: string;
+  since: number;
+  rankBy: LeaderboardRanking;
+  limit: number;
+};
+
+export type LeaderboardEntry = {
+  address: string;
+  // Items bought, sold or minted
+  count: number;
+  // Amount paid in ETH and WETH; other currencies only add to `count`
+  volume: number;
+};
+
+// The events each role is ranked on, and the column holding its wallet
+const LEADERBOARD_ROLES: Record<
+  LeaderboardRole,
+  { type: BotEvent; column: string }
+> = {
+  buyer: { type: BotEvent.sale, column: "buyer" },
+  seller: { type: BotEvent.sale, column: "seller" },
+  minter: { type: BotEvent.mint, column: "to_address" },
+};
+
+type HistoryRow = {
+  key: string;
+  chain: string;
+  contract: string;
+  collection: string | null;
+  type: string;
+  token_id: string | null;
+  quantity: number;
+  price_quantity: string | null;
+  price_decimals: number | null;
+  price_symbol: string | null;
+  maker: string | null;
+  buyer: string | null;
+  seller: string | null;
+  from_address: string | null;
+  to_address: string | null;
+  tx_hash: string | null;
+  timestamp: number;
+};
+
+const lower = (address: string | undefined): string | undefined =>
+  address ? address.toLowerCase() : undefined;
+
+/**
+ * Normalizes an event of the active collection for the history.
+ */
+export const historyEventFor = (event: OpenSeaAssetEvent): HistoryEvent => {
+  const collection = currentCollection();
+  const nft = event.nft ?? event.asset ?? undefined;
+  const { payment } = event;
+  return {
+    key: canonicalEventKeyFor(event),
+    chain: collection.chain,
+    contract: (nft?.contract ?? collection.tokenAddress).toLowerCase(),
+    collection: getCollectionSlug(),
+    type: effectiveEventTypeFor(event),
+    tokenId: nft?.identifier || undefined,
+    quantity: event.quantity,
+    price: payment && {
+      quantity: payment.quantity,
+      decimals: payment.decimals,
+      symbol: payment.symbol,
+    },
+    maker: lower(event.maker),
+    buyer: lower(event.buyer),
+    seller: lower(event.seller),
+    from: lower(event.from_address),
+    to: lower(event.to_address),
+    transaction: event.transaction || undefined,
+    timestamp: event.event_timestamp,
+  };
+};
+
+const rowFor = (event: HistoryEvent) => ({
+  key: event.key,
+  chain: event.chain,
+  contract: event.contract,
+  collection: event.collection ?? null,
+  type: event.type,
+  tokenId: event.tokenId ?? null,
+  quantity: event.quantity,
+  priceQuantity: event.price?.quantity ?? null,
+  priceDecimals: event.price?.decimals ?? null,
+  priceSymbol: event.price?.symbol ?? null,
+  // Lets --top compare prices; the exact amount stays in price_quantity
+  priceValue: event.price
+    ? Number(formatUnits(event.price.quantity, event.price.decimals))
+    : null,
+  maker: event.maker ?? null,
+  buyer: event.buyer ?? null,
+  seller: event.seller ?? null,
+  from: event.from ?? null,
+  to: event.to ?? null,
+  transaction: event.transaction ?? null,
+  timestamp: event.timestamp,
+});
+
+const eventFor = (row: HistoryRow): HistoryEvent => ({
+  key: row.key,
+  chain: row.chain,
+  contract: row.contract,
+  collection: row.collection ?? undefined,
+  type: row.type,
+  tokenId: row.token_id ?? undefined,
+  quantity: row.quantity,
+  price:
+    row.price_quantity === null
+      ? undefined
+      : {
+          quantity: row.price_quantity,
+          decimals: row.price_decimals ?? 0,
+          symbol: row.price_symbol ?? "",
+        },
+  maker: row.maker ?? undefined,
+  buyer: row.buyer ?? undefined,
+  seller: row.seller ?? undefined,
+  from: row.from_address ?? undefined,
+  to: row.to_address ?? undefined,
+  transaction: row.tx_hash ?? undefined,
+  timestamp: row.timestamp,
+});
+
+const whereFor = (query: HistoryQuery) => {
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+  if (query.types && query.types.length > 0) {
+    conditions.push(`type IN (${query.types.map(() => "?").join(", ")})`);
+    params.push(...query.types);
+  }
+  if (query.tokenId !== undefined) {
+    conditions.push("token_id = ?");
+    params.push(query.tokenId);
+  }
+  if (query.account !== undefined) {
+    conditions.push("? IN (maker, buyer, seller, from_address, to_address)");
+    params.push(query.account.toLowerCase());
+  }
+  if (query.collection !== undefined) {
+    conditions.push("(collection = ? OR contract = ?)");
+    params.push(query.collection, query.collection.toLowerCase());
+  }
+  if (query.chain !== undefined) {
+    conditions.push("chain = ?");
+    params.push(query.chain);
+  }
+  if (query.since !== undefined) {
+    conditions.push("timestamp >= ?");
+    params.push(query.since);
+  }
+  if (query.until !== undefined) {
+    conditions.push("timestamp < ?");
+    params.push(query.until);
+  }
+  return {
+    where: conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "",
+    params,
+  };
+};
+
+/**
+ * Every processed event of every collection, kept in a SQLite database in
+ * the state directory. Recording an event twice keeps the first copy.
+ */
+export class EventHistory {
+  readonly dbPath: string;
+
+  constructor(dbPath: string) {
+    this.dbPath = dbPath;
+  }
+
+  /**
+   * Stores events, returning how many were not already in the history.
+   */
+  async record(events: HistoryEvent[]): Promise<number> {
+    if (events.length === 0) {
+      return 0;
+    }
+    const db = await openHistoryDatabase(this.dbPath);
+    const insert = db.prepare(`
+      INSERT OR IGNORE INTO events (
+        key, chain, contract, collection, type, token_id, quantity,
+        price_quantity, price_decimals, price_symbol, price_value,
+        maker, buyer, seller, from_address, to_address, tx_hash, timestamp
+      ) VALUES (
+        @key, @chain, @contract, @collection, @type, @tokenId, @quantity,
+        @priceQuantity, @priceDecimals, @priceSymbol, @priceValue,
+        @maker, @buyer, @seller, @from, @to, @transaction, @timestamp
+      )
+    `);
+    return db.transaction(() =>
+      events.reduce(
+        (added, event) => added + insert.run(rowFor(event)).changes,
+        0
+      )
+    )();
+  }
+
+  async query(query: HistoryQuery): Promise<HistoryEvent[]> {
+    const db = await openHistoryDatabase(this.dbPath);
+    const { where, params } = whereFor(query);
+    const order =
+      query.sort === "price"
+        ? "price_value IS NULL, price_value DESC, timestamp DESC"
+        : "timestamp DESC";
+    const rows = db
+      .prepare(`SELECT * FROM events ${where} ORDER BY ${order} LIMIT ?`)
+      .all(...params, query.limit) as HistoryRow[];
+    return rows.map(eventFor);
+  }
+
+  /**
+   * The wallets with the most items or volume in a role since a time,
+   * highest first.
+   */
+  async leaderboard(query: LeaderboardQuery): Promise<LeaderboardEntry[]> {
+    const db = await openHistoryDatabase(this.dbPath);
+    const { type, column } = LEADERBOARD_ROLES[query.role];
+    const { where, params } = whereFor({
+      types: [type],
+      collection: query.collection,
+      chain: query.chain,
+      since: query.since,
+      sort: "time",
+      limit: query.limit,
+    });
+    const order =
+      query.rankBy === "volume"
+        ? "volume DESC, count DESC"
+        : "count DESC, volume DESC";
+    return db
+      .prepare(`
+        SELECT ${column} AS address, SUM(quantity) AS count,
+          TOTAL(CASE WHEN price_symbol IN ('ETH', 'WETH') THEN price_value END)
+            AS volume
+        FROM events ${where} AND ${column} IS NOT NULL
+        GROUP BY ${column} ORDER BY ${order}, address LIMIT ?
+      `)
+      .all(...params, query.limit) as LeaderboardEntry[];
+  }
+}
+
+let defaultHistory: EventHistory | undefined;
+
+export const getEventHistory = (): EventHistory => {
+  const dbPath = join(process.cwd(), getConfig().state.dir, HISTORY_FILE);
+  if (defaultHistory?.dbPath !== dbPath) {
+    defaultHistory = new EventHistory(dbPath);
+  }
+  return defaultHistory;
+};
+
+/**
+ * Appends events of the active collection to the history, unless it is
+ * turned off with EVENT_HISTORY=false.
+ */
+export const recordEventHistory = async (
+  events: OpenSeaAssetEvent[]
+): Promise<void> => {
+  if (
+    events.length === 0 ||
+    !getConfig().state.history ||
+    process.env.NODE_ENV === "test"
+  ) {
+    return;
+  }
+  await getEventHistory().record(events.map(historyEventFor));
+};
@@ -1,43 +1,23 @@
-import { promises as fs } from "node:fs";
-import { dirname, join } from "node:path";
+import { join } from "node:path";
+import { type CollectionConfig, DEFAULT_CHAIN, getConfig } from "../config";
+import { collectionKeyFor, currentCollection } from "./collection-store";
 import { SECONDS_PER_MINUTE } from "./constants";
 import { logger } from "./logger";
+import { SqliteStateBackend } from "./sqlite-state";
+import {
+  type EventCursor,
+  JsonStateBackend,
+  parseTimestampFromKey,
+  type StateBackend,
+  type StoredState,
+} from "./state-backend";
 
-const DEFAULT_DEDUPE_WINDOW_MINUTES = 60;
+export type { EventCursor } from "./state-backend";
 
-export type EventCursor = {
-  source: string;
-  next: string | null;
-  lastTimestamp: number | null;
-  lastId: string | null;
-};
-
-export type Watermark = {
-  maxProcessedTimestamp: number;
-  windowSeconds: number;
-  keys: string[];
-};
-
-type PersistedState = {
-  cursor: EventCursor | null;
-  watermark: Watermark;
-};
+export const SQLITE_STATE_FILE = "state.sqlite";
 
-const parseTimestampFromKey = (key: string): number | undefined => {
-  const parts = key.split("|");
-  const last = parts.at(-1);
-  if (!last) {
-    return;
-  }
-  const value = Number.parseInt(last, 10);
-  if (Number.isNaN(value)) {
-    return;
-  }
-  return value;
-};
-
-class EventStateStore {
-  private readonly filePath: string;
+export class EventStateStore {
+  private readonly backend: StateBackend;
   private readonly enablePersistence: boolean;
   private readonly windowSeconds: number;
 
@@ -45,16 +25,19 @@ class EventStateStore {
   private dirty = false;
 
   private cursor: EventCursor | null = null;
+  private lastBlock: number | null = null;
   private maxProcessedTimestamp = 0;
   private readonly keyTimestamps = new Map<string, number>();
   private readonly seenKeys = new Set<string>();
+  // Keys marked since the last flush, for backends that write incrementally
+  private readonly addedKeys = new Set<string>();
 
   constructor(options: {
-    filePath: string;
+    backend: StateBackend;
     windowSeconds: number;
     enablePersistence: boolean;
   }) {
-    this.filePath = options.filePath;
+    this.backend = options.backend;
     this.windowSeconds = options.windowSeconds;
     this.enablePersistence = options.enablePersistence;
   }
@@ -69,69 +52,44 @@ class EventStateStore {
       return;
     }
 
-    await this.loadFromDisk();
-  }
-
-  private async loadFromDisk(): Promise<void> {
     try {
-      const content = await this.readStateFile();
-      if (!content) {
-        return;
+      const state = await this.backend.load();
+      if (state) {
+        this.applyStoredState(state);
       }
-      const parsed = JSON.parse(content) as Partial<PersistedState>;
-      this.applyParsedState(parsed);
     } catch (error) {
-      const maybeErr = error as { code?: string };
-      if (maybeErr.code === "ENOENT") {
-        // Fresh start – no persisted state yet.
-        return;
-      }
       logger.error("[EventState] Failed to load state:", error);
     }
   }
 
-  private async readStateFile(): Promise<string | undefined> {
-    const dir = dirname(this.filePath);
-    await fs.mkdir(dir, { recursive: true });
-    const content = await fs.readFile(this.filePath, "utf8");
-    return content;
-  }
-
-  private applyParsedState(parsed: Partial<PersistedState>): void {
-    if (parsed.cursor) {
-      this.applyCursorState(parsed.cursor);
-    }
-    if (parsed.watermark) {
-      this.applyWatermarkState(parsed.watermark);
-    }
-  }
-
-  private applyCursorState(cursor: EventCursor): void {
-    this.cursor = {
-      source: cursor.source ?? "opensea-v2",
-      next: cursor.next ?? null,
-      lastTimestamp:
-        cursor.lastTimestamp === null
-          ? null
-          : Number(cursor.lastTimestamp ?? 0),
-      lastId: cursor.lastId ?? null,
-    };
-  }
-
-  private applyWatermarkState(watermark: Watermark): void {
-    if (!Array.isArray(watermark.keys)) {
-      return;
-    }
-    this.maxProcessedTimestamp = Number(watermark.maxProcessedTimestamp ?? 0);
-    for (const key of watermark.keys) {
+  /**
+   * Forgets everything loaded and reads the persisted state again, for
+   * state another instance wrote since it was loaded.
+   */
+  async reload(): Promise<void> {
+    this.loaded = false;
+    this.dirty = false;
+    this.cursor = null;
+    this.lastBlock = null;
+    this.maxProcessedTimestamp = 0;
+    this.keyTimestamps.clear();
+    this.seenKeys.clear();
+    this.addedKeys.clear();
+    await this.load();
+  }
+
+  private applyStoredState(state: StoredState): void {
+    this.cursor = state.cursor;
+    this.lastBlock = state.lastBlock;
+    this.maxProcessedTimestamp = state.maxProcessedTimestamp;
+    for (const key of state.keys) {
+      // Still track the key for dedupe even if we cannot parse a timestamp
+      this.seenKeys.add(key);
       const ts = parseTimestampFromKey(key);
       if (ts === undefined) {
-        // Still track the key for dedupe even if we cannot parse a timestamp
-        this.seenKeys.add(key);
         continue;
       }
       this.keyTimestamps.set(key, ts);
-      this.seenKeys.add(key);
       if (ts > this.maxProcessedTimestamp) {
         this.maxProcessedTimestamp = ts;
       }
@@ -148,6 +106,15 @@ class EventStateStore {
     this.dirty = true;
   }
 
+  getLastBlock(): number | null {
+    return this.lastBlock;
+  }
+
+  setLastBlock(block: number): void {
+    this.lastBlock = block;
+    this.dirty = true;
+  }
+
   hasKey(key: string): boolean {
     return this.seenKeys.has(key);
   }
@@ -167,6 +134,7 @@ class EventStateStore {
         continue;
       }
       this.keyTimestamps.set(key, ts);
+      this.addedKeys.add(key);
       if (ts > this.maxProcessedTimestamp) {
         this.maxProcessedTimestamp = ts;
       }
@@ -176,15 +144,22 @@ class EventStateStore {
     this.dirty = true;
   }
 
+  private pruneCutoff(): number {
+    return this.maxProcessedTimestamp === 0
+      ? 0
+      : this.maxProcessedTimestamp - this.windowSeconds;
+  }
+
   private pruneKeys(): void {
-    if (this.maxProcessedTimestamp === 0) {
+    const cutoff = this.pruneCutoff();
+    if (cutoff === 0) {
       return;
     }
-    const cutoff = this.maxProcessedTimestamp - this.windowSeconds;
     for (const [key, ts] of this.keyTimestamps.entries()) {
       if (ts < cutoff) {
         this.keyTimestamps.delete(key);
         this.seenKeys.delete(key);
+        this.addedKeys.delete(key);
       }
     }
   }
@@ -194,21 +169,23 @@ class EventStateStore {
       return;
     }
 
-    const watermark: Watermark = {
+    const state: StoredState = {
+      cursor: this.cursor,
+      lastBlock: this.lastBlock,
       maxProcessedTimestamp: this.maxProcessedTimestamp,
       windowSeconds: this.windowSeconds,
       keys: Array.from(this.keyTimestamps.keys()),
     };
-
-    const state: PersistedState = {
-      cursor: this.cursor,
-      watermark,
-    };
+    const addedKeys = Array.from(this.addedKeys);
 
     try {
-      const dir = dirname(this.filePath);
-      await fs.mkdir(dir, { recursive: true });
-      await fs.writeFile(this.filePath, JSON.stringify(state), "utf8");
+      await this.backend.save(state, {
+        addedKeys,
+        pruneBefore: this.pruneCutoff(),
+      });
+      for (const key of addedKeys) {
+        this.addedKeys.delete(key);
+      }
       this.dirty = false;
     } catch (error) {
       logger.error("[EventState] Failed to persist state:", error);
@@ -216,42 +193,55 @@ class EventStateStore {
   }
 }
 
-// Cache stores per contract address to support multiple instances
+// Cache stores per collection (chain and contract) to support multiple instances
 const storeCache = new Map<string, EventStateStore>();
 
+/**
+ * Names a collection's state file and SQLite row. Collections on the
+ * default chain keep the contract-only name so existing state is reused.
+ */
+const stateIdFor = (collection: CollectionConfig): string => {
+  // Lowercase to normalize checksummed addresses
+  const contract = collection.tokenAddress.toLowerCase() || "default";
+  return collection.chain === DEFAULT_CHAIN
+    ? contract
+    : `${collection.chain}-${contract}`;
+};
+
 export const getDefaultEventStateStore = (): EventStateStore => {
-  // Read directly from env to ensure each process uses its own TOKEN_ADDRESS
-  // Lowercase to normalize address (handles checksummed vs lowercase addresses)
-  const contractId = process.env.TOKEN_ADDRESS?.toLowerCase() || "default";
+  // Resolve against the active collection so each monitored collection
+  // keeps its own state, even when a contract is configured on two chains
+  const collection = currentCollection();
+  const collectionKey = collectionKeyFor(collection);
 
-  // Return cached store if it exists for this contract
-  const cached = storeCache.get(contractId);
+  const cached = storeCache.get(collectionKey);
   if (cached) {
     return cached;
   }
 
-  const minutes = Number(
-    process.env.EVENT_DEDUPE_WINDOW_MINUTES ?? DEFAULT_DEDUPE_WINDOW_MINUTES
-  );
-  const windowSeconds =
-    Number.isNaN(minutes) || minutes <= 0
-      ? DEFAULT_DEDUPE_WINDOW_MINUTES * SECONDS_PER_MINUTE
-      : minutes * SECONDS_PER_MINUTE;
+  const { state } = getConfig();
+  const windowSeconds = state.dedupeWindowMinutes * SECONDS_PER_MINUTE;
 
   const rootDir = process.cwd();
-  const stateDir = process.env.EVENT_STATE_DIR ?? ".state";
-  // Include contract address in filename to segregate state per contract
-  // Lowercase normalized to handle checksummed vs lowercase addresses consistently
-  const fileName = `opensea-events-state-${contractId}.json`;
-  const filePath = join(rootDir, stateDir, fileName);
+  const stateId = stateIdFor(collection);
+  const fileName = `opensea-events-state-${stateId}.json`;
+  const filePath = join(rootDir, state.dir, fileName);
+  const backend: StateBackend =
+    state.backend === "sqlite"
+      ? new SqliteStateBackend({
+          dbPath: join(rootDir, state.dir, SQLITE_STATE_FILE),
+          contract: stateId,
+          legacyFile: filePath,
+        })
+      : new JsonStateBackend(filePath);
 
   const enablePersistence = process.env.NODE_ENV !== "test";
 
   const store = new EventStateStore({
-    filePath,
+    backend,
     windowSeconds,
     enablePersistence,
   });
-  storeCache.set(contractId, store);
+  storeCache.set(collectionKey, store);
   return store;
 };
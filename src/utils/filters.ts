@@ -0,0 +1,168 @@
+import { formatUnits } from "ethers";
+import {
+  type CollectionConfig,
+  type FilterRules,
+  getConfig,
+  type TraitRule,
+} from "../config";
+import type { OpenSeaAssetEvent } from "../types";
+import { percentOfFloor } from "./collection-stats";
+import { ETH_SYMBOLS } from "./constants";
+
+/**
+ * Price of an event in ETH, or undefined when it has no payment or was paid
+ * in another currency.
+ */
+export const priceETHFor = (event: OpenSeaAssetEvent): number | undefined => {
+  const payment = event.payment;
+  if (!(payment && ETH_SYMBOLS.has(payment.symbol?.toUpperCase()))) {
+    return;
+  }
+  return Number(formatUnits(payment.quantity, payment.decimals));
+};
+
+/**
+ * Price of an event as a percentage of the collection floor, or undefined
+ * when either is unknown.
+ */
+export const floorPercentFor = (
+  event: OpenSeaAssetEvent
+): number | undefined => {
+  const price = priceETHFor(event);
+  return price === undefined ? undefined : percentOfFloor(price);
+};
+
+const tokenIdFor = (event: OpenSeaAssetEvent): bigint | undefined => {
+  const identifier = (event.nft ?? event.asset)?.identifier;
+  if (identifier === undefined) {
+    return;
+  }
+  try {
+    return BigInt(identifier);
+  } catch {
+    return;
+  }
+};
+
+// Traits of the event's NFT, or the traits targeted by a trait offer
+const traitsFor = (event: OpenSeaAssetEvent): TraitRule[] => {
+  const nft = event.nft ?? event.asset;
+  if (nft?.traits) {
+    return nft.traits.map((t) => ({
+      type: t.trait_type,
+      value: String(t.value),
+    }));
+  }
+  const criteria = event.criteria;
+  return [
+    ...(criteria?.trait ? [criteria.trait] : []),
+    ...(criteria?.traits ?? []),
+  ];
+};
+
+const sameText = (a: string, b: string): boolean =>
+  a.toLowerCase() === b.toLowerCase();
+
+const matchesPrice = (
+  event: OpenSeaAssetEvent,
+  { minPriceETH, maxPriceETH }: FilterRules
+): boolean => {
+  if (minPriceETH === undefined && maxPriceETH === undefined) {
+    return true;
+  }
+  const price = priceETHFor(event);
+  if (price === undefined) {
+    return false;
+  }
+  return (
+    (minPriceETH === undefined || price >= minPriceETH) &&
+    (maxPriceETH === undefined || price <= maxPriceETH)
+  );
+};
+
+const matchesFloor = (
+  event: OpenSeaAssetEvent,
+  { minFloorPercent, maxFloorPercent }: FilterRules
+): boolean => {
+  if (minFloorPercent === undefined && maxFloorPercent === undefined) {
+    return true;
+  }
+  const percent = floorPercentFor(event);
+  if (percent === undefined) {
+    return false;
+  }
+  return (
+    (minFloorPercent === undefined || percent >= minFloorPercent) &&
+    (maxFloorPercent === undefined || percent <= maxFloorPercent)
+  );
+};
+
+const matchesTokenIds = (
+  event: OpenSeaAssetEvent,
+  { tokenIds }: FilterRules
+): boolean => {
+  if (!tokenIds?.length) {
+    return true;
+  }
+  const id = tokenIdFor(event);
+  return (
+    id !== undefined &&
+    tokenIds.some((range) => id >= range.min && id <= range.max)
+  );
+};
+
+const matchesTraits = (
+  event: OpenSeaAssetEvent,
+  { traits }: FilterRules
+): boolean => {
+  if (!traits?.length) {
+    return true;
+  }
+  const eventTraits = traitsFor(event);
+  return traits.some((rule) =>
+    eventTraits.some(
+      (trait) =>
+        sameText(trait.type, rule.type) && sameText(trait.value, rule.value)
+    )
+  );
+};
+
+/**
+ * Checks an event against a target's filter rules. Targets without rules
+ * accept every event.
+ */
+export const matchesFilters = (
+  event: OpenSeaAssetEvent,
+  filters: FilterRules | undefined
+): boolean =>
+  !filters ||
+  (matchesPrice(event, filters) &&
+    matchesFloor(event, filters) &&
+    matchesTokenIds(event, filters) &&
+    matchesTraits(event, filters));
+
+/**
+ * Whether any target of the collection filters on traits, which requires
+ * fetching NFT metadata (event payloads do not include traits).
+ */
+const filtersOf = (collection: CollectionConfig) => [
+  collection.twitterFilters,
+  ...collection.discordChannels.map((c) => c.filters),
+  ...collection.telegramChats.map((c) => c.filters),
+  ...collection.webhooks.map((w) => w.filters),
+];
+
+export const collectionNeedsTraits = (collection: CollectionConfig): boolean =>
+  filtersOf(collection).some((filters) => Boolean(filters?.traits?.length));
+
+/**
+ * Whether the collection's floor price is needed, either to show it on
+ * posts or to apply floor filter rules.
+ */
+export const collectionNeedsFloor = (collection: CollectionConfig): boolean =>
+  getConfig().floor.events.length > 0 ||
+  filtersOf(collection).some(
+    (filters) =>
+      filters?.minFloorPercent !== undefined ||
+      filters?.maxFloorPercent !== undefined
+  );
@@ -0,0 +1,43 @@
+import { getConfig } from "../config";
+import type { OpenSeaAssetEvent } from "../types";
+import { floorPriceETH } from "./collection-stats";
+import { effectiveEventTypeFor } from "./event-types";
+import { floorPercentFor } from "./filters";
+
+const PERCENT = 100;
+
+/**
+ * Whether posts for this event should show its price relative to the floor.
+ */
+export const showsFloorFor = (event: OpenSeaAssetEvent): boolean =>
+  (getConfig().floor.events as string[]).includes(effectiveEventTypeFor(event));
+
+/**
+ * "12% below floor", "8% above floor" or "at floor" for a price given as a
+ * percentage of the floor.
+ */
+export const formatFloorDelta = (percent: number): string => {
+  const delta = Math.round(percent - PERCENT);
+  if (delta === 0) {
+    return "at floor";
+  }
+  return `${Math.abs(delta)}% ${delta < 0 ? "below" : "above"} floor`;
+};
+
+/**
+ * Floor context for an event's post, or undefined when it is not shown for
+ * the event type or the floor or price is unknown.
+ */
+export const floorContextFor = (
+  event: OpenSeaAssetEvent
+): { floorETH: number; text: string } | undefined => {
+  if (!showsFloorFor(event)) {
+    return;
+  }
+  const floorETH = floorPriceETH();
+  const percent = floorPercentFor(event);
+  if (floorETH === undefined || percent === undefined) {
+    return;
+  }
+  return { floorETH, text: formatFloorDelta(percent) };
+};
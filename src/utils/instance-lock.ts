@@ -0,0 +1,294 @@
+import { randomUUID } from "node:crypto";
+import { promises as fs } from "node:fs";
+import { hostname } from "node:os";
+import { dirname, join } from "node:path";
+import type { CollectionConfig, LockConfig } from "../config";
+import { collectionKeyFor } from "./collection-store";
+import { MS_PER_SECOND } from "./constants";
+import { prefixedLogger } from "./logger";
+import { timeout } from "./utils";
+
+const log = prefixedLogger("Lock");
+
+// Hoisted regex for performance
+const UNSAFE_FILE_CHARS = /[^a-z0-9]+/g;
+
+export type LockHolder = {
+  id: string;
+  pid: number;
+  hostname: string;
+  collection: string;
+  startedAt: number;
+  heartbeatAt: number;
+};
+
+export type AcquireResult =
+  | { acquired: true }
+  | { acquired: false; holder: LockHolder };
+
+const isErrorCode = (error: unknown, code: string): boolean =>
+  (error as NodeJS.ErrnoException)?.code === code;
+
+const readHolder = async (
+  filePath: string
+): Promise<LockHolder | undefined> => {
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, "utf8");
+  } catch (error) {
+    if (isErrorCode(error, "ENOENT")) {
+      return;
+    }
+    throw error;
+  }
+  try {
+    return JSON.parse(content) as LockHolder;
+  } catch {
+    // Being written, or left corrupt: it goes stale with the file's age
+    const { mtimeMs } = await fs.stat(filePath);
+    return {
+      id: content,
+      pid: 0,
+      hostname: "",
+      collection: "",
+      startedAt: mtimeMs,
+      heartbeatAt: mtimeMs,
+    };
+  }
+};
+
+// Only processes on this host can be checked directly
+const isProcessAlive = (pid: number): boolean => {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return !isErrorCode(error, "ESRCH");
+  }
+};
+
+/**
+ * A lockfile in the state directory held by the one process allowed to
+ * post for a collection. The holder rewrites its heartbeat every
+ * `heartbeatMs`; a lock whose heartbeat is older than `staleMs`, or whose
+ * process is gone from this host, can be taken over.
+ */
+export class InstanceLock {
+  readonly filePath: string;
+  private readonly heartbeatMs: number;
+  private readonly staleMs: number;
+  // Everything written to the lockfile but the heartbeat
+  private readonly owner: Omit<LockHolder, "heartbeatAt">;
+  private held = false;
+  private heartbeat: NodeJS.Timeout | undefined;
+
+  constructor(options: {
+    filePath: string;
+    collection: string;
+    heartbeatMs: number;
+    staleMs: number;
+  }) {
+    this.filePath = options.filePath;
+    this.heartbeatMs = options.heartbeatMs;
+    this.staleMs = options.staleMs;
+    this.owner = {
+      id: randomUUID(),
+      pid: process.pid,
+      hostname: hostname(),
+      collection: options.collection,
+      startedAt: Date.now(),
+    };
+  }
+
+  private contents(): string {
+    const holder: LockHolder = { ...this.owner, heartbeatAt: Date.now() };
+    return JSON.stringify(holder);
+  }
+
+  private isStale(holder: LockHolder): boolean {
+    if (Date.now() - holder.heartbeatAt > this.staleMs) {
+      return true;
+    }
+    if (holder.hostname !== hostname()) {
+      return false;
+    }
+    // Our own pid can only be a leftover from an earlier run (e.g. PID 1
+    // in a restarted container)
+    return holder.pid === process.pid || !isProcessAlive(holder.pid);
+  }
+
+  private async create(): Promise<boolean> {
+    await fs.mkdir(dirname(this.filePath), { recursive: true });
+    try {
+      await fs.writeFile(this.filePath, this.contents(), {
+        encoding: "utf8",
+        flag: "wx",
+      });
+      return true;
+    } catch (error) {
+      if (isErrorCode(error, "EEXIST")) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  // Moves the stale lock aside, then checks it is still the one found
+  // stale: another standby may have replaced it in the meantime
+  private async takeOver(stale: LockHolder): Promise<boolean> {
+    const aside = `${this.filePath}.${this.owner.id}`;
+    try {
+      await fs.rename(this.filePath, aside);
+    } catch (error) {
+      if (isErrorCode(error, "ENOENT")) {
+        return this.create();
+      }
+      throw error;
+    }
+    const moved = await readHolder(aside);
+    if (moved?.id !== stale.id || moved.heartbeatAt !== stale.heartbeatAt) {
+      await fs.rename(aside, this.filePath);
+      return false;
+    }
+    await fs.rm(aside, { force: true });
+    return this.create();
+  }
+
+  /**
+   * Takes the lock if it is free or stale. Otherwise returns its holder.
+   */
+  async tryAcquire(): Promise<AcquireResult> {
+    if (this.held || (await this.create())) {
+      this.held = true;
+      return { acquired: true };
+    }
+    const holder = await readHolder(this.filePath);
+    if (!holder || this.isStale(holder)) {
+      if (holder?.pid) {
+        log.warn(
+          `Taking over stale lock of pid ${holder.pid} on ${holder.hostname}`
+        );
+      }
+      if (holder ? await this.takeOver(holder) : await this.create()) {
+        this.held = true;
+        return { acquired: true };
+      }
+    }
+    const current = await readHolder(this.filePath);
+    return current ? { acquired: false, holder: current } : this.tryAcquire();
+  }
+
+  /**
+   * Rewrites the heartbeat every `heartbeatMs`. `onLost` is called if the
+   * lock was taken over (e.g. after this process stalled for `staleMs`).
+   */
+  startHeartbeat(onLost: () => void): void {
+    this.heartbeat = setInterval(() => {
+      this.beat().then(
+        (kept) => {
+          if (!kept) {
+            this.stopHeartbeat();
+            this.held = false;
+            onLost();
+          }
+        },
+        (error: unknown) => {
+          log.error("Failed to write lock heartbeat:", error);
+        }
+      );
+    }, this.heartbeatMs);
+    this.heartbeat.unref();
+  }
+
+  private stopHeartbeat(): void {
+    clearInterval(this.heartbeat);
+    this.heartbeat = undefined;
+  }
+
+  private async beat(): Promise<boolean> {
+    const holder = await readHolder(this.filePath);
+    if (holder?.id !== this.owner.id) {
+      return false;
+    }
+    const tmpPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tmpPath, this.contents(), "utf8");
+    await fs.rename(tmpPath, this.filePath);
+    return true;
+  }
+
+  async release(): Promise<void> {
+    this.stopHeartbeat();
+    if (!this.held) {
+      return;
+    }
+    this.held = false;
+    const holder = await readHolder(this.filePath);
+    if (holder?.id === this.owner.id) {
+      await fs.rm(this.filePath, { force: true });
+    }
+  }
+}
+
+const lockFileFor = (stateDir: string, collection: CollectionConfig): string =>
+  join(
+    process.cwd(),
+    stateDir,
+    `instance-${collectionKeyFor(collection).replace(UNSAFE_FILE_CHARS, "-")}.lock`
+  );
+
+const describeHolder = (holder: LockHolder): string =>
+  `pid ${holder.pid} on ${holder.hostname}, last heartbeat ${Math.round((Date.now() - holder.heartbeatAt) / MS_PER_SECOND)}s ago`;
+
+/**
+ * Takes the instance lock of every collection, all or nothing. Returns the
+ * held locks, or undefined when another instance holds one and
+ * `lock.mode` is "exit". In "standby" mode waits, retrying every
+ * heartbeat, until the primary's locks are released or go stale;
+ * `onStandby` is called once when the wait begins.
+ */
+export const acquireInstanceLocks = async (
+  collections: CollectionConfig[],
+  stateDir: string,
+  lock: LockConfig,
+  onStandby?: () => void
+): Promise<InstanceLock[] | undefined> => {
+  const heartbeatMs = lock.heartbeatSeconds * MS_PER_SECOND;
+  const locks = collections.map(
+    (collection) =>
+      new InstanceLock({
+        filePath: lockFileFor(stateDir, collection),
+        collection: collectionKeyFor(collection),
+        heartbeatMs,
+        staleMs: lock.staleSeconds * MS_PER_SECOND,
+      })
+  );
+  let waiting = false;
+  for (;;) {
+    let blocked: { lock: InstanceLock; holder: LockHolder } | undefined;
+    for (const instanceLock of locks) {
+      const result = await instanceLock.tryAcquire();
+      if (!result.acquired) {
+        blocked = { lock: instanceLock, holder: result.holder };
+        break;
+      }
+    }
+    if (!blocked) {
+      if (waiting) {
+        log.info("Took over as the primary instance");
+      }
+      return locks;
+    }
+    await Promise.all(locks.map((instanceLock) => instanceLock.release()));
+    const held = `${blocked.lock.filePath} is held by ${describeHolder(blocked.holder)}`;
+    if (lock.mode === "exit") {
+      log.error(`Another instance is running: ${held}`);
+      return;
+    }
+    if (!waiting) {
+      log.info(`Standing by: ${held}`);
+      waiting = true;
+      onStandby?.();
+    }
+    await timeout(heartbeatMs);
+  }
+};
@@ -0,0 +1,104 @@
+import { fetchPreviousSale } from "../opensea";
+import type { OpenSeaAssetEvent, OpenSeaPayment } from "../types";
+import { prefixedLogger } from "./logger";
+import { formatAmount, formatTimeAgo } from "./utils";
+
+const log = prefixedLogger("LastSale");
+
+export type LastSale = {
+  payment: OpenSeaPayment;
+  timestamp: number;
+  // Set when both sales were paid in the same currency
+  change?: { quantity: bigint; percent: number };
+};
+
+const BASIS_POINTS = 10_000n;
+const BASIS_POINTS_PER_PERCENT = 100;
+
+// WETH and ETH sales are compared directly
+const currencyOf = (payment: OpenSeaPayment): string =>
+  payment.symbol === "WETH" ? "ETH" : payment.symbol;
+
+const changeBetween = (
+  previous: OpenSeaPayment,
+  current: OpenSeaPayment
+): LastSale["change"] => {
+  if (
+    currencyOf(previous) !== currencyOf(current) ||
+    previous.decimals !== current.decimals
+  ) {
+    return;
+  }
+  const before = BigInt(previous.quantity);
+  if (before === 0n) {
+    return;
+  }
+  const quantity = BigInt(current.quantity) - before;
+  const percent =
+    Number((quantity * BASIS_POINTS) / before) / BASIS_POINTS_PER_PERCENT;
+  return { quantity, percent };
+};
+
+/**
+ * The token's previous sale and the change in price since, for a sale
+ * event. Returns undefined for first sales or when the lookup fails.
+ */
+export const lastSaleFor = async (
+  event: OpenSeaAssetEvent
+): Promise<LastSale | undefined> => {
+  if (event.event_type !== "sale") {
+    return;
+  }
+  try {
+    const previous = await fetchPreviousSale(event);
+    if (!previous?.payment) {
+      return;
+    }
+    return {
+      payment: previous.payment,
+      timestamp: previous.event_timestamp,
+      change: event.payment
+        ? changeBetween(previous.payment, event.payment)
+        : undefined,
+    };
+  } catch (error) {
+    log.debug("Failed to load previous sale:", error);
+    return;
+  }
+};
+
+const signOf = (value: number | bigint): string => (value < 0 ? "-" : "+");
+
+/**
+ * "+38%" or "-12.5%"
+ */
+export const formatChangePercent = (percent: number): string =>
+  `${signOf(percent)}${Number(Math.abs(percent).toFixed(1))}%`;
+
+/**
+ * "+0.8 ETH (+38%)", or undefined when the sales are not comparable.
+ */
+export const formatProfit = (sale: LastSale): string | undefined => {
+  if (!sale.change) {
+    return;
+  }
+  const { quantity, percent } = sale.change;
+  const magnitude = quantity < 0n ? -quantity : quantity;
+  const amount = formatAmount(
+    magnitude,
+    sale.payment.decimals,
+    sale.payment.symbol
+  );
+  return `${signOf(quantity)}${amount} (${formatChangePercent(percent)})`;
+};
+
+/**
+ * "Last sold for 2.1 ETH 14 days ago (+38%)"
+ */
+export const formatLastSale = (sale: LastSale): string => {
+  const { quantity, decimals, symbol } = sale.payment;
+  const text = `Last sold for ${formatAmount(quantity, decimals, symbol)} ${formatTimeAgo(sale.timestamp)}`;
+  return sale.change
+    ? `${text} (${formatChangePercent(sale.change.percent)})`
+    : text;
+};
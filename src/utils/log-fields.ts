@@ -0,0 +1,29 @@
+export type LogFieldValue = string | number | boolean | null | undefined;
+
+/**
+ * Values logged as `key=value` text, or as keys of the entry with
+ * LOG_FORMAT=json. Undefined values are left out.
+ */
+export class LogFields {
+  readonly values: Record<string, LogFieldValue>;
+
+  constructor(values: Record<string, LogFieldValue>) {
+    this.values = values;
+  }
+
+  defined(): [string, Exclude<LogFieldValue, undefined>][] {
+    return Object.entries(this.values).filter(
+      (entry): entry is [string, Exclude<LogFieldValue, undefined>] =>
+        entry[1] !== undefined
+    );
+  }
+
+  toString(): string {
+    return this.defined()
+      .map(([key, value]) => `${key}=${value}`)
+      .join(" ");
+  }
+}
+
+export const logFields = (values: Record<string, LogFieldValue>): LogFields =>
+  new LogFields(values);
@@ -2,10 +2,13 @@ import { appendFileSync, mkdirSync, statSync, writeFileSync } from "node:fs";
 import { dirname } from "node:path";
 import { inspect } from "node:util";
 import { collectionStore } from "./collection-store";
+import { LogFields } from "./log-fields";
 
-type Level = "debug" | "info" | "warn" | "error";
+export type Level = "debug" | "info" | "warn" | "error";
+export type LogFormat = "text" | "json";
 
-const { LOG_LEVEL, DEBUG_LOG_FILE, DEBUG_LOG_MAX_BYTES } = process.env;
+const { LOG_LEVEL, LOG_FORMAT, DEBUG_LOG_FILE, DEBUG_LOG_MAX_BYTES } =
+  process.env;
 
 const levelOrder: Record<Level, number> = {
   debug: 10,
@@ -14,7 +17,7 @@ const levelOrder: Record<Level, number> = {
   error: 40,
 };
 
-const selectedLevel: Level = ((): Level => {
+let selectedLevel: Level = ((): Level => {
   if (LOG_LEVEL === "debug") {
     return "debug";
   }
@@ -30,15 +33,33 @@ const selectedLevel: Level = ((): Level => {
   return "info";
 })();
 
+let selectedFormat: LogFormat = LOG_FORMAT === "json" ? "json" : "text";
+
 const shouldLog = (level: Level): boolean =>
   levelOrder[level] >= levelOrder[selectedLevel];
 
 export const isDebugEnabled = (): boolean => selectedLevel === "debug";
 
+// Overrides the LOG_LEVEL read at startup (e.g. from the config file)
+export const setLogLevel = (level: Level): void => {
+  selectedLevel = level;
+};
+
+// Overrides the LOG_FORMAT read at startup (e.g. from the config file)
+export const setLogFormat = (format: LogFormat): void => {
+  selectedFormat = format;
+};
+
+// Leading "[Tag]" of messages logged without prefixedLogger
+const LEADING_TAG = /^\[([^\]\s]+)\]\s*/;
+
 const serialize = (arg: unknown): string => {
   if (typeof arg === "string") {
     return arg;
   }
+  if (arg instanceof LogFields) {
+    return arg.toString();
+  }
   try {
     return JSON.stringify(arg);
   } catch {
@@ -46,10 +67,68 @@ const serialize = (arg: unknown): string => {
   }
 };
 
-const write = (level: Level, parts: unknown[]) => {
+const textLine = (
+  ts: string,
+  level: Level,
+  prefix: string | undefined,
+  parts: unknown[]
+): string => {
+  const tagged = prefix === undefined ? parts : [`[${prefix}]`, ...parts];
+  const msg = tagged.map(serialize).join(" ");
+  return `${ts} [${level.toUpperCase()}] [Activity] [${collectionStore.getIdentifier()}] ${msg}\n`;
+};
+
+// One JSON object per line: LogFields become keys, the first Error an
+// `error` object and everything else the message
+const jsonLine = (
+  ts: string,
+  level: Level,
+  prefix: string | undefined,
+  parts: unknown[]
+): string => {
+  const fields: Record<string, unknown> = {};
+  const texts: string[] = [];
+  let error: Error | undefined;
+  for (const part of parts) {
+    if (part instanceof LogFields) {
+      Object.assign(fields, Object.fromEntries(part.defined()));
+    } else if (part instanceof Error && !error) {
+      error = part;
+    } else {
+      texts.push(serialize(part));
+    }
+  }
+  if (error) {
+    fields.error = {
+      name: error.name,
+      message: error.message,
+      stack: error.stack,
+    };
+  }
+  let message = texts.join(" ");
+  let tag = prefix;
+  const match = tag === undefined ? LEADING_TAG.exec(message) : null;
+  if (match) {
+    tag = match[1];
+    message = message.slice(match[0].length);
+  }
+  const entry = {
+    ...fields,
+    timestamp: ts,
+    level,
+    collection: collectionStore.getIdentifier(),
+    prefix: tag ?? null,
+    message,
+  };
+  return `${JSON.stringify(entry)}\n`;
+};
+
+const write = (level: Level, parts: unknown[], prefix?: string) => {
   const ts = new Date().toISOString();
-  const msg = parts.map(serialize).join(" ");
-  const line = `${ts} [${level.toUpperCase()}] [Activity] [${collectionStore.getIdentifier()}] ${msg}\n`;
+  const line =
+    selectedFormat === "json"
+      ? jsonLine(ts, level, prefix, parts)
+      : textLine(ts, level, prefix, parts);
   writeDebugFile(line);
   if (!shouldLog(level)) {
     return;
@@ -124,12 +203,10 @@ export const logger = {
   error: (...parts: unknown[]) => write("error", parts),
 };
 
-export const prefixedLogger = (prefix: string) => {
-  const add = (parts: unknown[]) => [`[${prefix}]`, ...parts];
-  return {
-    debug: (...parts: unknown[]) => logger.debug(...add(parts)),
-    info: (...parts: unknown[]) => logger.info(...add(parts)),
-    warn: (...parts: unknown[]) => logger.warn(...add(parts)),
-    error: (...parts: unknown[]) => logger.error(...add(parts)),
-  } as const;
-};
+export const prefixedLogger = (prefix: string) =>
+  ({
+    debug: (...parts: unknown[]) => write("debug", parts, prefix),
+    info: (...parts: unknown[]) => write("info", parts, prefix),
+    warn: (...parts: unknown[]) => write("warn", parts, prefix),
+    error: (...parts: unknown[]) => write("error", parts, prefix),
+  }) as const;
@@ -0,0 +1,205 @@
+type Labels = Record<string, string>;
+
+type Series<T> = { labels: Labels; value: T };
+
+// Hoisted regex for performance
+const LABEL_SPECIAL = /["\\\n]/g;
+
+const LABEL_ESCAPES: Record<string, string> = {
+  '"': '\\"',
+  "\\": "\\\\",
+  "\n": "\\n",
+};
+
+const formatLabels = (labels: Labels): string => {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return "";
+  }
+  const pairs = entries.map(
+    ([name, value]) =>
+      `${name}="${value.replace(LABEL_SPECIAL, (char) => LABEL_ESCAPES[char] ?? char)}"`
+  );
+  return `{${pairs.join(",")}}`;
+};
+
+const registry: { render(): string[] }[] = [];
+
+// Series are keyed by their rendered labels, so label order must be stable
+// per metric (it always is: every call site passes an object literal)
+abstract class Metric<T> {
+  readonly name: string;
+  readonly help: string;
+  protected readonly series = new Map<string, Series<T>>();
+  protected abstract readonly type: "counter" | "gauge" | "histogram";
+
+  constructor(name: string, help: string) {
+    this.name = name;
+    this.help = help;
+    registry.push(this);
+  }
+
+  protected seriesFor(labels: Labels, initial: () => T): Series<T> {
+    const key = formatLabels(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, value: initial() };
+      this.series.set(key, series);
+    }
+    return series;
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} ${this.type}`,
+      ...this.renderSeries(),
+    ];
+  }
+
+  protected abstract renderSeries(): string[];
+}
+
+export class Counter extends Metric<number> {
+  protected readonly type = "counter";
+
+  inc(labels: Labels = {}, value = 1): void {
+    this.seriesFor(labels, () => 0).value += value;
+  }
+
+  protected renderSeries(): string[] {
+    return [...this.series.values()].map(
+      ({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`
+    );
+  }
+}
+
+export class Gauge extends Metric<number> {
+  protected readonly type = "gauge";
+
+  set(labels: Labels, value: number): void {
+    this.seriesFor(labels, () => 0).value = value;
+  }
+
+  protected renderSeries(): string[] {
+    return [...this.series.values()].map(
+      ({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`
+    );
+  }
+}
+
+type HistogramValue = { counts: number[]; sum: number; count: number };
+
+export class Histogram extends Metric<HistogramValue> {
+  protected readonly type = "histogram";
+  private readonly buckets: readonly number[];
+
+  // `buckets` are the upper bounds, in ascending order
+  constructor(name: string, help: string, buckets: readonly number[]) {
+    super(name, help);
+    this.buckets = buckets;
+  }
+
+  observe(labels: Labels, value: number): void {
+    const series = this.seriesFor(labels, () => ({
+      counts: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    }));
+    for (const [index, bound] of this.buckets.entries()) {
+      if (value <= bound) {
+        series.value.counts[index] += 1;
+      }
+    }
+    series.value.sum += value;
+    series.value.count += 1;
+  }
+
+  protected renderSeries(): string[] {
+    return [...this.series.values()].flatMap(({ labels, value }) => [
+      ...this.buckets.map(
+        (bound, index) =>
+          `${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${value.counts[index]}`
+      ),
+      `${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${value.count}`,
+      `${this.name}_sum${formatLabels(labels)} ${value.sum}`,
+      `${this.name}_count${formatLabels(labels)} ${value.count}`,
+    ]);
+  }
+}
+
+/**
+ * Renders every metric in the Prometheus text exposition format.
+ */
+export const renderMetrics = (): string =>
+  `${registry.flatMap((metric) => metric.render()).join("\n")}\n`;
+
+// OpenSea polling, labelled by collection (its slug once known)
+export const fetchesTotal = new Counter(
+  "opensea_bot_fetches_total",
+  "OpenSea event polls by outcome"
+);
+export const fetchedEventsTotal = new Counter(
+  "opensea_bot_fetched_events_total",
+  "Events returned by OpenSea"
+);
+export const processedEventsTotal = new Counter(
+  "opensea_bot_processed_events_total",
+  "Events passed on to the platforms"
+);
+export const filteredEventsTotal = new Counter(
+  "opensea_bot_filtered_events_total",
+  "Events dropped before posting, by reason"
+);
+export const fetchedPagesTotal = new Counter(
+  "opensea_bot_fetched_pages_total",
+  "Pages of events fetched from OpenSea"
+);
+export const fetchDurationSeconds = new Histogram(
+  "opensea_bot_fetch_duration_seconds",
+  "Time taken by one OpenSea events poll",
+  [0.25, 0.5, 1, 2.5, 5, 10, 30, 60]
+);
+
+// Posting, labelled by platform
+export const postsSentTotal = new Counter(
+  "opensea_bot_posts_sent_total",
+  "Posts sent (one per Discord channel)"
+);
+export const postRetriesTotal = new Counter(
+  "opensea_bot_post_retries_total",
+  "Failed post attempts that will be retried"
+);
+export const rateLimitPausesTotal = new Counter(
+  "opensea_bot_rate_limit_pauses_total",
+  "Times posting paused for a platform rate limit"
+);
+export const postsDroppedTotal = new Counter(
+  "opensea_bot_posts_dropped_total",
+  "Posts given up on after a fatal error or too many attempts"
+);
+export const groupFlushSize = new Histogram(
+  "opensea_bot_group_flush_size",
+  "Events in each settled group post",
+  [2, 3, 5, 10, 20, 50, 100]
+);
+export const imageFetchFailuresTotal = new Counter(
+  "opensea_bot_image_fetch_failures_total",
+  "NFT images that could not be fetched (or, on Twitter, uploaded)"
+);
+
+/**
+ * Counts the events in each group about to be posted to `platform`.
+ */
+export const recordGroupFlushes = (
+  platform: string,
+  groups: Array<{ events: unknown[] }>
+): void => {
+  for (const group of groups) {
+    groupFlushSize.observe({ platform }, group.events.length);
+  }
+};
@@ -0,0 +1,273 @@
+import { promises as fs } from "node:fs";
+import { dirname, join } from "node:path";
+import { type CollectionConfig, getConfig } from "../config";
+import type { OpenSeaAssetEvent } from "../types";
+import { collectionKeyFor } from "./collection-store";
+import type { EventGroupManager } from "./event-grouping";
+import { logger } from "./logger";
+
+export type OutboxEntry<T> = {
+  key: string;
+  item: T;
+  attempts: number;
+  enqueuedAt: number;
+};
+
+type PersistedOutbox<T> = {
+  pending: OutboxEntry<T>[];
+  delivered: string[];
+  // Events settling into a group, by collection key
+  held?: Record<string, OpenSeaAssetEvent[]>;
+};
+
+// Recently delivered keys kept to refuse re-enqueueing a delivered post
+const DELIVERED_KEYS_CAPACITY = 2000;
+
+/**
+ * Disk-backed list of posts waiting to be delivered to a platform.
+ *
+ * Entries are written before delivery is attempted and removed once the
+ * post succeeds, so anything pending when the process stops is restored
+ * on the next boot. Every change is persisted immediately; writes are
+ * serialized and go through a temp file so a crash never leaves a
+ * truncated outbox behind.
+ *
+ * Events still settling into a group are held here too: they are not
+ * posts yet, but were already marked processed and would otherwise be lost.
+ */
+export class Outbox<T> {
+  private readonly filePath: string;
+  private readonly enablePersistence: boolean;
+
+  private loaded = false;
+  private readonly pending = new Map<string, OutboxEntry<T>>();
+  private readonly delivered = new Set<string>();
+  private readonly held = new Map<string, OpenSeaAssetEvent[]>();
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(options: { filePath: string; enablePersistence: boolean }) {
+    this.filePath = options.filePath;
+    this.enablePersistence = options.enablePersistence;
+  }
+
+  /**
+   * Restores persisted entries (once) and returns everything pending.
+   */
+  async load(): Promise<OutboxEntry<T>[]> {
+    if (!this.loaded) {
+      this.loaded = true;
+      if (this.enablePersistence) {
+        await this.loadFromDisk();
+      }
+    }
+    return this.entries();
+  }
+
+  private async loadFromDisk(): Promise<void> {
+    try {
+      const content = await fs.readFile(this.filePath, "utf8");
+      const parsed = JSON.parse(content) as Partial<PersistedOutbox<T>>;
+      // Restored entries are older than anything added before loading, so
+      // they go first to keep delivery order
+      const added = this.entries();
+      this.pending.clear();
+      for (const entry of [...(parsed.pending ?? []), ...added]) {
+        this.pending.set(entry.key, entry);
+      }
+      for (const key of parsed.delivered ?? []) {
+        this.delivered.add(key);
+      }
+      // Events held before loading are newer than the ones on disk
+      for (const [collectionKey, events] of Object.entries(parsed.held ?? {})) {
+        if (!this.held.has(collectionKey) && events.length > 0) {
+          this.held.set(collectionKey, events);
+        }
+      }
+      if (this.pending.size > 0) {
+        logger.info(
+          `[Outbox] Restored ${this.pending.size} pending post(s) from ${this.filePath}`
+        );
+      }
+    } catch (error) {
+      const maybeErr = error as { code?: string };
+      if (maybeErr.code === "ENOENT") {
+        // Fresh start – nothing pending.
+        return;
+      }
+      logger.error("[Outbox] Failed to load outbox:", error);
+    }
+  }
+
+  entries(): OutboxEntry<T>[] {
+    return [...this.pending.values()];
+  }
+
+  has(key: string): boolean {
+    return this.pending.has(key);
+  }
+
+  wasDelivered(key: string): boolean {
+    return this.delivered.has(key);
+  }
+
+  /**
+   * Adds a post unless it is already pending or was recently delivered.
+   * Returns whether it was added.
+   */
+  add(key: string, item: T): boolean {
+    if (this.pending.has(key) || this.delivered.has(key)) {
+      return false;
+    }
+    this.pending.set(key, { key, item, attempts: 0, enqueuedAt: Date.now() });
+    this.persist();
+    return true;
+  }
+
+  update(
+    key: string,
+    changes: Partial<Pick<OutboxEntry<T>, "item" | "attempts">>
+  ) {
+    const entry = this.pending.get(key);
+    if (!entry) {
+      return;
+    }
+    this.pending.set(key, { ...entry, ...changes });
+    this.persist();
+  }
+
+  // Marks a post as delivered so it is never sent again
+  complete(key: string): void {
+    this.pending.delete(key);
+    this.delivered.add(key);
+    if (this.delivered.size > DELIVERED_KEYS_CAPACITY) {
+      const oldest = this.delivered.values().next().value;
+      if (oldest !== undefined) {
+        this.delivered.delete(oldest);
+      }
+    }
+    this.persist();
+  }
+
+  // Removes a post that will never be delivered (e.g. a fatal API error)
+  drop(key: string): void {
+    if (this.pending.delete(key)) {
+      this.persist();
+    }
+  }
+
+  /**
+   * Replaces the events a collection holds in settling groups. Only
+   * written when they changed.
+   */
+  hold(collectionKey: string, events: OpenSeaAssetEvent[]): void {
+    const current = this.held.get(collectionKey) ?? [];
+    if (JSON.stringify(current) === JSON.stringify(events)) {
+      return;
+    }
+    if (events.length === 0) {
+      this.held.delete(collectionKey);
+    } else {
+      this.held.set(collectionKey, events);
+    }
+    this.persist();
+  }
+
+  heldEvents(): Array<{ collectionKey: string; events: OpenSeaAssetEvent[] }> {
+    return [...this.held].map(([collectionKey, events]) => ({
+      collectionKey,
+      events,
+    }));
+  }
+
+  /**
+   * Resolves once every change made so far has been written.
+   */
+  flush(): Promise<void> {
+    return this.writes;
+  }
+
+  private persist(): void {
+    if (!this.enablePersistence) {
+      return;
+    }
+    // Load first so an early write never clobbers entries still on disk
+    this.writes = this.writes.then(async () => {
+      await this.load();
+      await this.write();
+    });
+  }
+
+  private async write(): Promise<void> {
+    const state: PersistedOutbox<T> = {
+      pending: this.entries(),
+      delivered: [...this.delivered],
+      held: Object.fromEntries(this.held),
+    };
+    const tmpPath = `${this.filePath}.tmp`;
+    try {
+      await fs.mkdir(dirname(this.filePath), { recursive: true });
+      await fs.writeFile(tmpPath, JSON.stringify(state), "utf8");
+      await fs.rename(tmpPath, this.filePath);
+    } catch (error) {
+      logger.error("[Outbox] Failed to persist outbox:", error);
+    }
+  }
+}
+
+export type OutboxPlatform = "twitter" | "discord" | "telegram" | "webhook";
+
+const outboxes = new Map<OutboxPlatform, Outbox<unknown>>();
+
+/**
+ * Returns the outbox for a platform, stored next to the event state files.
+ * One outbox per platform is shared by all collections; entries record
+ * which collection they belong to.
+ */
+export const getOutbox = <T>(platform: OutboxPlatform): Outbox<T> => {
+  let outbox = outboxes.get(platform);
+  if (!outbox) {
+    const filePath = join(
+      process.cwd(),
+      getConfig().state.dir,
+      `outbox-${platform}.json`
+    );
+    outbox = new Outbox<unknown>({
+      filePath,
+      enablePersistence: process.env.NODE_ENV !== "test",
+    });
+    outboxes.set(platform, outbox);
+  }
+  return outbox as Outbox<T>;
+};
+
+/**
+ * Puts events that were settling into a group when the last run stopped
+ * back into their collection's group manager, where they settle again.
+ * Events of collections that are no longer configured are dropped.
+ * Returns how many events were restored.
+ */
+export const restoreHeldEvents = <T>(
+  outbox: Outbox<T>,
+  groupManagerFor: (collection: CollectionConfig) => EventGroupManager
+): number => {
+  const collections = new Map(
+    getConfig().collections.map((c) => [collectionKeyFor(c), c])
+  );
+  let restored = 0;
+  for (const { collectionKey, events } of outbox.heldEvents()) {
+    const collection = collections.get(collectionKey);
+    if (!collection) {
+      logger.warn(
+        `[Outbox] Dropping settling events for unconfigured collection ${collectionKey}`
+      );
+      outbox.hold(collectionKey, []);
+      continue;
+    }
+    groupManagerFor(collection).restoreHeldEvents(events);
+    restored += events.length;
+  }
+  if (restored > 0) {
+    logger.info(`[Outbox] Restored ${restored} event(s) settling into groups`);
+  }
+  return restored;
+};
@@ -0,0 +1,182 @@
+import { formatUnits } from "ethers";
+import { type FiatConfig, getConfig } from "../config";
+import type { OpenSeaPayment } from "../types";
+import { MS_PER_SECOND } from "./constants";
+import { prefixedLogger } from "./logger";
+import { formatAmount } from "./utils";
+
+const log = prefixedLogger("Prices");
+
+export type PriceToken = { symbol: string; address?: string };
+
+type PricedPayment = Pick<
+  OpenSeaPayment,
+  "quantity" | "decimals" | "symbol"
+> & {
+  token_address?: string;
+};
+
+/**
+ * Looks up how much one whole token is worth in a fiat currency.
+ * Resolves undefined when the source has no rate for the token.
+ */
+export type PriceSource = {
+  name: string;
+  rateFor: (token: PriceToken, currency: string) => Promise<number | undefined>;
+};
+
+const FIAT_ZERO_DECIMALS_FROM = 100;
+const URL_PLACEHOLDER = /\{(symbol|address|currency)\}/g;
+
+// Wrapped ETH is priced as ETH
+const symbolFor = (token: PriceToken): string => {
+  const symbol = token.symbol.toUpperCase();
+  return symbol === "WETH" ? "ETH" : symbol;
+};
+
+/**
+ * Fixed rates keyed by token address (lowercased) or symbol (uppercased).
+ * Useful offline and in tests.
+ */
+export const staticPriceSource = (
+  rates: Record<string, number>
+): PriceSource => ({
+  name: "static",
+  rateFor: async (token) =>
+    rates[token.address?.toLowerCase() ?? ""] ?? rates[symbolFor(token)],
+});
+
+const valueAtPath = (data: unknown, path: string): unknown =>
+  path
+    .split(".")
+    .reduce<unknown>(
+      (value, key) =>
+        typeof value === "object" && value !== null
+          ? (value as Record<string, unknown>)[key]
+          : undefined,
+      data
+    );
+
+/**
+ * Fetches rates from a JSON endpoint. `url` may contain {symbol},
+ * {address} and {currency}; `path` is the dot path of the rate in the
+ * response. Requests slower than `timeoutMs` fail.
+ */
+export const httpPriceSource = (
+  url: string,
+  path: string,
+  timeoutMs: number
+): PriceSource => ({
+  name: "http",
+  rateFor: async (token, currency) => {
+    const values: Record<string, string> = {
+      symbol: symbolFor(token),
+      address: token.address ?? "",
+      currency,
+    };
+    const target = url.replace(URL_PLACEHOLDER, (_, name: string) =>
+      encodeURIComponent(values[name])
+    );
+    const response = await fetch(target, {
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    if (!response.ok) {
+      throw new Error(`Price request failed (${response.status}): ${target}`);
+    }
+    const rate = Number(valueAtPath(await response.json(), path));
+    return Number.isFinite(rate) ? rate : undefined;
+  },
+});
+
+const sourceFromConfig = (fiat: FiatConfig): PriceSource =>
+  fiat.source === "static"
+    ? staticPriceSource(fiat.rates)
+    : httpPriceSource(fiat.url, fiat.path, fiat.timeoutMs);
+
+type CachedRate = { rate: number | undefined; fetchedAt: number };
+const rateCache = new Map<string, CachedRate>();
+let customSource: PriceSource | undefined;
+
+/**
+ * Replaces the configured price source (or restores it when called
+ * without a source) and clears cached rates.
+ */
+export const setPriceSource = (source?: PriceSource): void => {
+  customSource = source;
+  rateCache.clear();
+};
+
+/**
+ * Rate for a token in the configured fiat currency. Rates are cached for
+ * `fiat.cacheSeconds`; when a lookup fails the last known rate is used.
+ */
+export const fiatRateFor = async (
+  token: PriceToken
+): Promise<number | undefined> => {
+  const { fiat } = getConfig();
+  if (!fiat.currency) {
+    return;
+  }
+  const key = `${fiat.currency}|${token.address?.toLowerCase() ?? ""}|${symbolFor(token)}`;
+  const cached = rateCache.get(key);
+  if (
+    cached &&
+    Date.now() - cached.fetchedAt < fiat.cacheSeconds * MS_PER_SECOND
+  ) {
+    return cached.rate;
+  }
+  const source = customSource ?? sourceFromConfig(fiat);
+  try {
+    const rate = await source.rateFor(token, fiat.currency);
+    rateCache.set(key, { rate, fetchedAt: Date.now() });
+    return rate;
+  } catch (error) {
+    log.warn(`Failed to fetch ${symbolFor(token)} rate from ${source.name}`);
+    log.debug("Price lookup error:", error);
+    return cached?.rate;
+  }
+};
+
+/**
+ * Formats a fiat value, with cents only for small amounts: "$4,120",
+ * "$12.50".
+ */
+export const formatFiat = (value: number, currency: string): string => {
+  const digits = value >= FIAT_ZERO_DECIMALS_FROM ? 0 : 2;
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency,
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  }).format(value);
+};
+
+/**
+ * Value of a payment in the configured fiat currency, if known.
+ */
+export const fiatValueFor = async (
+  payment: PricedPayment
+): Promise<number | undefined> => {
+  const rate = await fiatRateFor({
+    symbol: payment.symbol,
+    address: payment.token_address || undefined,
+  });
+  if (rate === undefined) {
+    return;
+  }
+  return Number(formatUnits(payment.quantity, payment.decimals)) * rate;
+};
+
+/**
+ * Formats a payment like formatAmount, followed by its fiat value when a
+ * fiat currency is configured and a rate is known: "1.23 ETH ($4,120)".
+ */
+export const formatPrice = async (payment: PricedPayment): Promise<string> => {
+  const { quantity, decimals, symbol } = payment;
+  const amount = formatAmount(quantity, decimals, symbol);
+  const { currency } = getConfig().fiat;
+  const fiatValue = currency ? await fiatValueFor(payment) : undefined;
+  return fiatValue === undefined || !currency
+    ? amount
+    : `${amount} (${formatFiat(fiatValue, currency)})`;
+};
@@ -1,4 +1,10 @@
 import { logger } from "./logger";
+import {
+  postRetriesTotal,
+  postsDroppedTotal,
+  postsSentTotal,
+  rateLimitPausesTotal,
+} from "./metrics";
 
 // Local timeout to avoid cross-module deps in tests
 const timeout = (ms: number) =>
@@ -45,10 +51,16 @@ export type AsyncQueueOptions<T> = {
   backoffMaxMs: number;
   processingTimeoutMs?: number;
   debug?: boolean;
+  // Platform label for post metrics
+  platform: string;
   process: (item: T) => Promise<void>;
   keyFor: (item: T) => string;
   isAlreadyProcessed?: (key: string, item: T) => boolean;
   onProcessed?: (item: T) => void;
+  // Called after each failed attempt that will be retried
+  onAttempt?: (item: T, attempts: number) => void;
+  // Called when an item leaves the queue without being processed
+  onDropped?: (item: T, reason: "already_processed" | "fatal") => void;
   classifyError: (error: unknown) => QueueErrorClassification;
 };
 
@@ -62,8 +74,9 @@ export class AsyncQueue<T> {
     this.options = options;
   }
 
-  enqueue(item: T) {
-    const workItem: WorkItem<T> = { item, attempts: 0 };
+  // `attempts` lets restored items keep their retry/backoff progress
+  enqueue(item: T, attempts = 0) {
+    const workItem: WorkItem<T> = { item, attempts };
     this.list.push(workItem);
     if (this.options.debug) {
       const key = this.options.keyFor(item);
@@ -165,6 +178,7 @@ export class AsyncQueue<T> {
         logger.debug(`[Queue] Skipping already-processed item: ${key}`);
       }
       this.list.shift();
+      this.options.onDropped?.(item, "already_processed");
       return true;
     }
     return false;
@@ -222,6 +236,7 @@ export class AsyncQueue<T> {
       logger.info(
         `[Queue] Completed item: ${key} (${durationMs}ms, attempt ${attemptNumber})`
       );
+      postsSentTotal.inc({ platform: this.options.platform });
       return true;
     } catch (error: unknown) {
       const durationMs = Date.now() - startTime;
@@ -234,6 +249,8 @@ export class AsyncQueue<T> {
         );
         // Treat timeouts as transient errors - allow retry with backoff
         next.attempts += 1;
+        postRetriesTotal.inc({ platform: this.options.platform });
+        this.options.onAttempt?.(next.item, next.attempts);
         const waitMs = this.calcBackoffMs(next.attempts);
         logger.warn(
           `[Queue] Will retry after ${waitMs}ms (attempt ${next.attempts})`
@@ -249,6 +266,7 @@ export class AsyncQueue<T> {
           this.options.backoffBaseMs
         );
         this.pauseUntilMs = Date.now() + waitMs;
+        rateLimitPausesTotal.inc({ platform: this.options.platform });
         logger.warn(
           `[Queue] Rate limited for item: ${key}, pausing for ${waitMs}ms`
         );
@@ -259,6 +277,8 @@ export class AsyncQueue<T> {
       }
       if (classification.type === "transient") {
         next.attempts += 1;
+        postRetriesTotal.inc({ platform: this.options.platform });
+        this.options.onAttempt?.(next.item, next.attempts);
         const waitMs = this.calcBackoffMs(next.attempts);
         logger.warn(
           `[Queue] Transient error for item: ${key} (attempt ${next.attempts}), backing off for ${waitMs}ms`
@@ -275,6 +295,11 @@ export class AsyncQueue<T> {
         error
       );
       this.list.shift();
+      postsDroppedTotal.inc({
+        platform: this.options.platform,
+        reason: "fatal",
+      });
+      this.options.onDropped?.(next.item, "fatal");
       return false;
     }
   }
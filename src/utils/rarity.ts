@@ -0,0 +1,167 @@
+import { getConfig } from "../config";
+import {
+  fetchCollection,
+  fetchNFT,
+  fetchTraitCounts,
+  getCollectionSlug,
+} from "../opensea";
+import type {
+  OpenSeaAssetEvent,
+  OpenSeaNFT,
+  OpenSeaTraitCounts,
+} from "../types";
+import { effectiveEventTypeFor } from "./event-types";
+import { prefixedLogger } from "./logger";
+
+const log = prefixedLogger("Rarity");
+
+export type NotableTrait = {
+  type: string;
+  value: string;
+  count: number;
+  // Share of the collection with this trait, when the supply is known
+  percent?: number;
+};
+
+export type RarityInfo = {
+  rank?: number;
+  maxRank?: number;
+  traits: NotableTrait[];
+};
+
+const PERCENT = 100;
+const SMALL_PERCENT = 1;
+
+/**
+ * Whether posts for this event should show rarity.
+ */
+export const showsRarityFor = (event: OpenSeaAssetEvent): boolean =>
+  (getConfig().rarity.events as string[]).includes(
+    effectiveEventTypeFor(event)
+  );
+
+const countFor = (
+  counts: OpenSeaTraitCounts["counts"],
+  type: string,
+  value: string
+): number | undefined => {
+  const values = counts[type];
+  if (!values) {
+    return;
+  }
+  const count =
+    (values as Record<string, number>)[value] ??
+    Object.entries(values).find(
+      ([key]) => key.toLowerCase() === value.toLowerCase()
+    )?.[1];
+  return typeof count === "number" ? count : undefined;
+};
+
+/**
+ * The NFT's traits ordered from rarest to most common. Traits without a
+ * count (such as numeric traits) are left out.
+ */
+export const rarestTraits = (
+  nft: Pick<OpenSeaNFT, "traits">,
+  counts: OpenSeaTraitCounts["counts"],
+  totalSupply?: number
+): NotableTrait[] =>
+  (nft.traits ?? [])
+    .flatMap((trait) => {
+      const value = String(trait.value);
+      const count = countFor(counts, trait.trait_type, value);
+      if (count === undefined) {
+        return [];
+      }
+      const percent = totalSupply ? (count / totalSupply) * PERCENT : undefined;
+      return [{ type: trait.trait_type, value, count, percent }];
+    })
+    .sort((a, b) => a.count - b.count);
+
+// Events only carry a summary of the NFT; rank and traits need a fetch
+const detailedNFTFor = async (
+  event: OpenSeaAssetEvent
+): Promise<OpenSeaNFT | undefined> => {
+  const nft = event.nft ?? event.asset ?? undefined;
+  if (!nft?.identifier || (nft.rarity && nft.traits)) {
+    return nft;
+  }
+  const fresh = await fetchNFT(nft.identifier);
+  if (fresh) {
+    nft.traits = fresh.traits ?? nft.traits;
+    nft.rarity = fresh.rarity ?? nft.rarity;
+  }
+  return nft;
+};
+
+/**
+ * Rank and rarest traits of an NFT whose traits and rarity are loaded,
+ * at most `traitCount` traits. Returns undefined when neither is available.
+ */
+export const rarityInfoForNFT = async (
+  nft: OpenSeaNFT,
+  traitCount = getConfig().rarity.traitCount
+): Promise<RarityInfo | undefined> => {
+  try {
+    const slug = getCollectionSlug();
+    const [collection, traitCounts] = slug
+      ? await Promise.all([fetchCollection(slug), fetchTraitCounts(slug)])
+      : [undefined, undefined];
+    const traits = traitCounts
+      ? rarestTraits(
+          nft,
+          traitCounts.counts,
+          collection?.total_supply || collection?.rarity?.total_supply
+        ).slice(0, traitCount)
+      : [];
+    const rank = nft.rarity?.rank;
+    if (rank === undefined && traits.length === 0) {
+      return;
+    }
+    return { rank, maxRank: collection?.rarity?.max_rank, traits };
+  } catch (error) {
+    log.debug("Failed to load rarity:", error);
+    return;
+  }
+};
+
+/**
+ * Rank and rarest traits for an event's NFT. Returns undefined when
+ * neither is available.
+ */
+export const rarityInfoFor = async (
+  event: OpenSeaAssetEvent
+): Promise<RarityInfo | undefined> => {
+  try {
+    const nft = await detailedNFTFor(event);
+    return nft ? await rarityInfoForNFT(nft) : undefined;
+  } catch (error) {
+    log.debug("Failed to load rarity:", error);
+    return;
+  }
+};
+
+/**
+ * "Rank #42 / 10,000", or "Rank #42" when the collection size is unknown.
+ */
+export const formatRank = (info: RarityInfo): string | undefined => {
+  if (info.rank === undefined) {
+    return;
+  }
+  const rank = `Rank #${info.rank.toLocaleString("en-US")}`;
+  return info.maxRank
+    ? `${rank} / ${info.maxRank.toLocaleString("en-US")}`
+    : rank;
+};
+
+/**
+ * "Background: Gold (0.5%)"
+ */
+export const formatTrait = (trait: NotableTrait): string => {
+  if (trait.percent === undefined) {
+    return `${trait.type}: ${trait.value}`;
+  }
+  const digits = trait.percent < SMALL_PERCENT ? 2 : 1;
+  const percent = Number(trait.percent.toFixed(digits));
+  return `${trait.type}: ${trait.value} (${percent}%)`;
+};
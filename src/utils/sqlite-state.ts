@@ -0,0 +1,164 @@
+import { promises as fs } from "node:fs";
+import { prefixedLogger } from "./logger";
+import { type Database, sqliteOpener } from "./sqlite";
+import {
+  JsonStateBackend,
+  parseTimestampFromKey,
+  type StateBackend,
+  type StateChanges,
+  type StoredState,
+} from "./state-backend";
+
+const log = prefixedLogger("EventState");
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS event_state (
+  contract TEXT PRIMARY KEY,
+  cursor_source TEXT,
+  cursor_next TEXT,
+  cursor_last_timestamp INTEGER,
+  cursor_last_id TEXT,
+  last_block INTEGER,
+  max_processed_timestamp INTEGER NOT NULL,
+  window_seconds INTEGER NOT NULL
+);
+CREATE TABLE IF NOT EXISTS seen_keys (
+  contract TEXT NOT NULL,
+  key TEXT NOT NULL,
+  timestamp INTEGER,
+  PRIMARY KEY (contract, key)
+);
+CREATE INDEX IF NOT EXISTS seen_keys_by_timestamp
+  ON seen_keys (contract, timestamp);
+`;
+
+type StateRow = {
+  cursor_source: string | null;
+  cursor_next: string | null;
+  cursor_last_timestamp: number | null;
+  cursor_last_id: string | null;
+  last_block: number | null;
+  max_processed_timestamp: number;
+  window_seconds: number;
+};
+
+// One connection per database file, shared by every collection
+export const openStateDatabase = sqliteOpener(SCHEMA);
+
+/**
+ * Stores each collection's state as rows of a shared SQLite database. A
+ * save is one transaction that upserts the cursor, inserts only the keys
+ * seen since the last save and deletes keys that fell out of the window.
+ */
+export class SqliteStateBackend implements StateBackend {
+  readonly name = "sqlite";
+  private readonly dbPath: string;
+  private readonly contract: string;
+  private readonly legacyFile?: string;
+
+  constructor(options: {
+    dbPath: string;
+    contract: string;
+    // JSON state file to import on first load
+    legacyFile?: string;
+  }) {
+    this.dbPath = options.dbPath;
+    this.contract = options.contract;
+    this.legacyFile = options.legacyFile;
+  }
+
+  async load(): Promise<StoredState | undefined> {
+    const db = await openStateDatabase(this.dbPath);
+    const row = db
+      .prepare("SELECT * FROM event_state WHERE contract = ?")
+      .get(this.contract) as StateRow | undefined;
+    if (!row) {
+      return this.migrateLegacyFile(db);
+    }
+    const keys = db
+      .prepare("SELECT key FROM seen_keys WHERE contract = ?")
+      .pluck()
+      .all(this.contract) as string[];
+    return {
+      cursor:
+        row.cursor_source === null
+          ? null
+          : {
+              source: row.cursor_source,
+              next: row.cursor_next,
+              lastTimestamp: row.cursor_last_timestamp,
+              lastId: row.cursor_last_id,
+            },
+      lastBlock: row.last_block,
+      maxProcessedTimestamp: row.max_processed_timestamp,
+      windowSeconds: row.window_seconds,
+      keys,
+    };
+  }
+
+  async save(state: StoredState, changes: StateChanges): Promise<void> {
+    this.write(await openStateDatabase(this.dbPath), state, changes);
+  }
+
+  private write(db: Database, state: StoredState, changes: StateChanges) {
+    const upsertState = db.prepare(`
+      INSERT INTO event_state (
+        contract, cursor_source, cursor_next, cursor_last_timestamp,
+        cursor_last_id, last_block, max_processed_timestamp, window_seconds
+      ) VALUES (
+        @contract, @cursorSource, @cursorNext, @cursorLastTimestamp,
+        @cursorLastId, @lastBlock, @maxProcessedTimestamp, @windowSeconds
+      )
+      ON CONFLICT (contract) DO UPDATE SET
+        cursor_source = excluded.cursor_source,
+        cursor_next = excluded.cursor_next,
+        cursor_last_timestamp = excluded.cursor_last_timestamp,
+        cursor_last_id = excluded.cursor_last_id,
+        last_block = excluded.last_block,
+        max_processed_timestamp = excluded.max_processed_timestamp,
+        window_seconds = excluded.window_seconds
+    `);
+    const insertKey = db.prepare(
+      "INSERT OR IGNORE INTO seen_keys (contract, key, timestamp) VALUES (?, ?, ?)"
+    );
+    const pruneKeys = db.prepare(
+      "DELETE FROM seen_keys WHERE contract = ? AND timestamp < ?"
+    );
+    db.transaction(() => {
+      upsertState.run({
+        contract: this.contract,
+        cursorSource: state.cursor?.source ?? null,
+        cursorNext: state.cursor?.next ?? null,
+        cursorLastTimestamp: state.cursor?.lastTimestamp ?? null,
+        cursorLastId: state.cursor?.lastId ?? null,
+        lastBlock: state.lastBlock,
+        maxProcessedTimestamp: state.maxProcessedTimestamp,
+        windowSeconds: state.windowSeconds,
+      });
+      for (const key of changes.addedKeys) {
+        insertKey.run(this.contract, key, parseTimestampFromKey(key) ?? null);
+      }
+      pruneKeys.run(this.contract, changes.pruneBefore);
+    })();
+  }
+
+  // Imports the collection's JSON state file the first time SQLite is used,
+  // then renames it so it is never imported again
+  private async migrateLegacyFile(
+    db: Database
+  ): Promise<StoredState | undefined> {
+    if (!this.legacyFile) {
+      return;
+    }
+    const state = await new JsonStateBackend(this.legacyFile).load();
+    if (!state) {
+      return;
+    }
+    this.write(db, state, { addedKeys: state.keys, pruneBefore: 0 });
+    await fs.rename(this.legacyFile, `${this.legacyFile}.migrated`);
+    log.info(
+      `Migrated ${state.keys.length} seen keys from ${this.legacyFile} to ${this.dbPath}`
+    );
+    return state;
+  }
+}
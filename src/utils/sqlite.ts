@@ -0,0 +1,33 @@
+import { promises as fs } from "node:fs";
+import { dirname } from "node:path";
+import type BetterSqlite3 from "better-sqlite3";
+
+export type Database = BetterSqlite3.Database;
+
+/**
+ * Returns a function that opens a SQLite database once per path, creating
+ * the file and running `schema` on first use. better-sqlite3 is only
+ * loaded when a database is opened.
+ */
+export const sqliteOpener = (
+  schema: string
+): ((path: string) => Promise<Database>) => {
+  const databases = new Map<string, Promise<Database>>();
+  return (path) => {
+    let database = databases.get(path);
+    if (!database) {
+      database = (async () => {
+        const { default: Sqlite } = await import("better-sqlite3");
+        await fs.mkdir(dirname(path), { recursive: true });
+        const db = new Sqlite(path);
+        // Readers never block the writer, and commits survive a crash
+        db.pragma("journal_mode = WAL");
+        db.exec(schema);
+        return db;
+      })();
+      databases.set(path, database);
+      database.catch(() => databases.delete(path));
+    }
+    return database;
+  };
+};
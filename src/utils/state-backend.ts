@@ -0,0 +1,135 @@
+import { promises as fs } from "node:fs";
+import { dirname } from "node:path";
+
+export type EventCursor = {
+  source: string;
+  next: string | null;
+  lastTimestamp: number | null;
+  lastId: string | null;
+};
+
+/**
+ * Everything persisted for one collection. Seen event keys end in their
+ * event timestamp, which is what pruning goes by.
+ */
+export type StoredState = {
+  cursor: EventCursor | null;
+  // Last block whose Transfer logs were read over JSON-RPC
+  lastBlock: number | null;
+  maxProcessedTimestamp: number;
+  windowSeconds: number;
+  keys: string[];
+};
+
+// What changed since the last save, for backends that write incrementally
+export type StateChanges = {
+  addedKeys: string[];
+  // Keys with an older timestamp have been pruned
+  pruneBefore: number;
+};
+
+/**
+ * Where an EventStateStore keeps one collection's state. `load` returns
+ * undefined on a fresh start; `save` must leave either the old or the new
+ * state behind if the process dies mid-write.
+ */
+export type StateBackend = {
+  readonly name: string;
+  load(): Promise<StoredState | undefined>;
+  save(state: StoredState, changes: StateChanges): Promise<void>;
+};
+
+export const parseTimestampFromKey = (key: string): number | undefined => {
+  const parts = key.split("|");
+  const last = parts.at(-1);
+  if (!last) {
+    return;
+  }
+  const value = Number.parseInt(last, 10);
+  if (Number.isNaN(value)) {
+    return;
+  }
+  return value;
+};
+
+// The JSON file layout, unchanged from before backends were pluggable
+type PersistedState = {
+  cursor: EventCursor | null;
+  watermark: {
+    maxProcessedTimestamp: number;
+    windowSeconds: number;
+    keys: string[];
+  };
+  lastBlock?: number | null;
+};
+
+const parseCursor = (cursor: EventCursor): EventCursor => ({
+  source: cursor.source ?? "opensea-v2",
+  next: cursor.next ?? null,
+  lastTimestamp:
+    cursor.lastTimestamp === null ? null : Number(cursor.lastTimestamp ?? 0),
+  lastId: cursor.lastId ?? null,
+});
+
+/**
+ * Stores state as one JSON file, rewritten in full on every save through
+ * a temp file so a crash never leaves it truncated. Saves are serialized,
+ * so concurrent flushes never share the temp file.
+ */
+export class JsonStateBackend implements StateBackend {
+  readonly name = "json";
+  readonly filePath: string;
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async load(): Promise<StoredState | undefined> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        // Fresh start – no persisted state yet.
+        return;
+      }
+      throw error;
+    }
+    if (!content) {
+      return;
+    }
+    const parsed = JSON.parse(content) as Partial<PersistedState>;
+    const { watermark } = parsed;
+    return {
+      cursor: parsed.cursor ? parseCursor(parsed.cursor) : null,
+      lastBlock: typeof parsed.lastBlock === "number" ? parsed.lastBlock : null,
+      maxProcessedTimestamp: Number(watermark?.maxProcessedTimestamp ?? 0),
+      windowSeconds: Number(watermark?.windowSeconds ?? 0),
+      keys: Array.isArray(watermark?.keys) ? watermark.keys : [],
+    };
+  }
+
+  save(state: StoredState): Promise<void> {
+    const persisted: PersistedState = {
+      cursor: state.cursor,
+      watermark: {
+        maxProcessedTimestamp: state.maxProcessedTimestamp,
+        windowSeconds: state.windowSeconds,
+        keys: state.keys,
+      },
+      lastBlock: state.lastBlock,
+    };
+    const write = this.writes.then(() => this.write(persisted));
+    // A failed save is reported to its caller; later saves still run
+    this.writes = write.catch(() => null);
+    return write;
+  }
+
+  private async write(persisted: PersistedState): Promise<void> {
+    const tmpPath = `${this.filePath}.tmp`;
+    await fs.mkdir(dirname(this.filePath), { recursive: true });
+    await fs.writeFile(tmpPath, JSON.stringify(persisted), "utf8");
+    await fs.rename(tmpPath, this.filePath);
+  }
+}
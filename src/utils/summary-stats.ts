@@ -0,0 +1,277 @@
+import { formatUnits } from "ethers";
+import type { SummaryConfig, SummaryPeriod } from "../config";
+import type { OpenSeaAssetEvent, OpenSeaPayment } from "../types";
+import { BotEvent } from "../types";
+import {
+  DEAD_ADDRESS,
+  MS_PER_SECOND,
+  NULL_ADDRESS,
+  SECONDS_PER_MINUTE,
+} from "./constants";
+import { effectiveEventTypeFor } from "./event-types";
+
+const DAYS_PER_WEEK = 7;
+const MS_PER_MINUTE = SECONDS_PER_MINUTE * MS_PER_SECOND;
+const WEEKDAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+// Symbols summed into one volume, as the floor treats them
+const WRAPPED_SYMBOLS: Record<string, string> = { WETH: "ETH" };
+const IGNORED_WALLETS = new Set([NULL_ADDRESS, DEAD_ADDRESS]);
+
+export type SummaryVolume = {
+  count: number;
+  // Sum of the payment quantities, as a bigint string
+  quantity: string;
+  decimals: number;
+};
+
+export type SummarySale = {
+  tokenId?: string;
+  name?: string;
+  imageUrl?: string;
+  url?: string;
+  payment: Pick<OpenSeaPayment, "quantity" | "decimals" | "symbol">;
+  buyer?: string;
+};
+
+/**
+ * What a collection did since `start` (unix seconds). Kept as plain JSON
+ * so it survives restarts.
+ */
+export type SummaryStats = {
+  period: SummaryPeriod;
+  start: number;
+  // Sales and their volume by payment symbol, WETH counted as ETH
+  volume: Record<string, SummaryVolume>;
+  topSale?: SummarySale;
+  buyers: string[];
+  sellers: string[];
+  mints: number;
+  burns: number;
+  // Floor in ETH when the period started
+  floorStart?: number;
+  // Events per wallet, for the most active wallets
+  activity: Record<string, number>;
+};
+
+export type Summary = SummaryStats & { end: number; floorEnd?: number };
+
+export const emptySummaryStats = (
+  period: SummaryPeriod,
+  start: number,
+  floorStart?: number
+): SummaryStats => ({
+  period,
+  start,
+  volume: {},
+  buyers: [],
+  sellers: [],
+  mints: 0,
+  burns: 0,
+  floorStart,
+  activity: {},
+});
+
+const paymentValue = (payment: SummarySale["payment"]): number =>
+  Number(formatUnits(payment.quantity, payment.decimals));
+
+const addVolume = (stats: SummaryStats, payment: OpenSeaPayment) => {
+  const symbol = WRAPPED_SYMBOLS[payment.symbol] ?? payment.symbol;
+  const current = stats.volume[symbol];
+  stats.volume[symbol] = {
+    count: (current?.count ?? 0) + 1,
+    quantity: (
+      BigInt(current?.quantity ?? 0) + BigInt(payment.quantity)
+    ).toString(),
+    decimals: payment.decimals,
+  };
+};
+
+// Prices are compared by amount, whatever the currency
+const addSale = (stats: SummaryStats, event: OpenSeaAssetEvent) => {
+  const { payment } = event;
+  if (payment) {
+    addVolume(stats, payment);
+    if (
+      !stats.topSale ||
+      paymentValue(payment) > paymentValue(stats.topSale.payment)
+    ) {
+      const nft = event.nft ?? event.asset ?? undefined;
+      stats.topSale = {
+        tokenId: nft?.identifier,
+        name: nft?.name || undefined,
+        imageUrl: nft?.image_url || undefined,
+        url: nft?.opensea_url || undefined,
+        payment: {
+          quantity: payment.quantity,
+          decimals: payment.decimals,
+          symbol: payment.symbol,
+        },
+        buyer: event.buyer?.toLowerCase(),
+      };
+    }
+  }
+  for (const [list, address] of [
+    [stats.buyers, event.buyer],
+    [stats.sellers, event.seller],
+  ] as const) {
+    const wallet = address?.toLowerCase();
+    if (wallet && !list.includes(wallet)) {
+      list.push(wallet);
+    }
+  }
+};
+
+const countActivity = (stats: SummaryStats, event: OpenSeaAssetEvent) => {
+  const wallets = new Set(
+    [
+      event.maker,
+      event.buyer,
+      event.seller,
+      event.from_address,
+      event.to_address,
+    ]
+      .filter((address): address is string => Boolean(address))
+      .map((address) => address.toLowerCase())
+      .filter((address) => !IGNORED_WALLETS.has(address))
+  );
+  for (const wallet of wallets) {
+    stats.activity[wallet] = (stats.activity[wallet] ?? 0) + 1;
+  }
+};
+
+/**
+ * Adds events of the active collection to the stats. Events from before
+ * the period started (a backfill, or a late copy) are skipped.
+ */
+export const addSummaryEvents = (
+  stats: SummaryStats,
+  events: OpenSeaAssetEvent[]
+): void => {
+  for (const event of events) {
+    if (event.event_timestamp < stats.start) {
+      continue;
+    }
+    const type = effectiveEventTypeFor(event);
+    if (type === BotEvent.sale) {
+      addSale(stats, event);
+    } else if (type === BotEvent.mint) {
+      stats.mints += 1;
+    } else if (type === BotEvent.burn) {
+      stats.burns += 1;
+    }
+    countActivity(stats, event);
+  }
+};
+
+export const salesCount = (stats: SummaryStats): number =>
+  Object.values(stats.volume).reduce((sum, v) => sum + v.count, 0);
+
+/**
+ * Wallets with the most events, busiest first.
+ */
+export const mostActiveWallets = (
+  stats: SummaryStats,
+  count: number
+): Array<{ address: string; events: number }> =>
+  Object.entries(stats.activity)
+    .map(([address, events]) => ({ address, events }))
+    .sort((a, b) => b.events - a.events)
+    .slice(0, count);
+
+// ---- Period boundaries ----
+
+type WallClock = {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number;
+};
+
+const wallClockFormats = new Map<string, Intl.DateTimeFormat>();
+
+const wallClock = (ms: number, timeZone: string): WallClock => {
+  let format = wallClockFormats.get(timeZone);
+  if (!format) {
+    format = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      weekday: "short",
+    });
+    wallClockFormats.set(timeZone, format);
+  }
+  const parts = Object.fromEntries(
+    format.formatToParts(ms).map((part) => [part.type, part.value])
+  );
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    weekday: WEEKDAY_NAMES.indexOf(parts.weekday),
+  };
+};
+
+// The instant a wall clock in `timeZone` shows `hour`:00 on the given date.
+// Days outside the month roll over as Date.UTC does.
+const instantOf = (
+  date: Pick<WallClock, "year" | "month" | "day">,
+  hour: number,
+  timeZone: string
+): number => {
+  const asUtc = Date.UTC(date.year, date.month - 1, date.day, hour);
+  // How far the zone's wall clock is ahead of UTC at `ms`
+  const offsetAt = (ms: number) => {
+    const clock = wallClock(ms, timeZone);
+    const shown = Date.UTC(
+      clock.year,
+      clock.month - 1,
+      clock.day,
+      clock.hour,
+      clock.minute
+    );
+    return shown - (ms - (ms % MS_PER_MINUTE));
+  };
+  const guess = asUtc - offsetAt(asUtc);
+  // Once more in case the guess crossed a daylight saving change
+  return asUtc - offsetAt(guess);
+};
+
+/**
+ * Unix seconds of the latest period boundary at or before `nowMs`: the
+ * configured hour in the configured time zone, on the configured weekday
+ * for weekly summaries.
+ */
+export const latestSummaryBoundary = (
+  period: SummaryPeriod,
+  schedule: Pick<SummaryConfig, "hour" | "timeZone" | "weekday">,
+  nowMs: number
+): number => {
+  const today = wallClock(nowMs, schedule.timeZone);
+  const step = period === "weekly" ? DAYS_PER_WEEK : 1;
+  let daysBack =
+    period === "weekly"
+      ? (today.weekday - schedule.weekday + DAYS_PER_WEEK) % DAYS_PER_WEEK
+      : 0;
+  let boundary = instantOf(
+    { ...today, day: today.day - daysBack },
+    schedule.hour,
+    schedule.timeZone
+  );
+  if (boundary > nowMs) {
+    daysBack += step;
+    boundary = instantOf(
+      { ...today, day: today.day - daysBack },
+      schedule.hour,
+      schedule.timeZone
+    );
+  }
+  return Math.floor(boundary / MS_PER_SECOND);
+};
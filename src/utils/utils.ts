@@ -1,6 +1,8 @@
 import { type BigNumberish, FixedNumber, formatUnits } from "ethers";
 import sharp from "sharp";
+import type { CollectionConfig } from "../config";
 import type { NFTLike } from "./aggregator";
+import { currentCollection } from "./collection-store";
 import {
   DEAD_ADDRESS,
   GLYPHBOTS_CONTRACT_ADDRESS,
@@ -64,16 +66,8 @@ const ADDR_SUFFIX_END = 42;
 export const shortAddr = (addr: string) =>
   `${addr.slice(0, ADDR_PREFIX_LEN)}…${addr.slice(ADDR_SUFFIX_START, ADDR_SUFFIX_END)}`;
 
-/**
- * Env helpers
- */
-export const botInterval = Number(process.env.OPENSEA_BOT_INTERVAL ?? 60);
-export const minOfferETH = FixedNumber.fromString(
-  process.env.MIN_OFFER_ETH ?? "0"
-);
-export const chain = process.env.CHAIN ?? "ethereum";
-export const fullTokenAddr = process.env.TOKEN_ADDRESS ?? "";
-export const shortTokenAddr = shortAddr(fullTokenAddr);
+export const minOfferETHFor = (collection: CollectionConfig) =>
+  FixedNumber.fromString(collection.minOfferETH);
 
 export type TransferKind = "mint" | "burn" | "transfer";
 
@@ -182,7 +176,8 @@ export const formatNftPrefix = (
     return "";
   }
   const specialContract =
-    process.env.TOKEN_ADDRESS?.toLowerCase() === GLYPHBOTS_CONTRACT_ADDRESS;
+    currentCollection().tokenAddress.toLowerCase() ===
+    GLYPHBOTS_CONTRACT_ADDRESS;
   if (specialContract && nft.name && nft.identifier !== undefined) {
     const nameParts = String(nft.name).split(" - ");
     const suffix = nameParts.length > 1 ? nameParts[1].trim() : undefined;
@@ -211,6 +211,7 @@ export const createDiscordMock = (channelsMap: Record<string, MockChannel>) => {
         },
         login: jest.fn(),
         destroy: jest.fn(),
+        rest: { on: jest.fn() },
         channels: {
           fetch: (id: string) => {
             if (!channelsMap[id]) {
@@ -228,13 +229,18 @@ export const createDiscordMock = (channelsMap: Record<string, MockChannel>) => {
   );
 
   const EmbedBuilder = jest.fn().mockImplementation(() => {
+    const data: { title?: string } = {};
     const obj = {
       setColor: () => obj,
-      setTitle: () => obj,
+      setTitle: (title: string) => {
+        data.title = title;
+        return obj;
+      },
       setFields: () => obj,
       setURL: () => obj,
       setImage: () => obj,
       setThumbnail: () => obj,
+      toJSON: () => data,
     };
     return obj;
   });
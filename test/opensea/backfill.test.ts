@@ -0,0 +1,211 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { hostname, tmpdir } from "node:os";
+import { join, relative } from "node:path";
+import type { OpenSeaAssetEvent } from "../../src/types";
+
+jest.mock("../../src/utils/logger", () => {
+  const base = {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  };
+  return {
+    logger: base,
+    prefixedLogger: () => base,
+    isDebugEnabled: () => false,
+    setLogLevel: jest.fn(),
+  };
+});
+
+const PAGE_SIZE = 2;
+
+const saleAt = (timestamp: number): OpenSeaAssetEvent =>
+  ({
+    event_type: "sale",
+    event_timestamp: timestamp,
+    transaction: `0xtx${timestamp}`,
+    chain: "ethereum",
+    quantity: 1,
+    nft: { identifier: String(timestamp), contract: "0xtesttoken" },
+  }) as OpenSeaAssetEvent;
+
+const EVENTS = [100, 200, 300, 400, 500].map(saleAt);
+
+// Serves EVENTS newest first, PAGE_SIZE per page, honouring after/before
+const mockEventsApi = () => {
+  const urls: string[] = [];
+  jest.mocked(global.fetch).mockImplementation((input) => {
+    const url = String(input);
+    urls.push(url);
+    if (url.includes("/chain/") && url.includes("/contract/")) {
+      return Promise.resolve({
+        ok: true,
+        json: async () => ({ collection: "test-collection" }),
+      } as Response);
+    }
+    const params = new URL(url).searchParams;
+    const after = Number(params.get("after"));
+    const before = Number(params.get("before"));
+    const offset = Number(params.get("next") ?? 0);
+    const matching = EVENTS.filter(
+      (e) => e.event_timestamp > after && e.event_timestamp < before
+    ).reverse();
+    const next = offset + PAGE_SIZE;
+    return Promise.resolve({
+      ok: true,
+      json: async () => ({
+        asset_events: matching.slice(offset, next),
+        next: next < matching.length ? String(next) : undefined,
+      }),
+    } as Response);
+  });
+  return urls;
+};
+
+describe("backfill", () => {
+  const ORIGINAL_ENV = { ...process.env };
+
+  beforeEach(() => {
+    jest.resetModules();
+    process.env = { ...ORIGINAL_ENV };
+    process.env.TOKEN_ADDRESS = "0xTestToken";
+    process.env.TWITTER_EVENTS = "sale";
+    global.fetch = jest.fn() as typeof global.fetch;
+  });
+
+  afterEach(() => {
+    process.env = ORIGINAL_ENV;
+  });
+
+  describe("parseBackfillArgs", () => {
+    it("accepts unix seconds and ISO dates", async () => {
+      const { parseBackfillArgs } = await import("../../src/backfill");
+      expect(
+        parseBackfillArgs([
+          "--from",
+          "1700000000",
+          "--to",
+          "2023-11-15T00:00:00Z",
+          "--post",
+          "--dry-run",
+          "--rate",
+          "30",
+        ])
+      ).toEqual({
+        from: 1_700_000_000,
+        to: 1_700_006_400,
+        out: undefined,
+        post: true,
+        dryRun: true,
+        ratePerMinute: 30,
+      });
+    });
+
+    it("lists every invalid argument", async () => {
+      const { parseBackfillArgs } = await import("../../src/backfill");
+      const { ConfigError } = await import("../../src/config");
+      let error: unknown;
+      try {
+        parseBackfillArgs(["--to", "yesterday", "--dry-run", "--rate", "0"]);
+      } catch (caught) {
+        error = caught;
+      }
+      expect(error).toBeInstanceOf(ConfigError);
+      expect((error as InstanceType<typeof ConfigError>).issues).toEqual([
+        '--to: expected unix seconds or an ISO 8601 date (got "yesterday")',
+        "--from: required",
+        "choose one of --out <file> or --post",
+        "--dry-run: only applies with --post",
+        '--rate: expected a positive number (got "0")',
+      ]);
+    });
+  });
+
+  it("pages through the range oldest first without moving the cursor", async () => {
+    const urls = mockEventsApi();
+    const { fetchEventsBetween } = await import("../../src/opensea");
+    const { getDefaultEventStateStore } = await import(
+      "../../src/utils/event-state"
+    );
+
+    const events = await fetchEventsBetween(150, 500);
+
+    expect(events.map((e) => e.event_timestamp)).toEqual([200, 300, 400]);
+    const eventUrls = urls.filter((url) => url.includes("/events/"));
+    expect(eventUrls).toHaveLength(2);
+    expect(eventUrls[1]).toContain("next=2");
+    expect(getDefaultEventStateStore().getCursor()).toBeNull();
+    expect(
+      getDefaultEventStateStore().hasKey(
+        "ethereum|0xtesttoken|200|sale|0xtx200|200"
+      )
+    ).toBe(false);
+  });
+
+  it("writes events to a file instead of posting", async () => {
+    mockEventsApi();
+    const dir = mkdtempSync(join(tmpdir(), "backfill-"));
+    const out = join(dir, "events.json");
+    try {
+      const { runBackfill } = await import("../../src/backfill");
+      const dispatch = jest.fn();
+      const total = await runBackfill(
+        {
+          from: 0,
+          to: 1000,
+          out,
+          post: false,
+          dryRun: false,
+          ratePerMinute: 1,
+        },
+        dispatch
+      );
+      expect(total).toBe(5);
+      expect(dispatch).not.toHaveBeenCalled();
+      const written = JSON.parse(readFileSync(out, "utf8"));
+      expect(written.map((e: OpenSeaAssetEvent) => e.event_timestamp)).toEqual([
+        100, 200, 300, 400, 500,
+      ]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("only logs events on a dry run", async () => {
+    mockEventsApi();
+    const { runBackfill } = await import("../../src/backfill");
+    const dispatch = jest.fn();
+    await runBackfill(
+      { from: 0, to: 250, post: true, dryRun: true, ratePerMinute: 1 },
+      dispatch
+    );
+    expect(dispatch).not.toHaveBeenCalled();
+  });
+
+  it("refuses to lock for posting while the bot holds the lock", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "backfill-"));
+    process.env.EVENT_STATE_DIR = relative(process.cwd(), dir);
+    process.env.LOCK_MODE = "standby";
+    try {
+      const { lockForBackfill } = await import("../../src/backfill");
+      const locks = await lockForBackfill();
+      expect(locks).toHaveLength(1);
+      await Promise.all((locks ?? []).map((lock) => lock.release()));
+
+      // The running bot: the parent process is alive on this host
+      writeFileSync(
+        join(dir, "instance-ethereum-0xtesttoken.lock"),
+        JSON.stringify({
+          id: "bot",
+          pid: process.ppid,
+          hostname: hostname(),
+          heartbeatAt: Date.now(),
+        })
+      );
+      expect(await lockForBackfill()).toBeUndefined();
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
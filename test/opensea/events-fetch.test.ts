@@ -10,6 +10,8 @@ jest.mock("../../src/utils/logger", () => {
   return {
     logger: base,
     prefixedLogger: () => base,
+    isDebugEnabled: () => false,
+    setLogLevel: jest.fn(),
   };
 });
 
@@ -237,6 +239,43 @@ describe("fetchEvents (OpenSea)", () => {
     expect(eventsCall[0]).toContain("event_type=transfer");
   });
 
+  it("requests the event types of a Telegram-only collection", async () => {
+    process.env.TWITTER_EVENTS = undefined;
+    process.env.TELEGRAM_EVENTS = "-1001234567890=listing,burn";
+
+    setupFetchMockForLagWindow([]);
+    const { fetchEvents } = await import("../../src/opensea");
+    await fetchEvents();
+
+    const fetchCalls = jest.mocked(global.fetch).mock.calls;
+    const eventsCall = fetchCalls.find(
+      ([url]) => typeof url === "string" && url.includes("/events/collection/")
+    ) as [string];
+    expect(eventsCall).toBeDefined();
+    expect(eventsCall[0]).toContain("event_type=listing");
+    expect(eventsCall[0]).toContain("event_type=transfer");
+    expect(eventsCall[0]).not.toContain("event_type=sale");
+  });
+
+  it("requests the event types of a webhook-only collection", async () => {
+    process.env.TWITTER_EVENTS = undefined;
+    process.env.WEBHOOKS = JSON.stringify([
+      { url: "https://example.com/hook", events: ["offer"] },
+    ]);
+
+    setupFetchMockForLagWindow([]);
+    const { fetchEvents } = await import("../../src/opensea");
+    await fetchEvents();
+
+    const fetchCalls = jest.mocked(global.fetch).mock.calls;
+    const eventsCall = fetchCalls.find(
+      ([url]) => typeof url === "string" && url.includes("/events/collection/")
+    ) as [string];
+    expect(eventsCall).toBeDefined();
+    expect(eventsCall[0]).toContain("event_type=offer");
+    expect(eventsCall[0]).not.toContain("event_type=sale");
+  });
+
   it("logs fetch summary stats showing deduped events when no new data arrives", async () => {
     const baseEvent: OpenSeaAssetEvent = {
       event_type: "sale",
@@ -277,7 +316,7 @@ describe("fetchEvents (OpenSea)", () => {
     await fetchEvents();
 
     const infoMessages = loggerMock.info.mock.calls.map((args) =>
-      args.filter((arg): arg is string => typeof arg === "string").join(" ")
+      args.map(String).join(" ")
     );
     const summaryLog = infoMessages.find((msg) =>
       msg.includes("[FetchSummary]")
@@ -0,0 +1,94 @@
+import statsFixture from "../fixtures/opensea/get-collection-stats.json";
+
+global.fetch = jest.fn();
+
+jest.mock("../../src/utils/logger", () => {
+  const base = {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  };
+  return {
+    logger: base,
+    prefixedLogger: () => base,
+    isDebugEnabled: () => false,
+    setLogLevel: jest.fn(),
+  };
+});
+
+const loadModules = async () => {
+  const { fetchCollectionStats } = await import("../../src/opensea");
+  const { collectionStore } = await import("../../src/utils/collection-store");
+  const { floorPriceETH } = await import("../../src/utils/collection-stats");
+  collectionStore.setSlug("glyphbots");
+  return { fetchCollectionStats, floorPriceETH };
+};
+
+const respondWith = (body: unknown) =>
+  (global.fetch as jest.Mock).mockResolvedValueOnce({
+    ok: true,
+    json: async () => body,
+  });
+
+describe("fetchCollectionStats", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    // Fresh modules reset the stats cache
+    jest.resetModules();
+    jest.useFakeTimers({ doNotFake: ["nextTick", "setImmediate"] });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    Reflect.deleteProperty(process.env, "FLOOR_REFRESH_SECONDS");
+  });
+
+  it("fetches stats and exposes the floor price", async () => {
+    const { fetchCollectionStats, floorPriceETH } = await loadModules();
+    respondWith(statsFixture);
+
+    const stats = await fetchCollectionStats();
+
+    expect(stats).toEqual(statsFixture);
+    expect(floorPriceETH()).toBe(0.000_52);
+    expect(global.fetch).toHaveBeenCalledWith(
+      "https://api.opensea.io/api/v2/collections/glyphbots/stats",
+      expect.objectContaining({ method: "GET" })
+    );
+  });
+
+  it("reuses stats until the refresh interval has passed", async () => {
+    process.env.FLOOR_REFRESH_SECONDS = "60";
+    const { fetchCollectionStats, floorPriceETH } = await loadModules();
+    respondWith(statsFixture);
+    await fetchCollectionStats();
+
+    jest.advanceTimersByTime(59_000);
+    await fetchCollectionStats();
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+
+    jest.advanceTimersByTime(2000);
+    respondWith({
+      ...statsFixture,
+      total: { ...statsFixture.total, floor_price: 0.001 },
+    });
+    await fetchCollectionStats();
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+    expect(floorPriceETH()).toBe(0.001);
+  });
+
+  it("keeps the last known stats when a refresh fails", async () => {
+    process.env.FLOOR_REFRESH_SECONDS = "1";
+    const { fetchCollectionStats, floorPriceETH } = await loadModules();
+    respondWith(statsFixture);
+    await fetchCollectionStats();
+
+    jest.advanceTimersByTime(2000);
+    (global.fetch as jest.Mock).mockRejectedValueOnce(
+      new Error("Network error")
+    );
+    expect(await fetchCollectionStats()).toEqual(statsFixture);
+    expect(floorPriceETH()).toBe(0.000_52);
+  });
+});
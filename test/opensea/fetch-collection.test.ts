@@ -13,6 +13,8 @@ jest.mock("../../src/utils/logger", () => {
   return {
     logger: base,
     prefixedLogger: () => base,
+    isDebugEnabled: () => false,
+    setLogLevel: jest.fn(),
   };
 });
 
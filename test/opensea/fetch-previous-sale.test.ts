@@ -0,0 +1,77 @@
+import type { OpenSeaAssetEvent } from "../../src/types";
+import { quickSaleEvent } from "../fixtures";
+import eventsByNFTFixture from "../fixtures/opensea/get-events-by-nft.json";
+
+global.fetch = jest.fn();
+
+jest.mock("../../src/utils/logger", () => {
+  const base = {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  };
+  return {
+    logger: base,
+    prefixedLogger: () => base,
+    isDebugEnabled: () => false,
+    setLogLevel: jest.fn(),
+  };
+});
+
+const TOKEN = "0xb6c2c2d2999c1b532e089a7ad4cb7f8c91cf5075";
+const FIXTURE_SALE_TX =
+  "0x16061ccc9df61d3b19ab62c5c5b3b33c9ae85337c221f3b2a54b99a690f34330";
+
+const saleOf = (overrides: Partial<OpenSeaAssetEvent>): OpenSeaAssetEvent => ({
+  ...quickSaleEvent("42"),
+  ...overrides,
+});
+
+describe("fetchPreviousSale", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    // Fresh modules reset the previous sale cache
+    jest.resetModules();
+    process.env.TOKEN_ADDRESS = TOKEN;
+    process.env.TWITTER_EVENTS = "sale";
+    (global.fetch as jest.Mock).mockResolvedValue({
+      ok: true,
+      json: async () => eventsByNFTFixture,
+    });
+  });
+
+  afterEach(() => {
+    Reflect.deleteProperty(process.env, "TOKEN_ADDRESS");
+    Reflect.deleteProperty(process.env, "TWITTER_EVENTS");
+  });
+
+  it("returns the token's sale before the given one and caches it", async () => {
+    const { fetchPreviousSale } = await import("../../src/opensea");
+    const sale = saleOf({ event_timestamp: 1_757_000_000, transaction: "0xb" });
+
+    const previous = await fetchPreviousSale(sale);
+    expect(previous?.transaction).toBe(FIXTURE_SALE_TX);
+    expect(previous?.payment?.quantity).toBe("699000000000000");
+    expect(global.fetch).toHaveBeenCalledWith(
+      `https://api.opensea.io/api/v2/events/chain/ethereum/contract/${TOKEN}/nfts/42?event_type=sale&before=1757000001`,
+      expect.objectContaining({ method: "GET" })
+    );
+
+    await fetchPreviousSale(sale);
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("skips the sale being posted", async () => {
+    const { fetchPreviousSale } = await import("../../src/opensea");
+    const sale = saleOf({
+      event_timestamp: 1_756_190_663,
+      transaction: FIXTURE_SALE_TX,
+    });
+
+    expect(await fetchPreviousSale(sale)).toBeUndefined();
+    // A first sale is cached too
+    await fetchPreviousSale(sale);
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+});
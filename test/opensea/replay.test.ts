@@ -0,0 +1,140 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { OpenSeaAssetEvent } from "../../src/types";
+
+jest.mock("../../src/utils/logger", () => {
+  const base = {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  };
+  return {
+    logger: base,
+    prefixedLogger: () => base,
+    isDebugEnabled: () => false,
+    setLogLevel: jest.fn(),
+  };
+});
+
+const saleAt = (timestamp: number): OpenSeaAssetEvent =>
+  ({
+    event_type: "sale",
+    event_timestamp: timestamp,
+    transaction: `0xtx${timestamp}`,
+    chain: "ethereum",
+    quantity: 1,
+    nft: {
+      identifier: String(timestamp),
+      contract: "0xtesttoken",
+      collection: "test-collection",
+    },
+  }) as OpenSeaAssetEvent;
+
+describe("replay", () => {
+  const ORIGINAL_ENV = { ...process.env };
+  let dir: string;
+
+  beforeEach(() => {
+    jest.resetModules();
+    process.env = { ...ORIGINAL_ENV };
+    process.env.TOKEN_ADDRESS = "0xTestToken";
+    process.env.TWITTER_EVENTS = "sale";
+    process.env.OPENSEA_BOT_INTERVAL = "60";
+    process.env.TWITTER_EVENT_GROUP_SETTLE_MS = "120000";
+    global.fetch = jest.fn() as typeof global.fetch;
+    dir = mkdtempSync(join(tmpdir(), "replay-"));
+  });
+
+  afterEach(() => {
+    process.env = ORIGINAL_ENV;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe("parseReplayArgs", () => {
+    it("takes one path and an optional output file", async () => {
+      const { parseReplayArgs } = await import("../../src/replay");
+      expect(parseReplayArgs(["dump.json", "--out", "posts.jsonl"])).toEqual({
+        path: "dump.json",
+        out: "posts.jsonl",
+      });
+    });
+
+    it("rejects a missing path", async () => {
+      const { parseReplayArgs } = await import("../../src/replay");
+      const { ConfigError } = await import("../../src/config");
+      expect(() => parseReplayArgs([])).toThrow(ConfigError);
+    });
+  });
+
+  it("replays pages in time order on a simulated clock", async () => {
+    // An API response lists newest first; a backfill export oldest first
+    writeFileSync(
+      join(dir, "a-later.json"),
+      JSON.stringify({ asset_events: [saleAt(1300), saleAt(1200)] })
+    );
+    writeFileSync(
+      join(dir, "b-earlier.json"),
+      JSON.stringify([saleAt(1000), saleAt(1010)])
+    );
+    // Overlaps the first page, so its one event is a duplicate
+    writeFileSync(join(dir, "c-overlap.json"), JSON.stringify([saleAt(1010)]));
+    writeFileSync(join(dir, "account.json"), JSON.stringify({ address: "0x" }));
+
+    const { runReplay } = await import("../../src/replay");
+    const renders: { at: number; timestamps: number[] }[] = [];
+    const summary = await runReplay(dir, (events) => {
+      renders.push({
+        at: Date.now(),
+        timestamps: events.map((e) => e.event_timestamp),
+      });
+      return Promise.resolve();
+    });
+
+    expect(renders).toEqual([
+      { at: 1_010_000, timestamps: [1000, 1010] },
+      { at: 1_070_000, timestamps: [] },
+      { at: 1_300_000, timestamps: [1200, 1300] },
+      // Pending groups are flushed after the settle time and a poll
+      { at: 1_480_000, timestamps: [] },
+    ]);
+    expect(summary).toEqual({
+      pages: 3,
+      events: 5,
+      filtered: 0,
+      duplicates: 1,
+      posts: 0,
+    });
+    expect(Date.now()).toBeGreaterThan(1_480_000);
+  });
+
+  it("renders a captured group sale as one tweet", async () => {
+    process.env.DRY_RUN = "true";
+    process.env.TWITTER_EVENT_GROUP_MIN_GROUP_SIZE = "2";
+    jest.mocked(global.fetch).mockResolvedValue({ ok: false } as Response);
+    const write = jest
+      .spyOn(process.stdout, "write")
+      .mockImplementation(() => true);
+    try {
+      const { runReplay } = await import("../../src/replay");
+      const { tweetEvents } = await import(
+        "../../src/platforms/twitter/twitter"
+      );
+      const summary = await runReplay(
+        join(__dirname, "..", "fixtures", "opensea", "events-sales-group.json"),
+        tweetEvents
+      );
+
+      const previews = write.mock.calls.map(([line]) =>
+        JSON.parse(String(line))
+      );
+      expect(previews).toHaveLength(1);
+      expect(previews[0]).toMatchObject({ platform: "twitter" });
+      expect(previews[0].text).toContain("purchased");
+      expect(summary.posts).toBe(1);
+    } finally {
+      write.mockRestore();
+    }
+  });
+});
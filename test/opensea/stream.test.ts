@@ -0,0 +1,346 @@
+import type { AddressInfo } from "node:net";
+import { type WebSocket, WebSocketServer } from "ws";
+import type {
+  OpenSeaAssetEvent,
+  OpenSeaStreamEvent,
+  OpenSeaStreamPayload,
+} from "../../src/types";
+
+jest.mock("../../src/utils/logger", () => {
+  const base = {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  };
+  return {
+    logger: base,
+    prefixedLogger: () => base,
+    isDebugEnabled: () => false,
+    setLogLevel: jest.fn(),
+  };
+});
+
+import { getConfig } from "../../src/config";
+import { assetEventFor, OpenSeaStream } from "../../src/opensea-stream";
+import { canonicalEventKeyFor } from "../../src/utils/canonical-events";
+import { collectionStore } from "../../src/utils/collection-store";
+
+const TOKEN = "0x1234560000000000000000000000000000000000";
+const BUYER = "0xb0b0000000000000000000000000000000000000";
+const SELLER = "0x5e11000000000000000000000000000000000000";
+const TX = "0xabc";
+const TOPIC = "collection:test-slug";
+const LATE_TOKEN = "0x7890000000000000000000000000000000000000";
+const LATE_TOPIC = "collection:late-slug";
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+const waitFor = async (condition: () => boolean, timeoutMs = 2000) => {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error("Timed out waiting for condition");
+    }
+    await sleep(10);
+  }
+};
+
+const streamMessage = (
+  event_type: string,
+  fields: Partial<OpenSeaStreamPayload>
+): OpenSeaStreamEvent => ({
+  event_type,
+  sent_at: "2025-08-26T06:44:24.000000+00:00",
+  payload: {
+    item: {
+      nft_id: `ethereum/${TOKEN}/7`,
+      permalink: `https://opensea.io/assets/ethereum/${TOKEN}/7`,
+      chain: { name: "ethereum" },
+      metadata: {
+        name: "Test #7",
+        image_url: "https://example.com/7.png",
+        animation_url: null,
+        metadata_url: null,
+      },
+    },
+    collection: { slug: "test-slug" },
+    event_timestamp: "2025-08-26T06:44:23.000000+00:00",
+    quantity: 1,
+    ...fields,
+  },
+});
+
+const SOLD = streamMessage("item_sold", {
+  maker: { address: SELLER },
+  taker: { address: BUYER },
+  sale_price: "1500000000000000000",
+  payment_token: {
+    address: "0x0000000000000000000000000000000000000000",
+    decimals: 18,
+    symbol: "ETH",
+  },
+  transaction: { hash: TX, timestamp: "2025-08-26T06:44:23.000000+00:00" },
+});
+
+type StubServer = {
+  url: string;
+  clients: WebSocket[];
+  received: { topic: string; event: string }[];
+  push: (topic: string, message: OpenSeaStreamEvent) => void;
+  close: () => Promise<void>;
+};
+
+// Minimal Phoenix endpoint: acknowledges joins and records every message
+const startStubServer = async (): Promise<StubServer> => {
+  const server = new WebSocketServer({ port: 0, host: "127.0.0.1" });
+  await new Promise((resolve) => server.once("listening", resolve));
+  const clients: WebSocket[] = [];
+  const received: { topic: string; event: string }[] = [];
+  server.on("connection", (socket) => {
+    clients.push(socket);
+    socket.on("message", (data) => {
+      const message = JSON.parse(String(data));
+      received.push({ topic: message.topic, event: message.event });
+      if (message.event === "phx_join" || message.event === "heartbeat") {
+        socket.send(
+          JSON.stringify({
+            topic: message.topic,
+            event: "phx_reply",
+            payload: { status: "ok", response: {} },
+            ref: message.ref,
+          })
+        );
+      }
+    });
+  });
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `ws://127.0.0.1:${port}/socket/websocket`,
+    clients,
+    received,
+    push: (topic, message) => {
+      for (const client of clients) {
+        client.send(
+          JSON.stringify({ topic, event: message.event_type, payload: message })
+        );
+      }
+    },
+    close: () =>
+      new Promise((resolve) => {
+        for (const client of clients) {
+          client.terminate();
+        }
+        server.close(() => resolve());
+      }),
+  };
+};
+
+describe("OpenSea Stream", () => {
+  beforeEach(() => {
+    process.env.TOKEN_ADDRESS = TOKEN;
+    process.env.TWITTER_EVENTS = "sale,mint";
+    collectionStore.setSlug("test-slug");
+  });
+
+  afterEach(() => {
+    Reflect.deleteProperty(process.env, "TOKEN_ADDRESS");
+    Reflect.deleteProperty(process.env, "TWITTER_EVENTS");
+  });
+
+  it("maps stream payloads onto polled event shapes", () => {
+    const sale = assetEventFor(SOLD);
+    expect(sale).toMatchObject({
+      event_type: "sale",
+      event_timestamp: 1_756_190_663,
+      transaction: TX,
+      buyer: BUYER,
+      seller: SELLER,
+      payment: { quantity: "1500000000000000000", symbol: "ETH" },
+      nft: { identifier: "7", contract: TOKEN, name: "Test #7" },
+    });
+    // The same key as the polled copy, so either copy dedupes the other
+    const polled = {
+      event_type: "sale",
+      event_timestamp: 1_756_190_663,
+      transaction: TX,
+      chain: "ethereum",
+      quantity: 1,
+      nft: { identifier: "7", contract: TOKEN },
+    } as OpenSeaAssetEvent;
+    expect(canonicalEventKeyFor(sale as OpenSeaAssetEvent)).toBe(
+      canonicalEventKeyFor(polled)
+    );
+
+    const mint = assetEventFor(
+      streamMessage("item_transferred", {
+        from_account: { address: "0x0000000000000000000000000000000000000000" },
+        to_account: { address: BUYER },
+        transaction: { hash: "0xdef", timestamp: "" },
+      })
+    );
+    expect(mint).toMatchObject({ event_type: "mint", to_address: BUYER });
+
+    const listing = assetEventFor(
+      streamMessage("item_listed", {
+        maker: { address: SELLER },
+        base_price: "2000000000000000000",
+        payment_token: { address: "0x0", decimals: 18, symbol: "ETH" },
+        order_hash: "0xorder",
+        expiration_date: "2025-09-26T06:44:23.000000+00:00",
+      })
+    );
+    expect(listing).toMatchObject({
+      event_type: "order",
+      order_type: "listing",
+      maker: SELLER,
+      order_hash: "0xorder",
+      expiration_date: 1_758_869_063,
+    });
+    expect(assetEventFor(streamMessage("item_metadata_updated", {}))).toBe(
+      undefined
+    );
+  });
+
+  it("joins the collection channel and posts new events once", async () => {
+    const server = await startStubServer();
+    const received: OpenSeaAssetEvent[][] = [];
+    const stream = new OpenSeaStream({
+      url: server.url,
+      collections: getConfig().collections,
+      reconnectMs: 10,
+      onEvents: (events) => received.push(events),
+    });
+    try {
+      await stream.start();
+      await waitFor(() => server.received.some((m) => m.topic === TOPIC));
+      expect(server.received[0]).toEqual({ topic: TOPIC, event: "phx_join" });
+
+      server.push(TOPIC, SOLD);
+      await waitFor(() => received.length === 1);
+      expect(received[0][0]).toMatchObject({
+        event_type: "sale",
+        buyer: BUYER,
+      });
+
+      // A repeat of the same sale and a listing (not enabled) are dropped
+      server.push(TOPIC, SOLD);
+      server.push(
+        TOPIC,
+        streamMessage("item_listed", { order_hash: "0xorder" })
+      );
+      await sleep(100);
+      expect(received).toHaveLength(1);
+    } finally {
+      stream.stop();
+      await server.close();
+    }
+  });
+
+  it("skips payloads without an item and keeps streaming", async () => {
+    const server = await startStubServer();
+    const received: OpenSeaAssetEvent[][] = [];
+    const stream = new OpenSeaStream({
+      url: server.url,
+      collections: getConfig().collections,
+      reconnectMs: 10,
+      onEvents: (events) => received.push(events),
+    });
+    try {
+      await stream.start();
+      await waitFor(() => server.received.some((m) => m.topic === TOPIC));
+
+      // Collection offers name no item, and channel errors carry no payload
+      const { item: _item, ...itemless } = SOLD.payload;
+      server.push(TOPIC, {
+        ...SOLD,
+        event_type: "collection_offer",
+        payload: itemless,
+      });
+      server.push(TOPIC, { ...SOLD, payload: itemless });
+      server.clients[0].send(
+        JSON.stringify({ topic: TOPIC, event: "phx_error", payload: null })
+      );
+      server.push(TOPIC, {
+        ...SOLD,
+        payload: {
+          ...SOLD.payload,
+          transaction: { hash: "0xnext", timestamp: "" },
+        },
+      });
+
+      await waitFor(() => received.length === 1);
+      expect(received[0][0]).toMatchObject({ transaction: "0xnext" });
+      expect(server.clients).toHaveLength(1);
+    } finally {
+      stream.stop();
+      await server.close();
+    }
+  });
+
+  it("reconnects and rejoins after the connection drops", async () => {
+    const server = await startStubServer();
+    const stream = new OpenSeaStream({
+      url: server.url,
+      collections: getConfig().collections,
+      reconnectMs: 10,
+      onEvents: jest.fn(),
+    });
+    try {
+      await stream.start();
+      await waitFor(() => server.clients.length === 1);
+      server.clients[0].terminate();
+
+      await waitFor(() => server.clients.length === 2);
+      await waitFor(
+        () => server.received.filter((m) => m.event === "phx_join").length === 2
+      );
+    } finally {
+      stream.stop();
+      await server.close();
+    }
+  });
+
+  it("joins the other channels and retries failed slug lookups", async () => {
+    process.env.COLLECTIONS = JSON.stringify([
+      { tokenAddress: TOKEN },
+      { tokenAddress: LATE_TOKEN },
+    ]);
+    // The late collection's first slug lookup fails, the retry succeeds
+    const originalFetch = global.fetch;
+    const lookup = jest
+      .fn<Promise<Response>, Parameters<typeof fetch>>()
+      .mockResolvedValueOnce({
+        ok: false,
+        status: 503,
+        statusText: "Service Unavailable",
+      } as Response)
+      .mockResolvedValue({
+        ok: true,
+        json: async () => ({ collection: "late-slug" }),
+      } as Response);
+    global.fetch = lookup as typeof global.fetch;
+    const server = await startStubServer();
+    const stream = new OpenSeaStream({
+      url: server.url,
+      collections: getConfig().collections,
+      reconnectMs: 10,
+      onEvents: jest.fn(),
+    });
+    try {
+      await stream.start();
+      await waitFor(() => server.received.some((m) => m.topic === LATE_TOPIC));
+      expect(
+        server.received
+          .filter((m) => m.event === "phx_join")
+          .map((m) => m.topic)
+      ).toEqual([TOPIC, LATE_TOPIC]);
+      expect(lookup).toHaveBeenCalledTimes(2);
+    } finally {
+      stream.stop();
+      global.fetch = originalFetch;
+      Reflect.deleteProperty(process.env, "COLLECTIONS");
+      await server.close();
+    }
+  });
+});
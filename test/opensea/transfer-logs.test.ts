@@ -0,0 +1,367 @@
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { Interface, type Log, toBeHex } from "ethers";
+
+global.fetch = jest.fn();
+
+jest.mock("../../src/utils/logger", () => {
+  const base = {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  };
+  return {
+    logger: base,
+    prefixedLogger: () => base,
+    isDebugEnabled: () => false,
+    setLogLevel: jest.fn(),
+  };
+});
+
+const TOKEN = "0x1234560000000000000000000000000000000000";
+const NULL = "0x0000000000000000000000000000000000000000";
+const ALICE = "0xa11ce00000000000000000000000000000000000";
+const BOB = "0xb0b0000000000000000000000000000000000000";
+const HASH = `0x${"ab".repeat(32)}`;
+const BLOCK_TIME = 1_760_000_000;
+
+const iface = new Interface([
+  "event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)",
+  "event TransferBatch(address indexed operator, address indexed from, address indexed to, uint256[] ids, uint256[] values)",
+  "event ERC20Transfer(address indexed from, address indexed to, uint256 value)",
+]);
+
+type RpcLog = {
+  address: string;
+  topics: string[];
+  data: string;
+  blockNumber: string;
+  transactionHash: string;
+  logIndex: string;
+};
+
+const rpcLog = (
+  blockNumber: number,
+  tx: string,
+  name: string,
+  args: unknown[]
+): RpcLog => {
+  const encoded = iface.encodeEventLog(name, args);
+  return {
+    address: TOKEN,
+    topics: encoded.topics,
+    data: encoded.data,
+    blockNumber: toBeHex(blockNumber),
+    transactionHash: tx,
+    logIndex: "0x0",
+  };
+};
+
+const asLog = (entry: RpcLog) =>
+  ({
+    ...entry,
+    blockNumber: Number(entry.blockNumber),
+  }) as unknown as Log;
+
+// Minimal JSON-RPC node serving a fixed chain of Transfer logs
+const startRpcServer = async (chain: { head: number; logs: RpcLog[] }) => {
+  const answer = ({
+    method,
+    params,
+  }: {
+    method: string;
+    params: unknown[];
+  }) => {
+    switch (method) {
+      case "eth_chainId":
+        return "0x1";
+      case "eth_blockNumber":
+        return toBeHex(chain.head);
+      case "eth_getLogs": {
+        const [{ fromBlock, toBlock }] = params as {
+          fromBlock: string;
+          toBlock: string;
+        }[];
+        return chain.logs
+          .filter(
+            (entry) =>
+              Number(entry.blockNumber) >= Number(fromBlock) &&
+              Number(entry.blockNumber) <= Number(toBlock)
+          )
+          .map((entry) => ({
+            ...entry,
+            blockHash: HASH,
+            transactionIndex: "0x0",
+            removed: false,
+          }));
+      }
+      case "eth_getBlockByNumber": {
+        const number = Number(params[0]);
+        return {
+          hash: HASH,
+          parentHash: HASH,
+          number: toBeHex(number),
+          timestamp: toBeHex(BLOCK_TIME + number * 12),
+          difficulty: "0x0",
+          gasLimit: "0x0",
+          gasUsed: "0x0",
+          extraData: "0x",
+          transactions: [],
+        };
+      }
+      default:
+        throw new Error(`Unexpected method ${method}`);
+    }
+  };
+  const server: Server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => {
+      body += chunk;
+    });
+    req.on("end", () => {
+      const request = JSON.parse(body);
+      const reply = (r: { id: number; method: string; params: unknown[] }) => ({
+        jsonrpc: "2.0",
+        id: r.id,
+        result: answer(r),
+      });
+      res.setHeader("content-type", "application/json");
+      res.end(
+        JSON.stringify(
+          Array.isArray(request) ? request.map(reply) : reply(request)
+        )
+      );
+    });
+  });
+  await new Promise<void>((resolve) =>
+    server.listen(0, "127.0.0.1", () => resolve())
+  );
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise((resolve) => server.close(resolve)),
+  };
+};
+
+const loadModules = async () => {
+  const { fetchTransferEvents, transferEventsFromLog } = await import(
+    "../../src/transfer-logs"
+  );
+  const { collectionStore } = await import("../../src/utils/collection-store");
+  const { getDefaultEventStateStore } = await import(
+    "../../src/utils/event-state"
+  );
+  const { classifyTransfer } = await import("../../src/utils/utils");
+  collectionStore.setSlug("test-collection");
+  return {
+    fetchTransferEvents,
+    transferEventsFromLog,
+    getDefaultEventStateStore,
+    classifyTransfer,
+  };
+};
+
+describe("transfer logs", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    // Fresh modules reset the state store and its last block
+    jest.resetModules();
+    process.env.TOKEN_ADDRESS = TOKEN;
+    process.env.TWITTER_EVENTS = "mint,burn";
+    process.env.RPC_CONFIRMATIONS = "0";
+    (global.fetch as jest.Mock).mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        nft: { identifier: "7", contract: TOKEN, name: "Test #7" },
+      }),
+    });
+  });
+
+  afterEach(() => {
+    for (const name of [
+      "TOKEN_ADDRESS",
+      "TWITTER_EVENTS",
+      "RPC_URL",
+      "RPC_CONFIRMATIONS",
+      "RPC_START_BLOCK",
+    ]) {
+      Reflect.deleteProperty(process.env, name);
+    }
+  });
+
+  it("converts ERC-721 and ERC-1155 logs into transfer events", async () => {
+    const { transferEventsFromLog, classifyTransfer } = await loadModules();
+
+    const [mint] = transferEventsFromLog(
+      asLog(rpcLog(10, HASH, "Transfer", [NULL, ALICE, 7])),
+      BLOCK_TIME
+    );
+    expect(mint).toMatchObject({
+      event_type: "transfer",
+      event_timestamp: BLOCK_TIME,
+      transaction: HASH,
+      quantity: 1,
+      nft: { identifier: "7", contract: TOKEN },
+    });
+    expect(classifyTransfer(mint)).toBe("mint");
+
+    const batch = transferEventsFromLog(
+      asLog(
+        rpcLog(10, HASH, "TransferBatch", [ALICE, ALICE, NULL, [1, 2], [3, 4]])
+      ),
+      BLOCK_TIME
+    );
+    expect(batch.map((e) => [e.nft?.identifier, e.quantity])).toEqual([
+      ["1", 3],
+      ["2", 4],
+    ]);
+    expect(classifyTransfer(batch[0])).toBe("burn");
+
+    // ERC-20 Transfer logs share the topic but carry no token id
+    const erc20 = rpcLog(10, HASH, "ERC20Transfer", [ALICE, BOB, 5]);
+    erc20.topics[0] = iface.getEvent("Transfer")?.topicHash ?? "";
+    expect(transferEventsFromLog(asLog(erc20), BLOCK_TIME)).toEqual([]);
+  });
+
+  it("reads nothing when no transfer events are enabled", async () => {
+    process.env.TWITTER_EVENTS = "sale";
+    process.env.RPC_URL = "http://127.0.0.1:1";
+    const { fetchTransferEvents, getDefaultEventStateStore } =
+      await loadModules();
+    expect(await fetchTransferEvents()).toEqual([]);
+    expect(getDefaultEventStateStore().getLastBlock()).toBeNull();
+  });
+
+  it("starts at the chain head on a first run", async () => {
+    const rpc = await startRpcServer({ head: 100, logs: [] });
+    process.env.RPC_URL = rpc.url;
+    try {
+      const { fetchTransferEvents, getDefaultEventStateStore } =
+        await loadModules();
+      expect(await fetchTransferEvents()).toEqual([]);
+      expect(getDefaultEventStateStore().getLastBlock()).toBe(100);
+    } finally {
+      await rpc.close();
+    }
+  });
+
+  it("reads each new block range once", async () => {
+    const chain = {
+      head: 12,
+      logs: [
+        rpcLog(11, `0x${"01".repeat(32)}`, "Transfer", [NULL, ALICE, 7]),
+        rpcLog(12, `0x${"02".repeat(32)}`, "Transfer", [ALICE, BOB, 7]),
+      ],
+    };
+    const rpc = await startRpcServer(chain);
+    process.env.RPC_URL = rpc.url;
+    process.env.RPC_START_BLOCK = "10";
+    try {
+      const { fetchTransferEvents, getDefaultEventStateStore } =
+        await loadModules();
+
+      const events = await fetchTransferEvents();
+      expect(events).toHaveLength(2);
+      expect(events[0]).toMatchObject({
+        from_address: NULL,
+        to_address: ALICE,
+        event_timestamp: BLOCK_TIME + 11 * 12,
+        nft: { name: "Test #7" },
+      });
+      expect(events[1]).toMatchObject({ from_address: ALICE, to_address: BOB });
+      expect(getDefaultEventStateStore().getLastBlock()).toBe(12);
+
+      expect(await fetchTransferEvents()).toEqual([]);
+
+      // Rereading the same blocks posts nothing new
+      getDefaultEventStateStore().setLastBlock(10);
+      expect(await fetchTransferEvents()).toEqual([]);
+
+      // ethers shares identical RPC calls made within 250ms
+      await new Promise((resolve) => setTimeout(resolve, 300));
+      chain.head = 13;
+      chain.logs.push(
+        rpcLog(13, `0x${"03".repeat(32)}`, "Transfer", [NULL, BOB, 8])
+      );
+      const mints = await fetchTransferEvents();
+      expect(mints).toHaveLength(1);
+      expect(mints[0].to_address).toBe(BOB);
+    } finally {
+      await rpc.close();
+    }
+  });
+
+  it("keeps the block range when processing fails", async () => {
+    const rpc = await startRpcServer({
+      head: 11,
+      logs: [rpcLog(11, `0x${"01".repeat(32)}`, "Transfer", [NULL, ALICE, 7])],
+    });
+    process.env.RPC_URL = rpc.url;
+    process.env.RPC_START_BLOCK = "10";
+    // Fails the first processing pass and defers to the real module after.
+    // A proxy keeps the lookups lazy, as opensea.ts is imported in a cycle.
+    jest.doMock("../../src/opensea", () => {
+      const actual = jest.requireActual("../../src/opensea");
+      const processIngestedEvents = jest
+        .fn()
+        .mockRejectedValueOnce(new Error("enrichment failed"))
+        .mockImplementation(actual.processIngestedEvents);
+      return new Proxy(actual, {
+        get: (target, name) =>
+          name === "processIngestedEvents"
+            ? processIngestedEvents
+            : target[name],
+      });
+    });
+    try {
+      const { fetchTransferEvents, getDefaultEventStateStore } =
+        await loadModules();
+
+      expect(await fetchTransferEvents()).toEqual([]);
+      expect(getDefaultEventStateStore().getLastBlock()).toBeNull();
+
+      const events = await fetchTransferEvents();
+      expect(events).toHaveLength(1);
+      expect(events[0].to_address).toBe(ALICE);
+      expect(getDefaultEventStateStore().getLastBlock()).toBe(11);
+    } finally {
+      jest.dontMock("../../src/opensea");
+      await rpc.close();
+    }
+  });
+
+  it("does not dedupe the events of a range whose NFTs failed to load", async () => {
+    const rpc = await startRpcServer({
+      head: 11,
+      logs: [rpcLog(11, `0x${"01".repeat(32)}`, "Transfer", [NULL, ALICE, 7])],
+    });
+    process.env.RPC_URL = rpc.url;
+    process.env.RPC_START_BLOCK = "10";
+    jest.doMock("../../src/opensea", () => {
+      const actual = jest.requireActual("../../src/opensea");
+      const fetchNFT = jest
+        .fn()
+        .mockRejectedValueOnce(new Error("NFT lookup failed"))
+        .mockImplementation(actual.fetchNFT);
+      return new Proxy(actual, {
+        get: (target, name) => (name === "fetchNFT" ? fetchNFT : target[name]),
+      });
+    });
+    try {
+      const { fetchTransferEvents, getDefaultEventStateStore } =
+        await loadModules();
+
+      expect(await fetchTransferEvents()).toEqual([]);
+      expect(getDefaultEventStateStore().getLastBlock()).toBeNull();
+
+      const events = await fetchTransferEvents();
+      expect(events).toHaveLength(1);
+      expect(events[0].nft?.name).toBe("Test #7");
+      expect(getDefaultEventStateStore().getLastBlock()).toBe(11);
+    } finally {
+      jest.dontMock("../../src/opensea");
+      await rpc.close();
+    }
+  });
+});
@@ -0,0 +1,191 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { ChatInputCommandInteraction } from "discord.js";
+import type { CollectionConfig } from "../../src/config";
+import type { OpenSeaCollectionStats } from "../../src/types";
+import { createOpenSeaMock, minimalNFT } from "../fixtures";
+import { createSaleEvent, TEST_BUYER_1, TEST_SELLER_1 } from "../helpers";
+
+jest.mock("../../src/utils/logger", () => {
+  const base = {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  };
+  return {
+    logger: base,
+    prefixedLogger: () => base,
+    isDebugEnabled: () => false,
+    setLogLevel: jest.fn(),
+  };
+});
+
+jest.mock("../../src/opensea", () => ({
+  ...createOpenSeaMock(
+    async (address: string) => `user:${address.slice(0, 6)}`
+  ),
+  fetchCollection: jest.fn(async () => ({
+    total_supply: 10_000,
+    rarity: { max_rank: 10_000 },
+  })),
+  fetchTraitCounts: jest.fn(async () => ({
+    categories: {},
+    counts: { Background: { Blue: 1200 }, Hat: { Crown: 50 } },
+  })),
+}));
+
+import {
+  activityEmbed,
+  floorEmbed,
+  lookupCommands,
+  nftEmbed,
+  statsEmbed,
+} from "../../src/platforms/discord/lookups";
+import { runWithCollection } from "../../src/utils/collection-store";
+import { EventHistory, historyEventFor } from "../../src/utils/event-history";
+
+const COLLECTION = {
+  chain: "ethereum",
+  tokenAddress: "0x123",
+} as CollectionConfig;
+
+const SALE_LINE = /^sale · #5 · 1 ETH · /;
+
+const STATS: OpenSeaCollectionStats = {
+  total: {
+    volume: 1234.567_89,
+    sales: 4321,
+    num_owners: 5000,
+    market_cap: 0,
+    floor_price: 1.5,
+    floor_price_symbol: "ETH",
+    average_price: 0.285_71,
+  },
+  intervals: [
+    {
+      interval: "one_day",
+      volume: 12,
+      volume_diff: 0,
+      volume_change: 0,
+      sales: 6,
+      sales_diff: 0,
+      average_price: 2,
+    },
+  ],
+};
+
+const interactionWith = (options: Record<string, string>) =>
+  ({
+    options: { getString: (name: string) => options[name] ?? null },
+  }) as unknown as ChatInputCommandInteraction;
+
+const command = (name: string) => {
+  const found = lookupCommands.find((c) => c.definition().name === name);
+  if (!found) {
+    throw new Error(`No /${name} command`);
+  }
+  return found;
+};
+
+describe("discord lookups", () => {
+  it("shows a token's owner, rank and rarest traits", async () => {
+    const nft = minimalNFT("42", {
+      name: "Token #42",
+      owners: [
+        { address: TEST_BUYER_1, quantity: 1 },
+        { address: TEST_SELLER_1, quantity: 1 },
+      ],
+      traits: [
+        {
+          trait_type: "Background",
+          value: "Blue",
+          display_type: null,
+          max_value: null,
+        },
+        {
+          trait_type: "Hat",
+          value: "Crown",
+          display_type: null,
+          max_value: null,
+        },
+      ],
+      rarity: { strategy_id: "openrarity", strategy_version: "1", rank: 7 },
+    });
+    const { embed, attachment } = await nftEmbed(nft);
+    expect(attachment).toBeNull();
+    expect(embed.data.title).toBe("Token #42");
+    expect(embed.data.fields).toEqual([
+      {
+        name: "Owner",
+        value: `user:${TEST_BUYER_1.slice(0, 6)} and 1 more`,
+        inline: true,
+      },
+      { name: "Rarity", value: "Rank #7 / 10,000", inline: true },
+      { name: "Traits", value: "Hat: Crown (0.5%)\nBackground: Blue (12%)" },
+    ]);
+  });
+
+  it("summarizes the floor and collection stats", () => {
+    expect(floorEmbed(STATS).embed.data.fields).toEqual([
+      { name: "Floor", value: "1.5 ETH", inline: true },
+      { name: "24h average sale", value: "2 ETH", inline: true },
+    ]);
+    const { embed } = statsEmbed(STATS);
+    expect(embed.data.title).toBe("Stats: test-collection");
+    expect(embed.data.url).toBe("https://opensea.io/collection/test");
+    expect(
+      embed.data.fields?.map(({ name, value }) => `${name}: ${value}`)
+    ).toEqual([
+      "Floor: 1.5 ETH",
+      "Owners: 5,000",
+      "Sales: 4,321",
+      "Volume: 1,234.5679 ETH",
+      "Average sale: 0.2857 ETH",
+      "24h volume: 12 ETH (6 sales)",
+    ]);
+  });
+
+  it("lists a wallet's recorded activity", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "lookups-"));
+    try {
+      const history = new EventHistory(join(dir, "history.sqlite"));
+      await history.record([
+        runWithCollection(COLLECTION, () =>
+          historyEventFor({
+            ...createSaleEvent(
+              "5",
+              TEST_BUYER_1,
+              TEST_SELLER_1,
+              "1000000000000000000"
+            ),
+            event_timestamp: Math.floor(Date.now() / 1000) - 60,
+          })
+        ),
+      ]);
+      const { embed } = await runWithCollection(COLLECTION, () =>
+        activityEmbed(TEST_BUYER_1, history)
+      );
+      expect(embed.data.description).toMatch(SALE_LINE);
+      const empty = await runWithCollection(COLLECTION, () =>
+        activityEmbed("0x2222222222222222222222222222222222222222", history)
+      );
+      expect(empty.embed.data.description).toBe("No activity recorded yet");
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("rejects malformed token ids and wallets", async () => {
+    await expect(
+      command("nft").execute(interactionWith({ id: "abc" }))
+    ).rejects.toThrow('"abc" is not a token id');
+    await expect(
+      command("lastsale").execute(interactionWith({ id: "#1x" }))
+    ).rejects.toThrow('"1x" is not a token id');
+    await expect(
+      command("activity").execute(interactionWith({ wallet: "0x123" }))
+    ).rejects.toThrow('"0x123" is not a wallet address');
+  });
+});
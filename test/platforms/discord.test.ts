@@ -1,3 +1,6 @@
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import { jest } from "@jest/globals";
 import {
   clearChannelsMap,
@@ -11,6 +14,7 @@ import {
   quickListingEvent,
   quickMintEvent,
   quickOfferEvent,
+  quickSaleEvent,
   setupDiscordEnv,
   TEST_ADDRESS_1,
   TEST_ADDRESS_2,
@@ -72,3 +76,174 @@ describe("discord routing", () => {
     expect(channelsMap.l1.send).toHaveBeenCalled();
   });
 });
+
+describe("discord multi-collection routing", () => {
+  beforeEach(() => {
+    clearChannelsMap(channelsMap);
+  });
+
+  test("routes each collection to its own channels", async () => {
+    const { runWithCollection } = await import(
+      "../../src/utils/collection-store"
+    );
+    const base = {
+      chain: "ethereum",
+      minOfferETH: "0",
+      twitterEvents: [],
+      telegramChats: [],
+      webhooks: [],
+    };
+    const first = {
+      ...base,
+      tokenAddress: "0xa",
+      discordChannels: [{ channelId: "c1", events: ["mint" as const] }],
+    };
+    const second = {
+      ...base,
+      tokenAddress: "0xb",
+      discordChannels: [{ channelId: "c2", events: ["mint" as const] }],
+    };
+
+    await runWithCollection(first, () =>
+      messageEvents([quickMintEvent("1", TEST_ADDRESS_1)])
+    );
+    expect(channelsMap.c1.send).toHaveBeenCalledTimes(1);
+    expect(channelsMap.c2).toBeUndefined();
+
+    await runWithCollection(second, () =>
+      messageEvents([quickMintEvent("1", TEST_ADDRESS_1)])
+    );
+    expect(channelsMap.c2.send).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("discord channel filters", () => {
+  beforeEach(() => {
+    clearChannelsMap(channelsMap);
+  });
+
+  test("routes events only to channels whose filters match", async () => {
+    const { runWithCollection } = await import(
+      "../../src/utils/collection-store"
+    );
+    const collection = {
+      tokenAddress: "0xa",
+      chain: "ethereum",
+      minOfferETH: "0",
+      twitterEvents: [],
+      telegramChats: [],
+      webhooks: [],
+      discordChannels: [
+        {
+          channelId: "whales",
+          events: ["sale" as const],
+          filters: { minPriceETH: 5 },
+        },
+        {
+          channelId: "genesis",
+          events: ["sale" as const],
+          filters: { tokenIds: [{ min: 0n, max: 999n }] },
+        },
+      ],
+    };
+
+    await runWithCollection(collection, () =>
+      messageEvents([
+        quickSaleEvent("10", TEST_ADDRESS_1, 1, "6000000000000000000"),
+      ])
+    );
+    expect(channelsMap.whales.send).toHaveBeenCalledTimes(1);
+    expect(channelsMap.genesis.send).toHaveBeenCalledTimes(1);
+
+    await runWithCollection(collection, () =>
+      messageEvents([quickSaleEvent("2000", TEST_ADDRESS_2, 2)])
+    );
+    expect(channelsMap.whales.send).toHaveBeenCalledTimes(1);
+    expect(channelsMap.genesis.send).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("discord pending posts", () => {
+  beforeEach(() => {
+    clearChannelsMap(channelsMap);
+  });
+
+  test("retries failed channels on the next poll without resending", async () => {
+    const { runWithCollection } = await import(
+      "../../src/utils/collection-store"
+    );
+    const collection = {
+      tokenAddress: "0xretry",
+      chain: "ethereum",
+      minOfferETH: "0",
+      twitterEvents: [],
+      telegramChats: [],
+      webhooks: [],
+      discordChannels: [
+        { channelId: "ok", events: ["sale" as const] },
+        { channelId: "flaky", events: ["sale" as const] },
+      ],
+    };
+    const channel = (id: string): MockChannel => ({
+      send: jest.fn(),
+      id,
+      isTextBased: () => true,
+      isSendable: () => true,
+    });
+    channelsMap.ok = channel("ok");
+    channelsMap.flaky = channel("flaky");
+    channelsMap.flaky.send.mockImplementationOnce(() =>
+      Promise.reject(new Error("Discord unavailable"))
+    );
+
+    await runWithCollection(collection, () =>
+      messageEvents([quickSaleEvent("7", TEST_ADDRESS_1, 1)])
+    );
+    expect(channelsMap.ok.send).toHaveBeenCalledTimes(1);
+    expect(channelsMap.flaky.send).toHaveBeenCalledTimes(1);
+
+    // Nothing new from OpenSea: the pending post is retried where it failed
+    await runWithCollection(collection, () => messageEvents([]));
+    expect(channelsMap.ok.send).toHaveBeenCalledTimes(1);
+    expect(channelsMap.flaky.send).toHaveBeenCalledTimes(2);
+
+    await runWithCollection(collection, () => messageEvents([]));
+    expect(channelsMap.flaky.send).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("discord dry run", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    clearChannelsMap(channelsMap);
+    dir = mkdtempSync(join(tmpdir(), "dry-run-"));
+    process.env.DISCORD_EVENTS = "123=sale";
+    process.env.DRY_RUN = "true";
+    process.env.DRY_RUN_FILE = join(dir, "previews.jsonl");
+  });
+
+  afterEach(() => {
+    Reflect.deleteProperty(process.env, "DRY_RUN");
+    Reflect.deleteProperty(process.env, "DRY_RUN_FILE");
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("writes the rendered embed instead of sending it", async () => {
+    await messageEvents([quickSaleEvent("8", TEST_ADDRESS_1, 1)]);
+    for (const channel of Object.values(channelsMap)) {
+      expect(channel.send).not.toHaveBeenCalled();
+    }
+
+    const lines = readFileSync(join(dir, "previews.jsonl"), "utf8")
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    expect(lines).toHaveLength(1);
+    expect(lines[0]).toMatchObject({
+      platform: "discord",
+      channelIds: ["123"],
+      embed: { title: expect.any(String) },
+    });
+  });
+});
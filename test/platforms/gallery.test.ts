@@ -0,0 +1,122 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { jest } from "@jest/globals";
+import { parseGalleryArgs, renderGallery, runGallery } from "../../src/gallery";
+import type { PreviewLine } from "../../src/utils/dry-run";
+
+jest.mock("../../src/utils/logger", () => {
+  const base = {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  };
+  return {
+    logger: base,
+    prefixedLogger: () => base,
+    isDebugEnabled: () => false,
+    setLogLevel: jest.fn(),
+  };
+});
+
+const EMBED: PreviewLine = {
+  at: "2025-08-01T00:00:00.000Z",
+  collection: "test-collection",
+  platform: "discord",
+  channelIds: ["123"],
+  embed: {
+    title: "Purchased <Ape> #1",
+    url: "https://opensea.io/assets/ethereum/0xabc/1",
+    color: 0x62_b7_78,
+    fields: [
+      { name: "By", value: "[alice](https://opensea.io/alice)", inline: true },
+      { name: "Price", value: "**1 ETH**", inline: true },
+    ],
+    image: { url: "attachment://nft-1.png" },
+  },
+  attachments: ["nft-1.png"],
+};
+
+const TWEET: PreviewLine = {
+  at: "2025-08-01T00:00:00.000Z",
+  collection: "test-collection",
+  platform: "twitter",
+  text: "#1 purchased for 1 ETH by alice\nhttps://opensea.io/assets/1",
+  images: ["https://img.example/1.png", "https://img.example/2.png"],
+};
+
+describe("preview gallery", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "gallery-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("parses the input and output paths", () => {
+    expect(parseGalleryArgs(["previews.jsonl"])).toEqual({
+      path: "previews.jsonl",
+      out: "gallery.html",
+    });
+    expect(parseGalleryArgs(["events/", "--out", "out/page.html"])).toEqual({
+      path: "events/",
+      out: "out/page.html",
+    });
+    expect(() => parseGalleryArgs([])).toThrow("expected one");
+  });
+
+  it("renders embeds with their color, fields and attachments", () => {
+    const html = renderGallery([EMBED]);
+    expect(html).toContain("border-color: #62b778");
+    expect(html).toContain("Purchased &lt;Ape&gt; #1");
+    expect(html).toContain('<a href="https://opensea.io/alice">alice</a>');
+    expect(html).toContain("<strong>1 ETH</strong>");
+    expect(html).toContain('<div class="image attachment">📎 nft-1.png</div>');
+    expect(html).toContain("Discord · #123 · test-collection");
+    // No run timestamps, so pages from two runs diff cleanly
+    expect(html).not.toContain(EMBED.at);
+  });
+
+  it("renders tweet cards with their text and images", () => {
+    const html = renderGallery([TWEET]);
+    expect(html).toContain("by alice<br>");
+    expect(html).toContain(
+      '<a href="https://opensea.io/assets/1">https://opensea.io/assets/1</a>'
+    );
+    expect(html).toContain('class="media media-2"');
+    expect(html).toContain('src="https://img.example/2.png"');
+    expect(html).toContain("0 Discord embeds, 1 tweet");
+  });
+
+  it("writes a page for dry-run output without replaying", async () => {
+    const previews = join(dir, "previews.jsonl");
+    writeFileSync(
+      previews,
+      `${JSON.stringify(EMBED)}\nnot json\n${JSON.stringify(TWEET)}\n`
+    );
+    const out = join(dir, "page", "gallery.html");
+    const replay = jest.fn(() => Promise.resolve());
+
+    expect(await runGallery({ path: previews, out }, replay)).toBe(2);
+    expect(replay).not.toHaveBeenCalled();
+    expect(readFileSync(out, "utf8")).toContain("1 Discord embed, 1 tweet");
+  });
+
+  it("replays events files into output next to the page", async () => {
+    const out = join(dir, "gallery.html");
+    const replay = jest.fn((previewsFile: string) => {
+      writeFileSync(previewsFile, `${JSON.stringify(TWEET)}\n`, { flag: "a" });
+      return Promise.resolve();
+    });
+
+    expect(await runGallery({ path: join(dir, "events"), out }, replay)).toBe(
+      1
+    );
+    expect(replay).toHaveBeenCalledWith(join(dir, "gallery.jsonl"));
+    expect(readFileSync(out, "utf8")).toContain("0 Discord embeds, 1 tweet");
+  });
+});
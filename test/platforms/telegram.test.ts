@@ -0,0 +1,173 @@
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { jest } from "@jest/globals";
+import type { CollectionConfig } from "../../src/config";
+import {
+  createOpenSeaMock,
+  createUtilsMock,
+  minimalNFT,
+  quickSaleEvent,
+  TEST_ADDRESS_1,
+  TEST_ADDRESS_2,
+} from "../fixtures";
+
+jest.mock("../../src/opensea", () =>
+  createOpenSeaMock(async (addr: string) => `addr:${addr.slice(0, 6)}`)
+);
+jest.mock("../../src/utils/utils", () => createUtilsMock());
+
+import {
+  classifyTelegramError,
+  messageTelegram,
+} from "../../src/platforms/telegram/telegram";
+import { TelegramApiError } from "../../src/platforms/telegram/utils";
+import { runWithCollection } from "../../src/utils/collection-store";
+
+type StubRequest = { path: string; body: string };
+
+// Local stand-in for the Telegram Bot API
+const requests: StubRequest[] = [];
+let server: Server;
+
+const SETTLE_MS = 50;
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+const waitForRequests = async (count: number) => {
+  const deadline = Date.now() + 2000;
+  while (requests.length < count && Date.now() < deadline) {
+    await sleep(10);
+  }
+};
+
+const collection = (
+  chats: CollectionConfig["telegramChats"]
+): CollectionConfig => ({
+  tokenAddress: "0xtelegram",
+  chain: "ethereum",
+  minOfferETH: "0",
+  discordChannels: [],
+  twitterEvents: [],
+  telegramChats: chats,
+  webhooks: [],
+});
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => {
+      body += chunk;
+    });
+    req.on("end", () => {
+      requests.push({ path: req.url ?? "", body });
+      res.setHeader("Content-Type", "application/json");
+      // Keep-alive sockets from fetch would hold the test process open
+      res.setHeader("Connection", "close");
+      res.end(JSON.stringify({ ok: true, result: {} }));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  const { port } = server.address() as AddressInfo;
+  process.env.TELEGRAM_BOT_TOKEN = "test-token";
+  process.env.TELEGRAM_API_URL = `http://127.0.0.1:${port}`;
+  process.env.TELEGRAM_QUEUE_DELAY_MS = "0";
+  process.env.TELEGRAM_EVENT_GROUP_SETTLE_MS = String(SETTLE_MS);
+  process.env.TELEGRAM_EVENT_GROUP_MIN_GROUP_SIZE = "2";
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  requests.length = 0;
+});
+
+describe("telegram", () => {
+  it("sends routed events to each configured chat", async () => {
+    const config = collection([
+      { chatId: "-1001", events: ["sale"] },
+      { chatId: "@listings", events: ["listing"] },
+    ]);
+
+    await runWithCollection(config, () =>
+      messageTelegram([quickSaleEvent("1", TEST_ADDRESS_1)])
+    );
+    await waitForRequests(1);
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].path).toBe("/bottest-token/sendMessage");
+    const body = JSON.parse(requests[0].body) as {
+      chat_id: string;
+      text: string;
+    };
+    expect(body.chat_id).toBe("-1001");
+    expect(body.text).toContain("Test NFT #1 purchased for 1 ETH");
+  });
+
+  it("sends a photo with a caption when the NFT has an image", async () => {
+    const event = {
+      ...quickSaleEvent("2", TEST_ADDRESS_2),
+      nft: minimalNFT("2", { image_url: "https://example.com/2.png" }),
+    };
+
+    await runWithCollection(
+      collection([{ chatId: "-1002", events: ["sale"] }]),
+      () => messageTelegram([event])
+    );
+    await waitForRequests(1);
+
+    expect(requests[0].path).toBe("/bottest-token/sendPhoto");
+    expect(requests[0].body).toContain('name="photo"');
+    expect(requests[0].body).toContain("-1002");
+  });
+
+  it("applies chat filters", async () => {
+    const config = collection([
+      { chatId: "-1003", events: ["sale"], filters: { minPriceETH: 5 } },
+    ]);
+
+    await runWithCollection(config, () =>
+      messageTelegram([quickSaleEvent("3", TEST_ADDRESS_1, 3)])
+    );
+    await waitForRequests(1);
+
+    expect(requests).toHaveLength(0);
+  });
+
+  it("posts a group as one message", async () => {
+    const config = collection([{ chatId: "-1004", events: ["sale"] }]);
+    const group = [
+      quickSaleEvent("10", TEST_ADDRESS_2, 10),
+      quickSaleEvent("11", TEST_ADDRESS_2, 10),
+    ];
+
+    await runWithCollection(config, () => messageTelegram(group));
+    await sleep(SETTLE_MS * 2);
+    await runWithCollection(config, () => messageTelegram([]));
+    // Wait long enough to catch any stray single-event messages
+    await waitForRequests(2);
+
+    expect(requests).toHaveLength(1);
+    expect(JSON.parse(requests[0].body).text).toContain("2 purchased");
+  });
+
+  it("classifies 429 responses as rate limits using retry_after", () => {
+    const now = Date.now();
+    const classification = classifyTelegramError(
+      new TelegramApiError("sendMessage", 429, "Too Many Requests", 30)
+    );
+    expect(classification.type).toBe("rate_limit");
+    expect(
+      classification.type === "rate_limit" && classification.pauseUntilMs
+    ).toBeGreaterThanOrEqual(now + 30_000);
+    expect(
+      classifyTelegramError(new TelegramApiError("sendMessage", 502, "Bad"))
+    ).toEqual({ type: "transient" });
+    expect(
+      classifyTelegramError(
+        new TelegramApiError("sendMessage", 400, "chat not found")
+      )
+    ).toEqual({ type: "fatal" });
+  });
+});
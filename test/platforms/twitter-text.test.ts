@@ -6,6 +6,7 @@ import {
   quickBurnEvent,
   quickERC1155MintEvent,
   quickMintEvent,
+  quickSaleEvent,
   quickTransferEvent,
   TEST_ADDRESS_1,
   TEST_ADDRESS_2,
@@ -103,4 +104,16 @@ describe("twitter text generation", () => {
     const text = await mod.textForTweet(e);
     expect(text).toContain("transferred from addr:0x1111 to addr:0x2222");
   });
+
+  test("sale text includes the fiat value when a currency is set", async () => {
+    process.env.FIAT_CURRENCY = "USD";
+    process.env.FIAT_PRICE_SOURCE = "static";
+    process.env.FIAT_STATIC_RATES = "ETH=3500";
+    const mod = await import("../../src/platforms/twitter/utils");
+    const text = await mod.textForTweet(quickSaleEvent("4", TEST_ADDRESS_1));
+    expect(text).toContain("purchased for 1 ETH ($3,500) by addr:0x1111");
+    Reflect.deleteProperty(process.env, "FIAT_CURRENCY");
+    Reflect.deleteProperty(process.env, "FIAT_PRICE_SOURCE");
+    Reflect.deleteProperty(process.env, "FIAT_STATIC_RATES");
+  });
 });
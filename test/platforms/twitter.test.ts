@@ -120,6 +120,32 @@ describe("twitter flows", () => {
     expect(texts.at(-1)?.includes("purchased for")).toBeTruthy();
   });
 
+  it("prints tweets instead of posting them on a dry run", async () => {
+    process.env.DRY_RUN = "true";
+    const write = jest
+      .spyOn(process.stdout, "write")
+      .mockImplementation(() => true);
+    try {
+      const { asset_events } = loadFixture("opensea/events-sales.json");
+      const { tweetEvents } = await import(
+        "../../src/platforms/twitter/twitter"
+      );
+      tweetEvents(asset_events);
+      await jest.runAllTimersAsync();
+
+      expect(getTweetCalls()).toHaveLength(0);
+      const previews = write.mock.calls.map(([line]) =>
+        JSON.parse(String(line))
+      );
+      expect(previews.length).toBeGreaterThan(0);
+      expect(previews.at(-1)).toMatchObject({ platform: "twitter" });
+      expect(previews.at(-1).text).toContain("purchased for");
+    } finally {
+      write.mockRestore();
+      Reflect.deleteProperty(process.env, "DRY_RUN");
+    }
+  });
+
   it("tweets a listing event with correct text", async () => {
     const listings = loadFixture("opensea/get-listings.json");
     const { tweetEvents } = await import("../../src/platforms/twitter/twitter");
@@ -330,6 +356,36 @@ describe("twitter flows", () => {
     }
   });
 
+  it("keeps restored tweets in the outbox without credentials", async () => {
+    const originalKey = process.env.TWITTER_CONSUMER_KEY;
+    try {
+      process.env.TWITTER_CONSUMER_KEY = "";
+      const [mintEvent] = createMintBatch(1, TEST_MINTER_1, 3_300_000_000);
+
+      const { restoreTweetOutbox } = await import(
+        "../../src/platforms/twitter/twitter"
+      );
+      const { getOutbox } = await import("../../src/utils/outbox");
+      const { getConfig } = await import("../../src/config");
+      const { collectionKeyFor } = await import(
+        "../../src/utils/collection-store"
+      );
+      const outbox = getOutbox("twitter");
+      outbox.add("pending-mint", {
+        event: mintEvent,
+        collectionKey: collectionKeyFor(getConfig().collections[0]),
+      });
+
+      expect(await restoreTweetOutbox()).toBe(0);
+      await jest.runAllTimersAsync();
+
+      expect(getTweetCalls()).toHaveLength(0);
+      expect(outbox.entries().map((e) => e.key)).toEqual(["pending-mint"]);
+    } finally {
+      process.env.TWITTER_CONSUMER_KEY = originalKey;
+    }
+  });
+
   it("tweets single mint events when below group size threshold", async () => {
     const originalEventsEnv = process.env.TWITTER_EVENTS;
     try {
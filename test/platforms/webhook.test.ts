@@ -0,0 +1,184 @@
+import { createHmac } from "node:crypto";
+import { createServer, type IncomingHttpHeaders, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { jest } from "@jest/globals";
+import type { CollectionConfig } from "../../src/config";
+import {
+  createOpenSeaMock,
+  createUtilsMock,
+  quickSaleEvent,
+  TEST_ADDRESS_1,
+  TEST_ADDRESS_2,
+} from "../fixtures";
+
+jest.mock("../../src/opensea", () =>
+  createOpenSeaMock(async (addr: string) => `addr:${addr.slice(0, 6)}`)
+);
+jest.mock("../../src/utils/utils", () => createUtilsMock());
+
+import { WebhookError } from "../../src/platforms/webhook/utils";
+import {
+  classifyWebhookError,
+  sendWebhooks,
+} from "../../src/platforms/webhook/webhook";
+import { canonicalEventKeyFor } from "../../src/utils/canonical-events";
+import { runWithCollection } from "../../src/utils/collection-store";
+
+type StubRequest = { path: string; headers: IncomingHttpHeaders; body: string };
+
+// Local webhook receiver
+const requests: StubRequest[] = [];
+let server: Server;
+let baseUrl: string;
+
+const SECRET = "test-secret";
+const SETTLE_MS = 50;
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+const waitForRequests = async (count: number) => {
+  const deadline = Date.now() + 2000;
+  while (requests.length < count && Date.now() < deadline) {
+    await sleep(10);
+  }
+};
+
+const collection = (
+  webhooks: CollectionConfig["webhooks"]
+): CollectionConfig => ({
+  tokenAddress: "0xwebhook",
+  chain: "ethereum",
+  minOfferETH: "0",
+  discordChannels: [],
+  twitterEvents: [],
+  telegramChats: [],
+  webhooks,
+});
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => {
+      body += chunk;
+    });
+    req.on("end", () => {
+      requests.push({ path: req.url ?? "", headers: req.headers, body });
+      // Keep-alive sockets from fetch would hold the test process open
+      res.setHeader("Connection", "close");
+      res.end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  const { port } = server.address() as AddressInfo;
+  baseUrl = `http://127.0.0.1:${port}`;
+  process.env.WEBHOOK_SECRET = SECRET;
+  process.env.WEBHOOK_EVENT_GROUP_SETTLE_MS = String(SETTLE_MS);
+  process.env.WEBHOOK_EVENT_GROUP_MIN_GROUP_SIZE = "2";
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  requests.length = 0;
+});
+
+describe("webhook", () => {
+  it("posts a signed, versioned payload to routed endpoints", async () => {
+    const config = collection([
+      { url: `${baseUrl}/sales`, events: ["sale"] },
+      { url: `${baseUrl}/listings`, events: ["listing"] },
+    ]);
+    const event = quickSaleEvent("1", TEST_ADDRESS_1);
+
+    await runWithCollection(config, () => sendWebhooks([event]));
+    await waitForRequests(1);
+
+    expect(requests).toHaveLength(1);
+    const [request] = requests;
+    expect(request.path).toBe("/sales");
+    expect(request.headers["x-signature-256"]).toBe(
+      `sha256=${createHmac("sha256", SECRET).update(request.body).digest("hex")}`
+    );
+    const key = runWithCollection(config, () => canonicalEventKeyFor(event));
+    expect(request.headers["x-delivery-key"]).toBe(key);
+    expect(JSON.parse(request.body)).toMatchObject({
+      version: 1,
+      kind: "event",
+      key,
+      type: "sale",
+      chain: "ethereum",
+      collection: "test-collection",
+      nft: { identifier: "1", name: "Test NFT #1" },
+      price: { formatted: "1 ETH", symbol: "ETH" },
+      buyer: {
+        address: TEST_ADDRESS_1,
+        username: `addr:${TEST_ADDRESS_1.slice(0, 6)}`,
+      },
+    });
+  });
+
+  it("applies endpoint filters", async () => {
+    const config = collection([
+      {
+        url: `${baseUrl}/whales`,
+        events: ["sale"],
+        filters: { minPriceETH: 5 },
+      },
+    ]);
+
+    await runWithCollection(config, () =>
+      sendWebhooks([quickSaleEvent("3", TEST_ADDRESS_1, 3)])
+    );
+    await waitForRequests(1);
+
+    expect(requests).toHaveLength(0);
+  });
+
+  it("posts a group as one payload with its events", async () => {
+    const config = collection([{ url: `${baseUrl}/groups`, events: ["sale"] }]);
+    const group = [
+      quickSaleEvent("10", TEST_ADDRESS_2, 10),
+      quickSaleEvent("11", TEST_ADDRESS_2, 10),
+    ];
+
+    await runWithCollection(config, () => sendWebhooks(group));
+    await sleep(SETTLE_MS * 2);
+    await runWithCollection(config, () => sendWebhooks([]));
+    // Wait long enough to catch any stray single-event payloads
+    await waitForRequests(2);
+
+    expect(requests).toHaveLength(1);
+    const payload = JSON.parse(requests[0].body);
+    expect(payload).toMatchObject({
+      version: 1,
+      kind: "group",
+      type: "sale",
+      count: 2,
+      totalSpent: "2 ETH",
+    });
+    expect(payload.events).toHaveLength(2);
+    expect(payload.transaction).toBeUndefined();
+  });
+
+  it("retries rate limits and server errors but drops client errors", () => {
+    const now = Date.now();
+    const classification = classifyWebhookError(
+      new WebhookError("https://example.com", 429, 30)
+    );
+    expect(classification.type).toBe("rate_limit");
+    expect(
+      classification.type === "rate_limit" && classification.pauseUntilMs
+    ).toBeGreaterThanOrEqual(now + 30_000);
+    expect(
+      classifyWebhookError(new WebhookError("https://example.com", 503))
+    ).toEqual({ type: "transient" });
+    expect(
+      classifyWebhookError(new WebhookError("https://example.com", 404))
+    ).toEqual({ type: "fatal" });
+    expect(classifyWebhookError(new TypeError("fetch failed"))).toEqual({
+      type: "transient",
+    });
+  });
+});
@@ -0,0 +1,54 @@
+import { getConfig } from "../../src/config";
+import {
+  collectionKeyFor,
+  collectionStore,
+  currentCollection,
+  runWithCollection,
+} from "../../src/utils/collection-store";
+
+describe("collection-store", () => {
+  const ORIGINAL_ENV = { ...process.env };
+
+  beforeEach(() => {
+    process.env = { ...ORIGINAL_ENV };
+    process.env.TOKEN_ADDRESS = "0xAAAA000000000000000000000000000000000001";
+    process.env.CHAIN = "ethereum";
+    process.env.DISCORD_EVENTS = "111=sale";
+    process.env.TWITTER_EVENTS = "sale";
+  });
+
+  afterEach(() => {
+    process.env = ORIGINAL_ENV;
+  });
+
+  it("uses the first configured collection outside a collection context", () => {
+    process.env.COLLECTIONS = JSON.stringify([
+      { tokenAddress: "0xone" },
+      { tokenAddress: "0xtwo" },
+    ]);
+    expect(currentCollection().tokenAddress).toBe("0xone");
+  });
+
+  it("keeps slugs and identifiers separate per collection", async () => {
+    process.env.COLLECTIONS = JSON.stringify([
+      { tokenAddress: "0xone" },
+      { tokenAddress: "0xtwo" },
+    ]);
+    const [one, two] = getConfig().collections;
+
+    await runWithCollection(one, async () => {
+      collectionStore.setSlug("first");
+      await Promise.resolve();
+      expect(currentCollection().tokenAddress).toBe("0xone");
+    });
+    runWithCollection(two, () => collectionStore.setSlug("second"));
+
+    expect(runWithCollection(one, () => collectionStore.getIdentifier())).toBe(
+      "first"
+    );
+    expect(runWithCollection(two, () => collectionStore.getIdentifier())).toBe(
+      "second"
+    );
+    expect(collectionKeyFor(one)).not.toBe(collectionKeyFor(two));
+  });
+});
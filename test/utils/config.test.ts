@@ -0,0 +1,558 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { ConfigError, loadConfig } from "../../src/config";
+
+const CHANNEL_A = "111111111111111111";
+const CHANNEL_B = "222222222222222222";
+const TOKEN = "0xAAAA000000000000000000000000000000000001";
+
+describe("config", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "bot-config-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const writeConfig = (name: string, content: string): string => {
+    const file = join(dir, name);
+    writeFileSync(file, content);
+    return file;
+  };
+
+  const issuesFor = (env: NodeJS.ProcessEnv): string[] => {
+    try {
+      loadConfig(env);
+    } catch (error) {
+      if (error instanceof ConfigError) {
+        return error.issues;
+      }
+      throw error;
+    }
+    return [];
+  };
+
+  it("loads a YAML file with defaults for unset values", () => {
+    const file = writeConfig(
+      "bot.yaml",
+      [
+        `tokenAddress: "${TOKEN}"`,
+        "pollIntervalSeconds: 30",
+        "discordEvents:",
+        `  "${CHANNEL_A}": [sale, listing]`,
+        "twitterEvents: sale,mint",
+        "twitter:",
+        "  group:",
+        "    settleMs: 0",
+      ].join("\n")
+    );
+    const config = loadConfig({ CONFIG_FILE: file });
+    expect(config.file).toBe(file);
+    expect(config.pollIntervalSeconds).toBe(30);
+    expect(config.opensea.maxPages).toBe(100);
+    expect(config.twitter.group).toEqual({ settleMs: 0, minGroupSize: 2 });
+    expect(config.collections).toEqual([
+      {
+        tokenAddress: TOKEN,
+        chain: "ethereum",
+        minOfferETH: "0",
+        discordChannels: [
+          { channelId: CHANNEL_A, events: ["sale", "listing"] },
+        ],
+        twitterEvents: ["sale", "mint"],
+        telegramChats: [],
+        webhooks: [],
+      },
+    ]);
+  });
+
+  it("lets env vars override file values", () => {
+    const file = writeConfig(
+      "bot.json",
+      JSON.stringify({
+        tokenAddress: TOKEN,
+        pollIntervalSeconds: 30,
+        twitterEvents: ["sale"],
+      })
+    );
+    const config = loadConfig({
+      CONFIG_FILE: file,
+      OPENSEA_BOT_INTERVAL: "90",
+      DISCORD_EVENTS: `${CHANNEL_B}=mint`,
+    });
+    expect(config.pollIntervalSeconds).toBe(90);
+    expect(config.collections[0].discordChannels).toEqual([
+      { channelId: CHANNEL_B, events: ["mint"] },
+    ]);
+  });
+
+  it("inherits top-level defaults into each collection", () => {
+    const config = loadConfig({
+      TWITTER_EVENTS: "sale",
+      COLLECTIONS: JSON.stringify([
+        { tokenAddress: "0xone" },
+        { tokenAddress: "0xtwo", chain: "base", twitterEvents: ["mint"] },
+      ]),
+    });
+    const [one, two] = config.collections;
+    expect(one.chain).toBe("ethereum");
+    expect(one.twitterEvents).toEqual(["sale"]);
+    expect(two.chain).toBe("base");
+    expect(two.twitterEvents).toEqual(["mint"]);
+  });
+
+  it("reports every problem with its path and env var", () => {
+    const issues = issuesFor({
+      TOKEN_ADDRESS: TOKEN,
+      OPENSEA_BOT_INTERVAL: "-5",
+      DISCORD_EVENTS: "general=sale,swap",
+      TWITTER_EVENT_GROUP_MIN_GROUP_SIZE: "0",
+    });
+    expect(issues).toEqual([
+      "pollIntervalSeconds (OPENSEA_BOT_INTERVAL): must not be less than 1 (got -5)",
+      "twitter.group.minGroupSize (TWITTER_EVENT_GROUP_MIN_GROUP_SIZE): must not be less than 1 (got 0)",
+      'discordEvents (DISCORD_EVENTS): invalid channel id "general" (expected a 17-20 digit Discord snowflake)',
+      expect.stringContaining(
+        'discordEvents.general: unknown event type "swap"'
+      ),
+    ]);
+  });
+
+  it("rejects malformed collections", () => {
+    expect(issuesFor({ COLLECTIONS: "not json" })).toEqual([
+      "collections (COLLECTIONS): is not valid JSON",
+    ]);
+    expect(issuesFor({ COLLECTIONS: "[]" })).toEqual([
+      "collections (COLLECTIONS): must be a non-empty list",
+    ]);
+    expect(
+      issuesFor({ TWITTER_EVENTS: "sale", COLLECTIONS: '[{"chain":"base"}]' })
+    ).toEqual(["collections[0].tokenAddress: is required"]);
+    expect(issuesFor({ TOKEN_ADDRESS: TOKEN })).toEqual([
+      "config: no events enabled (set discordEvents, twitterEvents, telegramEvents or webhooks)",
+    ]);
+  });
+
+  it("parses per-target filter rules", () => {
+    const file = writeConfig(
+      "bot.yaml",
+      [
+        `tokenAddress: "${TOKEN}"`,
+        "discordEvents:",
+        `  - channelId: "${CHANNEL_A}"`,
+        "    events: [sale]",
+        "    filters: { minPriceETH: 5, maxFloorPercent: 90 }",
+        `  - channelId: "${CHANNEL_B}"`,
+        "    events: [sale, mint]",
+        "    filters:",
+        '      tokenIds: "0-999, 1500"',
+        "      traits: { Background: [Gold, Silver] }",
+        "twitterEvents: [sale]",
+        "twitterFilters:",
+        "  traits: [Hat=Crown]",
+      ].join("\n")
+    );
+    const [collection] = loadConfig({ CONFIG_FILE: file }).collections;
+    expect(collection.discordChannels[0].filters).toMatchObject({
+      minPriceETH: 5,
+      maxFloorPercent: 90,
+    });
+    expect(collection.discordChannels[1].filters).toMatchObject({
+      tokenIds: [
+        { min: 0n, max: 999n },
+        { min: 1500n, max: 1500n },
+      ],
+      traits: [
+        { type: "Background", value: "Gold" },
+        { type: "Background", value: "Silver" },
+      ],
+    });
+    expect(collection.twitterFilters?.traits).toEqual([
+      { type: "Hat", value: "Crown" },
+    ]);
+  });
+
+  it("reports invalid filter rules", () => {
+    const file = writeConfig(
+      "bot.json",
+      JSON.stringify({
+        tokenAddress: TOKEN,
+        twitterEvents: ["sale"],
+        twitterFilters: {
+          minPriceETH: 5,
+          maxPriceETH: 1,
+          minFloorPercent: 90,
+          maxFloorPercent: 80,
+          tokenIds: ["10-1", "abc"],
+          traits: ["Background"],
+          minPrice: 1,
+        },
+      })
+    );
+    expect(issuesFor({ CONFIG_FILE: file })).toEqual([
+      'twitterFilters: unknown filter "minPrice" (allowed: minPriceETH, maxPriceETH, minFloorPercent, maxFloorPercent, tokenIds, traits)',
+      'twitterFilters.tokenIds: range "10-1" ends before it starts',
+      'twitterFilters.tokenIds: invalid token id or range "abc"',
+      'twitterFilters.traits: invalid trait "Background" (expected "Type=Value")',
+      "twitterFilters: maxPriceETH is less than minPriceETH",
+      "twitterFilters: maxFloorPercent is less than minFloorPercent",
+    ]);
+  });
+
+  it("parses Telegram chats in the same formats as Discord channels", () => {
+    const config = loadConfig({
+      TOKEN_ADDRESS: TOKEN,
+      TELEGRAM_EVENTS: "-1001234567890=sale,mint&@nftsales=listing",
+    });
+    expect(config.collections[0].telegramChats).toEqual([
+      { chatId: "-1001234567890", events: ["sale", "mint"] },
+      { chatId: "@nftsales", events: ["listing"] },
+    ]);
+    expect(config.telegram.apiUrl).toBe("https://api.telegram.org");
+
+    expect(
+      issuesFor({ TOKEN_ADDRESS: TOKEN, TELEGRAM_EVENTS: "general=sale" })
+    ).toEqual([
+      'telegramEvents (TELEGRAM_EVENTS): invalid chat id "general" (expected a numeric Telegram chat id or @channelusername)',
+    ]);
+  });
+
+  it("parses webhooks from a JSON string", () => {
+    const url = "https://example.com/hook?source=bot&v=1";
+    const config = loadConfig({
+      TOKEN_ADDRESS: TOKEN,
+      WEBHOOKS: JSON.stringify([{ url, events: ["sale", "mint"] }]),
+    });
+    expect(config.collections[0].webhooks).toEqual([
+      { url, events: ["sale", "mint"] },
+    ]);
+    expect(config.webhook.timeoutMs).toBe(10_000);
+
+    expect(
+      issuesFor({
+        TOKEN_ADDRESS: TOKEN,
+        WEBHOOKS: '{"ftp://example.com": ["sale"]}',
+      })
+    ).toEqual([
+      'webhooks (WEBHOOKS): invalid url "ftp://example.com" (expected an http(s) URL)',
+    ]);
+  });
+
+  it("parses fiat price settings", () => {
+    const config = loadConfig({
+      TOKEN_ADDRESS: TOKEN,
+      TWITTER_EVENTS: "sale",
+      FIAT_CURRENCY: "eur",
+      FIAT_PRICE_SOURCE: "static",
+      FIAT_STATIC_RATES: "eth=3000, 0xA0b8=1",
+    });
+    expect(config.fiat).toMatchObject({
+      currency: "EUR",
+      source: "static",
+      rates: { ETH: 3000, "0xa0b8": 1 },
+    });
+
+    expect(
+      issuesFor({
+        TOKEN_ADDRESS: TOKEN,
+        TWITTER_EVENTS: "sale",
+        FIAT_CURRENCY: "dollars",
+        FIAT_PRICE_SOURCE: "oracle",
+      })
+    ).toEqual([
+      'fiat.currency (FIAT_CURRENCY): expected a 3-letter currency code (got "DOLLARS")',
+      'fiat.source (FIAT_PRICE_SOURCE): unknown price source "oracle" (allowed: http, static)',
+    ]);
+  });
+
+  it("parses floor settings", () => {
+    const config = loadConfig({
+      TOKEN_ADDRESS: TOKEN,
+      TWITTER_EVENTS: "sale",
+      FLOOR_EVENTS: "sale,listing",
+    });
+    expect(config.floor).toEqual({
+      events: ["sale", "listing"],
+      refreshSeconds: 300,
+    });
+    expect(
+      issuesFor({
+        TOKEN_ADDRESS: TOKEN,
+        TWITTER_EVENTS: "sale",
+        FLOOR_REFRESH_SECONDS: "0",
+      })
+    ).toEqual([
+      "floor.refreshSeconds (FLOOR_REFRESH_SECONDS): must not be less than 1 (got 0)",
+    ]);
+  });
+
+  it("parses OpenSea Stream settings", () => {
+    const config = loadConfig({
+      TOKEN_ADDRESS: TOKEN,
+      TWITTER_EVENTS: "sale",
+      OPENSEA_STREAM: "true",
+    });
+    expect(config.opensea).toMatchObject({
+      stream: true,
+      streamUrl: "wss://stream.openseabeta.com/socket/websocket",
+      streamReconnectMs: 5000,
+    });
+    expect(
+      issuesFor({
+        TOKEN_ADDRESS: TOKEN,
+        TWITTER_EVENTS: "sale",
+        OPENSEA_STREAM: "yes",
+      })
+    ).toEqual([
+      'opensea.stream (OPENSEA_STREAM): expected true or false (got "yes")',
+    ]);
+  });
+
+  it("parses RPC settings for Transfer log ingestion", () => {
+    const config = loadConfig({
+      TOKEN_ADDRESS: TOKEN,
+      TWITTER_EVENTS: "mint",
+      RPC_URL: "http://localhost:8545",
+      RPC_START_BLOCK: "19000000",
+    });
+    expect(config.rpc).toEqual({
+      url: "http://localhost:8545",
+      blockRange: 500,
+      confirmations: 2,
+      startBlock: 19_000_000,
+    });
+    expect(
+      issuesFor({
+        TOKEN_ADDRESS: TOKEN,
+        TWITTER_EVENTS: "mint",
+        RPC_URL: "localhost:8545",
+        RPC_BLOCK_RANGE: "0",
+      })
+    ).toEqual([
+      "rpc.url (RPC_URL): expected an http(s) URL",
+      "rpc.blockRange (RPC_BLOCK_RANGE): must not be less than 1 (got 0)",
+    ]);
+  });
+
+  it("parses dry-run settings", () => {
+    expect(
+      loadConfig({ TOKEN_ADDRESS: TOKEN, TWITTER_EVENTS: "sale" }).dryRun
+    ).toEqual({
+      enabled: false,
+      file: undefined,
+    });
+    expect(
+      loadConfig({
+        TOKEN_ADDRESS: TOKEN,
+        TWITTER_EVENTS: "sale",
+        DRY_RUN: "1",
+        DRY_RUN_FILE: "previews.jsonl",
+      }).dryRun
+    ).toEqual({ enabled: true, file: "previews.jsonl" });
+    expect(
+      issuesFor({
+        TOKEN_ADDRESS: TOKEN,
+        TWITTER_EVENTS: "sale",
+        DRY_RUN: "yes",
+      })
+    ).toEqual(['dryRun.enabled (DRY_RUN): expected true or false (got "yes")']);
+  });
+
+  it("parses the log format", () => {
+    expect(
+      loadConfig({ TOKEN_ADDRESS: TOKEN, TWITTER_EVENTS: "sale" }).logFormat
+    ).toBe("text");
+    expect(
+      loadConfig({
+        TOKEN_ADDRESS: TOKEN,
+        TWITTER_EVENTS: "sale",
+        LOG_FORMAT: "json",
+      }).logFormat
+    ).toBe("json");
+    expect(
+      issuesFor({
+        TOKEN_ADDRESS: TOKEN,
+        TWITTER_EVENTS: "sale",
+        LOG_FORMAT: "logfmt",
+      })
+    ).toEqual([
+      'logFormat (LOG_FORMAT): unknown format "logfmt" (allowed: text, json)',
+    ]);
+  });
+
+  it("parses health check settings", () => {
+    expect(
+      loadConfig({ TOKEN_ADDRESS: TOKEN, TWITTER_EVENTS: "sale" }).health
+    ).toEqual({ port: undefined, maxFailingSeconds: 600 });
+    expect(
+      loadConfig({
+        TOKEN_ADDRESS: TOKEN,
+        TWITTER_EVENTS: "sale",
+        HEALTH_PORT: "8080",
+        HEALTH_MAX_FAILING_SECONDS: "300",
+      }).health
+    ).toEqual({ port: 8080, maxFailingSeconds: 300 });
+    expect(
+      issuesFor({
+        TOKEN_ADDRESS: TOKEN,
+        TWITTER_EVENTS: "sale",
+        OPENSEA_BOT_INTERVAL: "120",
+        HEALTH_PORT: "70000",
+        HEALTH_MAX_FAILING_SECONDS: "60",
+      })
+    ).toEqual([
+      "health.port (HEALTH_PORT): must not be more than 65535 (got 70000)",
+      "health.maxFailingSeconds (HEALTH_MAX_FAILING_SECONDS): must not be less than the poll interval (120s)",
+    ]);
+  });
+
+  it("parses instance lock settings", () => {
+    expect(
+      loadConfig({ TOKEN_ADDRESS: TOKEN, TWITTER_EVENTS: "sale" }).lock
+    ).toEqual({ mode: "exit", heartbeatSeconds: 10, staleSeconds: 60 });
+    expect(
+      loadConfig({
+        TOKEN_ADDRESS: TOKEN,
+        TWITTER_EVENTS: "sale",
+        LOCK_MODE: "standby",
+        LOCK_HEARTBEAT_SECONDS: "5",
+        LOCK_STALE_SECONDS: "30",
+      }).lock
+    ).toEqual({ mode: "standby", heartbeatSeconds: 5, staleSeconds: 30 });
+    expect(
+      issuesFor({
+        TOKEN_ADDRESS: TOKEN,
+        TWITTER_EVENTS: "sale",
+        LOCK_MODE: "wait",
+        LOCK_STALE_SECONDS: "15",
+      })
+    ).toEqual([
+      'lock.mode (LOCK_MODE): unknown mode "wait" (allowed: exit, standby, off)',
+      "lock.staleSeconds (LOCK_STALE_SECONDS): must be at least 2 heartbeats (20s)",
+    ]);
+  });
+
+  it("parses the event state backend", () => {
+    expect(
+      loadConfig({ TOKEN_ADDRESS: TOKEN, TWITTER_EVENTS: "sale" }).state.backend
+    ).toBe("json");
+    expect(
+      loadConfig({
+        TOKEN_ADDRESS: TOKEN,
+        TWITTER_EVENTS: "sale",
+        EVENT_STATE_BACKEND: "sqlite",
+      }).state.backend
+    ).toBe("sqlite");
+    expect(
+      issuesFor({
+        TOKEN_ADDRESS: TOKEN,
+        TWITTER_EVENTS: "sale",
+        EVENT_STATE_BACKEND: "redis",
+      })
+    ).toEqual([
+      'state.backend (EVENT_STATE_BACKEND): unknown backend "redis" (allowed: json, sqlite)',
+    ]);
+  });
+
+  it("keeps event history unless turned off", () => {
+    expect(
+      loadConfig({ TOKEN_ADDRESS: TOKEN, TWITTER_EVENTS: "sale" }).state.history
+    ).toBe(true);
+    expect(
+      loadConfig({
+        TOKEN_ADDRESS: TOKEN,
+        TWITTER_EVENTS: "sale",
+        EVENT_HISTORY: "false",
+      }).state.history
+    ).toBe(false);
+  });
+
+  it("reads the summary schedule", () => {
+    expect(
+      loadConfig({
+        TOKEN_ADDRESS: TOKEN,
+        TWITTER_EVENTS: "sale",
+        SUMMARY_PERIODS: "daily,weekly",
+        SUMMARY_HOUR: "9",
+        SUMMARY_TIME_ZONE: "America/New_York",
+        SUMMARY_WEEKDAY: "Friday",
+        SUMMARY_DISCORD_CHANNEL: "123456789012345678",
+      }).summary
+    ).toEqual({
+      periods: ["daily", "weekly"],
+      hour: 9,
+      timeZone: "America/New_York",
+      weekday: 5,
+      discordChannelId: "123456789012345678",
+      tweet: false,
+    });
+    expect(
+      issuesFor({
+        TOKEN_ADDRESS: TOKEN,
+        TWITTER_EVENTS: "sale",
+        SUMMARY_PERIODS: "monthly,daily",
+        SUMMARY_HOUR: "24",
+        SUMMARY_TIME_ZONE: "Mars/Olympus",
+        SUMMARY_WEEKDAY: "someday",
+      })
+    ).toEqual([
+      'summary.periods (SUMMARY_PERIODS): unknown period "monthly" (allowed: daily, weekly)',
+      'summary.timeZone (SUMMARY_TIME_ZONE): unknown time zone "Mars/Olympus" (e.g. UTC, America/New_York)',
+      expect.stringContaining(
+        'summary.weekday (SUMMARY_WEEKDAY): unknown day "someday"'
+      ),
+      "summary.periods (SUMMARY_PERIODS): set summary.discordChannelId (SUMMARY_DISCORD_CHANNEL) or summary.tweet (SUMMARY_TWEET) to post summaries",
+      "summary.hour (SUMMARY_HOUR): must not be more than 23 (got 24)",
+    ]);
+  });
+
+  it("reads the leaderboard settings", () => {
+    const base = { TOKEN_ADDRESS: TOKEN, TWITTER_EVENTS: "sale" };
+    expect(loadConfig(base).leaderboard).toEqual({
+      windows: ["24h", "7d", "30d"],
+      size: 5,
+      rankBy: "volume",
+      discordChannelId: undefined,
+      intervalHours: 24,
+    });
+    expect(
+      loadConfig({
+        ...base,
+        LEADERBOARD_WINDOWS: "1d,2w",
+        LEADERBOARD_RANK_BY: "count",
+        LEADERBOARD_DISCORD_CHANNEL: CHANNEL_A,
+      }).leaderboard
+    ).toMatchObject({
+      windows: ["1d", "2w"],
+      rankBy: "count",
+      discordChannelId: CHANNEL_A,
+    });
+    expect(
+      issuesFor({
+        ...base,
+        EVENT_HISTORY: "false",
+        LEADERBOARD_WINDOWS: "7d,month",
+        LEADERBOARD_RANK_BY: "price",
+        LEADERBOARD_DISCORD_CHANNEL: CHANNEL_A,
+      })
+    ).toEqual([
+      'leaderboard.rankBy (LEADERBOARD_RANK_BY): unknown ranking "price" (allowed: count, volume)',
+      "leaderboard.discordChannelId (LEADERBOARD_DISCORD_CHANNEL): the leaderboard is built from the event history, which is turned off by state.history (EVENT_HISTORY)",
+      'leaderboard.windows (LEADERBOARD_WINDOWS): invalid duration "month" (e.g. 24h, 7d, 2w)',
+    ]);
+  });
+
+  it("throws a ConfigError for unreadable files", () => {
+    const file = writeConfig("bot.yaml", "- just\n- a list");
+    expect(() => loadConfig({ CONFIG_FILE: file })).toThrow(
+      "top level must be an object"
+    );
+    expect(() =>
+      loadConfig({ CONFIG_FILE: join(dir, "missing.json") })
+    ).toThrow(ConfigError);
+  });
+});
@@ -9,6 +9,7 @@ import {
   getTopExpensiveEvents,
   groupKindForEvents,
   isGroupedEvent,
+  postKeyFor,
   processEventsWithAggregator,
   sortEventsByPrice,
 } from "../../src/utils/event-grouping";
@@ -45,6 +46,7 @@ function mockClassifyTransfer(
 jest.mock("../../src/utils/utils", () => ({
   formatAmount: jest.fn(mockFormatAmount),
   classifyTransfer: jest.fn(mockClassifyTransfer),
+  shortAddr: (addr: string) => addr.slice(0, 7),
 }));
 
 describe("eventGrouping-utils", () => {
@@ -195,6 +197,29 @@ describe("eventGrouping-utils", () => {
     });
   });
 
+  describe("postKeyFor", () => {
+    it("keys events by event key and groups by tx hash", () => {
+      expect(postKeyFor(mockEvent1)).toBe("1234567890|1|sale");
+      expect(postKeyFor({ ...mockGroupedEvent, txHash: "0xabc" })).toBe(
+        "group:0xabc"
+      );
+    });
+
+    it("includes the time window for actor groups", () => {
+      const actorGroup = (events: OpenSeaAssetEvent[]): GroupedEvent => ({
+        kind: "group",
+        txHash: "actor:purchase:0xbuyer1",
+        events,
+      });
+      const first = postKeyFor(actorGroup([mockEvent1]));
+      const later = postKeyFor(
+        actorGroup([{ ...mockEvent1, event_timestamp: 1_234_567_999 }])
+      );
+      expect(first).toBe("group:actor:purchase:0xbuyer1|1234567890-1234567890");
+      expect(later).not.toBe(first);
+    });
+  });
+
   describe("isGroupedEvent", () => {
     it("should identify grouped events correctly", () => {
       expect(isGroupedEvent(mockGroupedEvent)).toBe(true);
@@ -426,6 +451,39 @@ describe("eventGrouping-utils", () => {
       expect(result.groups.length).toBe(0);
       expect(result.releasedIndividuals.length).toBe(1);
     });
+
+    it("holds unflushed group members and restores them after a restart", () => {
+      groupManager.addEvents([mockEvent1, mockEvent2]);
+      expect(groupManager.heldEvents()).toEqual([mockEvent1, mockEvent2]);
+
+      const restarted = new EventGroupManager({
+        settleMs: 1000,
+        minGroupSize: 2,
+      });
+      restarted.restoreHeldEvents(groupManager.heldEvents());
+      jest.advanceTimersByTime(1100);
+      const result = restarted.getReadyGroups();
+      expect(result.groups).toHaveLength(1);
+      expect(result.groups[0].events).toEqual([mockEvent1, mockEvent2]);
+      expect(restarted.heldEvents()).toEqual([]);
+    });
+
+    it("releases a restored event that cannot form a group on its own", () => {
+      groupManager.addEvents([mockEvent1, mockEvent2]);
+      groupManager.markProcessed(mockEvent1);
+      expect(groupManager.heldEvents()).toEqual([mockEvent2]);
+
+      const restarted = new EventGroupManager({
+        settleMs: 1000,
+        minGroupSize: 2,
+      });
+      restarted.restoreHeldEvents(groupManager.heldEvents());
+      jest.advanceTimersByTime(1100);
+      expect(restarted.getReadyGroups()).toEqual({
+        groups: [],
+        releasedIndividuals: [mockEvent2],
+      });
+    });
   });
 
   describe("processEventsWithAggregator", () => {
@@ -0,0 +1,189 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { CollectionConfig } from "../../src/config";
+import { formatHistoryEvent, parseHistoryArgs } from "../../src/history";
+import { runWithCollection } from "../../src/utils/collection-store";
+import {
+  EventHistory,
+  type HistoryEvent,
+  type HistoryQuery,
+  historyEventFor,
+} from "../../src/utils/event-history";
+import {
+  createListingEvent,
+  createSaleEvent,
+  TEST_BUYER_1,
+  TEST_MINTER_1,
+  TEST_SELLER_1,
+} from "../helpers";
+
+jest.mock("../../src/utils/logger", () => {
+  const base = {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  };
+  return {
+    logger: base,
+    prefixedLogger: () => base,
+    isDebugEnabled: () => false,
+    setLogLevel: jest.fn(),
+  };
+});
+
+const COLLECTION = {
+  chain: "ethereum",
+  tokenAddress: "0x123",
+} as CollectionConfig;
+
+const ETH = "000000000000000000";
+const DAY = 86_400;
+const NOW = 1_760_000_000;
+
+const sale = (id: string, eth: number, timestamp: number): HistoryEvent =>
+  runWithCollection(COLLECTION, () =>
+    historyEventFor({
+      ...createSaleEvent(id, TEST_BUYER_1, TEST_SELLER_1, `${eth}${ETH}`),
+      event_timestamp: timestamp,
+    })
+  );
+
+describe("historyEventFor", () => {
+  it("normalizes type, token, price, actors and transaction", () => {
+    const event = sale("7", 2, NOW);
+    expect(event).toMatchObject({
+      chain: "ethereum",
+      contract: "0x123",
+      type: "sale",
+      tokenId: "7",
+      quantity: 1,
+      price: { quantity: `2${ETH}`, decimals: 18, symbol: "ETH" },
+      seller: TEST_SELLER_1,
+      buyer: TEST_BUYER_1,
+      transaction: "0xsale7",
+      timestamp: NOW,
+    });
+    expect(event.key).toContain("|7|sale|0xsale7|");
+  });
+});
+
+describe("EventHistory", () => {
+  let dir: string;
+  let history: EventHistory;
+
+  const query = (overrides: Partial<HistoryQuery> = {}) =>
+    history.query({ sort: "time", limit: 50, ...overrides });
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "event-history-"));
+    history = new EventHistory(join(dir, "history.sqlite"));
+    const listing = runWithCollection(COLLECTION, () =>
+      historyEventFor(createListingEvent("1", TEST_MINTER_1, NOW - DAY))
+    );
+    await history.record([
+      sale("1", 1, NOW - 10 * DAY),
+      sale("1", 3, NOW - 2 * DAY),
+      sale("2", 5, NOW - 3 * DAY),
+      listing,
+    ]);
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("keeps one copy of each event", async () => {
+    expect(await history.record([sale("2", 5, NOW - 3 * DAY)])).toBe(0);
+    expect(await query()).toHaveLength(4);
+  });
+
+  it("finds the sales of a token, newest first", async () => {
+    const events = await query({ types: ["sale"], tokenId: "1" });
+    expect(events.map((e) => e.timestamp)).toEqual([
+      NOW - 2 * DAY,
+      NOW - 10 * DAY,
+    ]);
+  });
+
+  it("finds an account's activity in a time range", async () => {
+    const events = await query({
+      account: TEST_MINTER_1.toUpperCase(),
+      since: NOW - 7 * DAY,
+    });
+    expect(events.map((e) => e.type)).toEqual(["listing"]);
+    expect(
+      await query({ account: TEST_BUYER_1, since: NOW - 7 * DAY })
+    ).toHaveLength(2);
+  });
+
+  it("lists the top sales by price", async () => {
+    const events = await query({ types: ["sale"], sort: "price", limit: 2 });
+    expect(events.map((e) => e.price?.quantity)).toEqual([
+      `5${ETH}`,
+      `3${ETH}`,
+    ]);
+  });
+
+  it("filters by collection contract", async () => {
+    expect(await query({ collection: "0x123" })).toHaveLength(4);
+    expect(await query({ collection: "0x456" })).toHaveLength(0);
+  });
+});
+
+describe("history arguments", () => {
+  it("parses a top sales query", () => {
+    expect(
+      parseHistoryArgs(
+        ["--type", "sale", "--since", "2025-10-01", "--top", "10"],
+        NOW
+      ).query
+    ).toEqual({
+      types: ["sale"],
+      since: 1_759_276_800,
+      sort: "price",
+      limit: 10,
+    });
+  });
+
+  it("accepts relative times", () => {
+    const { query } = parseHistoryArgs(
+      ["--account", "0xabc", "--since", "7d", "--json"],
+      NOW
+    );
+    expect(query.since).toBe(NOW - 7 * DAY);
+    expect(query).toMatchObject({ account: "0xabc", sort: "time", limit: 50 });
+  });
+
+  it("lists every problem", () => {
+    expect(() =>
+      parseHistoryArgs([
+        "--type",
+        "swap",
+        "--since",
+        "soon",
+        "--top",
+        "0",
+        "--limit",
+        "5",
+      ])
+    ).toThrow(
+      expect.objectContaining({
+        issues: [
+          '--since: expected unix seconds or an ISO 8601 date (got "soon")',
+          '--top: expected a positive whole number (got "0")',
+          expect.stringContaining('--type: unknown event type "swap"'),
+        ],
+      })
+    );
+  });
+
+  it("formats an event as one line", () => {
+    const line = formatHistoryEvent(sale("7", 2, NOW));
+    expect(line).toContain("sale");
+    expect(line).toContain("#7");
+    expect(line).toContain("2 ETH");
+    expect(line).toContain("0xsale7");
+  });
+});
@@ -0,0 +1,155 @@
+import type {
+  OpenSeaAssetEvent,
+  OpenSeaCollectionStats,
+} from "../../src/types";
+import { collectionStatsStore } from "../../src/utils/collection-stats";
+import {
+  collectionNeedsFloor,
+  collectionNeedsTraits,
+  floorPercentFor,
+  matchesFilters,
+  priceETHFor,
+} from "../../src/utils/filters";
+import { minimalNFT, quickMintEvent, quickSaleEvent } from "../fixtures";
+
+const ONE_ETH = "1000000000000000000";
+const FIVE_ETH = "5000000000000000000";
+
+const withTraits = (
+  event: OpenSeaAssetEvent,
+  traits: Record<string, string>
+): OpenSeaAssetEvent => ({
+  ...event,
+  nft: minimalNFT(event.nft?.identifier ?? "0", {
+    traits: Object.entries(traits).map(([trait_type, value]) => ({
+      trait_type,
+      value,
+      display_type: null,
+      max_value: null,
+    })),
+  }),
+});
+
+describe("filters", () => {
+  it("accepts everything without rules", () => {
+    expect(matchesFilters(quickMintEvent("1"), undefined)).toBe(true);
+    expect(matchesFilters(quickMintEvent("1"), {})).toBe(true);
+  });
+
+  it("compares ETH prices against min and max", () => {
+    const cheap = quickSaleEvent("1", undefined, 1, ONE_ETH);
+    const whale = quickSaleEvent("2", undefined, 1, FIVE_ETH);
+    expect(priceETHFor(whale)).toBe(5);
+    expect(matchesFilters(cheap, { minPriceETH: 5 })).toBe(false);
+    expect(matchesFilters(whale, { minPriceETH: 5 })).toBe(true);
+    expect(matchesFilters(whale, { maxPriceETH: 2 })).toBe(false);
+  });
+
+  it("rejects events without an ETH price when a price rule is set", () => {
+    const usdc: OpenSeaAssetEvent = {
+      ...quickSaleEvent("1", undefined, 1, FIVE_ETH),
+      payment: {
+        quantity: "5000000",
+        decimals: 6,
+        symbol: "USDC",
+        token_address: "",
+      },
+    };
+    expect(matchesFilters(usdc, { minPriceETH: 0 })).toBe(false);
+    expect(matchesFilters(quickMintEvent("1"), { minPriceETH: 0 })).toBe(false);
+  });
+
+  it("compares prices against the collection floor", () => {
+    const listing = quickSaleEvent("1", undefined, 1, ONE_ETH);
+    const rules = { maxFloorPercent: 90 };
+    // Without stats the floor is unknown and floor rules never match
+    collectionStatsStore.clear();
+    expect(floorPercentFor(listing)).toBeUndefined();
+    expect(matchesFilters(listing, rules)).toBe(false);
+
+    collectionStatsStore.set({
+      total: { floor_price: 1.25, floor_price_symbol: "ETH" },
+    } as OpenSeaCollectionStats);
+    expect(floorPercentFor(listing)).toBe(80);
+    expect(matchesFilters(listing, rules)).toBe(true);
+    expect(matchesFilters(listing, { minFloorPercent: 85 })).toBe(false);
+    collectionStatsStore.clear();
+  });
+
+  it("matches token ids against any range", () => {
+    const rules = {
+      tokenIds: [
+        { min: 0n, max: 999n },
+        { min: 1500n, max: 1500n },
+      ],
+    };
+    expect(matchesFilters(quickMintEvent("999"), rules)).toBe(true);
+    expect(matchesFilters(quickMintEvent("1500"), rules)).toBe(true);
+    expect(matchesFilters(quickMintEvent("1000"), rules)).toBe(false);
+  });
+
+  it("matches traits case-insensitively, including trait offers", () => {
+    const rules = { traits: [{ type: "Background", value: "Gold" }] };
+    const gold = withTraits(quickMintEvent("1"), { background: "gold" });
+    const blue = withTraits(quickMintEvent("2"), { Background: "Blue" });
+    const traitOffer = {
+      ...quickMintEvent("3"),
+      nft: undefined,
+      criteria: { trait: { type: "Background", value: "Gold" } },
+    } as OpenSeaAssetEvent;
+    expect(matchesFilters(gold, rules)).toBe(true);
+    expect(matchesFilters(blue, rules)).toBe(false);
+    expect(matchesFilters(traitOffer, rules)).toBe(true);
+  });
+
+  it("requires every configured rule to match", () => {
+    const event = withTraits(quickSaleEvent("5", undefined, 1, FIVE_ETH), {
+      Background: "Gold",
+    });
+    const rules = {
+      minPriceETH: 1,
+      tokenIds: [{ min: 0n, max: 9n }],
+      traits: [{ type: "Background", value: "Gold" }],
+    };
+    expect(matchesFilters(event, rules)).toBe(true);
+    expect(matchesFilters(event, { ...rules, minPriceETH: 10 })).toBe(false);
+  });
+
+  it("detects when a collection needs traits or the floor", () => {
+    const collection = {
+      tokenAddress: "0xa",
+      chain: "ethereum",
+      minOfferETH: "0",
+      twitterEvents: [],
+      telegramChats: [],
+      webhooks: [],
+      discordChannels: [{ channelId: "1", events: ["sale" as const] }],
+    };
+    expect(collectionNeedsTraits(collection)).toBe(false);
+    expect(collectionNeedsFloor(collection)).toBe(false);
+    expect(
+      collectionNeedsFloor({
+        ...collection,
+        twitterFilters: { minFloorPercent: 80 },
+      })
+    ).toBe(true);
+    expect(
+      collectionNeedsTraits({
+        ...collection,
+        twitterFilters: { traits: [{ type: "Hat", value: "Crown" }] },
+      })
+    ).toBe(true);
+    expect(
+      collectionNeedsTraits({
+        ...collection,
+        webhooks: [
+          {
+            url: "https://example.com/hook",
+            events: ["sale"],
+            filters: { traits: [{ type: "Hat", value: "Crown" }] },
+          },
+        ],
+      })
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,67 @@
+import type { OpenSeaCollectionStats } from "../../src/types";
+import {
+  createOpenSeaMock,
+  createUtilsMock,
+  quickListingEvent,
+  quickMintEvent,
+  quickSaleEvent,
+  TEST_ADDRESS_1,
+} from "../fixtures";
+
+jest.mock("../../src/opensea", () => ({
+  ...createOpenSeaMock(async (addr: string) => `addr:${addr.slice(0, 6)}`),
+}));
+jest.mock("../../src/utils/utils", () => createUtilsMock());
+
+import { buildFloorFields } from "../../src/platforms/discord/utils";
+import { textForTweet } from "../../src/platforms/twitter/utils";
+import { collectionStatsStore } from "../../src/utils/collection-stats";
+import { floorContextFor, formatFloorDelta } from "../../src/utils/floor";
+
+const ONE_ETH = "1000000000000000000";
+
+describe("floor context", () => {
+  beforeEach(() => {
+    process.env.FLOOR_EVENTS = "sale,listing";
+    collectionStatsStore.set({
+      total: { floor_price: 1.25, floor_price_symbol: "ETH" },
+    } as OpenSeaCollectionStats);
+  });
+
+  afterEach(() => {
+    Reflect.deleteProperty(process.env, "FLOOR_EVENTS");
+    collectionStatsStore.clear();
+  });
+
+  it("describes prices relative to the floor", () => {
+    expect(formatFloorDelta(80)).toBe("20% below floor");
+    expect(formatFloorDelta(112.4)).toBe("12% above floor");
+    expect(formatFloorDelta(99.8)).toBe("at floor");
+  });
+
+  it("only adds context for configured event types with a known floor", () => {
+    const sale = quickSaleEvent("1", TEST_ADDRESS_1, 1, ONE_ETH);
+    expect(floorContextFor(sale)).toEqual({
+      floorETH: 1.25,
+      text: "20% below floor",
+    });
+    expect(floorContextFor(quickMintEvent("1"))).toBeUndefined();
+
+    process.env.FLOOR_EVENTS = "listing";
+    expect(floorContextFor(sale)).toBeUndefined();
+
+    process.env.FLOOR_EVENTS = "sale";
+    collectionStatsStore.clear();
+    expect(floorContextFor(sale)).toBeUndefined();
+  });
+
+  it("shows floor context in tweets and Discord embeds", async () => {
+    const sale = quickSaleEvent("1", TEST_ADDRESS_1, 1, ONE_ETH);
+    expect(await textForTweet(sale)).toContain(
+      "purchased for 1 ETH by addr:0x1111 · 20% below floor https://"
+    );
+    expect(buildFloorFields(quickListingEvent("1"))).toEqual([
+      { name: "Floor", value: "100% below floor (1.25 ETH)" },
+    ]);
+  });
+});
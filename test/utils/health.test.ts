@@ -0,0 +1,178 @@
+import type { PlatformHealth } from "../../src/health";
+
+jest.mock("../../src/utils/logger", () => {
+  const base = {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  };
+  return {
+    logger: base,
+    prefixedLogger: () => base,
+    isDebugEnabled: () => false,
+    setLogLevel: jest.fn(),
+  };
+});
+
+const START = Date.UTC(2025, 7, 1);
+const MINUTE_MS = 60_000;
+
+const platform = (ready: boolean): PlatformHealth => ({
+  ready,
+  queued: 2,
+  pendingGroups: 1,
+});
+
+describe("health", () => {
+  const ORIGINAL_ENV = { ...process.env };
+  let now: number;
+
+  beforeEach(() => {
+    jest.resetModules();
+    process.env = { ...ORIGINAL_ENV };
+    process.env.TOKEN_ADDRESS = "0xTestToken";
+    process.env.TWITTER_EVENTS = "sale";
+    process.env.OPENSEA_BOT_INTERVAL = "60";
+    process.env.HEALTH_MAX_FAILING_SECONDS = "300";
+    now = START;
+    jest.spyOn(Date, "now").mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    process.env = ORIGINAL_ENV;
+  });
+
+  it("is healthy but not ready before the first successful poll", async () => {
+    const { healthReport } = await import("../../src/health");
+    const report = healthReport({ twitter: () => platform(true) });
+    expect(report).toMatchObject({
+      healthy: true,
+      ready: false,
+      uptimeSeconds: 0,
+      collections: [
+        {
+          lastStatus: null,
+          lastAttemptAt: null,
+          lastSuccessAt: null,
+          failingSeconds: 0,
+        },
+      ],
+      platforms: { twitter: { ready: true, queued: 2, pendingGroups: 1 } },
+    });
+  });
+
+  it("is ready once polling succeeds and every platform is ready", async () => {
+    const { healthReport, recordPoll } = await import("../../src/health");
+    now += MINUTE_MS;
+    recordPoll("no_events_found");
+
+    expect(healthReport({ twitter: () => platform(true) }).ready).toBe(true);
+    expect(
+      healthReport({
+        twitter: () => platform(true),
+        discord: () => platform(false),
+      }).ready
+    ).toBe(false);
+  });
+
+  it("turns unhealthy once polling fails for too long", async () => {
+    const { healthReport, recordPoll } = await import("../../src/health");
+    recordPoll("events_processed");
+    now += 4 * MINUTE_MS;
+    recordPoll("request_failed");
+    expect(healthReport({}).healthy).toBe(true);
+
+    now += 2 * MINUTE_MS;
+    recordPoll("request_failed");
+    const report = healthReport({});
+    expect(report).toMatchObject({ healthy: false, ready: false });
+    expect(report.collections[0]).toMatchObject({
+      lastStatus: "request_failed",
+      lastAttemptAt: new Date(now).toISOString(),
+      lastSuccessAt: new Date(START).toISOString(),
+      failingSeconds: 360,
+    });
+  });
+
+  it("stays healthy but not ready while standing by", async () => {
+    const { healthReport, recordPoll, setStandby } = await import(
+      "../../src/health"
+    );
+    setStandby(true);
+    now += 10 * MINUTE_MS;
+    expect(healthReport({ twitter: () => platform(true) })).toMatchObject({
+      healthy: true,
+      ready: false,
+      standby: true,
+      collections: [{ lastSuccessAt: null, failingSeconds: 600 }],
+    });
+
+    // The failing clock starts over at the takeover
+    setStandby(false);
+    now += 4 * MINUTE_MS;
+    expect(healthReport({}).healthy).toBe(true);
+    now += 2 * MINUTE_MS;
+    expect(healthReport({}).healthy).toBe(false);
+    recordPoll("events_processed");
+    expect(healthReport({})).toMatchObject({
+      healthy: true,
+      ready: true,
+      standby: false,
+    });
+  });
+
+  it("serves the report with 503 when unhealthy or not ready", async () => {
+    const { HealthServer, recordPoll } = await import("../../src/health");
+    const server = new HealthServer({
+      port: 0,
+      platforms: { twitter: () => platform(true) },
+    });
+    const port = await server.start();
+    const get = (path: string) => fetch(`http://127.0.0.1:${port}${path}`);
+    try {
+      const readyz = await get("/readyz");
+      expect(readyz.status).toBe(503);
+      expect(await readyz.json()).toMatchObject({ healthy: true });
+      expect((await get("/healthz")).status).toBe(200);
+
+      recordPoll("all_events_filtered");
+      expect((await get("/readyz?verbose")).status).toBe(200);
+
+      now += 10 * MINUTE_MS;
+      expect((await get("/healthz")).status).toBe(503);
+      expect((await get("/status")).status).toBe(404);
+    } finally {
+      await server.stop();
+    }
+  });
+
+  it("serves Prometheus metrics with the health gauges", async () => {
+    const { HealthServer, recordPoll } = await import("../../src/health");
+    const server = new HealthServer({
+      port: 0,
+      platforms: { twitter: () => platform(false) },
+    });
+    const port = await server.start();
+    try {
+      recordPoll("events_processed");
+      const response = await fetch(`http://127.0.0.1:${port}/metrics`);
+      expect(response.status).toBe(200);
+      expect(response.headers.get("content-type")).toContain("text/plain");
+      const text = await response.text();
+      expect(text).toContain("# TYPE opensea_bot_fetches_total counter");
+      expect(text).toContain("opensea_bot_healthy 1\n");
+      expect(text).toContain("opensea_bot_ready 0\n");
+      expect(text).toContain(
+        'opensea_bot_platform_ready{platform="twitter"} 0'
+      );
+      expect(text).toContain('opensea_bot_queued_posts{platform="twitter"} 2');
+      expect(text).toContain(
+        'opensea_bot_pending_groups{platform="twitter"} 1'
+      );
+    } finally {
+      await server.stop();
+    }
+  });
+});
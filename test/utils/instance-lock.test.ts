@@ -0,0 +1,206 @@
+import { existsSync } from "node:fs";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { hostname, tmpdir } from "node:os";
+import { join, relative } from "node:path";
+import type { CollectionConfig } from "../../src/config";
+import {
+  acquireInstanceLocks,
+  InstanceLock,
+  type LockHolder,
+} from "../../src/utils/instance-lock";
+
+jest.mock("../../src/utils/logger", () => {
+  const base = {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  };
+  return {
+    logger: base,
+    prefixedLogger: () => base,
+    isDebugEnabled: () => false,
+    setLogLevel: jest.fn(),
+  };
+});
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+// Beyond Linux's pid_max, so never a running process
+const DEAD_PID = 4_194_305;
+
+describe("InstanceLock", () => {
+  let dir: string;
+  let filePath: string;
+
+  const createLock = (staleMs = 60_000) =>
+    new InstanceLock({
+      filePath,
+      collection: "ethereum:0xabc",
+      heartbeatMs: 20,
+      staleMs,
+    });
+
+  // Another process's lock: the parent process is alive on this host
+  const writeHolder = (holder: Partial<LockHolder> = {}) =>
+    writeFile(
+      filePath,
+      JSON.stringify({
+        id: "other",
+        pid: process.ppid,
+        hostname: hostname(),
+        collection: "ethereum:0xabc",
+        startedAt: Date.now(),
+        heartbeatAt: Date.now(),
+        ...holder,
+      })
+    );
+
+  const readHolder = async (): Promise<LockHolder> =>
+    JSON.parse(await readFile(filePath, "utf8"));
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "instance-lock-"));
+    filePath = join(dir, "state", "instance.lock");
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("takes a free lock and releases it", async () => {
+    const lock = createLock();
+    expect(await lock.tryAcquire()).toEqual({ acquired: true });
+    expect(await readHolder()).toMatchObject({
+      pid: process.pid,
+      hostname: hostname(),
+      collection: "ethereum:0xabc",
+    });
+
+    await lock.release();
+    expect(existsSync(filePath)).toBe(false);
+  });
+
+  it("refuses a lock held by a live process", async () => {
+    await createLock().tryAcquire();
+    await writeHolder();
+
+    expect(await createLock().tryAcquire()).toEqual({
+      acquired: false,
+      holder: expect.objectContaining({ id: "other", pid: process.ppid }),
+    });
+  });
+
+  it("takes over a lock whose heartbeat is stale", async () => {
+    await createLock().tryAcquire();
+    await writeHolder({
+      hostname: "elsewhere",
+      heartbeatAt: Date.now() - 61_000,
+    });
+
+    expect(await createLock().tryAcquire()).toEqual({ acquired: true });
+    expect((await readHolder()).pid).toBe(process.pid);
+  });
+
+  it("takes over a lock whose process is gone from this host", async () => {
+    await createLock().tryAcquire();
+    await writeHolder({ pid: DEAD_PID });
+    expect(await createLock().tryAcquire()).toEqual({ acquired: true });
+
+    // A process on another host cannot be checked, so only staleness counts
+    await writeHolder({ pid: DEAD_PID, hostname: "elsewhere" });
+    expect((await createLock().tryAcquire()).acquired).toBe(false);
+  });
+
+  it("reports a lock taken over by another instance", async () => {
+    const lock = createLock();
+    await lock.tryAcquire();
+    const onLost = jest.fn();
+    lock.startHeartbeat(onLost);
+
+    await sleep(50);
+    expect(onLost).not.toHaveBeenCalled();
+    await writeHolder();
+    await sleep(50);
+    expect(onLost).toHaveBeenCalledTimes(1);
+
+    // Releasing leaves the new holder's lock alone
+    await lock.release();
+    expect((await readHolder()).id).toBe("other");
+  });
+});
+
+describe("acquireInstanceLocks", () => {
+  let dir: string;
+  const collections = [
+    { chain: "ethereum", tokenAddress: "0xAAA" },
+    { chain: "ethereum", tokenAddress: "0xBBB" },
+  ] as CollectionConfig[];
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "instance-locks-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const stateDir = () => relative(process.cwd(), dir);
+  const lockFile = (address: string) =>
+    join(dir, `instance-ethereum-${address}.lock`);
+  const holdSecondLock = () =>
+    writeFile(
+      lockFile("0xbbb"),
+      JSON.stringify({
+        id: "other",
+        pid: process.ppid,
+        hostname: hostname(),
+        heartbeatAt: Date.now(),
+      })
+    );
+
+  it("takes every collection's lock", async () => {
+    const locks = await acquireInstanceLocks(collections, stateDir(), {
+      mode: "exit",
+      heartbeatSeconds: 10,
+      staleSeconds: 60,
+    });
+    expect(locks).toHaveLength(2);
+    expect(existsSync(lockFile("0xaaa"))).toBe(true);
+    expect(existsSync(lockFile("0xbbb"))).toBe(true);
+  });
+
+  it("gives up every lock when one is held in exit mode", async () => {
+    await holdSecondLock();
+    const locks = await acquireInstanceLocks(collections, stateDir(), {
+      mode: "exit",
+      heartbeatSeconds: 10,
+      staleSeconds: 60,
+    });
+    expect(locks).toBeUndefined();
+    expect(existsSync(lockFile("0xaaa"))).toBe(false);
+  });
+
+  it("stands by until the primary's lock is released", async () => {
+    await holdSecondLock();
+    let locks: unknown;
+    const onStandby = jest.fn();
+    const acquiring = acquireInstanceLocks(
+      collections,
+      stateDir(),
+      { mode: "standby", heartbeatSeconds: 1, staleSeconds: 60 },
+      onStandby
+    ).then((result) => {
+      locks = result;
+    });
+
+    await sleep(200);
+    expect(locks).toBeUndefined();
+    expect(onStandby).toHaveBeenCalledTimes(1);
+    expect(existsSync(lockFile("0xaaa"))).toBe(false);
+
+    await rm(lockFile("0xbbb"));
+    await acquiring;
+    expect(locks).toHaveLength(2);
+  });
+});
@@ -0,0 +1,108 @@
+import { jest } from "@jest/globals";
+import type { OpenSeaAssetEvent } from "../../src/types";
+import {
+  createOpenSeaMock,
+  createUtilsMock,
+  quickMintEvent,
+  quickSaleEvent,
+  TEST_ADDRESS_1,
+} from "../fixtures";
+
+const DAY_SECONDS = 86_400;
+const NOW_SECONDS = 1_760_000_000;
+
+const previousSale = (priceWei: string, symbol = "ETH") =>
+  ({
+    ...quickSaleEvent("42", TEST_ADDRESS_1, NOW_SECONDS - 14 * DAY_SECONDS),
+    payment: { quantity: priceWei, decimals: 18, symbol, token_address: "" },
+  }) as OpenSeaAssetEvent;
+
+const fetchPreviousSale = jest.fn(
+  async (): Promise<OpenSeaAssetEvent | undefined> =>
+    previousSale("2000000000000000000")
+);
+
+jest.mock("../../src/opensea", () => ({
+  ...createOpenSeaMock(async (addr: string) => `addr:${addr.slice(0, 6)}`),
+  fetchPreviousSale,
+}));
+jest.mock("../../src/utils/utils", () => createUtilsMock());
+
+import { buildSaleEmbed } from "../../src/platforms/discord/utils";
+import { textForTweet } from "../../src/platforms/twitter/utils";
+import {
+  formatLastSale,
+  formatProfit,
+  lastSaleFor,
+} from "../../src/utils/last-sale";
+
+// 2.76 ETH, 38% above the previous 2 ETH sale
+const resale = () =>
+  quickSaleEvent("42", TEST_ADDRESS_1, NOW_SECONDS, "2760000000000000000");
+
+describe("last sale", () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW_SECONDS * 1000 });
+    fetchPreviousSale.mockClear();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    Reflect.deleteProperty(process.env, "LAST_SALE_IN_DISCORD");
+    Reflect.deleteProperty(process.env, "LAST_SALE_IN_TWEETS");
+  });
+
+  it("describes the previous sale and the change in price", async () => {
+    const sale = await lastSaleFor(resale());
+    expect(sale?.change).toEqual({
+      quantity: 760_000_000_000_000_000n,
+      percent: 38,
+    });
+    expect(sale && formatLastSale(sale)).toBe(
+      "Last sold for 2 ETH 14 days ago (+38%)"
+    );
+    expect(sale && formatProfit(sale)).toBe("+0.76 ETH (+38%)");
+  });
+
+  it("reports losses and skips comparisons across currencies", async () => {
+    fetchPreviousSale.mockResolvedValueOnce(
+      previousSale("4000000000000000000")
+    );
+    const loss = await lastSaleFor(resale());
+    expect(loss && formatProfit(loss)).toBe("-1.24 ETH (-31%)");
+
+    fetchPreviousSale.mockResolvedValueOnce(previousSale("5000000", "USDC"));
+    const usdc = await lastSaleFor(resale());
+    expect(usdc?.change).toBeUndefined();
+    expect(usdc && formatProfit(usdc)).toBeUndefined();
+  });
+
+  it("only looks up previous sales for sale events", async () => {
+    expect(await lastSaleFor(quickMintEvent("42"))).toBeUndefined();
+    expect(fetchPreviousSale).not.toHaveBeenCalled();
+
+    fetchPreviousSale.mockResolvedValueOnce(undefined);
+    expect(await lastSaleFor(resale())).toBeUndefined();
+  });
+
+  it("adds last sale fields to Discord sale embeds when enabled", async () => {
+    const { fields } = await buildSaleEmbed(resale());
+    expect(fields.map((f) => f.name)).toEqual(["Price", "By"]);
+
+    process.env.LAST_SALE_IN_DISCORD = "true";
+    const enabled = await buildSaleEmbed(resale());
+    expect(enabled.fields.slice(2)).toEqual([
+      { name: "Last Sale", value: "2 ETH, 14 days ago" },
+      { name: "Profit", value: "+0.76 ETH (+38%)" },
+    ]);
+  });
+
+  it("appends the last sale to tweets when enabled", async () => {
+    expect(await textForTweet(resale())).not.toContain("Last sold");
+
+    process.env.LAST_SALE_IN_TWEETS = "true";
+    expect(await textForTweet(resale())).toContain(
+      "by addr:0x1111 · Last sold for 2 ETH 14 days ago (+38%) https://"
+    );
+  });
+});
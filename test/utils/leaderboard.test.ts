@@ -0,0 +1,182 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { CollectionConfig } from "../../src/config";
+import { createOpenSeaMock } from "../fixtures";
+import {
+  createMintEvent,
+  createSaleEvent,
+  TEST_BUYER_1,
+  TEST_MINTER_1,
+  TEST_SELLER_1,
+} from "../helpers";
+
+jest.mock("../../src/utils/logger", () => {
+  const base = {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  };
+  return {
+    logger: base,
+    prefixedLogger: () => base,
+    isDebugEnabled: () => false,
+    setLogLevel: jest.fn(),
+  };
+});
+
+jest.mock("../../src/opensea", () =>
+  createOpenSeaMock(async (address: string) => `user:${address.slice(0, 6)}`)
+);
+
+import {
+  latestLeaderboardPost,
+  leaderboardFields,
+} from "../../src/leaderboard";
+import { runWithCollection } from "../../src/utils/collection-store";
+import {
+  EventHistory,
+  historyEventFor,
+  type LeaderboardQuery,
+} from "../../src/utils/event-history";
+
+const COLLECTION = {
+  chain: "ethereum",
+  tokenAddress: "0x123",
+} as CollectionConfig;
+
+const ETH = "000000000000000000";
+const DAY = 86_400;
+const NOW = 1_760_000_000;
+const WHALE = "0x1111111111111111111111111111111111111111";
+
+const sale = (id: string, buyer: string, eth: string, timestamp: number) =>
+  runWithCollection(COLLECTION, () =>
+    historyEventFor({
+      ...createSaleEvent(id, buyer, TEST_SELLER_1, `${eth}${ETH}`),
+      event_timestamp: timestamp,
+    })
+  );
+
+const mint = (id: string, timestamp: number) =>
+  runWithCollection(COLLECTION, () =>
+    historyEventFor(createMintEvent(id, TEST_MINTER_1, timestamp))
+  );
+
+describe("leaderboard", () => {
+  let dir: string;
+  let history: EventHistory;
+
+  const leaderboard = (overrides: Partial<LeaderboardQuery> = {}) =>
+    history.leaderboard({
+      role: "buyer",
+      since: NOW - 7 * DAY,
+      rankBy: "volume",
+      limit: 5,
+      ...overrides,
+    });
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "leaderboard-"));
+    history = new EventHistory(join(dir, "history.sqlite"));
+    await history.record([
+      sale("1", TEST_BUYER_1, "1", NOW - DAY),
+      sale("2", TEST_BUYER_1, "1", NOW - DAY),
+      sale("3", TEST_BUYER_1, "1", NOW - DAY),
+      sale("4", WHALE, "10", NOW - 2 * DAY),
+      sale("5", WHALE, "50", NOW - 30 * DAY),
+      mint("6", NOW - DAY),
+      mint("7", NOW - DAY),
+    ]);
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("ranks buyers by volume or by items within the window", async () => {
+    expect(await leaderboard()).toEqual([
+      { address: WHALE, count: 1, volume: 10 },
+      { address: TEST_BUYER_1, count: 3, volume: 3 },
+    ]);
+    expect(
+      (await leaderboard({ rankBy: "count" })).map((e) => e.address)
+    ).toEqual([TEST_BUYER_1, WHALE]);
+    expect(await leaderboard({ since: NOW - 60 * DAY, limit: 1 })).toEqual([
+      { address: WHALE, count: 2, volume: 60 },
+    ]);
+  });
+
+  it("ranks sellers and minters", async () => {
+    expect(await leaderboard({ role: "seller" })).toEqual([
+      { address: TEST_SELLER_1, count: 4, volume: 13 },
+    ]);
+    expect(await leaderboard({ role: "minter" })).toEqual([
+      { address: TEST_MINTER_1, count: 2, volume: 0 },
+    ]);
+    expect(await leaderboard({ collection: "0x456" })).toEqual([]);
+  });
+
+  it("only counts events of the collection's chain", async () => {
+    const base = { ...COLLECTION, chain: "base" };
+    await history.record([
+      runWithCollection(base, () =>
+        historyEventFor({
+          ...createSaleEvent("8", WHALE, TEST_SELLER_1, `100${ETH}`),
+          chain: "base",
+          event_timestamp: NOW - DAY,
+        })
+      ),
+    ]);
+    expect(
+      await leaderboard({ collection: "0x123", chain: "ethereum" })
+    ).toEqual([
+      { address: WHALE, count: 1, volume: 10 },
+      { address: TEST_BUYER_1, count: 3, volume: 3 },
+    ]);
+    expect(await leaderboard({ collection: "0x123", chain: "base" })).toEqual([
+      { address: WHALE, count: 1, volume: 100 },
+    ]);
+  });
+
+  it("schedules posts on whole intervals since the epoch", () => {
+    const midnight = Date.UTC(2025, 9, 9);
+    const HOUR_MS = 3_600_000;
+    expect(latestLeaderboardPost(24, midnight)).toBe(midnight);
+    expect(latestLeaderboardPost(24, midnight + 23 * HOUR_MS)).toBe(midnight);
+    expect(latestLeaderboardPost(24, midnight + 25 * HOUR_MS)).toBe(
+      midnight + 24 * HOUR_MS
+    );
+    expect(latestLeaderboardPost(6, midnight + 13 * HOUR_MS)).toBe(
+      midnight + 12 * HOUR_MS
+    );
+  });
+
+  it("renders a field per role and window", async () => {
+    const fields = await runWithCollection(COLLECTION, () =>
+      leaderboardFields({
+        windows: ["12h", "7d"],
+        size: 5,
+        rankBy: "count",
+        history,
+        now: NOW,
+      })
+    );
+    expect(fields.map((field) => field.name)).toEqual([
+      "Top buyers (12h)",
+      "Top sellers (12h)",
+      "Top minters (12h)",
+      "Top buyers (7d)",
+      "Top sellers (7d)",
+      "Top minters (7d)",
+    ]);
+    expect(fields[0].value).toBe("No activity");
+    expect(fields[3].value).toBe(
+      `1. user:${TEST_BUYER_1.slice(0, 6)}: 3 items, 3 ETH\n2. user:${WHALE.slice(0, 6)}: 1 item, 10 ETH`
+    );
+    expect(fields[5].value).toBe(
+      `1. user:${TEST_MINTER_1.slice(0, 6)}: 2 items`
+    );
+  });
+});
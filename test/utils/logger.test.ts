@@ -1,7 +1,8 @@
 // Override global test setup to allow info logs for logger tests
 process.env.LOG_LEVEL = "info";
 
-import { prefixedLogger } from "../../src/utils/logger";
+import { logFields } from "../../src/utils/log-fields";
+import { logger, prefixedLogger, setLogFormat } from "../../src/utils/logger";
 
 describe("prefixedLogger", () => {
   test("prefixes messages", () => {
@@ -15,4 +16,77 @@ describe("prefixedLogger", () => {
     expect(called.includes("[Test]")).toBe(true);
     spy.mockRestore();
   });
+
+  test("writes fields as key=value text", () => {
+    const spy = jest
+      .spyOn(process.stdout, "write")
+      .mockImplementation(() => true);
+    logger.info(
+      "[Summary]",
+      logFields({ status: "ok", count: 2, gone: undefined })
+    );
+    expect(String(spy.mock.calls[0]?.[0])).toContain(
+      "[Summary] status=ok count=2\n"
+    );
+    spy.mockRestore();
+  });
+});
+
+describe("LOG_FORMAT=json", () => {
+  let stdout: jest.SpyInstance;
+  let stderr: jest.SpyInstance;
+
+  const entries = (spy: jest.SpyInstance) =>
+    spy.mock.calls.map(([line]) => JSON.parse(String(line)));
+
+  beforeEach(() => {
+    setLogFormat("json");
+    stdout = jest.spyOn(process.stdout, "write").mockImplementation(() => true);
+    stderr = jest.spyOn(process.stderr, "write").mockImplementation(() => true);
+  });
+
+  afterEach(() => {
+    setLogFormat("text");
+    stdout.mockRestore();
+    stderr.mockRestore();
+  });
+
+  test("writes one JSON object per entry", () => {
+    prefixedLogger("Discord").info("Sent", 2, "posts", { ok: true });
+    const [entry] = entries(stdout);
+    expect(entry).toEqual({
+      timestamp: expect.any(String),
+      level: "info",
+      collection: expect.any(String),
+      prefix: "Discord",
+      message: 'Sent 2 posts {"ok":true}',
+    });
+    expect(Number.isNaN(Date.parse(entry.timestamp))).toBe(false);
+  });
+
+  test("takes the prefix from a leading tag and fields as keys", () => {
+    logger.info(
+      "[FetchSummary]",
+      logFields({ status: "events_processed", fetched: 3, error: undefined })
+    );
+    expect(entries(stdout)[0]).toMatchObject({
+      prefix: "FetchSummary",
+      message: "",
+      status: "events_processed",
+      fetched: 3,
+    });
+    expect(entries(stdout)[0]).not.toHaveProperty("error");
+  });
+
+  test("logs errors as structured fields", () => {
+    prefixedLogger("Queue").error("Dropping post:", new Error("boom"));
+    const [entry] = entries(stderr);
+    expect(entry).toMatchObject({
+      level: "error",
+      prefix: "Queue",
+      message: "Dropping post:",
+      error: { name: "Error", message: "boom" },
+    });
+    expect(entry.error.stack).toContain("boom");
+  });
 });
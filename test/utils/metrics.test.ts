@@ -0,0 +1,114 @@
+import {
+  Counter,
+  Histogram,
+  recordGroupFlushes,
+  renderMetrics,
+} from "../../src/utils/metrics";
+import { AsyncQueue } from "../../src/utils/queue";
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+const linesFor = (prefix: string): string[] =>
+  renderMetrics()
+    .split("\n")
+    .filter((line) => line.startsWith(prefix));
+
+describe("metrics", () => {
+  it("renders counters in the Prometheus text format", () => {
+    const counter = new Counter("test_requests_total", "Requests handled");
+    counter.inc({ path: "/a" });
+    counter.inc({ path: "/a" }, 2);
+    counter.inc({ path: 'say "hi"\n' });
+
+    const text = renderMetrics();
+    expect(text).toContain(
+      "# HELP test_requests_total Requests handled\n# TYPE test_requests_total counter\n"
+    );
+    expect(linesFor("test_requests_total{")).toEqual([
+      'test_requests_total{path="/a"} 3',
+      'test_requests_total{path="say \\"hi\\"\\n"} 1',
+    ]);
+    expect(text.endsWith("\n")).toBe(true);
+  });
+
+  it("renders cumulative histogram buckets", () => {
+    const histogram = new Histogram("test_size", "Sizes", [2, 5]);
+    histogram.observe({ platform: "x" }, 1);
+    histogram.observe({ platform: "x" }, 4);
+    histogram.observe({ platform: "x" }, 9);
+
+    expect(linesFor("test_size_")).toEqual([
+      'test_size_bucket{platform="x",le="2"} 1',
+      'test_size_bucket{platform="x",le="5"} 2',
+      'test_size_bucket{platform="x",le="+Inf"} 3',
+      'test_size_sum{platform="x"} 14',
+      'test_size_count{platform="x"} 3',
+    ]);
+  });
+
+  it("records group flush sizes by platform", () => {
+    recordGroupFlushes("flush-test", [
+      { events: [1, 2, 3] },
+      { events: [1, 2] },
+    ]);
+    expect(
+      linesFor('opensea_bot_group_flush_size_count{platform="flush-test"}')
+    ).toEqual(['opensea_bot_group_flush_size_count{platform="flush-test"} 2']);
+  });
+
+  it("counts queue sends, retries, rate limits and fatal drops", async () => {
+    let rateLimited = false;
+    let retried = false;
+    const q = new AsyncQueue<number>({
+      perItemDelayMs: 1,
+      backoffBaseMs: 1,
+      backoffMaxMs: 10,
+      platform: "queue-test",
+      process: (n) => {
+        if (n === 1 && !rateLimited) {
+          rateLimited = true;
+          throw new Error("Rate limit");
+        }
+        if (n === 2 && !retried) {
+          retried = true;
+          throw new Error("Temporary");
+        }
+        if (n === 3) {
+          throw new Error("Fatal");
+        }
+        return Promise.resolve();
+      },
+      keyFor: (n) => String(n),
+      classifyError: (error) => {
+        const { message } = error as Error;
+        if (message === "Rate limit") {
+          return { type: "rate_limit", pauseUntilMs: Date.now() + 1 };
+        }
+        return message === "Temporary"
+          ? { type: "transient" }
+          : { type: "fatal" };
+      },
+    });
+
+    q.enqueue(1);
+    q.enqueue(2);
+    q.enqueue(3);
+    await sleep(100);
+
+    const label = '{platform="queue-test"}';
+    expect(linesFor(`opensea_bot_posts_sent_total${label}`)).toEqual([
+      `opensea_bot_posts_sent_total${label} 2`,
+    ]);
+    expect(linesFor(`opensea_bot_post_retries_total${label}`)).toEqual([
+      `opensea_bot_post_retries_total${label} 1`,
+    ]);
+    expect(linesFor(`opensea_bot_rate_limit_pauses_total${label}`)).toEqual([
+      `opensea_bot_rate_limit_pauses_total${label} 1`,
+    ]);
+    expect(
+      linesFor('opensea_bot_posts_dropped_total{platform="queue-test"')
+    ).toEqual([
+      'opensea_bot_posts_dropped_total{platform="queue-test",reason="fatal"} 1',
+    ]);
+  });
+});
@@ -0,0 +1,98 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Outbox } from "../../src/utils/outbox";
+import { createMintEvent } from "../helpers";
+
+type Post = { text: string };
+
+describe("Outbox", () => {
+  let dir: string;
+  let filePath: string;
+
+  const createOutbox = () =>
+    new Outbox<Post>({ filePath, enablePersistence: true });
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "outbox-"));
+    filePath = join(dir, "outbox-test.json");
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("restores pending posts after a restart", async () => {
+    const outbox = createOutbox();
+    await outbox.load();
+    outbox.add("a", { text: "first" });
+    outbox.add("b", { text: "second" });
+    outbox.update("b", { attempts: 2 });
+    await outbox.flush();
+
+    const restored = await createOutbox().load();
+    expect(restored.map((e) => [e.key, e.item.text, e.attempts])).toEqual([
+      ["a", "first", 0],
+      ["b", "second", 2],
+    ]);
+  });
+
+  it("refuses posts that are pending or already delivered", async () => {
+    const outbox = createOutbox();
+    expect(outbox.add("a", { text: "first" })).toBe(true);
+    expect(outbox.add("a", { text: "again" })).toBe(false);
+
+    outbox.complete("a");
+    await outbox.flush();
+    expect(outbox.has("a")).toBe(false);
+    expect(outbox.add("a", { text: "again" })).toBe(false);
+
+    // Delivered keys survive a restart too
+    const restarted = createOutbox();
+    await restarted.load();
+    expect(restarted.wasDelivered("a")).toBe(true);
+    expect(restarted.entries()).toEqual([]);
+  });
+
+  it("keeps entries on disk that were added before loading", async () => {
+    const first = createOutbox();
+    first.add("a", { text: "first" });
+    await first.flush();
+
+    // A second instance writing before load must not lose "a"
+    const second = createOutbox();
+    second.add("b", { text: "second" });
+    await second.flush();
+
+    const persisted = JSON.parse(await readFile(filePath, "utf8")) as {
+      pending: { key: string }[];
+    };
+    expect(persisted.pending.map((e) => e.key)).toEqual(["a", "b"]);
+  });
+
+  it("drops posts without marking them delivered", async () => {
+    const outbox = createOutbox();
+    outbox.add("a", { text: "first" });
+    outbox.drop("a");
+    await outbox.flush();
+
+    expect(outbox.entries()).toEqual([]);
+    expect(outbox.wasDelivered("a")).toBe(false);
+  });
+
+  it("restores events settling into groups after a restart", async () => {
+    const event = createMintEvent("1", "0xminter", 1_700_000_000);
+    const outbox = createOutbox();
+    await outbox.load();
+    outbox.hold("ethereum:0xabc", [event]);
+    outbox.hold("base:0xdef", [event]);
+    outbox.hold("base:0xdef", []);
+    await outbox.flush();
+
+    const restarted = createOutbox();
+    await restarted.load();
+    expect(restarted.heldEvents()).toEqual([
+      { collectionKey: "ethereum:0xabc", events: [event] },
+    ]);
+  });
+});
@@ -0,0 +1,125 @@
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { jest } from "@jest/globals";
+import {
+  formatFiat,
+  formatPrice,
+  httpPriceSource,
+  type PriceSource,
+  setPriceSource,
+} from "../../src/utils/prices";
+
+const ONE_ETH = { quantity: "1000000000000000000", decimals: 18 };
+
+describe("prices", () => {
+  beforeEach(() => {
+    process.env.FIAT_CURRENCY = "USD";
+    process.env.FIAT_PRICE_SOURCE = "static";
+    process.env.FIAT_STATIC_RATES = "ETH=3500,USDC=1";
+    setPriceSource();
+  });
+
+  afterEach(() => {
+    Reflect.deleteProperty(process.env, "FIAT_CURRENCY");
+    Reflect.deleteProperty(process.env, "FIAT_PRICE_SOURCE");
+    Reflect.deleteProperty(process.env, "FIAT_STATIC_RATES");
+    Reflect.deleteProperty(process.env, "FIAT_CACHE_SECONDS");
+    Reflect.deleteProperty(process.env, "FIAT_PRICE_URL");
+    Reflect.deleteProperty(process.env, "FIAT_TIMEOUT_MS");
+    setPriceSource();
+  });
+
+  it("adds the fiat value after the crypto amount", async () => {
+    expect(await formatPrice({ ...ONE_ETH, symbol: "ETH" })).toBe(
+      "1 ETH ($3,500)"
+    );
+    // WETH is priced as ETH
+    expect(
+      await formatPrice({
+        quantity: "250000000000000000",
+        decimals: 18,
+        symbol: "WETH",
+      })
+    ).toBe("0.25 ETH ($875)");
+    expect(
+      await formatPrice({ quantity: "12500000", decimals: 6, symbol: "USDC" })
+    ).toBe("12.5 USDC ($12.50)");
+  });
+
+  it("shows only the crypto amount without a currency or rate", async () => {
+    expect(await formatPrice({ ...ONE_ETH, symbol: "APE" })).toBe("1 APE");
+    Reflect.deleteProperty(process.env, "FIAT_CURRENCY");
+    expect(await formatPrice({ ...ONE_ETH, symbol: "ETH" })).toBe("1 ETH");
+  });
+
+  it("caches rates per token", async () => {
+    const rateFor = jest.fn<PriceSource["rateFor"]>(async () => 2000);
+    setPriceSource({ name: "test", rateFor });
+
+    await formatPrice({ ...ONE_ETH, symbol: "ETH" });
+    await formatPrice({ ...ONE_ETH, symbol: "WETH" });
+    await formatPrice({ ...ONE_ETH, symbol: "USDC" });
+    expect(rateFor).toHaveBeenCalledTimes(2);
+  });
+
+  it("keeps the last known rate when a lookup fails", async () => {
+    process.env.FIAT_CACHE_SECONDS = "0";
+    const rateFor = jest
+      .fn<PriceSource["rateFor"]>()
+      .mockResolvedValueOnce(2000)
+      .mockRejectedValueOnce(new Error("down"));
+    setPriceSource({ name: "test", rateFor });
+
+    expect(await formatPrice({ ...ONE_ETH, symbol: "ETH" })).toBe(
+      "1 ETH ($2,000)"
+    );
+    expect(await formatPrice({ ...ONE_ETH, symbol: "ETH" })).toBe(
+      "1 ETH ($2,000)"
+    );
+    expect(rateFor).toHaveBeenCalledTimes(2);
+  });
+
+  it("reads rates from a templated HTTP endpoint", async () => {
+    const paths: string[] = [];
+    const server: Server = createServer((req, res) => {
+      paths.push(req.url ?? "");
+      res.setHeader("Connection", "close");
+      res.end(JSON.stringify({ data: { amount: "3210.5" } }));
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const { port } = server.address() as AddressInfo;
+    try {
+      const source = httpPriceSource(
+        `http://127.0.0.1:${port}/prices/{symbol}-{currency}`,
+        "data.amount",
+        1000
+      );
+      expect(await source.rateFor({ symbol: "WETH" }, "EUR")).toBe(3210.5);
+      expect(paths).toEqual(["/prices/ETH-EUR"]);
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+
+  it("shows no fiat value when the HTTP source times out", async () => {
+    // Never answers, so only the timeout ends the request
+    const server: Server = createServer();
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const { port } = server.address() as AddressInfo;
+    process.env.FIAT_PRICE_SOURCE = "http";
+    process.env.FIAT_PRICE_URL = `http://127.0.0.1:${port}/{symbol}`;
+    process.env.FIAT_TIMEOUT_MS = "50";
+    try {
+      expect(await formatPrice({ ...ONE_ETH, symbol: "ETH" })).toBe("1 ETH");
+    } finally {
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+
+  it("formats fiat values per currency", () => {
+    expect(formatFiat(4120.4, "USD")).toBe("$4,120");
+    expect(formatFiat(0.5, "USD")).toBe("$0.50");
+    expect(formatFiat(3500, "EUR")).toBe("€3,500");
+  });
+});
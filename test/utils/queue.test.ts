@@ -10,6 +10,7 @@ describe("AsyncQueue", () => {
         perItemDelayMs: 1,
         backoffBaseMs: 1,
         backoffMaxMs: 10,
+        platform: "test",
         process: (n) => {
           processed.push(n);
           return Promise.resolve();
@@ -32,6 +33,7 @@ describe("AsyncQueue", () => {
         perItemDelayMs: DELAY_MS,
         backoffBaseMs: 1,
         backoffMaxMs: 10,
+        platform: "test",
         debug: false,
         process: (n) => {
           processed.push(n);
@@ -58,6 +60,7 @@ describe("AsyncQueue", () => {
         perItemDelayMs: 1,
         backoffBaseMs: 1,
         backoffMaxMs: 10,
+        platform: "test",
         debug: false,
         process: () => Promise.resolve(),
         keyFor: (n) => String(n),
@@ -77,6 +80,7 @@ describe("AsyncQueue", () => {
         perItemDelayMs: 1,
         backoffBaseMs: 1,
         backoffMaxMs: 10,
+        platform: "test",
         debug: true,
         process: (n) => {
           processed.push(n);
@@ -106,6 +110,7 @@ describe("AsyncQueue", () => {
         perItemDelayMs: 1,
         backoffBaseMs: 1,
         backoffMaxMs: 10,
+        platform: "test",
         process: (n) => {
           if (n === 2) {
             throw new Error("Fatal error");
@@ -138,6 +143,7 @@ describe("AsyncQueue", () => {
         perItemDelayMs: 1,
         backoffBaseMs: 5,
         backoffMaxMs: 50,
+        platform: "test",
         process: (n) => {
           const attemptCount = (attempts.get(n) ?? 0) + 1;
           attempts.set(n, attemptCount);
@@ -169,6 +175,7 @@ describe("AsyncQueue", () => {
         perItemDelayMs: 1,
         backoffBaseMs: 1,
         backoffMaxMs: 10,
+        platform: "test",
         process: (n) => {
           if (n === 1 && !rateLimitHit) {
             rateLimitHit = true;
@@ -208,6 +215,7 @@ describe("AsyncQueue", () => {
         perItemDelayMs: 0,
         backoffBaseMs: 5,
         backoffMaxMs: 20,
+        platform: "test",
         processingTimeoutMs: PROCESSING_TIMEOUT_MS,
         process: async (n) => {
           attempts += 1;
@@ -242,6 +250,7 @@ describe("AsyncQueue", () => {
         perItemDelayMs: 1,
         backoffBaseMs: 1,
         backoffMaxMs: 10,
+        platform: "test",
         debug: false,
         process: (n) => {
           processed.push(n);
@@ -285,6 +294,7 @@ describe("AsyncQueue", () => {
         perItemDelayMs: 1,
         backoffBaseMs: 1,
         backoffMaxMs: 10,
+        platform: "test",
         process: (n) => {
           processed.push(n);
           return Promise.resolve();
@@ -311,6 +321,7 @@ describe("AsyncQueue", () => {
         perItemDelayMs: 1,
         backoffBaseMs: 1,
         backoffMaxMs: 10,
+        platform: "test",
         process: (n) => {
           if (n === 2) {
             throw new Error("Fatal error");
@@ -333,6 +344,53 @@ describe("AsyncQueue", () => {
       expect(onProcessedCalls).toEqual([1, 3]);
       expect(onProcessedCalls).not.toContain(2);
     });
+
+    it("reports retried attempts and dropped items", async () => {
+      const attempts: [number, number][] = [];
+      const dropped: [number, string][] = [];
+      let failures = 0;
+
+      const q = new AsyncQueue<number>({
+        perItemDelayMs: 1,
+        backoffBaseMs: 1,
+        backoffMaxMs: 10,
+        platform: "test",
+        process: (n) => {
+          if (n === 1 && failures < 1) {
+            failures += 1;
+            throw new Error("Temporary");
+          }
+          if (n === 2) {
+            throw new Error("Fatal");
+          }
+          return Promise.resolve();
+        },
+        keyFor: (n) => String(n),
+        isAlreadyProcessed: (key) => key === "3",
+        onAttempt: (n, count) => {
+          attempts.push([n, count]);
+        },
+        onDropped: (n, reason) => {
+          dropped.push([n, reason]);
+        },
+        classifyError: (error) =>
+          (error as Error).message === "Temporary"
+            ? { type: "transient" }
+            : { type: "fatal" },
+      });
+
+      q.enqueue(1, 2);
+      q.enqueue(2);
+      q.enqueue(3);
+      await sleep(100);
+
+      // Restored items continue counting from their previous attempts
+      expect(attempts).toEqual([[1, 3]]);
+      expect(dropped).toEqual([
+        [2, "fatal"],
+        [3, "already_processed"],
+      ]);
+    });
   });
 
   describe("Race Conditions", () => {
@@ -343,6 +401,7 @@ describe("AsyncQueue", () => {
         perItemDelayMs: 10,
         backoffBaseMs: 1,
         backoffMaxMs: 10,
+        platform: "test",
         debug: false,
         process: (n) => {
           processed.push(n);
@@ -380,6 +439,7 @@ describe("AsyncQueue", () => {
         perItemDelayMs: 5,
         backoffBaseMs: 1,
         backoffMaxMs: 10,
+        platform: "test",
         debug: false,
         process: (n) => {
           processed.push(n);
@@ -0,0 +1,118 @@
+import { jest } from "@jest/globals";
+import type { OpenSeaNFT } from "../../src/types";
+import {
+  createOpenSeaMock,
+  createUtilsMock,
+  minimalNFT,
+  quickListingEvent,
+  quickSaleEvent,
+  TEST_ADDRESS_1,
+} from "../fixtures";
+
+const trait = (trait_type: string, value: string) => ({
+  trait_type,
+  value,
+  display_type: null,
+  max_value: null,
+});
+
+const DETAILED_NFT = minimalNFT("42", {
+  traits: [
+    trait("Background", "Blue"),
+    trait("Hat", "Crown"),
+    trait("Eyes", "Laser"),
+    trait("Level", "7"),
+  ],
+  rarity: { strategy_id: "openrarity", strategy_version: "1", rank: 42 },
+});
+
+const fetchNFT = jest.fn(async () => DETAILED_NFT as OpenSeaNFT | undefined);
+
+jest.mock("../../src/opensea", () => ({
+  ...createOpenSeaMock(async (addr: string) => `addr:${addr.slice(0, 6)}`),
+  fetchNFT,
+  fetchCollection: jest.fn(async () => ({
+    total_supply: 10_000,
+    rarity: { max_rank: 10_000 },
+  })),
+  fetchTraitCounts: jest.fn(async () => ({
+    categories: {},
+    counts: {
+      Background: { Blue: 1200, Red: 800 },
+      Hat: { crown: 50 },
+      Eyes: { Laser: 400 },
+      Level: { min: 1, max: 10 },
+    },
+  })),
+}));
+jest.mock("../../src/utils/utils", () => createUtilsMock());
+
+import { buildRarityFields } from "../../src/platforms/discord/utils";
+import { textForTweet } from "../../src/platforms/twitter/utils";
+import { formatRank, formatTrait, rarityInfoFor } from "../../src/utils/rarity";
+
+describe("rarity", () => {
+  beforeEach(() => {
+    process.env.RARITY_EVENTS = "sale,listing";
+    fetchNFT.mockClear();
+  });
+
+  afterEach(() => {
+    Reflect.deleteProperty(process.env, "RARITY_EVENTS");
+    Reflect.deleteProperty(process.env, "RARITY_TRAIT_COUNT");
+    Reflect.deleteProperty(process.env, "RARITY_IN_TWEETS");
+  });
+
+  it("fetches rank and orders traits from rarest to most common", async () => {
+    process.env.RARITY_TRAIT_COUNT = "2";
+    const info = await rarityInfoFor(quickSaleEvent("42", TEST_ADDRESS_1));
+
+    expect(fetchNFT).toHaveBeenCalledWith("42");
+    expect(info).toEqual({
+      rank: 42,
+      maxRank: 10_000,
+      traits: [
+        { type: "Hat", value: "Crown", count: 50, percent: 0.5 },
+        { type: "Eyes", value: "Laser", count: 400, percent: 4 },
+      ],
+    });
+  });
+
+  it("formats rank and traits", () => {
+    expect(formatRank({ rank: 42, maxRank: 10_000, traits: [] })).toBe(
+      "Rank #42 / 10,000"
+    );
+    expect(formatRank({ rank: 42, traits: [] })).toBe("Rank #42");
+    expect(
+      formatTrait({ type: "Hat", value: "Crown", count: 5, percent: 0.05 })
+    ).toBe("Hat: Crown (0.05%)");
+    expect(
+      formatTrait({ type: "Eyes", value: "Laser", count: 1234, percent: 12.34 })
+    ).toBe("Eyes: Laser (12.3%)");
+  });
+
+  it("adds rarity fields to Discord embeds for configured event types", async () => {
+    const fields = await buildRarityFields(quickListingEvent("42"));
+    expect(fields).toEqual([
+      { name: "Rarity", value: "Rank #42 / 10,000" },
+      {
+        name: "Rarest Traits",
+        value: "Hat: Crown (0.5%)\nEyes: Laser (4%)\nBackground: Blue (12%)",
+      },
+    ]);
+
+    process.env.RARITY_EVENTS = "sale";
+    expect(await buildRarityFields(quickListingEvent("42"))).toEqual([]);
+  });
+
+  it("adds rarity to tweets only when enabled", async () => {
+    process.env.RARITY_TRAIT_COUNT = "1";
+    const event = quickSaleEvent("42", TEST_ADDRESS_1);
+    expect(await textForTweet(event)).not.toContain("Rank");
+
+    process.env.RARITY_IN_TWEETS = "true";
+    expect(await textForTweet(event)).toContain(
+      "by addr:0x1111 · Rank #42 / 10,000 · Hat: Crown (0.5%) https://"
+    );
+  });
+});
@@ -0,0 +1,223 @@
+import { existsSync } from "node:fs";
+import { mkdtemp, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { getConfig } from "../../src/config";
+import { runWithCollection } from "../../src/utils/collection-store";
+import {
+  EventStateStore,
+  getDefaultEventStateStore,
+} from "../../src/utils/event-state";
+import {
+  openStateDatabase,
+  SqliteStateBackend,
+} from "../../src/utils/sqlite-state";
+import {
+  JsonStateBackend,
+  type StoredState,
+} from "../../src/utils/state-backend";
+
+jest.mock("../../src/utils/logger", () => {
+  const base = {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  };
+  return {
+    logger: base,
+    prefixedLogger: () => base,
+    isDebugEnabled: () => false,
+    setLogLevel: jest.fn(),
+  };
+});
+
+const CONTRACT = "0xabc";
+
+const STATE: StoredState = {
+  cursor: {
+    source: "opensea-v2",
+    next: "cursor-1",
+    lastTimestamp: 1000,
+    lastId: null,
+  },
+  lastBlock: 42,
+  maxProcessedTimestamp: 1000,
+  windowSeconds: 300,
+  keys: ["sale|1|900", "sale|2|1000"],
+};
+
+describe("state backends", () => {
+  let dir: string;
+  let jsonFile: string;
+  let dbPath: string;
+
+  const sqliteBackend = (legacyFile?: string) =>
+    new SqliteStateBackend({ dbPath, contract: CONTRACT, legacyFile });
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "state-backend-"));
+    jsonFile = join(dir, `opensea-events-state-${CONTRACT}.json`);
+    dbPath = join(dir, "state.sqlite");
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  describe("JsonStateBackend", () => {
+    it("keeps the existing file layout and leaves no temp file", async () => {
+      const backend = new JsonStateBackend(jsonFile);
+      expect(await backend.load()).toBeUndefined();
+
+      await backend.save(STATE);
+      expect(JSON.parse(await readFile(jsonFile, "utf8"))).toEqual({
+        cursor: STATE.cursor,
+        watermark: {
+          maxProcessedTimestamp: 1000,
+          windowSeconds: 300,
+          keys: STATE.keys,
+        },
+        lastBlock: 42,
+      });
+      expect(await readdir(dir)).toEqual([
+        `opensea-events-state-${CONTRACT}.json`,
+      ]);
+      expect(await backend.load()).toEqual(STATE);
+    });
+
+    it("keeps the last of several concurrent saves", async () => {
+      const backend = new JsonStateBackend(jsonFile);
+      const blocks = [1, 2, 3, 4, 5, 6, 7, 8];
+      await Promise.all(
+        blocks.map((lastBlock) => backend.save({ ...STATE, lastBlock }))
+      );
+      expect((await backend.load())?.lastBlock).toBe(8);
+      expect(await readdir(dir)).toEqual([
+        `opensea-events-state-${CONTRACT}.json`,
+      ]);
+    });
+  });
+
+  describe("SqliteStateBackend", () => {
+    it("saves new keys and prunes old ones incrementally", async () => {
+      const backend = sqliteBackend();
+      expect(await backend.load()).toBeUndefined();
+
+      await backend.save(STATE, { addedKeys: STATE.keys, pruneBefore: 0 });
+      expect(await backend.load()).toEqual(STATE);
+
+      await backend.save(
+        {
+          ...STATE,
+          cursor: null,
+          maxProcessedTimestamp: 1300,
+          keys: ["sale|2|1000", "sale|3|1300"],
+        },
+        { addedKeys: ["sale|3|1300"], pruneBefore: 1000 }
+      );
+      const loaded = await backend.load();
+      expect(loaded?.cursor).toBeNull();
+      expect(loaded?.maxProcessedTimestamp).toBe(1300);
+      expect(loaded?.keys.sort()).toEqual(["sale|2|1000", "sale|3|1300"]);
+    });
+
+    it("keeps collections apart in one database", async () => {
+      await sqliteBackend().save(STATE, {
+        addedKeys: STATE.keys,
+        pruneBefore: 0,
+      });
+      const other = new SqliteStateBackend({ dbPath, contract: "0xdef" });
+      expect(await other.load()).toBeUndefined();
+    });
+
+    it("migrates a JSON state file once", async () => {
+      await new JsonStateBackend(jsonFile).save(STATE);
+
+      expect(await sqliteBackend(jsonFile).load()).toEqual(STATE);
+      expect(existsSync(jsonFile)).toBe(false);
+      expect(existsSync(`${jsonFile}.migrated`)).toBe(true);
+
+      // Later loads read the database, even if a JSON file shows up again
+      await writeFile(jsonFile, "{}");
+      expect(await sqliteBackend(jsonFile).load()).toEqual(STATE);
+      const db = await openStateDatabase(dbPath);
+      expect(db.prepare("SELECT COUNT(*) FROM seen_keys").pluck().get()).toBe(
+        2
+      );
+    });
+  });
+
+  describe("EventStateStore", () => {
+    const createStore = () =>
+      new EventStateStore({
+        backend: sqliteBackend(),
+        windowSeconds: 300,
+        enablePersistence: true,
+      });
+
+    it("restores cursor and seen keys after a restart", async () => {
+      const store = createStore();
+      await store.load();
+      store.markProcessed(["sale|1|900", "sale|2|1000"]);
+      store.setCursor(STATE.cursor as NonNullable<StoredState["cursor"]>);
+      await store.flush();
+      store.markProcessed(["sale|3|1300"]);
+      await store.flush();
+
+      const restored = createStore();
+      await restored.load();
+      expect(restored.getCursor()).toEqual(STATE.cursor);
+      // Outside the 300s window of the newest key
+      expect(restored.hasKey("sale|1|900")).toBe(false);
+      expect(restored.hasKey("sale|2|1000")).toBe(true);
+      expect(restored.hasKey("sale|3|1300")).toBe(true);
+    });
+
+    it("reads state another instance saved after a reload", async () => {
+      const standby = createStore();
+      await standby.load();
+      expect(standby.getCursor()).toBeNull();
+
+      // The primary keeps posting while the standby waits for the lock
+      const primary = createStore();
+      await primary.load();
+      primary.markProcessed(["sale|2|1000"]);
+      primary.setCursor(STATE.cursor as NonNullable<StoredState["cursor"]>);
+      primary.setLastBlock(42);
+      await primary.flush();
+
+      await standby.reload();
+      expect(standby.getCursor()).toEqual(STATE.cursor);
+      expect(standby.getLastBlock()).toBe(42);
+      expect(standby.hasKey("sale|2|1000")).toBe(true);
+    });
+
+    it("keeps the same contract on two chains apart", () => {
+      const env = { ...process.env };
+      process.env.DISCORD_EVENTS = "111=sale";
+      process.env.COLLECTIONS = JSON.stringify([
+        { tokenAddress: "0xAbC", chain: "ethereum" },
+        { tokenAddress: "0xabc", chain: "base" },
+      ]);
+      try {
+        const [ethereum, base] = getConfig().collections;
+        const ethereumStore = runWithCollection(ethereum, () =>
+          getDefaultEventStateStore()
+        );
+        ethereumStore.setLastBlock(10);
+
+        const baseStore = runWithCollection(base, () =>
+          getDefaultEventStateStore()
+        );
+        expect(baseStore).not.toBe(ethereumStore);
+        expect(baseStore.getLastBlock()).toBeNull();
+        expect(
+          runWithCollection(ethereum, () => getDefaultEventStateStore())
+        ).toBe(ethereumStore);
+      } finally {
+        process.env = env;
+      }
+    });
+  });
+});
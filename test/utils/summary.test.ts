@@ -0,0 +1,250 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { CollectionConfig, SummaryConfig } from "../../src/config";
+import { createOpenSeaMock } from "../fixtures";
+import {
+  createBurnEvent,
+  createMintEvent,
+  createSaleEvent,
+  TEST_BUYER_1,
+  TEST_MINTER_1,
+  TEST_SELLER_1,
+} from "../helpers";
+
+jest.mock("../../src/utils/logger", () => {
+  const base = {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  };
+  return {
+    logger: base,
+    prefixedLogger: () => base,
+    isDebugEnabled: () => false,
+    setLogLevel: jest.fn(),
+  };
+});
+
+jest.mock("../../src/opensea", () =>
+  createOpenSeaMock(async (address: string) => `user:${address.slice(0, 6)}`)
+);
+
+import {
+  SummaryScheduler,
+  summaryFields,
+  summaryTweet,
+} from "../../src/summary";
+import { runWithCollection } from "../../src/utils/collection-store";
+import {
+  addSummaryEvents,
+  emptySummaryStats,
+  latestSummaryBoundary,
+  mostActiveWallets,
+  type Summary,
+  salesCount,
+} from "../../src/utils/summary-stats";
+
+const COLLECTION = {
+  chain: "ethereum",
+  tokenAddress: "0x123",
+} as CollectionConfig;
+
+const ETH = "000000000000000000";
+const HOUR = 3600;
+const seconds = (iso: string) => Date.parse(iso) / 1000;
+const START = seconds("2025-10-09T00:00:00Z");
+
+const sale = (id: string, eth: string, timestamp: number, symbol = "ETH") => {
+  const event = createSaleEvent(
+    id,
+    TEST_BUYER_1,
+    TEST_SELLER_1,
+    `${eth}${ETH}`
+  );
+  return {
+    ...event,
+    event_timestamp: timestamp,
+    payment: event.payment && { ...event.payment, symbol },
+  };
+};
+
+const events = () => [
+  sale("1", "1", START + HOUR),
+  sale("2", "3", START + 2 * HOUR, "WETH"),
+  sale("3", "9", START - HOUR),
+  createMintEvent("4", TEST_MINTER_1, START + 3 * HOUR),
+  createBurnEvent("5", TEST_SELLER_1, START + 4 * HOUR),
+];
+
+describe("summary stats", () => {
+  it("counts sales, volume, wallets, mints and burns since the start", () => {
+    const stats = emptySummaryStats("daily", START, 1.5);
+    addSummaryEvents(stats, events());
+    expect(salesCount(stats)).toBe(2);
+    expect(stats.volume).toEqual({
+      ETH: { count: 2, quantity: `4${ETH}`, decimals: 18 },
+    });
+    expect(stats.topSale).toMatchObject({
+      tokenId: "2",
+      imageUrl: "https://example.com/2.png",
+      payment: { quantity: `3${ETH}`, symbol: "WETH" },
+    });
+    expect(stats.buyers).toEqual([TEST_BUYER_1]);
+    expect(stats.sellers).toEqual([TEST_SELLER_1]);
+    expect(stats).toMatchObject({ mints: 1, burns: 1, floorStart: 1.5 });
+    expect(mostActiveWallets(stats, 2)).toEqual([
+      { address: TEST_SELLER_1, events: 3 },
+      { address: TEST_BUYER_1, events: 2 },
+    ]);
+  });
+
+  it("renders the figures for the embed and the tweet", async () => {
+    const stats = emptySummaryStats("daily", START, 2);
+    addSummaryEvents(stats, events());
+    const summary: Summary = {
+      ...stats,
+      end: START + 24 * HOUR,
+      floorEnd: 2.5,
+    };
+    expect(await summaryFields(summary)).toEqual([
+      { name: "Sales", value: "2" },
+      { name: "Volume", value: "4 ETH" },
+      { name: "Average sale", value: "2 ETH" },
+      { name: "Top sale", value: "Test NFT #2 for 3 ETH" },
+      { name: "Buyers / sellers", value: "1 / 1" },
+      { name: "Mints / burns", value: "1 / 1" },
+      { name: "Floor", value: "2 → 2.5 ETH (+25.0%)" },
+      {
+        name: "Most active",
+        value: `user:${TEST_SELLER_1.slice(0, 6)} (3), user:${TEST_BUYER_1.slice(0, 6)} (2), user:${TEST_MINTER_1.slice(0, 6)} (1)`,
+      },
+    ]);
+    const tweet = await runWithCollection(COLLECTION, () =>
+      summaryTweet(summary)
+    );
+    expect(tweet.text).toContain("Daily summary");
+    expect(tweet.text).toContain("Volume: 4 ETH");
+    expect(tweet.text).toContain("https://opensea.io/collection/test");
+    expect(tweet.images).toEqual(["https://example.com/2.png?w=10000"]);
+  });
+});
+
+describe("latestSummaryBoundary", () => {
+  const schedule = { hour: 9, timeZone: "UTC", weekday: 1 };
+  const at = (iso: string) => Date.parse(iso);
+
+  it("finds the last daily boundary", () => {
+    expect(
+      latestSummaryBoundary("daily", schedule, at("2025-10-09T12:00:00Z"))
+    ).toBe(seconds("2025-10-09T09:00:00Z"));
+    expect(
+      latestSummaryBoundary("daily", schedule, at("2025-10-09T08:59:00Z"))
+    ).toBe(seconds("2025-10-08T09:00:00Z"));
+  });
+
+  it("follows the time zone across daylight saving changes", () => {
+    const newYork = { ...schedule, timeZone: "America/New_York" };
+    expect(
+      latestSummaryBoundary("daily", newYork, at("2025-10-09T14:00:00Z"))
+    ).toBe(seconds("2025-10-09T13:00:00Z"));
+    expect(
+      latestSummaryBoundary("daily", newYork, at("2025-11-02T15:00:00Z"))
+    ).toBe(seconds("2025-11-02T14:00:00Z"));
+    const kolkata = { ...schedule, hour: 0, timeZone: "Asia/Kolkata" };
+    expect(
+      latestSummaryBoundary("daily", kolkata, at("2025-10-09T12:00:00Z"))
+    ).toBe(seconds("2025-10-08T18:30:00Z"));
+  });
+
+  it("finds the last weekly boundary on the configured day", () => {
+    // 2025-10-09 is a Thursday
+    expect(
+      latestSummaryBoundary("weekly", schedule, at("2025-10-09T12:00:00Z"))
+    ).toBe(seconds("2025-10-06T09:00:00Z"));
+    expect(
+      latestSummaryBoundary("weekly", schedule, at("2025-10-06T08:00:00Z"))
+    ).toBe(seconds("2025-09-29T09:00:00Z"));
+  });
+});
+
+describe("SummaryScheduler", () => {
+  const config: SummaryConfig = {
+    periods: ["daily"],
+    hour: 0,
+    timeZone: "UTC",
+    weekday: 1,
+    discordChannelId: "123456789012345678",
+    tweet: false,
+  };
+  let dir: string;
+  let now: number;
+  let floor: number;
+  let post: jest.Mock;
+
+  const scheduler = () =>
+    new SummaryScheduler({
+      config,
+      collections: [COLLECTION],
+      filePath: join(dir, "summaries.json"),
+      post,
+      floor: async () => floor,
+      now: () => now,
+    });
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "summary-"));
+    now = (START + 12 * HOUR) * 1000;
+    floor = 1;
+    post = jest.fn(() => Promise.resolve());
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("posts the period's summary once it ends and starts the next", async () => {
+    const summaries = scheduler();
+    await summaries.tick();
+    await runWithCollection(COLLECTION, () =>
+      summaries.record([sale("1", "2", START + 13 * HOUR)])
+    );
+    await summaries.tick();
+    expect(post).not.toHaveBeenCalled();
+
+    // A restart keeps the period so far
+    const restarted = scheduler();
+    await restarted.load();
+    now = (START + 24 * HOUR + 60) * 1000;
+    floor = 1.2;
+    await restarted.tick();
+    expect(post).toHaveBeenCalledTimes(1);
+    expect(post.mock.calls[0][0]).toMatchObject({
+      period: "daily",
+      start: START,
+      end: START + 24 * HOUR,
+      volume: { ETH: { count: 1, quantity: `2${ETH}` } },
+      floorStart: 1,
+      floorEnd: 1.2,
+    });
+
+    await restarted.tick();
+    expect(post).toHaveBeenCalledTimes(1);
+  });
+
+  it("skips a period that ended while the bot was stopped", async () => {
+    const summaries = scheduler();
+    await summaries.tick();
+    now = (START + 48 * HOUR + 60) * 1000;
+    await summaries.tick();
+    expect(post).not.toHaveBeenCalled();
+    now = (START + 72 * HOUR + 60) * 1000;
+    await summaries.tick();
+    expect(post).toHaveBeenCalledTimes(1);
+    expect(post.mock.calls[0][0]).toMatchObject({
+      start: START + 48 * HOUR,
+      end: START + 72 * HOUR,
+    });
+  });
+});